@@ -0,0 +1,2 @@
+-- Watch library folders for changes (see watcherService)
+INSERT OR IGNORE INTO settings (key, value, type) VALUES ('watch_library', 'true', 'boolean');
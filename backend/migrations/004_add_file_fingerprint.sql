@@ -0,0 +1,5 @@
+-- File fingerprint for incremental scans (size + mtime, optional partial hash)
+ALTER TABLE media ADD COLUMN file_mtime INTEGER;
+ALTER TABLE media ADD COLUMN file_hash TEXT;
+
+INSERT OR IGNORE INTO settings (key, value, type) VALUES ('scan_hash_files', 'false', 'boolean');
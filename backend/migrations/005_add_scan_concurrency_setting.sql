@@ -0,0 +1,2 @@
+-- Number of files probed in parallel during a scan
+INSERT OR IGNORE INTO settings (key, value, type) VALUES ('scan_concurrency', '4', 'number');
@@ -0,0 +1,5 @@
+-- Title of the matched TMDB entry (movie or show name), shown when reviewing matches
+ALTER TABLE media ADD COLUMN tmdb_title TEXT;
+
+-- Automatic matches below this confidence are listed for review
+INSERT OR IGNORE INTO settings (key, value, type) VALUES ('match_review_threshold', '70', 'number');
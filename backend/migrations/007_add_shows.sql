@@ -0,0 +1,101 @@
+-- TV shows, seasons and episodes with their own TMDB metadata.
+-- Episode files in media point at their show and episode.
+CREATE TABLE IF NOT EXISTS shows (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  tmdb_id INTEGER UNIQUE NOT NULL,
+  title TEXT NOT NULL,
+  original_title TEXT,
+  overview TEXT,
+  tagline TEXT,
+  status TEXT,
+  first_air_date TEXT,
+  last_air_date TEXT,
+  poster_path TEXT,
+  backdrop_path TEXT,
+  genres TEXT, -- JSON array
+  cast_members TEXT, -- JSON array
+  creator TEXT,
+  rating REAL,
+  vote_count INTEGER,
+  number_of_seasons INTEGER,
+  number_of_episodes INTEGER,
+  added_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  tmdb_fetched_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS seasons (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  show_id INTEGER NOT NULL,
+  season_number INTEGER NOT NULL,
+  name TEXT,
+  overview TEXT,
+  air_date TEXT,
+  poster_path TEXT,
+  episode_count INTEGER,
+  tmdb_fetched_at TEXT,
+  UNIQUE(show_id, season_number),
+  FOREIGN KEY(show_id) REFERENCES shows(id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS episodes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  show_id INTEGER NOT NULL,
+  season_id INTEGER NOT NULL,
+  season_number INTEGER NOT NULL,
+  episode_number INTEGER NOT NULL,
+  tmdb_id INTEGER,
+  title TEXT,
+  overview TEXT,
+  air_date TEXT,
+  still_path TEXT,
+  runtime INTEGER,
+  rating REAL,
+  vote_count INTEGER,
+  guest_stars TEXT, -- JSON array
+  UNIQUE(show_id, season_number, episode_number),
+  FOREIGN KEY(show_id) REFERENCES shows(id) ON DELETE CASCADE,
+  FOREIGN KEY(season_id) REFERENCES seasons(id) ON DELETE CASCADE
+);
+
+ALTER TABLE media ADD COLUMN show_id INTEGER REFERENCES shows(id) ON DELETE SET NULL;
+ALTER TABLE media ADD COLUMN episode_id INTEGER REFERENCES episodes(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_media_show_id ON media(show_id);
+CREATE INDEX IF NOT EXISTS idx_media_episode_id ON media(episode_id);
+
+-- Convert existing episode rows. Only show-level fields that episode data never
+-- overwrote are copied; the rest is fetched the next time the show is opened.
+INSERT OR IGNORE INTO shows (tmdb_id, title, poster_path, genres, added_at)
+SELECT tmdb_id, COALESCE(MAX(tmdb_title), MIN(title)), MAX(poster_path), MAX(genres), MIN(added_at)
+FROM media
+WHERE media_type = 'tv' AND tmdb_type = 'tv' AND tmdb_id IS NOT NULL
+GROUP BY tmdb_id;
+
+UPDATE media SET show_id = (SELECT id FROM shows WHERE shows.tmdb_id = media.tmdb_id)
+WHERE media_type = 'tv' AND tmdb_type = 'tv' AND tmdb_id IS NOT NULL;
+
+INSERT OR IGNORE INTO seasons (show_id, season_number)
+SELECT DISTINCT show_id, season_number
+FROM media
+WHERE show_id IS NOT NULL AND season_number IS NOT NULL;
+
+INSERT OR IGNORE INTO episodes (
+  show_id, season_id, season_number, episode_number,
+  title, overview, air_date, still_path, runtime, rating, vote_count
+)
+SELECT m.show_id, s.id, m.season_number, m.episode_number,
+  m.episode_title, m.overview, m.release_date,
+  CASE WHEN m.backdrop_path LIKE '%/original/%' THEN m.backdrop_path END, -- episode stills are stored at original size
+  m.runtime, m.rating, m.vote_count
+FROM media m
+JOIN seasons s ON s.show_id = m.show_id AND s.season_number = m.season_number
+WHERE m.episode_number IS NOT NULL
+ORDER BY m.id;
+
+UPDATE media SET episode_id = (
+  SELECT e.id FROM episodes e
+  WHERE e.show_id = media.show_id
+    AND e.season_number = media.season_number
+    AND e.episode_number = media.episode_number
+)
+WHERE show_id IS NOT NULL;
@@ -0,0 +1,5 @@
+-- Metadata read from NFO files, local artwork and container tags (JSON)
+ALTER TABLE media ADD COLUMN local_metadata TEXT;
+
+-- Newest mtime of the NFO/artwork files next to a video, re-probed when it changes
+ALTER TABLE media ADD COLUMN sidecar_mtime INTEGER DEFAULT 0;
@@ -0,0 +1,20 @@
+-- Ordered language preferences (replace the single default_*_language settings)
+INSERT OR IGNORE INTO settings (key, value, type)
+  SELECT 'audio_languages', json_array(value), 'json' FROM settings WHERE key = 'default_audio_language';
+INSERT OR IGNORE INTO settings (key, value, type)
+  SELECT 'subtitle_languages', json_array(value), 'json' FROM settings WHERE key = 'default_subtitle_language';
+INSERT OR IGNORE INTO settings (key, value, type) VALUES ('audio_languages', '["eng"]', 'json');
+INSERT OR IGNORE INTO settings (key, value, type) VALUES ('subtitle_languages', '["eng"]', 'json');
+DELETE FROM settings WHERE key IN ('default_audio_language', 'default_subtitle_language');
+
+-- When subtitles are turned on: off, forced, always, foreign (audio not in a subtitle language)
+INSERT OR IGNORE INTO settings (key, value, type) VALUES ('subtitle_mode', 'foreign', 'string');
+
+-- Tracks picked in the player, remembered per series
+CREATE TABLE IF NOT EXISTS series_track_preferences (
+  series_key TEXT PRIMARY KEY, -- show:<id>, tmdb:<id> or title:<title>
+  audio_language TEXT,
+  subtitle_language TEXT, -- NULL means subtitles off
+  subtitle_forced INTEGER DEFAULT 0,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
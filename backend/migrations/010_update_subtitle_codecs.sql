@@ -0,0 +1,6 @@
+-- External subtitles use FFprobe codec names like embedded ones
+UPDATE subtitle_tracks SET codec = 'subrip' WHERE is_embedded = 0 AND codec = 'srt';
+UPDATE subtitle_tracks SET codec = 'webvtt' WHERE is_embedded = 0 AND codec = 'vtt';
+
+-- Embedded ASS/SSA tracks were extracted to plain VTT, extract them again with styling
+UPDATE subtitle_tracks SET converted_path = NULL WHERE codec IN ('ass', 'ssa');
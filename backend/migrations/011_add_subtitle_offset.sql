@@ -0,0 +1,8 @@
+-- Per-track subtitle delay, applied when the track is served
+ALTER TABLE subtitle_tracks ADD COLUMN offset_ms INTEGER DEFAULT 0;
+
+-- Subtitle appearance in the player
+INSERT OR IGNORE INTO settings (key, value, type) VALUES ('subtitle_size', '100', 'number');
+INSERT OR IGNORE INTO settings (key, value, type) VALUES ('subtitle_color', '#ffffff', 'string');
+INSERT OR IGNORE INTO settings (key, value, type) VALUES ('subtitle_background', 'translucent', 'string');
+INSERT OR IGNORE INTO settings (key, value, type) VALUES ('subtitle_position', 'bottom', 'string');
@@ -0,0 +1,24 @@
+-- Intro, recap and credits ranges, one of each per media item
+CREATE TABLE IF NOT EXISTS media_markers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  media_id INTEGER NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('intro', 'recap', 'credits')),
+  start_seconds REAL NOT NULL,
+  end_seconds REAL NOT NULL,
+  source TEXT NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'detected')),
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (media_id, type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_media_markers_media ON media_markers(media_id);
+
+-- Audio fingerprints of the start of each episode, used to find intros shared across a season
+CREATE TABLE IF NOT EXISTS media_fingerprints (
+  media_id INTEGER PRIMARY KEY REFERENCES media(id) ON DELETE CASCADE,
+  file_size INTEGER, -- Fingerprint is recomputed when the file changes
+  fingerprint BLOB NOT NULL, -- Little-endian uint32 hashes, one per frame
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Look for intros in the background after a scan
+INSERT OR IGNORE INTO settings (key, value, type) VALUES ('detect_intros', 'true', 'boolean');
@@ -0,0 +1,14 @@
+-- Chapters from the container (Matroska/MP4 chapter lists)
+CREATE TABLE IF NOT EXISTS chapters (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  media_id INTEGER NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+  chapter_index INTEGER NOT NULL,
+  start_seconds REAL NOT NULL,
+  end_seconds REAL NOT NULL,
+  title TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_chapters_media ON chapters(media_id);
+
+-- Probe every file again on the next scan so existing media gets its chapters
+UPDATE media SET file_mtime = NULL, file_hash = NULL;
@@ -0,0 +1,18 @@
+-- Seek-bar preview sprite sheets in thumbnail_cache/<media id>/
+CREATE TABLE IF NOT EXISTS media_thumbnails (
+  media_id INTEGER PRIMARY KEY REFERENCES media(id) ON DELETE CASCADE,
+  file_size INTEGER, -- Sheets are generated again when the file changes
+  interval_seconds INTEGER NOT NULL,
+  tile_width INTEGER NOT NULL,
+  tile_height INTEGER NOT NULL,
+  sheet_count INTEGER NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  last_accessed_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Seconds between previews, cache size limit (least recently watched are removed first)
+-- and whether new media gets previews after a scan
+INSERT OR IGNORE INTO settings (key, value, type) VALUES ('thumbnail_interval', '10', 'number');
+INSERT OR IGNORE INTO settings (key, value, type) VALUES ('thumbnail_cache_mb', '2048', 'number');
+INSERT OR IGNORE INTO settings (key, value, type) VALUES ('generate_thumbnails', 'false', 'boolean');
@@ -0,0 +1,23 @@
+-- One row per viewing, never overwritten (playback_state only keeps the resume position)
+CREATE TABLE IF NOT EXISTS watch_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  media_id INTEGER NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+  session_id TEXT, -- Playback session it was recorded from, NULL when marked watched by hand
+  started_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  ended_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  start_position INTEGER NOT NULL DEFAULT 0,
+  end_position INTEGER NOT NULL DEFAULT 0,
+  duration_seconds INTEGER NOT NULL DEFAULT 0,
+  watched_seconds INTEGER NOT NULL DEFAULT 0, -- Time actually played, seeks don't count
+  completed INTEGER NOT NULL DEFAULT 0,
+  source TEXT NOT NULL DEFAULT 'playback' CHECK (source IN ('playback', 'manual', 'imported'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_watch_history_media ON watch_history(media_id, ended_at);
+CREATE INDEX IF NOT EXISTS idx_watch_history_ended ON watch_history(ended_at);
+
+-- Existing playback state becomes the first entry of each item
+INSERT INTO watch_history (media_id, started_at, ended_at, end_position, duration_seconds, watched_seconds, completed, source)
+SELECT media_id, last_watched_at, last_watched_at, position_seconds, duration_seconds, position_seconds, completed, 'imported'
+FROM playback_state
+WHERE last_watched_at IS NOT NULL;
@@ -0,0 +1,80 @@
+-- Household profiles, each with its own watch progress, history and player preferences
+CREATE TABLE IF NOT EXISTS users (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+  avatar_color TEXT NOT NULL DEFAULT '#14b8a6',
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Everything watched so far belongs to the first profile
+INSERT OR IGNORE INTO users (id, name) VALUES (1, 'Default');
+
+-- Resume positions, one per profile and media item
+CREATE TABLE playback_state_new (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  media_id INTEGER NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+  position_seconds INTEGER DEFAULT 0,
+  duration_seconds INTEGER NOT NULL,
+  progress_percent REAL DEFAULT 0,
+  completed INTEGER DEFAULT 0,
+  last_watched_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  watch_count INTEGER DEFAULT 1,
+  PRIMARY KEY (user_id, media_id)
+);
+
+INSERT INTO playback_state_new (user_id, media_id, position_seconds, duration_seconds, progress_percent, completed, last_watched_at, watch_count)
+SELECT 1, media_id, position_seconds, duration_seconds, progress_percent, completed, last_watched_at, watch_count FROM playback_state;
+
+DROP TABLE playback_state;
+ALTER TABLE playback_state_new RENAME TO playback_state;
+CREATE INDEX IF NOT EXISTS idx_playback_continue ON playback_state(user_id, last_watched_at, completed);
+
+CREATE TABLE watch_history_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  media_id INTEGER NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+  session_id TEXT,
+  started_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  ended_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  start_position INTEGER NOT NULL DEFAULT 0,
+  end_position INTEGER NOT NULL DEFAULT 0,
+  duration_seconds INTEGER NOT NULL DEFAULT 0,
+  watched_seconds INTEGER NOT NULL DEFAULT 0,
+  completed INTEGER NOT NULL DEFAULT 0,
+  source TEXT NOT NULL DEFAULT 'playback' CHECK (source IN ('playback', 'manual', 'imported'))
+);
+
+INSERT INTO watch_history_new (id, user_id, media_id, session_id, started_at, ended_at, start_position, end_position, duration_seconds, watched_seconds, completed, source)
+SELECT id, 1, media_id, session_id, started_at, ended_at, start_position, end_position, duration_seconds, watched_seconds, completed, source FROM watch_history;
+
+DROP TABLE watch_history;
+ALTER TABLE watch_history_new RENAME TO watch_history;
+CREATE INDEX IF NOT EXISTS idx_watch_history_media ON watch_history(user_id, media_id, ended_at);
+CREATE INDEX IF NOT EXISTS idx_watch_history_ended ON watch_history(user_id, ended_at);
+
+-- Tracks picked in the player are remembered per profile
+CREATE TABLE series_track_preferences_new (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  series_key TEXT NOT NULL, -- show:<id>, tmdb:<id> or title:<title>
+  audio_language TEXT,
+  subtitle_language TEXT, -- NULL means subtitles off
+  subtitle_forced INTEGER DEFAULT 0,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, series_key)
+);
+
+INSERT INTO series_track_preferences_new (user_id, series_key, audio_language, subtitle_language, subtitle_forced, updated_at)
+SELECT 1, series_key, audio_language, subtitle_language, subtitle_forced, updated_at FROM series_track_preferences;
+
+DROP TABLE series_track_preferences;
+ALTER TABLE series_track_preferences_new RENAME TO series_track_preferences;
+
+-- Player preferences a profile changed, the settings table keeps the defaults for new profiles
+CREATE TABLE IF NOT EXISTS user_settings (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  value TEXT NOT NULL,
+  type TEXT CHECK(type IN ('string', 'number', 'boolean', 'json')) DEFAULT 'string',
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, key)
+);
@@ -0,0 +1,11 @@
+-- Age certification of each item (US, e.g. PG-13 or TV-MA) from TMDB or an NFO file
+ALTER TABLE media ADD COLUMN certification TEXT;
+
+-- Parental controls: the highest certification a profile may watch (NULL = no limit),
+-- whether items without a known certification are allowed, and a PIN to switch to it
+ALTER TABLE users ADD COLUMN max_certification TEXT;
+ALTER TABLE users ADD COLUMN allow_unrated INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN pin_hash TEXT;
+
+-- Profile picked in a signed-in session, PIN-protected profiles must be picked with their PIN
+ALTER TABLE auth_sessions ADD COLUMN profile_id INTEGER REFERENCES users(id) ON DELETE SET NULL;
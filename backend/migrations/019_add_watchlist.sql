@@ -0,0 +1,10 @@
+-- "My List": items each profile saved to watch later, in the profile's own order
+CREATE TABLE IF NOT EXISTS watchlist (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  media_id INTEGER NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  added_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (user_id, media_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_watchlist_position ON watchlist(user_id, position);
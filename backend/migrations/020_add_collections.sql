@@ -0,0 +1,26 @@
+-- Collections of titles: made by hand ("Christmas movies") or a TMDB franchise
+CREATE TABLE IF NOT EXISTS collections (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  name TEXT NOT NULL,
+  overview TEXT,
+  poster_path TEXT,
+  backdrop_path TEXT,
+  tmdb_collection_id INTEGER UNIQUE, -- Set on automatic collections, NULL on manual ones
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Items of manual collections in their chosen order
+CREATE TABLE IF NOT EXISTS collection_items (
+  collection_id INTEGER NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+  media_id INTEGER NOT NULL REFERENCES media(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  added_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (collection_id, media_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_collection_items_media ON collection_items(media_id);
+
+-- TMDB collection (belongs_to_collection) of a movie, automatic collections list these
+ALTER TABLE media ADD COLUMN tmdb_collection_id INTEGER;
+CREATE INDEX IF NOT EXISTS idx_media_tmdb_collection ON media(tmdb_collection_id);
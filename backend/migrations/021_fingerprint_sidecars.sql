@@ -0,0 +1,3 @@
+-- Sidecars are tracked by a fingerprint of their names and mtimes, external subtitles included
+-- Old values never match one, so every file is probed once more on the next scan
+ALTER TABLE media RENAME COLUMN sidecar_mtime TO sidecar_fingerprint;
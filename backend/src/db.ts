@@ -99,6 +99,12 @@ export function insert(sql: string, params: unknown[] = []): number {
     return result.lastInsertRowid as number;
 }
 
+// Helper: Run a function inside a transaction (rolled back if it throws)
+export function transaction<T>(fn: () => T): T {
+    const database = getDb();
+    return database.transaction(fn)();
+}
+
 // Helper: Execute raw SQL
 export function exec(sql: string): void {
     const database = getDb();
@@ -112,5 +118,6 @@ export default {
     getAll,
     run,
     insert,
+    transaction,
     exec,
 };
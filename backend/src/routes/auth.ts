@@ -0,0 +1,244 @@
+/**
+ * Auth Routes - Sign in, sign out and account management
+ */
+
+import { Router, Request } from 'express';
+import rateLimit from 'express-rate-limit';
+import {
+    hasAccounts,
+    getAccounts,
+    getAccount,
+    findAccountByUsername,
+    createAccount,
+    setPassword,
+    setRole,
+    deleteAccount,
+    isLastAdmin,
+    authenticate,
+    createSession,
+    deleteSession,
+    resolveSession,
+    setSessionCookie,
+    clearSessionCookie,
+    requireAuth,
+    requireAdmin,
+    ACCOUNT_ROLES,
+    Account,
+    AccountRole
+} from '../services/authService.js';
+
+const router = Router();
+
+// Failed sign-ins per address, successful ones don't count
+const loginLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 10,
+    skipSuccessfulRequests: true,
+    message: { error: 'Too many sign-in attempts, please try again later' }
+});
+
+const MIN_PASSWORD_LENGTH = 8;
+
+function isUsername(value: unknown): value is string {
+    return typeof value === 'string' && /^[a-zA-Z0-9._-]{3,32}$/.test(value);
+}
+
+function isPassword(value: unknown): value is string {
+    return typeof value === 'string' && value.length >= MIN_PASSWORD_LENGTH && value.length <= 256;
+}
+
+function isRole(value: unknown): value is AccountRole {
+    return (ACCOUNT_ROLES as unknown[]).includes(value);
+}
+
+const USERNAME_ERROR = 'username must be 3 to 32 letters, digits, dots, dashes or underscores';
+const PASSWORD_ERROR = `password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+
+function signIn(req: Request, account: Account): string {
+    return createSession(account.id, req.get('user-agent')?.slice(0, 200) ?? null);
+}
+
+// Hashing is async, two setup requests must not both get through
+let setupInProgress = false;
+
+// GET /api/auth/me - Signed-in account, or whether the first admin still has to be created
+router.get('/me', (req, res) => {
+    try {
+        const resolved = resolveSession(req);
+        res.json({ account: resolved?.account ?? null, setupRequired: !hasAccounts() });
+    } catch (err) {
+        console.error('Error fetching account:', err);
+        res.status(500).json({ error: 'Failed to fetch account' });
+    }
+});
+
+// POST /api/auth/setup - Create the first admin account (only while there are no accounts)
+router.post('/setup', loginLimiter, async (req, res) => {
+    try {
+        if (hasAccounts() || setupInProgress) {
+            return res.status(409).json({ error: 'Setup has already been completed' });
+        }
+
+        const { username, password } = req.body;
+        if (!isUsername(username)) {
+            return res.status(400).json({ error: USERNAME_ERROR });
+        }
+        if (!isPassword(password)) {
+            return res.status(400).json({ error: PASSWORD_ERROR });
+        }
+
+        setupInProgress = true;
+        const account = await createAccount(username, password, 'admin').finally(() => {
+            setupInProgress = false;
+        });
+        const token = signIn(req, account);
+        setSessionCookie(req, res, token);
+        res.status(201).json({ account, token });
+    } catch (err) {
+        console.error('Error creating admin account:', err);
+        res.status(500).json({ error: 'Failed to create admin account' });
+    }
+});
+
+// POST /api/auth/login - Sign in with username and password
+router.post('/login', loginLimiter, async (req, res) => {
+    try {
+        const { username, password } = req.body;
+        if (typeof username !== 'string' || typeof password !== 'string') {
+            return res.status(400).json({ error: 'username and password are required' });
+        }
+
+        const account = await authenticate(username, password);
+        if (!account) {
+            return res.status(401).json({ error: 'Invalid username or password' });
+        }
+
+        const token = signIn(req, account);
+        setSessionCookie(req, res, token);
+        console.log(`🔓 Signed in: ${account.username}`);
+        res.json({ account, token });
+    } catch (err) {
+        console.error('Error signing in:', err);
+        res.status(500).json({ error: 'Failed to sign in' });
+    }
+});
+
+// POST /api/auth/logout - End the current session
+router.post('/logout', (req, res) => {
+    try {
+        const resolved = resolveSession(req);
+        if (resolved) {
+            deleteSession(resolved.sessionId);
+        }
+        clearSessionCookie(res);
+        res.json({ success: true });
+    } catch (err) {
+        console.error('Error signing out:', err);
+        res.status(500).json({ error: 'Failed to sign out' });
+    }
+});
+
+// PUT /api/auth/password - Change the signed-in account's password
+router.put('/password', requireAuth, async (req, res) => {
+    try {
+        const { currentPassword, newPassword } = req.body;
+        const account: Account = res.locals.account;
+
+        if (typeof currentPassword !== 'string' || !(await authenticate(account.username, currentPassword))) {
+            return res.status(400).json({ error: 'Current password is incorrect' });
+        }
+        if (!isPassword(newPassword)) {
+            return res.status(400).json({ error: PASSWORD_ERROR });
+        }
+
+        await setPassword(account.id, newPassword, res.locals.authSessionId);
+        res.json({ success: true });
+    } catch (err) {
+        console.error('Error changing password:', err);
+        res.status(500).json({ error: 'Failed to change password' });
+    }
+});
+
+// GET /api/auth/accounts - All accounts
+router.get('/accounts', requireAuth, requireAdmin, (req, res) => {
+    try {
+        res.json({ data: getAccounts() });
+    } catch (err) {
+        console.error('Error fetching accounts:', err);
+        res.status(500).json({ error: 'Failed to fetch accounts' });
+    }
+});
+
+// POST /api/auth/accounts - Add an account
+router.post('/accounts', requireAuth, requireAdmin, async (req, res) => {
+    try {
+        const { username, password, role = 'viewer' } = req.body;
+        if (!isUsername(username)) {
+            return res.status(400).json({ error: USERNAME_ERROR });
+        }
+        if (!isPassword(password)) {
+            return res.status(400).json({ error: PASSWORD_ERROR });
+        }
+        if (!isRole(role)) {
+            return res.status(400).json({ error: `role must be one of: ${ACCOUNT_ROLES.join(', ')}` });
+        }
+        if (findAccountByUsername(username)) {
+            return res.status(409).json({ error: 'An account with this username already exists' });
+        }
+
+        res.status(201).json(await createAccount(username, password, role));
+    } catch (err) {
+        console.error('Error creating account:', err);
+        res.status(500).json({ error: 'Failed to create account' });
+    }
+});
+
+// PUT /api/auth/accounts/:id - Change an account's role or reset its password
+router.put('/accounts/:id', requireAuth, requireAdmin, async (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (!getAccount(id)) {
+            return res.status(404).json({ error: 'Account not found' });
+        }
+
+        const { role, password } = req.body;
+        if (role !== undefined && !isRole(role)) {
+            return res.status(400).json({ error: `role must be one of: ${ACCOUNT_ROLES.join(', ')}` });
+        }
+        if (password !== undefined && !isPassword(password)) {
+            return res.status(400).json({ error: PASSWORD_ERROR });
+        }
+        if (role === 'viewer' && isLastAdmin(id)) {
+            return res.status(409).json({ error: 'The last admin cannot be made a viewer' });
+        }
+
+        if (role !== undefined) setRole(id, role);
+        if (password !== undefined) await setPassword(id, password);
+
+        res.json(getAccount(id));
+    } catch (err) {
+        console.error('Error updating account:', err);
+        res.status(500).json({ error: 'Failed to update account' });
+    }
+});
+
+// DELETE /api/auth/accounts/:id - Remove an account and sign it out everywhere
+router.delete('/accounts/:id', requireAuth, requireAdmin, (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (!getAccount(id)) {
+            return res.status(404).json({ error: 'Account not found' });
+        }
+        if (isLastAdmin(id)) {
+            return res.status(409).json({ error: 'The last admin cannot be deleted' });
+        }
+
+        deleteAccount(id);
+        res.json({ success: true });
+    } catch (err) {
+        console.error('Error deleting account:', err);
+        res.status(500).json({ error: 'Failed to delete account' });
+    }
+});
+
+export default router;
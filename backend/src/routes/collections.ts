@@ -0,0 +1,241 @@
+/**
+ * Collection Routes - Manual collections and TMDB franchises
+ * Everyone can browse, only admins change collections.
+ */
+
+import express, { Router, Response } from 'express';
+import { getOne } from '../db.js';
+import {
+    getCollections,
+    getCollection,
+    getCollectionItems,
+    createCollection,
+    updateCollection,
+    setCollectionArtwork,
+    deleteCollection,
+    addCollectionItem,
+    removeCollectionItem,
+    reorderCollection,
+    Collection
+} from '../services/collectionService.js';
+import { saveUploadedImage } from '../services/imageCacheService.js';
+import { requireAdmin } from '../services/authService.js';
+
+const router = Router();
+
+const MAX_NAME_LENGTH = 100;
+
+// Accepted artwork uploads, sent as the raw request body
+const IMAGE_TYPES: Record<string, string> = {
+    'image/jpeg': '.jpg',
+    'image/png': '.png',
+    'image/webp': '.webp',
+};
+const MAX_IMAGE_SIZE = '10mb';
+
+function parseName(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+    const name = value.trim();
+    return name && name.length <= MAX_NAME_LENGTH ? name : null;
+}
+
+function parseOverview(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Look up the :id collection, answering 404 when it doesn't exist
+ */
+function findCollection(id: string, res: Response): Collection | null {
+    const collection = getCollection(parseInt(id));
+    if (!collection) {
+        res.status(404).json({ error: 'Collection not found' });
+        return null;
+    }
+    return collection;
+}
+
+/**
+ * Items of franchises follow TMDB, answering 409 for them
+ */
+function requireManual(collection: Collection, res: Response): boolean {
+    if (collection.tmdb_collection_id !== null) {
+        res.status(409).json({ error: 'Automatic collections follow TMDB and cannot be edited' });
+        return false;
+    }
+    return true;
+}
+
+// GET /api/collections - All collections with their item counts
+router.get('/', (req, res) => {
+    try {
+        res.json({ data: getCollections(res.locals.profileId) });
+    } catch (err) {
+        console.error('Error fetching collections:', err);
+        res.status(500).json({ error: 'Failed to fetch collections' });
+    }
+});
+
+// GET /api/collections/:id - A collection with its items in order
+router.get('/:id', (req, res) => {
+    try {
+        const collection = findCollection(req.params.id, res);
+        if (!collection) return;
+
+        res.json({ ...collection, items: getCollectionItems(collection, res.locals.profileId) });
+    } catch (err) {
+        console.error('Error fetching collection:', err);
+        res.status(500).json({ error: 'Failed to fetch collection' });
+    }
+});
+
+// POST /api/collections - Create a manual collection
+router.post('/', requireAdmin, (req, res) => {
+    try {
+        const name = parseName(req.body.name);
+        if (!name) {
+            return res.status(400).json({ error: `name is required (at most ${MAX_NAME_LENGTH} characters)` });
+        }
+
+        res.status(201).json(createCollection(name, parseOverview(req.body.overview)));
+    } catch (err) {
+        console.error('Error creating collection:', err);
+        res.status(500).json({ error: 'Failed to create collection' });
+    }
+});
+
+// PUT /api/collections/:id - Rename a collection or change its description
+router.put('/:id', requireAdmin, (req, res) => {
+    try {
+        const collection = findCollection(req.params.id, res);
+        if (!collection) return;
+
+        const name = req.body.name !== undefined ? parseName(req.body.name) : undefined;
+        if (name === null) {
+            return res.status(400).json({ error: `name must be 1 to ${MAX_NAME_LENGTH} characters` });
+        }
+        const overview = req.body.overview !== undefined ? parseOverview(req.body.overview) : undefined;
+
+        res.json(updateCollection(collection.id, { name, overview }));
+    } catch (err) {
+        console.error('Error updating collection:', err);
+        res.status(500).json({ error: 'Failed to update collection' });
+    }
+});
+
+// DELETE /api/collections/:id - Remove a manual collection, its titles stay in the library
+router.delete('/:id', requireAdmin, (req, res) => {
+    try {
+        const collection = findCollection(req.params.id, res);
+        if (!collection || !requireManual(collection, res)) return;
+
+        deleteCollection(collection.id);
+        res.json({ success: true });
+    } catch (err) {
+        console.error('Error deleting collection:', err);
+        res.status(500).json({ error: 'Failed to delete collection' });
+    }
+});
+
+// PUT /api/collections/:id/artwork/:kind - Upload a poster or backdrop (image body)
+router.put(
+    '/:id/artwork/:kind',
+    requireAdmin,
+    express.raw({ type: Object.keys(IMAGE_TYPES), limit: MAX_IMAGE_SIZE }),
+    (req, res) => {
+        try {
+            const collection = findCollection(req.params.id, res);
+            if (!collection) return;
+
+            const kind = req.params.kind;
+            if (kind !== 'poster' && kind !== 'backdrop') {
+                return res.status(400).json({ error: 'kind must be poster or backdrop' });
+            }
+
+            const ext = IMAGE_TYPES[req.get('content-type')?.split(';')[0].trim() || ''];
+            if (!ext || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+                return res.status(415).json({ error: 'Send a JPEG, PNG or WebP image as the request body' });
+            }
+
+            res.json(setCollectionArtwork(collection.id, kind, saveUploadedImage(req.body, ext)));
+        } catch (err) {
+            console.error('Error saving collection artwork:', err);
+            res.status(500).json({ error: 'Failed to save artwork' });
+        }
+    }
+);
+
+// DELETE /api/collections/:id/artwork/:kind - Go back to the default poster or backdrop
+router.delete('/:id/artwork/:kind', requireAdmin, (req, res) => {
+    try {
+        const collection = findCollection(req.params.id, res);
+        if (!collection) return;
+
+        const kind = req.params.kind;
+        if (kind !== 'poster' && kind !== 'backdrop') {
+            return res.status(400).json({ error: 'kind must be poster or backdrop' });
+        }
+
+        res.json(setCollectionArtwork(collection.id, kind, null));
+    } catch (err) {
+        console.error('Error removing collection artwork:', err);
+        res.status(500).json({ error: 'Failed to remove artwork' });
+    }
+});
+
+// POST /api/collections/:id/items - Add a media item at the end of a manual collection
+router.post('/:id/items', requireAdmin, (req, res) => {
+    try {
+        const collection = findCollection(req.params.id, res);
+        if (!collection || !requireManual(collection, res)) return;
+
+        const mediaId = parseInt(req.body.mediaId);
+        if (isNaN(mediaId) || !getOne('SELECT id FROM media WHERE id = ?', [mediaId])) {
+            return res.status(404).json({ error: 'Media not found' });
+        }
+
+        addCollectionItem(collection.id, mediaId);
+        res.status(201).json({ success: true });
+    } catch (err) {
+        console.error('Error adding to collection:', err);
+        res.status(500).json({ error: 'Failed to add to collection' });
+    }
+});
+
+// PUT /api/collections/:id/items/order - Reorder a manual collection, body { mediaIds: [...] }
+router.put('/:id/items/order', requireAdmin, (req, res) => {
+    try {
+        const collection = findCollection(req.params.id, res);
+        if (!collection || !requireManual(collection, res)) return;
+
+        const { mediaIds } = req.body;
+        if (!Array.isArray(mediaIds) || !mediaIds.every(id => Number.isInteger(id))) {
+            return res.status(400).json({ error: 'mediaIds must be an array of media ids' });
+        }
+
+        reorderCollection(collection.id, mediaIds);
+        res.json({ ...collection, items: getCollectionItems(collection, res.locals.profileId) });
+    } catch (err) {
+        console.error('Error reordering collection:', err);
+        res.status(500).json({ error: 'Failed to reorder collection' });
+    }
+});
+
+// DELETE /api/collections/:id/items/:mediaId - Take a media item out of a manual collection
+router.delete('/:id/items/:mediaId', requireAdmin, (req, res) => {
+    try {
+        const collection = findCollection(req.params.id, res);
+        if (!collection || !requireManual(collection, res)) return;
+
+        if (!removeCollectionItem(collection.id, parseInt(req.params.mediaId))) {
+            return res.status(404).json({ error: 'Not in this collection' });
+        }
+
+        res.json({ success: true });
+    } catch (err) {
+        console.error('Error removing from collection:', err);
+        res.status(500).json({ error: 'Failed to remove from collection' });
+    }
+});
+
+export default router;
@@ -0,0 +1,55 @@
+/**
+ * History Routes - Every viewing of every media item by the active profile
+ */
+
+import { Router } from 'express';
+import { getHistory, deleteHistoryEntry } from '../services/historyService.js';
+
+const router = Router();
+
+// GET /api/history - List viewings, most recent first (optionally of one media item)
+router.get('/', (req, res) => {
+    try {
+        const page = Math.max(1, parseInt(req.query.page as string) || 1);
+        const limit = Math.min(200, parseInt(req.query.limit as string) || 50);
+        const offset = (page - 1) * limit;
+        const mediaId = req.query.mediaId !== undefined ? parseInt(req.query.mediaId as string) : undefined;
+
+        if (mediaId !== undefined && isNaN(mediaId)) {
+            return res.status(400).json({ error: 'mediaId must be a number' });
+        }
+
+        const { data, total } = getHistory(res.locals.profileId, { mediaId, limit, offset });
+
+        res.json({
+            data,
+            pagination: {
+                page,
+                limit,
+                total,
+                totalPages: Math.ceil(total / limit),
+            },
+        });
+    } catch (err) {
+        console.error('Error fetching watch history:', err);
+        res.status(500).json({ error: 'Failed to fetch watch history' });
+    }
+});
+
+// DELETE /api/history/:id - Remove a single viewing
+router.delete('/:id', (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+
+        if (!deleteHistoryEntry(res.locals.profileId, id)) {
+            return res.status(404).json({ error: 'History entry not found' });
+        }
+
+        res.json({ success: true });
+    } catch (err) {
+        console.error('Error deleting history entry:', err);
+        res.status(500).json({ error: 'Failed to delete history entry' });
+    }
+});
+
+export default router;
@@ -0,0 +1,101 @@
+/**
+ * Marker Routes - Intro, recap and credits markers
+ */
+
+import { Router } from 'express';
+import { getOne } from '../db.js';
+import { getMarkers, setMarker, deleteMarker, queueIntroDetection, MARKER_TYPES, MarkerType } from '../services/markerService.js';
+import { requireAdmin } from '../services/authService.js';
+import { requireAllowedMedia } from '../services/parentalControlService.js';
+
+const router = Router();
+
+function isMarkerType(value: string): value is MarkerType {
+    return (MARKER_TYPES as string[]).includes(value);
+}
+
+// POST /api/markers/detect - Look for intros in the season of a media item again (admin only)
+router.post('/detect', requireAdmin, (req, res) => {
+    try {
+        const mediaId = parseInt(req.body.mediaId);
+        if (!getOne('SELECT id FROM media WHERE id = ?', [mediaId])) {
+            return res.status(404).json({ error: 'Media not found' });
+        }
+
+        if (!queueIntroDetection(mediaId, true)) {
+            return res.status(400).json({ error: 'Intros can only be detected for episodes of a season with other episodes' });
+        }
+
+        res.json({ success: true, queued: true });
+    } catch (err) {
+        console.error('Error queueing intro detection:', err);
+        res.status(500).json({ error: 'Failed to queue intro detection' });
+    }
+});
+
+// Markers of titles the profile may not watch are refused
+router.use('/:id', requireAllowedMedia);
+
+// GET /api/markers/:mediaId - Markers of a media item
+router.get('/:mediaId', (req, res) => {
+    try {
+        const mediaId = parseInt(req.params.mediaId);
+        res.json({ data: getMarkers(mediaId) });
+    } catch (err) {
+        console.error('Error fetching markers:', err);
+        res.status(500).json({ error: 'Failed to fetch markers' });
+    }
+});
+
+// PUT /api/markers/:mediaId/:type - Set a marker by hand (admin only)
+router.put('/:mediaId/:type', requireAdmin, (req, res) => {
+    try {
+        const mediaId = parseInt(req.params.mediaId);
+        const { type } = req.params;
+        const { start, end } = req.body;
+
+        if (!isMarkerType(type)) {
+            return res.status(400).json({ error: `Marker type must be one of: ${MARKER_TYPES.join(', ')}` });
+        }
+
+        const media = getOne<{ duration_seconds: number }>('SELECT duration_seconds FROM media WHERE id = ?', [mediaId]);
+        if (!media) {
+            return res.status(404).json({ error: 'Media not found' });
+        }
+
+        const valid = (value: unknown): value is number =>
+            typeof value === 'number' && Number.isFinite(value) && value >= 0
+            && (!media.duration_seconds || value <= media.duration_seconds);
+        if (!valid(start) || !valid(end) || end <= start) {
+            return res.status(400).json({ error: 'start and end must be seconds within the media, with end after start' });
+        }
+
+        res.json(setMarker(mediaId, type, start, end));
+    } catch (err) {
+        console.error('Error saving marker:', err);
+        res.status(500).json({ error: 'Failed to save marker' });
+    }
+});
+
+// DELETE /api/markers/:mediaId/:type - Remove a marker (admin only)
+router.delete('/:mediaId/:type', requireAdmin, (req, res) => {
+    try {
+        const mediaId = parseInt(req.params.mediaId);
+        const { type } = req.params;
+
+        if (!isMarkerType(type)) {
+            return res.status(400).json({ error: `Marker type must be one of: ${MARKER_TYPES.join(', ')}` });
+        }
+
+        if (!deleteMarker(mediaId, type)) {
+            return res.status(404).json({ error: 'Marker not found' });
+        }
+
+        res.json({ success: true });
+    } catch (err) {
+        console.error('Error deleting marker:', err);
+        res.status(500).json({ error: 'Failed to delete marker' });
+    }
+});
+
+export default router;
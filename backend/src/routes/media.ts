@@ -6,9 +6,15 @@ import { Router } from 'express';
 import path from 'path';
 import fs from 'fs';
 import db, { getAll, getOne, run } from '../db.js';
-import { scanDirectory, scanAllPaths, cleanupMissingFiles } from '../scanner/fileScanner.js';
-import { enrichAllMedia, enrichMedia } from '../services/tmdbService.js';
-import { Media, SubtitleTrack, AudioTrack, PlaybackState } from '../types/db.js';
+import { enrichMedia, getMatchCandidates, pinMatch } from '../services/tmdbService.js';
+import { startScan, cancelScan, getScanStatus, scanEvents } from '../services/scanJobService.js';
+import { applyShowInfo } from '../services/showService.js';
+import { getWatchCount } from '../services/historyService.js';
+import { isOnWatchlist } from '../services/watchlistService.js';
+import { getMediaCollections } from '../services/collectionService.js';
+import { requireAdmin } from '../services/authService.js';
+import { certificationFilter, requireAllowedMedia } from '../services/parentalControlService.js';
+import { Media, SubtitleTrack, AudioTrack, Chapter, PlaybackState } from '../types/db.js';
 
 const router = Router();
 
@@ -43,8 +49,10 @@ router.get('/', (req, res) => {
         const groupBySeries = req.query.group_by_series === 'true';
         const tmdbId = req.query.tmdb_id ? parseInt(req.query.tmdb_id as string) : undefined;
 
-        let whereClause = '1=1';
-        const params: unknown[] = [];
+        // Parental controls of the active profile
+        const allowed = certificationFilter(res.locals.profileId);
+        let whereClause = allowed.sql;
+        const params: unknown[] = [...allowed.params];
 
         if (type && type !== 'all') {
             whereClause += ' AND media_type = ?';
@@ -67,9 +75,9 @@ router.get('/', (req, res) => {
         const sortOrder = order.toUpperCase() === 'ASC' ? 'ASC' : 'DESC';
 
         // Grouping logic (Consolidated for both Count and Data queries)
-        // Group by tmdb_id for TV shows, otherwise by ID
+        // Group episodes by show (or TMDB id until the show is linked), otherwise by ID
         const groupClause = groupBySeries
-            ? "GROUP BY CASE WHEN media_type = 'tv' AND tmdb_id IS NOT NULL THEN tmdb_id ELSE id END"
+            ? "GROUP BY CASE WHEN show_id IS NOT NULL THEN 'show:' || show_id WHEN media_type = 'tv' AND tmdb_id IS NOT NULL THEN 'tmdb:' || tmdb_id ELSE id END"
             : "";
 
         // Get total count for pagination
@@ -111,7 +119,8 @@ router.get('/', (req, res) => {
                 const states = getAll<PlaybackState>(
                     `SELECT media_id, position_seconds, duration_seconds, completed 
                      FROM playback_state 
-                     WHERE media_id IN (${mediaIds})`
+                     WHERE user_id = ? AND media_id IN (${mediaIds})`,
+                    [res.locals.profileId]
                 );
 
                 // Merge state into media objects
@@ -129,7 +138,7 @@ router.get('/', (req, res) => {
         }
 
         res.json({
-            data: paginatedMedia,
+            data: groupBySeries ? applyShowInfo(paginatedMedia) : paginatedMedia,
             pagination: {
                 page,
                 limit,
@@ -144,7 +153,7 @@ router.get('/', (req, res) => {
 });
 
 // GET /api/media/:id - Get single media details
-router.get('/:id', (req, res) => {
+router.get('/:id', requireAllowedMedia, (req, res) => {
     try {
         const id = parseInt(req.params.id);
 
@@ -169,17 +178,28 @@ router.get('/:id', (req, res) => {
             [id]
         );
 
+        const chapters = getAll<Chapter>(
+            `SELECT * FROM chapters WHERE media_id = ? ORDER BY chapter_index`,
+            [id]
+        );
+
         // Get playback state
         const playbackState = getOne<PlaybackState>(
-            `SELECT * FROM playback_state WHERE media_id = ?`,
-            [id]
+            `SELECT * FROM playback_state WHERE user_id = ? AND media_id = ?`,
+            [res.locals.profileId, id]
         );
+        if (playbackState) {
+            playbackState.watch_count = getWatchCount(res.locals.profileId, id);
+        }
 
         res.json({
             ...media,
             subtitle_tracks: subtitleTracks,
             audio_tracks: audioTracks,
+            chapters,
             playback_state: playbackState,
+            on_watchlist: isOnWatchlist(res.locals.profileId, id),
+            collections: getMediaCollections(id),
         });
     } catch (err) {
         console.error('Error fetching media details:', err);
@@ -187,44 +207,75 @@ router.get('/:id', (req, res) => {
     }
 });
 
-// POST /api/media/scan - Trigger library scan
-router.post('/scan', async (req, res) => {
+// POST /api/media/scan - Start a background library scan (admin only)
+router.post('/scan', requireAdmin, (req, res) => {
     try {
-        const { path: scanPath, enrich = true } = req.body;
-
-        let results;
+        const { path: scanPath, enrich = true, force = false } = req.body;
 
-        if (scanPath) {
-            // Scan specific path
-            results = [await scanDirectory(scanPath)];
-        } else {
-            // Scan all configured paths
-            results = await scanAllPaths();
+        // Only folders already in the library, adding new ones goes through the scan paths settings
+        if (scanPath !== undefined && (typeof scanPath !== 'string' || !getAllowedPaths().includes(path.resolve(scanPath)))) {
+            return res.status(400).json({ error: 'path must be an enabled library folder' });
         }
 
-        // Cleanup missing files
-        const removed = cleanupMissingFiles();
+        const job = startScan({ path: scanPath, enrich, force });
 
-        // Enrich with TMDB metadata
-        let enriched = 0;
-        if (enrich) {
-            enriched = await enrichAllMedia(100);
+        if (!job) {
+            const running = getScanStatus();
+            return res.status(409).json({ error: 'A scan is already running', jobId: running?.id, job: running });
         }
 
-        res.json({
-            success: true,
-            results,
-            removed,
-            enriched,
-        });
+        res.status(202).json({ success: true, jobId: job.id, job });
     } catch (err) {
         console.error('Scan error:', err);
         res.status(500).json({ error: 'Scan failed', message: (err as Error).message });
     }
 });
 
-// POST /api/media/:id/enrich - Manually trigger TMDB enrichment
-router.post('/:id/enrich', async (req, res) => {
+// GET /api/media/scan/status - Get the running (or last) scan job
+router.get('/scan/status', (req, res) => {
+    res.json({ job: getScanStatus() });
+});
+
+// POST /api/media/scan/:jobId/cancel - Cancel a running scan (admin only)
+router.post('/scan/:jobId/cancel', requireAdmin, (req, res) => {
+    const cancelled = cancelScan(req.params.jobId);
+
+    if (!cancelled) {
+        return res.status(404).json({ error: 'No running scan with that id' });
+    }
+
+    res.json({ success: true });
+});
+
+// GET /api/media/scan/events - Server-Sent Events for scan progress
+router.get('/scan/events', (req, res) => {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('Access-Control-Allow-Origin', '*');
+
+    // Send initial status
+    res.write(`data: ${JSON.stringify({ type: 'status', data: getScanStatus() })}\n\n`);
+
+    const eventTypes = ['started', 'progress', 'completed', 'cancelled', 'failed'];
+    const handlers = eventTypes.map(type => {
+        const handler = (data: any) => {
+            res.write(`data: ${JSON.stringify({ type, data })}\n\n`);
+        };
+        scanEvents.on(type, handler);
+        return { type, handler };
+    });
+
+    // Cleanup on disconnect
+    req.on('close', () => {
+        for (const { type, handler } of handlers) {
+            scanEvents.off(type, handler);
+        }
+    });
+});
+
+// POST /api/media/:id/enrich - Manually trigger TMDB enrichment (admin only)
+router.post('/:id/enrich', requireAdmin, async (req, res) => {
     try {
         const id = parseInt(req.params.id);
         const success = await enrichMedia(id);
@@ -241,8 +292,84 @@ router.post('/:id/enrich', async (req, res) => {
     }
 });
 
+// GET /api/media/:id/match/candidates - Ranked TMDB candidates for "Fix Match" (admin only)
+router.get('/:id/match/candidates', requireAdmin, async (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        const type = req.query.type as string | undefined;
+
+        if (type && !['movie', 'tv', 'unknown'].includes(type)) {
+            return res.status(400).json({ error: 'type must be movie, tv or unknown' });
+        }
+
+        const result = await getMatchCandidates(id, {
+            query: (req.query.query as string)?.trim() || undefined,
+            year: req.query.year ? parseInt(req.query.year as string) || undefined : undefined,
+            type: type as 'movie' | 'tv' | 'unknown' | undefined,
+        });
+
+        if (!result) {
+            return res.status(404).json({ error: 'Media not found' });
+        }
+
+        res.json(result);
+    } catch (err) {
+        console.error('Error fetching match candidates:', err);
+        res.status(500).json({ error: 'Failed to fetch match candidates' });
+    }
+});
+
+// PUT /api/media/:id/match - Pin a TMDB match manually (admin only)
+// The match brings its certification along, so viewers could otherwise lift their own parental controls
+router.put('/:id/match', requireAdmin, async (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        const { tmdb_id, tmdb_type, apply_to_series = true } = req.body;
+
+        if (!tmdb_id || !['movie', 'tv'].includes(tmdb_type)) {
+            return res.status(400).json({ error: 'tmdb_id and tmdb_type (movie or tv) are required' });
+        }
+
+        if (!getOne('SELECT id FROM media WHERE id = ?', [id])) {
+            return res.status(404).json({ error: 'Media not found' });
+        }
+
+        const updated = await pinMatch(id, parseInt(tmdb_id), tmdb_type, apply_to_series);
+
+        if (updated === 0) {
+            return res.status(502).json({ error: 'Could not fetch details from TMDB' });
+        }
+
+        const media = getOne<unknown>('SELECT * FROM media WHERE id = ?', [id]);
+        res.json({ success: true, updated, media });
+    } catch (err) {
+        console.error('Error pinning match:', err);
+        res.status(500).json({ error: 'Failed to pin match' });
+    }
+});
+
+// DELETE /api/media/:id/match - Drop a manual match and go back to automatic matching (admin only)
+router.delete('/:id/match', requireAdmin, async (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+
+        if (!getOne('SELECT id FROM media WHERE id = ?', [id])) {
+            return res.status(404).json({ error: 'Media not found' });
+        }
+
+        run('UPDATE media SET match_method = NULL, tmdb_id = NULL, match_confidence = 0, show_id = NULL, episode_id = NULL WHERE id = ?', [id]);
+        await enrichMedia(id);
+
+        const media = getOne<unknown>('SELECT * FROM media WHERE id = ?', [id]);
+        res.json({ success: true, media });
+    } catch (err) {
+        console.error('Error resetting match:', err);
+        res.status(500).json({ error: 'Failed to reset match' });
+    }
+});
+
 // DELETE /api/media/:id - Remove media from library and disk
-router.delete('/:id', (req, res) => {
+router.delete('/:id', requireAdmin, (req, res) => {
     try {
         const id = parseInt(req.params.id);
 
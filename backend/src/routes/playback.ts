@@ -1,11 +1,14 @@
 /**
- * Playback Routes - Track and manage playback state
+ * Playback Routes - Track and manage playback state of the active profile
  */
 
 import { Router } from 'express';
 import path from 'path';
 import { getOne, getAll, run, insert } from '../db.js';
 import { PlaybackState } from '../types/db.js';
+import { saveSeriesOverride } from '../services/trackSelectionService.js';
+import { addWatchedEntry, clearMediaHistory, getWatchCount } from '../services/historyService.js';
+import { certificationFilter, requireAllowedMedia } from '../services/parentalControlService.js';
 
 const router = Router();
 
@@ -27,21 +30,33 @@ function filterByLibraryPaths<T extends { file_path?: string }>(items: T[]): T[]
     });
 }
 
+// Only the profile's most recent viewing of each item, from the watch history
+const LATEST_VIEWING = `h.user_id = ? AND h.id = (
+        SELECT id FROM watch_history WHERE user_id = h.user_id AND media_id = h.media_id ORDER BY ended_at DESC, id DESC LIMIT 1
+      )`;
+
 // GET /api/playback/continue - Get continue watching list
 router.get('/continue', (req, res) => {
     try {
         const limit = parseInt(req.query.limit as string) || 20;
+        const allowed = certificationFilter(res.locals.profileId, 'm.certification');
 
         const continueWatching = getAll<{ file_path: string } & Record<string, unknown>>(`
       SELECT 
         m.id, m.file_path, m.title, m.year, m.media_type, m.poster_path, m.backdrop_path,
         m.season_number, m.episode_number, m.episode_title, m.duration_seconds,
-        p.position_seconds, p.progress_percent, p.last_watched_at
-      FROM playback_state p
-      JOIN media m ON m.id = p.media_id
-      WHERE p.completed = 0 AND p.progress_percent > 1 AND p.progress_percent < 95
-      ORDER BY p.last_watched_at DESC
-    `, []);
+        h.end_position AS position_seconds,
+        ROUND(h.end_position * 100.0 / h.duration_seconds, 2) AS progress_percent,
+        h.ended_at AS last_watched_at
+      FROM watch_history h
+      JOIN media m ON m.id = h.media_id
+      WHERE ${LATEST_VIEWING}
+        AND h.completed = 0 AND h.duration_seconds > 0
+        AND h.end_position * 100.0 / h.duration_seconds > 1
+        AND h.end_position * 100.0 / h.duration_seconds < 95
+        AND ${allowed.sql}
+      ORDER BY h.ended_at DESC
+    `, [res.locals.profileId, ...allowed.params]);
 
         // Filter to only media in library paths
         const filtered = filterByLibraryPaths(continueWatching).slice(0, limit);
@@ -57,16 +72,22 @@ router.get('/continue', (req, res) => {
 router.get('/recently-watched', (req, res) => {
     try {
         const limit = parseInt(req.query.limit as string) || 20;
+        const allowed = certificationFilter(res.locals.profileId, 'm.certification');
 
         const recentlyWatched = getAll<{ file_path: string } & Record<string, unknown>>(`
       SELECT 
         m.id, m.file_path, m.title, m.year, m.media_type, m.poster_path, m.backdrop_path,
         m.season_number, m.episode_number, m.episode_title,
-        p.position_seconds, p.progress_percent, p.completed, p.last_watched_at, p.watch_count
-      FROM playback_state p
-      JOIN media m ON m.id = p.media_id
-      ORDER BY p.last_watched_at DESC
-    `, []);
+        h.end_position AS position_seconds,
+        CASE WHEN h.duration_seconds > 0 THEN ROUND(h.end_position * 100.0 / h.duration_seconds, 2) ELSE 0 END AS progress_percent,
+        h.completed, h.ended_at AS last_watched_at,
+        (SELECT COUNT(*) FROM watch_history WHERE user_id = h.user_id AND media_id = m.id AND completed = 1) AS watch_count
+      FROM watch_history h
+      JOIN media m ON m.id = h.media_id
+      WHERE ${LATEST_VIEWING}
+        AND ${allowed.sql}
+      ORDER BY h.ended_at DESC
+    `, [res.locals.profileId, ...allowed.params]);
 
         // Filter to only media in library paths
         const filtered = filterByLibraryPaths(recentlyWatched).slice(0, limit);
@@ -78,18 +99,22 @@ router.get('/recently-watched', (req, res) => {
     }
 });
 
+// Progress, tracks and watched state of titles the profile may not watch are refused
+router.use('/:id', requireAllowedMedia);
+
 // GET /api/playback/:id - Get playback state for a media item
 router.get('/:id', (req, res) => {
     try {
         const mediaId = parseInt(req.params.id);
+        const userId: number = res.locals.profileId;
 
         const state = getOne<PlaybackState>(
-            'SELECT * FROM playback_state WHERE media_id = ?',
-            [mediaId]
+            'SELECT * FROM playback_state WHERE user_id = ? AND media_id = ?',
+            [userId, mediaId]
         );
 
         if (state) {
-            res.json(state);
+            res.json({ ...state, watch_count: getWatchCount(userId, mediaId) });
         } else {
             res.json({
                 media_id: mediaId,
@@ -111,6 +136,7 @@ router.get('/:id', (req, res) => {
 router.post('/:id', (req, res) => {
     try {
         const mediaId = parseInt(req.params.id);
+        const userId: number = res.locals.profileId;
         const { position_seconds, duration_seconds } = req.body;
 
         if (typeof position_seconds !== 'number' || typeof duration_seconds !== 'number') {
@@ -126,8 +152,8 @@ router.post('/:id', (req, res) => {
 
         // Check if state exists
         const existing = getOne<{ media_id: number; watch_count: number }>(
-            'SELECT media_id, watch_count FROM playback_state WHERE media_id = ?',
-            [mediaId]
+            'SELECT media_id, watch_count FROM playback_state WHERE user_id = ? AND media_id = ?',
+            [userId, mediaId]
         );
 
         if (existing) {
@@ -138,13 +164,13 @@ router.post('/:id', (req, res) => {
           progress_percent = ?,
           completed = ?,
           last_watched_at = CURRENT_TIMESTAMP
-        WHERE media_id = ?
-      `, [position_seconds, duration_seconds, progress_percent, completed, mediaId]);
+        WHERE user_id = ? AND media_id = ?
+      `, [position_seconds, duration_seconds, progress_percent, completed, userId, mediaId]);
         } else {
             insert(`
-        INSERT INTO playback_state (media_id, position_seconds, duration_seconds, progress_percent, completed)
-        VALUES (?, ?, ?, ?, ?)
-      `, [mediaId, position_seconds, duration_seconds, progress_percent, completed]);
+        INSERT INTO playback_state (user_id, media_id, position_seconds, duration_seconds, progress_percent, completed)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `, [userId, mediaId, position_seconds, duration_seconds, progress_percent, completed]);
         }
 
         res.json({
@@ -159,10 +185,30 @@ router.post('/:id', (req, res) => {
     }
 });
 
+// PUT /api/playback/:id/tracks - Remember the picked audio and subtitle tracks for the series
+router.put('/:id/tracks', (req, res) => {
+    try {
+        const mediaId = parseInt(req.params.id);
+        const { audioTrackId, subtitleTrackId } = req.body;
+
+        const isTrackId = (value: unknown) => value === null || value === undefined || typeof value === 'number';
+        if (!isTrackId(audioTrackId) || !isTrackId(subtitleTrackId)) {
+            return res.status(400).json({ error: 'audioTrackId and subtitleTrackId must be numbers or null' });
+        }
+
+        const saved = saveSeriesOverride(res.locals.profileId, mediaId, audioTrackId ?? null, subtitleTrackId ?? null);
+        res.json({ success: true, saved });
+    } catch (err) {
+        console.error('Error saving track choice:', err);
+        res.status(500).json({ error: 'Failed to save track choice' });
+    }
+});
+
 // PUT /api/playback/:id/watched - Mark as watched/unwatched
 router.put('/:id/watched', (req, res) => {
     try {
         const mediaId = parseInt(req.params.id);
+        const userId: number = res.locals.profileId;
         const { watched } = req.body;
 
         if (typeof watched !== 'boolean') {
@@ -170,8 +216,8 @@ router.put('/:id/watched', (req, res) => {
         }
 
         const existing = getOne<{ media_id: number; watch_count: number; duration_seconds: number }>(
-            'SELECT media_id, watch_count, duration_seconds FROM playback_state WHERE media_id = ?',
-            [mediaId]
+            'SELECT media_id, watch_count, duration_seconds FROM playback_state WHERE user_id = ? AND media_id = ?',
+            [userId, mediaId]
         );
 
         if (existing) {
@@ -183,12 +229,13 @@ router.put('/:id/watched', (req, res) => {
           position_seconds = ?,
           progress_percent = ?,
           last_watched_at = CURRENT_TIMESTAMP
-        WHERE media_id = ?
+        WHERE user_id = ? AND media_id = ?
       `, [
                 watched ? 1 : 0,
                 newWatchCount,
                 watched ? existing.duration_seconds : 0,
                 watched ? 100 : 0,
+                userId,
                 mediaId
             ]);
         } else if (watched) {
@@ -200,9 +247,16 @@ router.put('/:id/watched', (req, res) => {
             const duration = media?.duration_seconds || 0;
 
             insert(`
-        INSERT INTO playback_state (media_id, position_seconds, duration_seconds, progress_percent, completed, watch_count)
-        VALUES (?, ?, ?, 100, 1, 1)
-      `, [mediaId, duration, duration]);
+        INSERT INTO playback_state (user_id, media_id, position_seconds, duration_seconds, progress_percent, completed, watch_count)
+        VALUES (?, ?, ?, ?, 100, 1, 1)
+      `, [userId, mediaId, duration, duration]);
+        }
+
+        // Marking as watched counts as a viewing, unwatched forgets the item's viewings
+        if (watched) {
+            addWatchedEntry(userId, mediaId);
+        } else {
+            clearMediaHistory(userId, mediaId);
         }
 
         res.json({ success: true, watched });
@@ -217,7 +271,7 @@ router.delete('/:id', (req, res) => {
     try {
         const mediaId = parseInt(req.params.id);
 
-        run('DELETE FROM playback_state WHERE media_id = ?', [mediaId]);
+        run('DELETE FROM playback_state WHERE user_id = ? AND media_id = ?', [res.locals.profileId, mediaId]);
 
         res.json({ success: true, message: 'Playback state cleared' });
     } catch (err) {
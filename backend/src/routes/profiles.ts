@@ -0,0 +1,186 @@
+/**
+ * Profile Routes - Who's watching
+ */
+
+import { Router, Request, Response } from 'express';
+import rateLimit from 'express-rate-limit';
+import {
+    getProfiles,
+    getProfile,
+    findProfileByName,
+    createProfile,
+    updateProfile,
+    deleteProfile,
+    verifyProfilePin,
+    selectSessionProfile,
+    AVATAR_COLORS
+} from '../services/profileService.js';
+import { requireAdmin, hashPassword, Account } from '../services/authService.js';
+import { MAX_CERTIFICATIONS } from '../services/parentalControlService.js';
+
+const router = Router();
+
+// Wrong PINs per address, correct ones don't count
+const pinLimiter = rateLimit({
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    max: 10,
+    skipSuccessfulRequests: true,
+    message: { error: 'Too many wrong PINs, please try again later' }
+});
+
+const MAX_NAME_LENGTH = 30;
+const PIN_PATTERN = /^\d{4,8}$/;
+
+type Restrictions = { maxCertification?: string | null; allowUnrated?: boolean; pinHash?: string | null };
+
+function parseName(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+    const name = value.trim();
+    return name && name.length <= MAX_NAME_LENGTH ? name : null;
+}
+
+function isColor(value: unknown): value is string {
+    return typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+}
+
+/**
+ * Read the parental control fields of a request body, only admins may change them
+ * Sends the error response and returns null when they are invalid.
+ */
+async function parseRestrictions(req: Request, res: Response): Promise<Restrictions | null> {
+    const { maxCertification, allowUnrated, pin } = req.body;
+    if (maxCertification === undefined && allowUnrated === undefined && pin === undefined) return {};
+
+    if ((res.locals.account as Account).role !== 'admin') {
+        res.status(403).json({ error: 'Only admins can change parental controls', code: 'forbidden' });
+        return null;
+    }
+    if (maxCertification !== undefined && maxCertification !== null && !MAX_CERTIFICATIONS.includes(maxCertification)) {
+        res.status(400).json({ error: `maxCertification must be null or one of ${MAX_CERTIFICATIONS.join(', ')}` });
+        return null;
+    }
+    if (allowUnrated !== undefined && typeof allowUnrated !== 'boolean') {
+        res.status(400).json({ error: 'allowUnrated must be a boolean' });
+        return null;
+    }
+    if (pin !== undefined && pin !== null && !(typeof pin === 'string' && PIN_PATTERN.test(pin))) {
+        res.status(400).json({ error: 'pin must be null or 4 to 8 digits' });
+        return null;
+    }
+
+    return {
+        maxCertification,
+        allowUnrated,
+        pinHash: pin === undefined ? undefined : pin === null ? null : await hashPassword(pin),
+    };
+}
+
+// GET /api/profiles - All profiles
+router.get('/', (req, res) => {
+    try {
+        res.json({ data: getProfiles(), colors: AVATAR_COLORS, certifications: MAX_CERTIFICATIONS });
+    } catch (err) {
+        console.error('Error fetching profiles:', err);
+        res.status(500).json({ error: 'Failed to fetch profiles' });
+    }
+});
+
+// POST /api/profiles - Add a profile (admin only, a viewer could otherwise escape its own parental controls)
+router.post('/', requireAdmin, async (req, res) => {
+    try {
+        const name = parseName(req.body.name);
+        if (!name) {
+            return res.status(400).json({ error: `name is required (at most ${MAX_NAME_LENGTH} characters)` });
+        }
+        if (req.body.avatarColor !== undefined && !isColor(req.body.avatarColor)) {
+            return res.status(400).json({ error: 'avatarColor must be a hex color' });
+        }
+        if (findProfileByName(name)) {
+            return res.status(409).json({ error: 'A profile with this name already exists' });
+        }
+
+        const restrictions = await parseRestrictions(req, res);
+        if (!restrictions) return;
+
+        const profile = createProfile(name, req.body.avatarColor);
+        res.status(201).json(updateProfile(profile.id, restrictions));
+    } catch (err) {
+        console.error('Error creating profile:', err);
+        res.status(500).json({ error: 'Failed to create profile' });
+    }
+});
+
+// PUT /api/profiles/:id - Rename a profile, change its color or parental controls
+router.put('/:id', async (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (!getProfile(id)) {
+            return res.status(404).json({ error: 'Profile not found' });
+        }
+
+        const { avatarColor } = req.body;
+        const name = req.body.name !== undefined ? parseName(req.body.name) : undefined;
+        if (name === null) {
+            return res.status(400).json({ error: `name must be 1 to ${MAX_NAME_LENGTH} characters` });
+        }
+        if (avatarColor !== undefined && !isColor(avatarColor)) {
+            return res.status(400).json({ error: 'avatarColor must be a hex color' });
+        }
+
+        const existing = name ? findProfileByName(name) : undefined;
+        if (existing && existing.id !== id) {
+            return res.status(409).json({ error: 'A profile with this name already exists' });
+        }
+
+        const restrictions = await parseRestrictions(req, res);
+        if (!restrictions) return;
+
+        res.json(updateProfile(id, { name, avatarColor, ...restrictions }));
+    } catch (err) {
+        console.error('Error updating profile:', err);
+        res.status(500).json({ error: 'Failed to update profile' });
+    }
+});
+
+// POST /api/profiles/:id/select - Switch this session to a profile, with its PIN if it has one
+router.post('/:id/select', pinLimiter, async (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        const profile = getProfile(id);
+        if (!profile) {
+            return res.status(404).json({ error: 'Profile not found' });
+        }
+
+        const pin = typeof req.body.pin === 'string' ? req.body.pin : '';
+        if (profile.has_pin && !(await verifyProfilePin(id, pin))) {
+            return res.status(403).json({ error: 'Wrong PIN', code: 'wrong_pin' });
+        }
+
+        selectSessionProfile(res.locals.authSessionId, id);
+        res.json(profile);
+    } catch (err) {
+        console.error('Error selecting profile:', err);
+        res.status(500).json({ error: 'Failed to select profile' });
+    }
+});
+
+// DELETE /api/profiles/:id - Remove a profile with its progress and history
+router.delete('/:id', requireAdmin, (req, res) => {
+    try {
+        const result = deleteProfile(parseInt(req.params.id));
+
+        if (result === 'not_found') {
+            return res.status(404).json({ error: 'Profile not found' });
+        }
+        if (result === 'last_profile') {
+            return res.status(409).json({ error: 'The last profile cannot be deleted' });
+        }
+
+        res.json({ success: true });
+    } catch (err) {
+        console.error('Error deleting profile:', err);
+        res.status(500).json({ error: 'Failed to delete profile' });
+    }
+});
+
+export default router;
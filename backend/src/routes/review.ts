@@ -0,0 +1,110 @@
+/**
+ * Review Routes - Low-confidence match review queue
+ */
+
+import { Router } from 'express';
+import {
+    getReviewThreshold,
+    getReviewQueue,
+    acceptMatches,
+    markNoMatch,
+    researchMatches,
+    MAX_RESEARCH_BATCH,
+} from '../services/reviewService.js';
+
+const router = Router();
+
+/**
+ * Read a list of media ids from the request body
+ */
+function parseIds(body: { ids?: unknown }): number[] | null {
+    if (!Array.isArray(body?.ids) || body.ids.length === 0) return null;
+
+    const ids = body.ids.map(id => parseInt(String(id)));
+    return ids.every(id => Number.isInteger(id) && id > 0) ? ids : null;
+}
+
+// GET /api/review - Failed and low-confidence matches
+router.get('/', (req, res) => {
+    try {
+        const threshold = req.query.threshold !== undefined
+            ? parseInt(req.query.threshold as string)
+            : getReviewThreshold();
+
+        if (isNaN(threshold) || threshold < 0 || threshold > 100) {
+            return res.status(400).json({ error: 'threshold must be between 0 and 100' });
+        }
+
+        const items = getReviewQueue(threshold);
+        res.json({ threshold, total: items.length, items });
+    } catch (err) {
+        console.error('Error fetching review queue:', err);
+        res.status(500).json({ error: 'Failed to fetch review queue' });
+    }
+});
+
+// POST /api/review/accept - Keep the current matches
+router.post('/accept', (req, res) => {
+    try {
+        const ids = parseIds(req.body);
+        if (!ids) {
+            return res.status(400).json({ error: 'ids must be a non-empty list of media ids' });
+        }
+
+        const updated = acceptMatches(ids);
+        res.json({ success: true, updated });
+    } catch (err) {
+        console.error('Error accepting matches:', err);
+        res.status(500).json({ error: 'Failed to accept matches' });
+    }
+});
+
+// POST /api/review/research - Search TMDB again with an edited query (a batch at a time)
+router.post('/research', async (req, res) => {
+    try {
+        const ids = parseIds(req.body);
+        if (!ids) {
+            return res.status(400).json({ error: 'ids must be a non-empty list of media ids' });
+        }
+
+        // Larger selections are sent in batches by the client
+        if (ids.length > MAX_RESEARCH_BATCH) {
+            return res.status(400).json({ error: `At most ${MAX_RESEARCH_BATCH} items can be searched at once` });
+        }
+
+        const { query, year, type } = req.body;
+
+        if (type && !['movie', 'tv', 'unknown'].includes(type)) {
+            return res.status(400).json({ error: 'type must be movie, tv or unknown' });
+        }
+
+        const result = await researchMatches(ids, {
+            query: typeof query === 'string' ? query.trim() || undefined : undefined,
+            year: year ? parseInt(year) || undefined : undefined,
+            type,
+        });
+
+        res.json({ success: true, ...result });
+    } catch (err) {
+        console.error('Error re-searching matches:', err);
+        res.status(500).json({ error: 'Failed to re-search matches' });
+    }
+});
+
+// POST /api/review/no-match - Mark items as personal videos with no TMDB entry
+router.post('/no-match', (req, res) => {
+    try {
+        const ids = parseIds(req.body);
+        if (!ids) {
+            return res.status(400).json({ error: 'ids must be a non-empty list of media ids' });
+        }
+
+        const updated = markNoMatch(ids);
+        res.json({ success: true, updated });
+    } catch (err) {
+        console.error('Error marking items as unmatched:', err);
+        res.status(500).json({ error: 'Failed to update items' });
+    }
+});
+
+export default router;
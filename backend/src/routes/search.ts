@@ -4,6 +4,8 @@
 
 import { Router } from 'express';
 import { getAll, getOne } from '../db.js';
+import { applyShowInfo } from '../services/showService.js';
+import { certificationFilter } from '../services/parentalControlService.js';
 
 const router = Router();
 
@@ -29,8 +31,10 @@ router.get('/', (req, res) => {
         const limitNum = parseInt(limit as string);
         const offset = (pageNum - 1) * limitNum;
 
-        const conditions: string[] = [];
-        const params: unknown[] = [];
+        // Parental controls of the active profile
+        const allowed = certificationFilter(res.locals.profileId);
+        const conditions: string[] = [allowed.sql];
+        const params: unknown[] = [...allowed.params];
 
         // Full-text search on title, overview, cast, director
         if (q) {
@@ -81,17 +85,15 @@ router.get('/', (req, res) => {
             conditions.push('browser_compatible = 1');
         }
 
-        const whereClause = conditions.length > 0
-            ? 'WHERE ' + conditions.join(' AND ')
-            : '';
+        const whereClause = 'WHERE ' + conditions.join(' AND ');
 
         // Validate sort column
         const validSorts = ['title', 'year', 'added_at', 'rating', 'release_date', 'runtime'];
         const sortColumn = validSorts.includes(sort as string) ? sort : 'rating';
         const sortOrder = (order as string).toUpperCase() === 'ASC' ? 'ASC' : 'DESC';
 
-        // Group items by Series (tmdb_id) for TV shows to consolidate episodes/seasons
-        const groupClause = "GROUP BY CASE WHEN media_type = 'tv' AND tmdb_id IS NOT NULL THEN tmdb_id ELSE id END";
+        // Group episodes by show to consolidate episodes/seasons
+        const groupClause = "GROUP BY CASE WHEN show_id IS NOT NULL THEN 'show:' || show_id WHEN media_type = 'tv' AND tmdb_id IS NOT NULL THEN 'tmdb:' || tmdb_id ELSE id END";
 
         // Get total count
         const countResult = getOne<{ count: number }>(
@@ -105,9 +107,9 @@ router.get('/', (req, res) => {
         const total = countResult?.count || 0;
 
         // Get results
-        const results = getAll<unknown>(
+        const results = getAll<{ show_id: number | null }>(
             `SELECT 
-        id, title, year, media_type, poster_path, backdrop_path,
+        id, show_id, title, year, media_type, poster_path, backdrop_path,
         season_number, episode_number, episode_title,
         overview, genres, rating, vote_count, runtime, resolution,
         browser_compatible, has_subtitles, duration_seconds, added_at
@@ -120,7 +122,7 @@ router.get('/', (req, res) => {
         );
 
         res.json({
-            data: results,
+            data: applyShowInfo(results),
             query: {
                 q,
                 genre,
@@ -155,21 +157,23 @@ router.get('/suggestions', (req, res) => {
             return res.json({ suggestions: [] });
         }
 
+        const allowed = certificationFilter(res.locals.profileId);
+
         // Get title suggestions
         const titles = getAll<{ title: string }>(
             `SELECT DISTINCT title FROM media 
-       WHERE title LIKE ? 
+       WHERE title LIKE ? AND ${allowed.sql}
        ORDER BY rating DESC NULLS LAST
        LIMIT 10`,
-            [`%${q}%`]
+            [`%${q}%`, ...allowed.params]
         );
 
         // Get director suggestions
         const directors = getAll<{ director: string }>(
             `SELECT DISTINCT director FROM media 
-       WHERE director LIKE ? AND director IS NOT NULL
+       WHERE director LIKE ? AND director IS NOT NULL AND ${allowed.sql}
        LIMIT 5`,
-            [`%${q}%`]
+            [`%${q}%`, ...allowed.params]
         );
 
         res.json({
@@ -193,15 +197,19 @@ router.get('/stats', (req, res) => {
             tv: number;
             watched: number;
             total_duration: number;
+            views: number;
+            watch_time: number | null;
         }>(`
       SELECT 
         COUNT(*) as total,
         SUM(CASE WHEN media_type = 'movie' THEN 1 ELSE 0 END) as movies,
         SUM(CASE WHEN media_type = 'tv' THEN 1 ELSE 0 END) as tv,
-        (SELECT COUNT(*) FROM playback_state WHERE completed = 1) as watched,
-        SUM(duration_seconds) as total_duration
+        (SELECT COUNT(DISTINCT media_id) FROM watch_history WHERE user_id = ? AND completed = 1) as watched,
+        SUM(duration_seconds) as total_duration,
+        (SELECT COUNT(*) FROM watch_history WHERE user_id = ?) as views,
+        (SELECT SUM(watched_seconds) FROM watch_history WHERE user_id = ?) as watch_time
       FROM media
-    `);
+    `, [res.locals.profileId, res.locals.profileId, res.locals.profileId]);
 
         // Get genre distribution
         const genres = getAll<{ genres: string }>('SELECT genres FROM media WHERE genres IS NOT NULL');
@@ -231,6 +239,8 @@ router.get('/stats', (req, res) => {
             tvEpisodes: stats?.tv || 0,
             watched: stats?.watched || 0,
             totalDuration: stats?.total_duration || 0,
+            views: stats?.views || 0,
+            watchTime: stats?.watch_time || 0,
             genreDistribution: genreCounts,
             resolutionDistribution: resolutions,
         });
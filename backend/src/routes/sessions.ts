@@ -0,0 +1,187 @@
+/**
+ * Session Routes - Playback sessions and the list of active viewers
+ */
+
+import { Router, Request, Response } from 'express';
+import { getOne } from '../db.js';
+import { requireAdmin } from '../services/authService.js';
+import {
+    startSession,
+    updateSession,
+    stopSession,
+    getSession,
+    getSessions,
+    STREAM_MODES,
+    StreamMode,
+    SessionUpdate,
+    ClientInfo
+} from '../services/sessionService.js';
+
+const router = Router();
+
+function isStreamMode(value: unknown): value is StreamMode {
+    return (STREAM_MODES as unknown[]).includes(value);
+}
+
+function optionalString(value: unknown): string | null {
+    return typeof value === 'string' && value.trim() ? value.trim().slice(0, 100) : null;
+}
+
+// Track ids may be cleared with null, anything else that isn't an id is ignored
+function parseTrackId(value: unknown): number | null | undefined {
+    if (value === null) return null;
+    return typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Session fields from a request body, or an error message
+ */
+function parseUpdate(body: Record<string, unknown>): SessionUpdate | string {
+    const update: SessionUpdate = {};
+
+    if (body.position !== undefined) {
+        if (typeof body.position !== 'number' || !Number.isFinite(body.position) || body.position < 0) {
+            return 'position must be a number of seconds';
+        }
+        update.positionSeconds = Math.round(body.position);
+    }
+
+    if (body.streamMode !== undefined) {
+        if (!isStreamMode(body.streamMode)) {
+            return `streamMode must be one of: ${STREAM_MODES.join(', ')}`;
+        }
+        update.streamMode = body.streamMode;
+    }
+
+    if (body.state !== undefined) {
+        if (body.state !== 'playing' && body.state !== 'paused') {
+            return 'state must be playing or paused';
+        }
+        update.state = body.state;
+    }
+
+    update.audioTrackId = parseTrackId(body.audioTrackId);
+    update.subtitleTrackId = parseTrackId(body.subtitleTrackId);
+    return update;
+}
+
+function getClientInfo(req: Request): ClientInfo {
+    const client = (req.body.client ?? {}) as Record<string, unknown>;
+    return {
+        name: optionalString(client.name),
+        device: optionalString(client.device),
+        userAgent: optionalString(req.get('user-agent')),
+        address: req.ip ?? null,
+    };
+}
+
+/**
+ * Check a session belongs to the active profile, sends the error response when it doesn't
+ * Unknown sessions are left to the route, players start a new one on its 404.
+ */
+function isOwnSession(sessionId: string, res: Response): boolean {
+    const session = getSession(sessionId);
+    if (session && session.userId !== res.locals.profileId) {
+        res.status(403).json({ error: 'This session belongs to another profile' });
+        return false;
+    }
+    return true;
+}
+
+// GET /api/sessions - Active viewers with their addresses (admin only)
+router.get('/', requireAdmin, (req, res) => {
+    try {
+        res.json({ data: getSessions() });
+    } catch (err) {
+        console.error('Error fetching sessions:', err);
+        res.status(500).json({ error: 'Failed to fetch sessions' });
+    }
+});
+
+// POST /api/sessions - Start a playback session
+router.post('/', (req, res) => {
+    try {
+        const mediaId = parseInt(req.body.mediaId);
+        if (!getOne('SELECT id FROM media WHERE id = ?', [mediaId])) {
+            return res.status(404).json({ error: 'Media not found' });
+        }
+
+        const update = parseUpdate(req.body);
+        if (typeof update === 'string') {
+            return res.status(400).json({ error: update });
+        }
+
+        res.status(201).json(startSession(res.locals.profileId, mediaId, update, getClientInfo(req)));
+    } catch (err) {
+        console.error('Error starting session:', err);
+        res.status(500).json({ error: 'Failed to start session' });
+    }
+});
+
+// POST /api/sessions/:id/heartbeat - Position, state and tracks while playing
+router.post('/:id/heartbeat', (req, res) => {
+    try {
+        if (!isOwnSession(req.params.id, res)) return;
+
+        const update = parseUpdate(req.body);
+        if (typeof update === 'string') {
+            return res.status(400).json({ error: update });
+        }
+
+        const session = updateSession(req.params.id, update);
+        if (!session) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
+
+        res.json(session);
+    } catch (err) {
+        console.error('Error updating session:', err);
+        res.status(500).json({ error: 'Failed to update session' });
+    }
+});
+
+// POST /api/sessions/:id/pause - Playback was paused
+router.post('/:id/pause', (req, res) => {
+    try {
+        if (!isOwnSession(req.params.id, res)) return;
+
+        const update = parseUpdate(req.body);
+        if (typeof update === 'string') {
+            return res.status(400).json({ error: update });
+        }
+
+        const session = updateSession(req.params.id, { ...update, state: 'paused' });
+        if (!session) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
+
+        res.json(session);
+    } catch (err) {
+        console.error('Error pausing session:', err);
+        res.status(500).json({ error: 'Failed to pause session' });
+    }
+});
+
+// POST /api/sessions/:id/stop - Playback ended (POST so it can be sent as a beacon)
+router.post('/:id/stop', (req, res) => {
+    try {
+        if (!isOwnSession(req.params.id, res)) return;
+
+        const update = parseUpdate(req.body ?? {});
+        if (typeof update === 'string') {
+            return res.status(400).json({ error: update });
+        }
+
+        const session = stopSession(req.params.id, update.positionSeconds);
+        if (!session) {
+            return res.status(404).json({ error: 'Session not found' });
+        }
+
+        res.json({ success: true });
+    } catch (err) {
+        console.error('Error stopping session:', err);
+        res.status(500).json({ error: 'Failed to stop session' });
+    }
+});
+
+export default router;
@@ -7,11 +7,16 @@ import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { getAll, getOne, run, insert } from '../db.js';
+import { syncWatchers } from '../services/watcherService.js';
+import { applyLocalMetadata } from '../scanner/localMetadata.js';
+import { cacheRemoteImages, collectGarbage, getImageCacheStats } from '../services/imageCacheService.js';
+import { PROFILE_SETTING_KEYS } from '../services/profileService.js';
+import { requireAdmin, Account } from '../services/authService.js';
 
 const router = Router();
 
 // GET /api/settings/browse-folders - Browse filesystem folders
-router.get('/browse-folders', (req, res) => {
+router.get('/browse-folders', requireAdmin, (req, res) => {
     try {
         const requestedPath = req.query.path as string;
 
@@ -123,12 +128,16 @@ router.get('/browse-folders', (req, res) => {
     }
 });
 
-// GET /api/settings - Get all settings
+// GET /api/settings - Get all settings, with the active profile's own player preferences
 router.get('/', (req, res) => {
     try {
-        const settings = getAll<{ key: string; value: string; type: string }>(
-            'SELECT key, value, type FROM settings'
-        );
+        const settings = [
+            ...getAll<{ key: string; value: string; type: string }>('SELECT key, value, type FROM settings'),
+            ...getAll<{ key: string; value: string; type: string }>(
+                'SELECT key, value, type FROM user_settings WHERE user_id = ?',
+                [res.locals.profileId]
+            ),
+        ];
 
         // Convert to object with proper types
         const settingsObj: Record<string, unknown> = {};
@@ -160,11 +169,17 @@ router.get('/', (req, res) => {
     }
 });
 
-// PUT /api/settings - Update settings
+// PUT /api/settings - Update settings (player preferences only for the active profile)
 router.put('/', (req, res) => {
     try {
         const updates = req.body;
 
+        // Viewers may only change their own player preferences
+        const account: Account = res.locals.account;
+        if (account.role !== 'admin' && Object.keys(updates).some(key => !PROFILE_SETTING_KEYS.includes(key))) {
+            return res.status(403).json({ error: 'Admin access required', code: 'forbidden' });
+        }
+
         for (const [key, value] of Object.entries(updates)) {
             let strValue: string;
             let type: string;
@@ -183,6 +198,18 @@ router.put('/', (req, res) => {
                 type = 'string';
             }
 
+            if (PROFILE_SETTING_KEYS.includes(key)) {
+                run(`
+        INSERT INTO user_settings (user_id, key, value, type, updated_at)
+        VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT(user_id, key) DO UPDATE SET
+          value = ?,
+          type = ?,
+          updated_at = CURRENT_TIMESTAMP
+      `, [res.locals.profileId, key, strValue, type, strValue, type]);
+                continue;
+            }
+
             run(`
         INSERT INTO settings (key, value, type, updated_at)
         VALUES (?, ?, ?, CURRENT_TIMESTAMP)
@@ -193,6 +220,10 @@ router.put('/', (req, res) => {
       `, [key, strValue, type, strValue, type]);
         }
 
+        if ('watch_library' in updates) {
+            syncWatchers();
+        }
+
         res.json({ success: true });
     } catch (err) {
         console.error('Error updating settings:', err);
@@ -228,7 +259,7 @@ router.get('/scan-paths', (req, res) => {
 });
 
 // POST /api/settings/scan-paths - Add a scan path
-router.post('/scan-paths', (req, res) => {
+router.post('/scan-paths', requireAdmin, (req, res) => {
     try {
         const { path: scanPath, recursive = true } = req.body;
 
@@ -263,6 +294,8 @@ router.post('/scan-paths', (req, res) => {
             [resolvedPath, recursive ? 1 : 0]
         );
 
+        syncWatchers();
+
         res.status(201).json({
             success: true,
             id: Number(id),
@@ -276,7 +309,7 @@ router.post('/scan-paths', (req, res) => {
 });
 
 // PUT /api/settings/scan-paths/:id - Update a scan path
-router.put('/scan-paths/:id', (req, res) => {
+router.put('/scan-paths/:id', requireAdmin, (req, res) => {
     try {
         const id = parseInt(req.params.id);
         const { enabled, recursive } = req.body;
@@ -303,6 +336,7 @@ router.put('/scan-paths/:id', (req, res) => {
         if (updates.length > 0) {
             params.push(id);
             run(`UPDATE scan_paths SET ${updates.join(', ')} WHERE id = ?`, params);
+            syncWatchers();
         }
 
         res.json({ success: true });
@@ -313,7 +347,7 @@ router.put('/scan-paths/:id', (req, res) => {
 });
 
 // DELETE /api/settings/scan-paths/:id - Remove a scan path
-router.delete('/scan-paths/:id', (req, res) => {
+router.delete('/scan-paths/:id', requireAdmin, (req, res) => {
     try {
         const id = parseInt(req.params.id);
 
@@ -324,6 +358,7 @@ router.delete('/scan-paths/:id', (req, res) => {
         }
 
         run('DELETE FROM scan_paths WHERE id = ?', [id]);
+        syncWatchers();
 
         res.json({ success: true, message: 'Scan path removed' });
     } catch (err) {
@@ -332,10 +367,11 @@ router.delete('/scan-paths/:id', (req, res) => {
     }
 });
 
-// POST /api/settings/clear-history - Clear watch history
+// POST /api/settings/clear-history - Clear the active profile's watch history
 router.post('/clear-history', (req, res) => {
     try {
-        run('DELETE FROM playback_state');
+        run('DELETE FROM playback_state WHERE user_id = ?', [res.locals.profileId]);
+        run('DELETE FROM watch_history WHERE user_id = ?', [res.locals.profileId]);
         res.json({ success: true, message: 'Watch history cleared' });
     } catch (err) {
         console.error('Error clearing history:', err);
@@ -344,7 +380,7 @@ router.post('/clear-history', (req, res) => {
 });
 
 // POST /api/settings/clear-tmdb-cache - Clear TMDB cache
-router.post('/clear-tmdb-cache', (req, res) => {
+router.post('/clear-tmdb-cache', requireAdmin, (req, res) => {
     try {
         run('DELETE FROM tmdb_cache');
         // Reset TMDB data on media
@@ -352,6 +388,9 @@ router.post('/clear-tmdb-cache', (req, res) => {
       UPDATE media SET
         tmdb_id = NULL,
         tmdb_type = NULL,
+        tmdb_title = NULL,
+        show_id = NULL,
+        episode_id = NULL,
         overview = NULL,
         poster_path = NULL,
         backdrop_path = NULL,
@@ -360,10 +399,20 @@ router.post('/clear-tmdb-cache', (req, res) => {
         director = NULL,
         rating = NULL,
         vote_count = NULL,
+        certification = NULL,
+        tmdb_collection_id = NULL,
         match_confidence = 0,
-        match_method = 'auto',
+        match_method = NULL,
         tmdb_fetched_at = NULL
+      WHERE match_method IS NOT 'manual'
     `);
+        // Drop shows nothing points at anymore and re-fetch the rest
+        run('DELETE FROM shows WHERE id NOT IN (SELECT show_id FROM media WHERE show_id IS NOT NULL)');
+        run('UPDATE shows SET tmdb_fetched_at = NULL');
+        run('UPDATE seasons SET tmdb_fetched_at = NULL');
+        // NFO values don't come from TMDB, keep them
+        getAll<{ id: number }>('SELECT id FROM media WHERE local_metadata IS NOT NULL').forEach(m => applyLocalMetadata(m.id));
+        collectGarbage();
         res.json({ success: true, message: 'TMDB cache cleared' });
     } catch (err) {
         console.error('Error clearing TMDB cache:', err);
@@ -371,6 +420,27 @@ router.post('/clear-tmdb-cache', (req, res) => {
     }
 });
 
+// GET /api/settings/image-cache - Cached artwork size
+router.get('/image-cache', (req, res) => {
+    try {
+        res.json(getImageCacheStats());
+    } catch (err) {
+        console.error('Error fetching image cache stats:', err);
+        res.status(500).json({ error: 'Failed to fetch image cache stats' });
+    }
+});
+
+// POST /api/settings/image-cache/refresh - Download missing artwork and remove unused files
+router.post('/image-cache/refresh', requireAdmin, async (req, res) => {
+    try {
+        const { cached, failed } = await cacheRemoteImages();
+        res.json({ success: true, cached, failed, ...getImageCacheStats() });
+    } catch (err) {
+        console.error('Error refreshing image cache:', err);
+        res.status(500).json({ error: 'Failed to refresh image cache' });
+    }
+});
+
 // GET /api/settings/scan-errors - Get recent scan errors
 router.get('/scan-errors', (req, res) => {
     try {
@@ -392,7 +462,7 @@ router.get('/scan-errors', (req, res) => {
 });
 
 // DELETE /api/settings/scan-errors/:id - Clear a scan error
-router.delete('/scan-errors/:id', (req, res) => {
+router.delete('/scan-errors/:id', requireAdmin, (req, res) => {
     try {
         const id = parseInt(req.params.id);
         run('UPDATE scan_errors SET resolved = 1 WHERE id = ?', [id]);
@@ -0,0 +1,78 @@
+/**
+ * Show Routes - TV shows, seasons and episodes
+ */
+
+import { Router } from 'express';
+import { getShow, getSeasons, getEpisodes, isShowAllowed } from '../services/showService.js';
+import { syncShow, syncSeason } from '../services/tmdbService.js';
+
+const router = Router();
+
+// GET /api/shows/:id - Show details with its seasons
+router.get('/:id', async (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+
+        let show = getShow(id);
+        if (!show) {
+            return res.status(404).json({ error: 'Show not found' });
+        }
+        if (!isShowAllowed(id, res.locals.profileId)) {
+            return res.status(403).json({ error: 'Restricted by parental controls', code: 'restricted' });
+        }
+
+        // Shows converted from old episode rows are fetched on first view
+        if (!show.tmdb_fetched_at) {
+            await syncShow(show.tmdb_id);
+            show = getShow(id)!;
+        }
+
+        res.json({
+            ...show,
+            seasons: getSeasons(id, res.locals.profileId),
+        });
+    } catch (err) {
+        console.error('Error fetching show:', err);
+        res.status(500).json({ error: 'Failed to fetch show' });
+    }
+});
+
+// GET /api/shows/:id/seasons/:n - Season details with its episodes
+router.get('/:id/seasons/:n', async (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        const seasonNumber = parseInt(req.params.n);
+
+        if (isNaN(seasonNumber) || seasonNumber < 0) {
+            return res.status(400).json({ error: 'Invalid season number' });
+        }
+
+        const show = getShow(id);
+        if (!show) {
+            return res.status(404).json({ error: 'Show not found' });
+        }
+        if (!isShowAllowed(id, res.locals.profileId)) {
+            return res.status(403).json({ error: 'Restricted by parental controls', code: 'restricted' });
+        }
+
+        let season = getSeasons(id, res.locals.profileId).find(s => s.season_number === seasonNumber);
+        if (!season) {
+            return res.status(404).json({ error: 'Season not found' });
+        }
+
+        if (season.id !== null && !season.tmdb_fetched_at) {
+            await syncSeason(id, show.tmdb_id, seasonNumber);
+            season = getSeasons(id, res.locals.profileId).find(s => s.season_number === seasonNumber)!;
+        }
+
+        res.json({
+            ...season,
+            episodes: getEpisodes(id, seasonNumber, res.locals.profileId),
+        });
+    } catch (err) {
+        console.error('Error fetching season:', err);
+        res.status(500).json({ error: 'Failed to fetch season' });
+    }
+});
+
+export default router;
@@ -0,0 +1,60 @@
+/**
+ * Thumbnail Routes - API for seek-bar preview generation status and control
+ * The previews of a single media item are served by the video routes.
+ */
+
+import { Router } from 'express';
+import {
+    getThumbnailStatus,
+    queueAllThumbnails,
+    getThumbnailCacheStats,
+    thumbnailEvents
+} from '../services/thumbnailService.js';
+import { requireAdmin } from '../services/authService.js';
+
+const router = Router();
+
+// GET /api/thumbnails/status - Get generation status for all jobs
+router.get('/status', (req, res) => {
+    const status = getThumbnailStatus();
+    res.json(status);
+});
+
+// POST /api/thumbnails/queue-all - Queue all media without previews (admin only)
+router.post('/queue-all', requireAdmin, (req, res) => {
+    const count = queueAllThumbnails();
+    res.json({ success: true, queued: count });
+});
+
+// GET /api/thumbnails/stats - Get cache statistics
+router.get('/stats', (req, res) => {
+    const stats = getThumbnailCacheStats();
+    res.json(stats);
+});
+
+// GET /api/thumbnails/events - Server-Sent Events for real-time updates
+router.get('/events', (req, res) => {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+
+    // Send initial status
+    const status = getThumbnailStatus();
+    res.write(`data: ${JSON.stringify({ type: 'status', data: status })}\n\n`);
+
+    const eventTypes = ['queued', 'started', 'progress', 'completed', 'failed', 'cancelled'];
+    const handlers = eventTypes.map(type => {
+        const handler = (data: unknown) => {
+            res.write(`data: ${JSON.stringify({ type, data })}\n\n`);
+        };
+        thumbnailEvents.on(type, handler);
+        return { type, handler };
+    });
+
+    // Cleanup on disconnect
+    req.on('close', () => {
+        handlers.forEach(({ type, handler }) => thumbnailEvents.off(type, handler));
+    });
+});
+
+export default router;
@@ -6,11 +6,32 @@ import { Router } from 'express';
 import fs from 'fs';
 import path from 'path';
 import { getOne, getAll, run } from '../db.js';
-import { srtToVtt, extractEmbeddedSubtitle } from '../services/subtitleConverter.js';
-import { Media, SubtitleTrack } from '../types/db.js';
+import { assToVtt, shiftVtt, extractEmbeddedSubtitle, isImageSubtitle, isAssSubtitle } from '../services/subtitleConverter.js';
+import { srtToVtt, readSubtitleFile } from '../services/subtitleParser.js';
+import { buildPlaylist, getSegment, HlsTracks } from '../services/hlsService.js';
+import { selectTracks } from '../services/trackSelectionService.js';
+import { getMarkers } from '../services/markerService.js';
+import { requireAllowedMedia } from '../services/parentalControlService.js';
+import { releaseEncoder } from '../services/sessionService.js';
+import { requireAdmin } from '../services/authService.js';
+import {
+    getThumbnails,
+    getThumbnailFile,
+    getThumbnailStatus,
+    queueThumbnails,
+    cancelThumbnails,
+    removeThumbnails
+} from '../services/thumbnailService.js';
+import { Media, SubtitleTrack, AudioTrack } from '../types/db.js';
 
 const router = Router();
 
+// Subtitle files served without running FFmpeg first
+const READABLE_SUBTITLE_EXTENSIONS = ['.srt', '.vtt', '.ass', '.ssa'];
+
+// Largest subtitle delay accepted, in either direction
+const MAX_SUBTITLE_OFFSET_MS = 10 * 60 * 1000;
+
 // Allowed base paths for security (populated from scan_paths)
 function getAllowedPaths(): string[] {
     const paths = getAll<{ path: string }>('SELECT path FROM scan_paths');
@@ -45,6 +66,19 @@ function needsTranscoding(videoCodec: string, audioCodec: string): boolean {
     return !videoOk || !audioOk;
 }
 
+// Parse a track id (?audio=, ?subtitle=) of HLS requests
+function parseTrackId(value: unknown): number | undefined {
+    const id = parseInt(String(value ?? ''), 10);
+    return id > 0 ? id : undefined;
+}
+
+function parseHlsTracks(query: Record<string, unknown>): HlsTracks {
+    return { audioTrackId: parseTrackId(query.audio), subtitleTrackId: parseTrackId(query.subtitle) };
+}
+
+// Streams, subtitles, HLS and seek previews of titles the profile may not watch are refused
+router.use('/:id', requireAllowedMedia);
+
 // GET /api/video/:id - Stream video file (with optional transcoding)
 router.get('/:id', (req, res) => {
     try {
@@ -92,6 +126,7 @@ router.get('/:id', (req, res) => {
                 mediaId: id,
                 videoCodec: media.video_codec,
                 audioCodec: media.audio_codec,
+                hlsUrl: `/api/video/${id}/hls/index.m3u8`,
                 message: 'This file is being converted. Please wait...'
             });
         } else {
@@ -156,29 +191,54 @@ router.get('/:id/subtitle/:trackId', async (req, res) => {
             return res.status(404).json({ error: 'Subtitle track not found' });
         }
 
+        // Bitmap subtitles can't be a text track, the player burns them in through HLS
+        if (isImageSubtitle(track.codec)) {
+            return res.status(422).json({
+                error: 'image_subtitle',
+                message: 'Image-based subtitles are burned into the video stream',
+            });
+        }
+
         let subtitlePath = track.converted_path || track.external_path;
+        const readable = !!subtitlePath && READABLE_SUBTITLE_EXTENSIONS.includes(path.extname(subtitlePath).toLowerCase());
 
-        if (track.is_embedded && !subtitlePath) {
-            // Generate output path for extracted subtitle
-            const media = getOne<Media>('SELECT file_path FROM media WHERE id = ?', [mediaId]);
-            if (!media || !fs.existsSync(media.file_path)) {
-                return res.status(404).json({ error: 'Source media file not found' });
-            }
+        // Embedded tracks and other text formats (e.g. MicroDVD .sub) are extracted with FFmpeg
+        if (!readable) {
+            let inputPath: string;
+            let streamIndex: number;
+
+            if (track.is_embedded) {
+                const media = getOne<Media>('SELECT file_path FROM media WHERE id = ?', [mediaId]);
+                if (!media || !fs.existsSync(media.file_path)) {
+                    return res.status(404).json({ error: 'Source media file not found' });
+                }
 
-            if (track.track_index === null) {
-                return res.status(400).json({ error: 'Invalid subtitle track index' });
+                if (track.track_index === null) {
+                    return res.status(400).json({ error: 'Invalid subtitle track index' });
+                }
+
+                inputPath = media.file_path;
+                streamIndex = track.track_index;
+            } else {
+                if (!track.external_path || !fs.existsSync(track.external_path)) {
+                    return res.status(404).json({ error: 'Subtitle file not found' });
+                }
+
+                inputPath = track.external_path;
+                streamIndex = 0;
             }
 
-            // Define cache path for this track
+            // Define cache path for this track (ASS is kept as ASS to convert its styling ourselves)
             const cacheDir = path.join(process.cwd(), 'converted_cache');
             if (!fs.existsSync(cacheDir)) {
                 fs.mkdirSync(cacheDir, { recursive: true });
             }
 
-            const outputPath = path.join(cacheDir, `${mediaId}_${trackId}_${track.track_index}.vtt`);
+            const format = isAssSubtitle(track.codec) ? 'ass' : 'webvtt';
+            const outputPath = path.join(cacheDir, `${mediaId}_${trackId}_${streamIndex}.${format === 'ass' ? 'ass' : 'vtt'}`);
 
             try {
-                await extractEmbeddedSubtitle(media.file_path, track.track_index, outputPath);
+                await extractEmbeddedSubtitle(inputPath, streamIndex, outputPath, format);
 
                 // Update DB to cache this result
                 run('UPDATE subtitle_tracks SET converted_path = ? WHERE id = ?', [outputPath, trackId]);
@@ -195,25 +255,192 @@ router.get('/:id/subtitle/:trackId', async (req, res) => {
             return res.status(404).json({ error: 'Subtitle file not found' });
         }
 
-        const content = fs.readFileSync(subtitlePath, 'utf-8');
+        // Decoded from whatever encoding the file uses
+        const content = readSubtitleFile(subtitlePath);
         const ext = path.extname(subtitlePath).toLowerCase();
 
+        let vtt: string;
         if (ext === '.srt') {
-            const vtt = srtToVtt(content);
-            res.setHeader('Content-Type', 'text/vtt');
-            res.send(vtt);
+            vtt = srtToVtt(content);
         } else if (ext === '.vtt') {
-            res.setHeader('Content-Type', 'text/vtt');
-            res.send(content);
+            vtt = content;
+        } else if (ext === '.ass' || ext === '.ssa') {
+            vtt = assToVtt(content);
         } else {
-            res.status(400).json({ error: 'Unsupported subtitle format' });
+            return res.status(400).json({ error: 'Unsupported subtitle format' });
         }
+
+        // The delay can change at any time, so don't let the browser cache the shifted file
+        res.setHeader('Content-Type', 'text/vtt');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.send(shiftVtt(vtt, track.offset_ms || 0));
     } catch (err) {
         console.error('Subtitle error:', err);
         res.status(500).json({ error: 'Failed to get subtitle' });
     }
 });
 
+// PUT /api/video/:id/subtitle/:trackId/offset - Save the delay of a subtitle track (admin only, it applies to everyone)
+router.put('/:id/subtitle/:trackId/offset', requireAdmin, (req, res) => {
+    try {
+        const mediaId = parseInt(req.params.id);
+        const trackId = parseInt(req.params.trackId);
+        const { offsetMs } = req.body;
+
+        if (typeof offsetMs !== 'number' || !Number.isFinite(offsetMs) || Math.abs(offsetMs) > MAX_SUBTITLE_OFFSET_MS) {
+            return res.status(400).json({ error: `offsetMs must be a number of milliseconds up to ±${MAX_SUBTITLE_OFFSET_MS}` });
+        }
+
+        const result = run(
+            'UPDATE subtitle_tracks SET offset_ms = ? WHERE id = ? AND media_id = ?',
+            [Math.round(offsetMs), trackId, mediaId]
+        );
+        if (result.changes === 0) {
+            return res.status(404).json({ error: 'Subtitle track not found' });
+        }
+
+        res.json({ success: true, offsetMs: Math.round(offsetMs) });
+    } catch (err) {
+        console.error('Subtitle offset error:', err);
+        res.status(500).json({ error: 'Failed to save subtitle offset' });
+    }
+});
+
+// GET /api/video/:id/hls/index.m3u8 - HLS playlist for real-time transcoding
+router.get('/:id/hls/index.m3u8', async (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+
+        const media = getOne<{ file_path: string }>('SELECT file_path FROM media WHERE id = ?', [id]);
+        if (!media) {
+            return res.status(404).json({ error: 'Media not found' });
+        }
+
+        if (!validateFilePath(media.file_path)) {
+            return res.status(403).json({ error: 'Access denied' });
+        }
+
+        const playlist = await buildPlaylist(id, parseHlsTracks(req.query));
+        if (!playlist) {
+            return res.status(422).json({ error: 'Media duration unknown, cannot build playlist' });
+        }
+
+        res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+        res.setHeader('Cache-Control', 'no-cache');
+        res.send(playlist);
+    } catch (err) {
+        console.error('HLS playlist error:', err);
+        res.status(500).json({ error: 'Failed to build playlist' });
+    }
+});
+
+// GET /api/video/:id/hls/segment_:index.ts - HLS segment, encoded on demand
+router.get('/:id/hls/segment_:index.ts', async (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        const index = parseInt(req.params.index);
+
+        if (isNaN(index)) {
+            return res.status(400).json({ error: 'Invalid segment index' });
+        }
+
+        const segmentPath = await getSegment(id, index, parseHlsTracks(req.query));
+        if (!segmentPath) {
+            return res.status(404).json({ error: 'Segment not found' });
+        }
+
+        res.setHeader('Content-Type', 'video/mp2t');
+        res.sendFile(segmentPath);
+    } catch (err) {
+        console.error('HLS segment error:', err);
+        res.status(500).json({ error: 'Failed to produce segment' });
+    }
+});
+
+// DELETE /api/video/:id/hls - Stop the HLS encoder for a media item and tracks when no session still uses it
+router.delete('/:id/hls', (req, res) => {
+    const id = parseInt(req.params.id);
+    const stopped = releaseEncoder(id, parseHlsTracks(req.query));
+    res.json({ success: stopped });
+});
+
+// GET /api/video/:id/thumbnails - Seek preview availability and generation progress
+router.get('/:id/thumbnails', (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (!getOne('SELECT id FROM media WHERE id = ?', [id])) {
+            return res.status(404).json({ error: 'Media not found' });
+        }
+
+        const thumbnails = getThumbnails(id);
+        const status = getThumbnailStatus();
+        const job = status.active.find(j => j.mediaId === id) || null;
+
+        res.json({
+            available: !!thumbnails,
+            interval: thumbnails?.interval_seconds ?? null,
+            index: thumbnails ? `/api/video/${id}/thumbnails/thumbnails.vtt` : null,
+            queued: status.queued.includes(id),
+            job,
+        });
+    } catch (err) {
+        console.error('Error fetching thumbnails:', err);
+        res.status(500).json({ error: 'Failed to fetch thumbnails' });
+    }
+});
+
+// POST /api/video/:id/thumbnails - Queue seek preview generation (admin only)
+router.post('/:id/thumbnails', requireAdmin, (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        if (!getOne('SELECT id FROM media WHERE id = ?', [id])) {
+            return res.status(404).json({ error: 'Media not found' });
+        }
+
+        const queued = queueThumbnails(id);
+        res.json({ success: true, queued });
+    } catch (err) {
+        console.error('Error queueing thumbnails:', err);
+        res.status(500).json({ error: 'Failed to queue thumbnails' });
+    }
+});
+
+// DELETE /api/video/:id/thumbnails - Cancel generation and remove seek previews (admin only)
+router.delete('/:id/thumbnails', requireAdmin, (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        const cancelled = cancelThumbnails(id);
+        const removed = removeThumbnails(id);
+        res.json({ success: cancelled || removed });
+    } catch (err) {
+        console.error('Error removing thumbnails:', err);
+        res.status(500).json({ error: 'Failed to remove thumbnails' });
+    }
+});
+
+// GET /api/video/:id/thumbnails/:file - WebVTT thumbnail index or a sprite sheet
+router.get('/:id/thumbnails/:file', (req, res) => {
+    try {
+        const id = parseInt(req.params.id);
+        const filePath = getThumbnailFile(id, req.params.file);
+        if (!filePath) {
+            return res.status(404).json({ error: 'Thumbnails not found' });
+        }
+
+        if (filePath.endsWith('.vtt')) {
+            res.setHeader('Content-Type', 'text/vtt; charset=utf-8');
+            res.setHeader('Cache-Control', 'no-cache');
+        } else {
+            // Sheets are replaced as a whole set, the index is always checked first
+            res.setHeader('Cache-Control', 'public, max-age=86400');
+        }
+        res.sendFile(filePath);
+    } catch (err) {
+        console.error('Error serving thumbnails:', err);
+        res.status(500).json({ error: 'Failed to serve thumbnails' });
+    }
+});
+
 // GET /api/video/:id/info - Get video stream info
 router.get('/:id/info', (req, res) => {
     try {
@@ -228,9 +455,20 @@ router.get('/:id/info', (req, res) => {
             return res.status(404).json({ error: 'Media not found' });
         }
 
-        const willTranscode = needsTranscoding(media.video_codec || '', media.audio_codec || '');
+        // A finished conversion can be streamed directly
+        const hasConverted = !!media.converted_path && fs.existsSync(media.converted_path);
+        const willTranscode = !hasConverted && needsTranscoding(media.video_codec || '', media.audio_codec || '');
+
+        // Image-based tracks can only be shown burned in through HLS
+        const subtitleTracks = getAll<SubtitleTrack>('SELECT * FROM subtitle_tracks WHERE media_id = ?', [id])
+            .map(t => ({ ...t, image_based: isImageSubtitle(t.codec) }));
+
+        // The browser (and a converted file) only plays the first audio stream,
+        // any other track is streamed through HLS
+        const audioTracks = getAll<AudioTrack>('SELECT * FROM audio_tracks WHERE media_id = ? ORDER BY track_index', [id]);
 
-        const subtitleTracks = getAll<SubtitleTrack>('SELECT * FROM subtitle_tracks WHERE media_id = ?', [id]);
+        // Starting tracks from the language preferences or the series' remembered choice
+        const selection = selectTracks(id, res.locals.profileId);
 
         res.json({
             exists: fs.existsSync(media.file_path),
@@ -239,9 +477,15 @@ router.get('/:id/info', (req, res) => {
             audioCodec: media.audio_codec,
             browserCompatible: media.browser_compatible === 1,
             willTranscode,
+            converted: hasConverted,
             duration: media.duration_seconds,
             streamUrl: `/api/video/${id}`,
-            subtitleTracks
+            hlsUrl: `/api/video/${id}/hls/index.m3u8`,
+            subtitleTracks,
+            audioTracks,
+            defaultAudioTrackId: selection.audioTrackId,
+            defaultSubtitleTrackId: selection.subtitleTrackId,
+            markers: getMarkers(id),
         });
     } catch (err) {
         console.error('Video info error:', err);
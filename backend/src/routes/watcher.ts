@@ -0,0 +1,42 @@
+/**
+ * Watcher Routes - Live library change notifications
+ */
+
+import { Router } from 'express';
+import { getWatcherStatus, watcherEvents } from '../services/watcherService.js';
+
+const router = Router();
+
+// GET /api/watcher/status - Get watched paths and queue size
+router.get('/status', (req, res) => {
+    res.json(getWatcherStatus());
+});
+
+// GET /api/watcher/events - Server-Sent Events for library changes
+router.get('/events', (req, res) => {
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('Access-Control-Allow-Origin', '*');
+
+    // Send initial status
+    res.write(`data: ${JSON.stringify({ type: 'status', data: getWatcherStatus() })}\n\n`);
+
+    const eventTypes = ['added', 'updated', 'removed', 'renamed'];
+    const handlers = eventTypes.map(type => {
+        const handler = (data: any) => {
+            res.write(`data: ${JSON.stringify({ type, data })}\n\n`);
+        };
+        watcherEvents.on(type, handler);
+        return { type, handler };
+    });
+
+    // Cleanup on disconnect
+    req.on('close', () => {
+        for (const { type, handler } of handlers) {
+            watcherEvents.off(type, handler);
+        }
+    });
+});
+
+export default router;
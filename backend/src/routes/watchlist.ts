@@ -0,0 +1,76 @@
+/**
+ * Watchlist Routes - "My List" of the active profile
+ */
+
+import { Router } from 'express';
+import { getOne } from '../db.js';
+import { getWatchlist, addToWatchlist, removeFromWatchlist, reorderWatchlist } from '../services/watchlistService.js';
+import { isCertificationAllowed } from '../services/parentalControlService.js';
+
+const router = Router();
+
+// GET /api/watchlist - The profile's list in its order
+router.get('/', (req, res) => {
+    try {
+        res.json({ data: getWatchlist(res.locals.profileId) });
+    } catch (err) {
+        console.error('Error fetching watchlist:', err);
+        res.status(500).json({ error: 'Failed to fetch watchlist' });
+    }
+});
+
+// POST /api/watchlist - Add a media item at the end of the list
+router.post('/', (req, res) => {
+    try {
+        const mediaId = parseInt(req.body.mediaId);
+        if (isNaN(mediaId)) {
+            return res.status(400).json({ error: 'mediaId must be a number' });
+        }
+
+        const media = getOne<{ certification: string | null }>('SELECT certification FROM media WHERE id = ?', [mediaId]);
+        if (!media) {
+            return res.status(404).json({ error: 'Media not found' });
+        }
+        if (!isCertificationAllowed(res.locals.profileId, media.certification)) {
+            return res.status(403).json({ error: 'Restricted by parental controls', code: 'restricted' });
+        }
+
+        addToWatchlist(res.locals.profileId, mediaId);
+        res.status(201).json({ success: true });
+    } catch (err) {
+        console.error('Error adding to watchlist:', err);
+        res.status(500).json({ error: 'Failed to add to watchlist' });
+    }
+});
+
+// PUT /api/watchlist/order - Reorder the list, body { mediaIds: [...] } from first to last
+router.put('/order', (req, res) => {
+    try {
+        const { mediaIds } = req.body;
+        if (!Array.isArray(mediaIds) || !mediaIds.every(id => Number.isInteger(id))) {
+            return res.status(400).json({ error: 'mediaIds must be an array of media ids' });
+        }
+
+        reorderWatchlist(res.locals.profileId, mediaIds);
+        res.json({ data: getWatchlist(res.locals.profileId) });
+    } catch (err) {
+        console.error('Error reordering watchlist:', err);
+        res.status(500).json({ error: 'Failed to reorder watchlist' });
+    }
+});
+
+// DELETE /api/watchlist/:mediaId - Remove a media item from the list
+router.delete('/:mediaId', (req, res) => {
+    try {
+        if (!removeFromWatchlist(res.locals.profileId, parseInt(req.params.mediaId))) {
+            return res.status(404).json({ error: 'Not on the watchlist' });
+        }
+
+        res.json({ success: true });
+    } catch (err) {
+        console.error('Error removing from watchlist:', err);
+        res.status(500).json({ error: 'Failed to remove from watchlist' });
+    }
+});
+
+export default router;
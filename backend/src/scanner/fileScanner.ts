@@ -4,18 +4,70 @@
 
 import fs from 'fs';
 import path from 'path';
-import db, { getAll, getOne, run, insert } from '../db.js';
-import { parseFilename, isVideoFile, isBrowserCompatible } from './filenameParser.js';
-import { extractMetadata } from './metadataExtractor.js';
-
-interface ScanResult {
+import crypto from 'crypto';
+import { getAll, getOne, run, insert, transaction } from '../db.js';
+import { parseFilename, isVideoFile, isBrowserCompatible, ParsedFilename } from './filenameParser.js';
+import { extractMetadata, VideoMetadata } from './metadataExtractor.js';
+import { findSidecarFiles, readLocalMetadata, mergeParsedFilename, applyLocalMetadata, LocalMetadata } from './localMetadata.js';
+import { scheduleImageCache } from '../services/imageCacheService.js';
+import { removeThumbnails } from '../services/thumbnailService.js';
+import { SUBTITLE_EXTENSIONS, getExternalSubtitleCodec } from '../services/subtitleConverter.js';
+
+export interface ScanResult {
     totalFiles: number;
     newFiles: number;
     updatedFiles: number;
+    unchangedFiles: number;
     errors: number;
     duration: number;
 }
 
+export interface ScanProgress {
+    phase: 'discover' | 'probe';
+    scanPath: string;
+    current: number;
+    total: number;
+    file?: string;
+}
+
+export interface ScanOptions {
+    force?: boolean; // Re-probe files even if their fingerprint is unchanged
+    signal?: AbortSignal; // Stops the scan after the file being probed
+    onProgress?: (progress: ScanProgress) => void;
+}
+
+interface ExistingMedia {
+    id: number;
+    file_size: number;
+    file_mtime: number | null;
+    file_hash: string | null;
+    title: string | null;
+    year: number | null;
+    media_type: string;
+    episode_title: string | null;
+    tmdb_id: number | null;
+    match_method: string | null;
+    sidecar_fingerprint: number | null;
+}
+
+interface ProbedFile {
+    filePath: string;
+    fileName: string;
+    size: number;
+    mtime: number;
+    fileHash: string | null;
+    parsed: ParsedFilename; // Filename merged with local metadata
+    metadata: VideoMetadata;
+    local: LocalMetadata | null;
+    sidecarFingerprint: number;
+    browserCompatible: boolean;
+    existing?: ExistingMedia;
+}
+
+type ProbeResult =
+    | { changed: false; filePath: string; mediaId: number; mtime: number }
+    | { changed: true; file: ProbedFile };
+
 /**
  * Recursively find all video files in a directory
  */
@@ -44,309 +96,517 @@ function findVideoFiles(dir: string, recursive: boolean = true): string[] {
     return files;
 }
 
+// Probed files are written in one transaction per batch of this size
+const WRITE_BATCH_SIZE = 50;
+
+// Parallel FFprobe workers when the scan_concurrency setting is missing
+const DEFAULT_SCAN_CONCURRENCY = 4;
+const MAX_SCAN_CONCURRENCY = 16;
+
+// Bytes read from each end of a file for the partial content hash
+const HASH_CHUNK_SIZE = 64 * 1024;
+
 /**
- * Process a single video file and add/update in database
+ * Hash the first and last chunk of a file together with its size.
+ * Cheap enough for multi-GB files and catches content changes that keep the size.
  */
-async function processFile(filePath: string): Promise<boolean> {
+function computePartialHash(filePath: string, size: number): string {
+    const hash = crypto.createHash('md5');
+    hash.update(String(size));
+
+    const fd = fs.openSync(filePath, 'r');
     try {
-        const stats = fs.statSync(filePath);
-        const fileName = path.basename(filePath);
-
-        // Check if file already exists in database
-        const existing = getOne<{ id: number; file_size: number }>(
-            'SELECT id, file_size FROM media WHERE file_path = ?',
-            [filePath]
-        );
-
-        // If file exists and size hasn't changed, skip processing
-        // Optimization disabled to force subtitle re-scan
-        /*
-        if (existing && existing.file_size === stats.size) {
-            run('UPDATE media SET last_scanned = CURRENT_TIMESTAMP WHERE id = ?', [existing.id]);
-            return false; // Not a new file
+        const buffer = Buffer.alloc(Math.min(HASH_CHUNK_SIZE, size));
+        fs.readSync(fd, buffer, 0, buffer.length, 0);
+        hash.update(buffer);
+
+        if (size > HASH_CHUNK_SIZE) {
+            fs.readSync(fd, buffer, 0, buffer.length, Math.max(size - HASH_CHUNK_SIZE, HASH_CHUNK_SIZE));
+            hash.update(buffer);
         }
-        */
+    } finally {
+        fs.closeSync(fd);
+    }
 
-        // Parse filename for metadata
-        const parsed = parseFilename(fileName);
+    return hash.digest('hex');
+}
 
-        // Extract technical metadata using FFprobe
-        let metadata;
-        try {
-            metadata = await extractMetadata(filePath);
-        } catch (err) {
-            console.warn(`  ⚠️ Could not extract metadata for ${fileName}:`, err);
-            // Insert with minimal info
-            metadata = {
-                duration: 0,
-                videoCodec: 'unknown',
-                audioCodec: 'unknown',
-                width: 0,
-                height: 0,
-                resolution: 'unknown',
-                bitrate: 0,
-                fps: 0,
-                container: path.extname(filePath).slice(1),
-                subtitleTracks: [],
-                audioTracks: [],
-            };
-        }
+function getScanConcurrency(): number {
+    const setting = getOne<{ value: string }>('SELECT value FROM settings WHERE key = ?', ['scan_concurrency']);
+    const value = parseInt(setting?.value || '', 10);
+    if (!value || value < 1) return DEFAULT_SCAN_CONCURRENCY;
+    return Math.min(value, MAX_SCAN_CONCURRENCY);
+}
 
-        // Scan for external subtitles
-        try {
-            const dir = path.dirname(filePath);
-            const ext = path.extname(filePath);
-            const basename = path.basename(filePath, ext);
-            // console.log(`DEBUG: Scanning dir ${dir} for basename ${basename}`);
-            const files = fs.readdirSync(dir);
-            // console.log(`DEBUG: Files in dir: ${files.join(', ')}`);
-
-            const subtitleFiles = files.filter(f => {
-                const fLower = f.toLowerCase();
-                const match = f.startsWith(basename) && (fLower.endsWith('.srt') || fLower.endsWith('.vtt'));
-                if (match) console.log(`DEBUG: Match found: ${f}`);
-                return match;
-            });
+function isHashingEnabled(): boolean {
+    const setting = getOne<{ value: string }>('SELECT value FROM settings WHERE key = ?', ['scan_hash_files']);
+    return setting?.value === 'true';
+}
+
+/**
+ * Read everything needed to store a file without touching the database.
+ * Unchanged files (same size and mtime, or same partial hash, and the same
+ * NFO/artwork/subtitle files) are not probed unless force is set.
+ */
+async function probeFile(filePath: string, force: boolean): Promise<ProbeResult> {
+    const stats = fs.statSync(filePath);
+    const fileName = path.basename(filePath);
+    const mtime = Math.floor(stats.mtimeMs);
+    const hashFiles = isHashingEnabled();
+    let fileHash: string | null = null;
+
+    // Check if file already exists in database
+    const existing = getOne<ExistingMedia>(
+        `SELECT id, file_size, file_mtime, file_hash, title, year, media_type, episode_title, tmdb_id, match_method, sidecar_fingerprint
+         FROM media WHERE file_path = ?`,
+        [filePath]
+    );
+
+    // Parse filename for metadata
+    const parsed = parseFilename(fileName);
+    const sidecars = findSidecarFiles(filePath, parsed);
 
-            if (subtitleFiles.length > 0) {
-                console.log(`Found external subs for ${fileName}:`, subtitleFiles);
+    if (existing && !force && existing.file_size === stats.size && (existing.sidecar_fingerprint || 0) === sidecars.fingerprint) {
+        if (existing.file_mtime === mtime) {
+            return { changed: false, filePath, mediaId: existing.id, mtime };
+        }
+
+        // Only the mtime moved (e.g. restored from a backup) - compare content before re-probing
+        if (hashFiles && existing.file_hash) {
+            fileHash = computePartialHash(filePath, stats.size);
+            if (fileHash === existing.file_hash) {
+                return { changed: false, filePath, mediaId: existing.id, mtime };
             }
+        }
+    }
 
-            for (const subFile of subtitleFiles) {
-                // Skip if it's the video file itself (unlikely due to extension check but safety first)
-                if (subFile === fileName) continue;
-
-                const subExt = path.extname(subFile).toLowerCase();
-                const subPath = path.join(dir, subFile);
-
-                // Try to guess language from filename parts (e.g. Movie.en.srt -> en)
-                // Remove basename and extension
-                const parts = subFile.slice(basename.length, -subExt.length).split(/[._-]/).filter(p => p.length > 0);
-
-                // Simple language detection details
-                let langCode = 'und';
-                let langName = 'Unknown (External)';
-                let title = subFile;
-
-                const commonLangs: Record<string, string> = {
-                    'en': 'English', 'eng': 'English',
-                    'es': 'Spanish', 'spa': 'Spanish',
-                    'fr': 'French', 'fre': 'French',
-                    'de': 'German', 'ger': 'German',
-                    'it': 'Italian', 'ita': 'Italian',
-                    'pt': 'Portuguese', 'por': 'Portuguese',
-                    'ru': 'Russian', 'rus': 'Russian',
-                    'ja': 'Japanese', 'jpn': 'Japanese',
-                    'zh': 'Chinese', 'chi': 'Chinese',
-                    'hi': 'Hindi', 'hin': 'Hindi',
-                    'ko': 'Korean', 'kor': 'Korean',
-                };
-
-                for (const part of parts) {
-                    const lower = part.toLowerCase();
-                    if (commonLangs[lower]) {
-                        langCode = lower.length === 2 ? lower : lower.substring(0, 3); // approximations
-                        langName = commonLangs[lower] + ' (External)';
-                        break;
-                    }
-                }
+    if (hashFiles && !fileHash) {
+        fileHash = computePartialHash(filePath, stats.size);
+    }
+
+    // Extract technical metadata using FFprobe
+    let metadata: VideoMetadata;
+    try {
+        metadata = await extractMetadata(filePath);
+    } catch (err) {
+        console.warn(`  ⚠️ Could not extract metadata for ${fileName}:`, err);
+        // Insert with minimal info
+        metadata = {
+            duration: 0,
+            videoCodec: 'unknown',
+            audioCodec: 'unknown',
+            width: 0,
+            height: 0,
+            resolution: 'unknown',
+            bitrate: 0,
+            fps: 0,
+            container: path.extname(filePath).slice(1),
+            subtitleTracks: [],
+            audioTracks: [],
+            chapters: [],
+        };
+    }
+
+    // Scan for external subtitles
+    try {
+        const dir = path.dirname(filePath);
+        const ext = path.extname(filePath);
+        const basename = path.basename(filePath, ext);
+        // console.log(`DEBUG: Scanning dir ${dir} for basename ${basename}`);
+        const files = fs.readdirSync(dir);
+        // console.log(`DEBUG: Files in dir: ${files.join(', ')}`);
+
+        const subtitleFiles = files.filter(f => {
+            const fExt = path.extname(f).toLowerCase();
+            const match = f.startsWith(basename) && SUBTITLE_EXTENSIONS.includes(fExt);
+            // A VobSub .sub holds the images of its .idx, which is the file FFmpeg reads
+            if (match && fExt === '.sub' && files.includes(f.slice(0, -fExt.length) + '.idx')) return false;
+            if (match) console.log(`DEBUG: Match found: ${f}`);
+            return match;
+        });
+
+        if (subtitleFiles.length > 0) {
+            console.log(`Found external subs for ${fileName}:`, subtitleFiles);
+        }
 
-                metadata.subtitleTracks.push({
-                    index: 0, // Not relevant for external
-                    languageCode: langCode,
-                    languageName: langName,
-                    title: title,
-                    codec: subExt.slice(1),
-                    isDefault: false,
-                    isForced: false,
-                    isEmbedded: false,
-                    externalPath: subPath
-                });
+        for (const subFile of subtitleFiles) {
+            // Skip if it's the video file itself (unlikely due to extension check but safety first)
+            if (subFile === fileName) continue;
+
+            const subExt = path.extname(subFile).toLowerCase();
+            const subPath = path.join(dir, subFile);
+
+            // Try to guess language from filename parts (e.g. Movie.en.srt -> en)
+            // Remove basename and extension
+            const parts = subFile.slice(basename.length, -subExt.length).split(/[._-]/).filter(p => p.length > 0);
+
+            // Simple language detection details
+            let langCode = 'und';
+            let langName = 'Unknown (External)';
+            let title = subFile;
+
+            const commonLangs: Record<string, string> = {
+                'en': 'English', 'eng': 'English',
+                'es': 'Spanish', 'spa': 'Spanish',
+                'fr': 'French', 'fre': 'French',
+                'de': 'German', 'ger': 'German',
+                'it': 'Italian', 'ita': 'Italian',
+                'pt': 'Portuguese', 'por': 'Portuguese',
+                'ru': 'Russian', 'rus': 'Russian',
+                'ja': 'Japanese', 'jpn': 'Japanese',
+                'zh': 'Chinese', 'chi': 'Chinese',
+                'hi': 'Hindi', 'hin': 'Hindi',
+                'ko': 'Korean', 'kor': 'Korean',
+            };
+
+            for (const part of parts) {
+                const lower = part.toLowerCase();
+                if (commonLangs[lower]) {
+                    langCode = lower.length === 2 ? lower : lower.substring(0, 3); // approximations
+                    langName = commonLangs[lower] + ' (External)';
+                    break;
+                }
             }
-        } catch (err) {
-            console.warn(`  ⚠️ Error checking external subtitles for ${fileName}:`, err);
+
+            metadata.subtitleTracks.push({
+                index: 0, // Not relevant for external
+                languageCode: langCode,
+                languageName: langName,
+                title: title,
+                codec: getExternalSubtitleCodec(subPath),
+                isDefault: false,
+                isForced: false,
+                isEmbedded: false,
+                externalPath: subPath
+            });
         }
+    } catch (err) {
+        console.warn(`  ⚠️ Error checking external subtitles for ${fileName}:`, err);
+    }
+
+    // NFO files, local artwork and container tags
+    const local = readLocalMetadata(sidecars, parsed, metadata.tags);
 
-        const browserCompatible = isBrowserCompatible(
+    const browserCompatible = isBrowserCompatible(
+        metadata.videoCodec,
+        metadata.audioCodec,
+        metadata.container
+    );
+
+    return {
+        changed: true,
+        file: {
+            filePath,
+            fileName,
+            size: stats.size,
+            mtime,
+            fileHash,
+            parsed: mergeParsedFilename(parsed, local),
+            metadata,
+            local,
+            sidecarFingerprint: sidecars.fingerprint,
+            browserCompatible,
+            existing,
+        },
+    };
+}
+
+/**
+ * Store a probe result. Synchronous, so callers can batch several in one transaction.
+ */
+function saveProbeResult(result: ProbeResult): void {
+    if (!result.changed) {
+        run('UPDATE media SET file_mtime = ?, last_scanned = CURRENT_TIMESTAMP WHERE id = ?', [result.mtime, result.mediaId]);
+        return;
+    }
+
+    const { filePath, fileName, size, mtime, fileHash, parsed, metadata, local, sidecarFingerprint, browserCompatible, existing } = result.file;
+    const localMetadata = local ? JSON.stringify(local) : null;
+
+    if (existing) {
+        // Keep TMDB data unless the file now looks like a different title
+        // or an NFO names a different TMDB id. Manual matches are never reset.
+        const identityChanged = existing.title !== parsed.title || existing.year !== (parsed.year || null);
+        const nfoMatchChanged = !!local?.tmdbId && existing.tmdb_id !== local.tmdbId;
+        const resetMatch = (identityChanged || nfoMatchChanged) && existing.match_method !== 'manual';
+        const keepMatch = !resetMatch && existing.tmdb_id !== null;
+
+        // A kept TV match follows the file to its (possibly new) episode number
+        const matchClause = resetMatch
+            ? ', match_method = NULL, tmdb_id = NULL, match_confidence = 0, show_id = NULL, episode_id = NULL'
+            : ', episode_id = (SELECT id FROM episodes WHERE show_id = media.show_id AND season_number = ? AND episode_number = ?)';
+        const matchParams = resetMatch ? [] : [parsed.season || null, parsed.episode || null];
+
+        // Update existing record
+        run(`
+    UPDATE media SET
+      file_name = ?,
+      file_size = ?,
+      file_mtime = ?,
+      file_hash = ?,
+      title = ?,
+      year = ?,
+      media_type = ?,
+      season_number = ?,
+      episode_number = ?,
+      episode_title = ?,
+      duration_seconds = ?,
+      video_codec = ?,
+      audio_codec = ?,
+      width = ?,
+      height = ?,
+      resolution = ?,
+      bitrate = ?,
+      fps = ?,
+      container_format = ?,
+      browser_compatible = ?,
+      has_subtitles = ?,
+      has_multiple_audio = ?,
+      local_metadata = ?,
+      sidecar_fingerprint = ?,
+      updated_at = CURRENT_TIMESTAMP,
+      last_scanned = CURRENT_TIMESTAMP
+      ${matchClause}
+    WHERE id = ?
+  `, [
+            fileName,
+            size,
+            mtime,
+            fileHash,
+            parsed.title,
+            parsed.year || null,
+            keepMatch ? existing.media_type : parsed.mediaType,
+            parsed.season || null,
+            parsed.episode || null,
+            keepMatch ? existing.episode_title : (parsed.episodeTitle || null),
+            metadata.duration,
             metadata.videoCodec,
             metadata.audioCodec,
-            metadata.container
-        );
-
-        if (existing) {
-            // Update existing record
-            run(`
-        UPDATE media SET
-          file_name = ?,
-          file_size = ?,
-          title = ?,
-          year = ?,
-          media_type = ?,
-          season_number = ?,
-          episode_number = ?,
-          episode_title = ?,
-          duration_seconds = ?,
-          video_codec = ?,
-          audio_codec = ?,
-          width = ?,
-          height = ?,
-          resolution = ?,
-          bitrate = ?,
-          fps = ?,
-          container_format = ?,
-          browser_compatible = ?,
-          has_subtitles = ?,
-          has_multiple_audio = ?,
-          updated_at = CURRENT_TIMESTAMP,
-          last_scanned = CURRENT_TIMESTAMP,
-          match_method = NULL,
-          tmdb_id = NULL
-        WHERE id = ?
-      `, [
-                fileName,
-                stats.size,
-                parsed.title,
-                parsed.year || null,
-                parsed.mediaType,
-                parsed.season || null,
-                parsed.episode || null,
-                parsed.episodeTitle || null,
-                metadata.duration,
-                metadata.videoCodec,
-                metadata.audioCodec,
-                metadata.width,
-                metadata.height,
-                metadata.resolution,
-                metadata.bitrate,
-                metadata.fps,
-                metadata.container,
-                browserCompatible ? 1 : 0,
-                metadata.subtitleTracks.length > 0 ? 1 : 0,
-                metadata.audioTracks.length > 1 ? 1 : 0,
-                existing.id,
-            ]);
-
-            // Update tracks
-            run('DELETE FROM subtitle_tracks WHERE media_id = ?', [existing.id]);
-            run('DELETE FROM audio_tracks WHERE media_id = ?', [existing.id]);
-
-            for (const track of metadata.subtitleTracks) {
-                insert(`
-          INSERT INTO subtitle_tracks (media_id, track_index, language_code, language_name, title, codec, is_default, is_forced, is_embedded, external_path)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `, [existing.id, track.index, track.languageCode, track.languageName, track.title, track.codec, track.isDefault ? 1 : 0, track.isForced ? 1 : 0, track.isEmbedded ? 1 : 0, track.externalPath || null]);
-            }
+            metadata.width,
+            metadata.height,
+            metadata.resolution,
+            metadata.bitrate,
+            metadata.fps,
+            metadata.container,
+            browserCompatible ? 1 : 0,
+            metadata.subtitleTracks.length > 0 ? 1 : 0,
+            metadata.audioTracks.length > 1 ? 1 : 0,
+            localMetadata,
+            sidecarFingerprint,
+            ...matchParams,
+            existing.id,
+        ]);
+
+        // Update tracks (subtitle delays set in the player survive the rescan)
+        const offsets = new Map(getAll<{ key: string; offset_ms: number }>(
+            `SELECT COALESCE(external_path, 'stream:' || track_index) AS key, offset_ms
+             FROM subtitle_tracks WHERE media_id = ? AND offset_ms != 0`,
+            [existing.id]
+        ).map(row => [row.key, row.offset_ms]));
+
+        run('DELETE FROM subtitle_tracks WHERE media_id = ?', [existing.id]);
+        run('DELETE FROM audio_tracks WHERE media_id = ?', [existing.id]);
+        run('DELETE FROM chapters WHERE media_id = ?', [existing.id]);
+
+        for (const track of metadata.subtitleTracks) {
+            const offset = offsets.get(track.externalPath || `stream:${track.index}`) || 0;
+            insert(`
+      INSERT INTO subtitle_tracks (media_id, track_index, language_code, language_name, title, codec, is_default, is_forced, is_embedded, external_path, offset_ms)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [existing.id, track.index, track.languageCode, track.languageName, track.title, track.codec, track.isDefault ? 1 : 0, track.isForced ? 1 : 0, track.isEmbedded ? 1 : 0, track.externalPath || null, offset]);
+        }
 
-            for (const track of metadata.audioTracks) {
-                insert(`
-          INSERT INTO audio_tracks (media_id, track_index, language_code, language_name, title, codec, channels, channel_layout, bitrate, sample_rate, is_default)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `, [existing.id, track.index, track.languageCode, track.languageName, track.title, track.codec, track.channels, track.channelLayout, track.bitrate, track.sampleRate, track.isDefault ? 1 : 0]);
-            }
+        for (const track of metadata.audioTracks) {
+            insert(`
+      INSERT INTO audio_tracks (media_id, track_index, language_code, language_name, title, codec, channels, channel_layout, bitrate, sample_rate, is_default)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [existing.id, track.index, track.languageCode, track.languageName, track.title, track.codec, track.channels, track.channelLayout, track.bitrate, track.sampleRate, track.isDefault ? 1 : 0]);
+        }
 
-            return true; // Updated
-        } else {
-            // Insert new record
-            const mediaId = insert(`
-        INSERT INTO media (
-          file_path, file_name, file_size, title, year, media_type,
-          season_number, episode_number, episode_title,
-          duration_seconds, video_codec, audio_codec, width, height,
-          resolution, bitrate, fps, container_format,
-          browser_compatible, has_subtitles, has_multiple_audio
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-      `, [
-                filePath,
-                fileName,
-                stats.size,
-                parsed.title,
-                parsed.year || null,
-                parsed.mediaType,
-                parsed.season || null,
-                parsed.episode || null,
-                parsed.episodeTitle || null,
-                metadata.duration,
-                metadata.videoCodec,
-                metadata.audioCodec,
-                metadata.width,
-                metadata.height,
-                metadata.resolution,
-                metadata.bitrate,
-                metadata.fps,
-                metadata.container,
-                browserCompatible ? 1 : 0,
-                metadata.subtitleTracks.length > 0 ? 1 : 0,
-                metadata.audioTracks.length > 1 ? 1 : 0,
-            ]);
-
-            // Insert tracks
-            for (const track of metadata.subtitleTracks) {
-                insert(`
-          INSERT INTO subtitle_tracks (media_id, track_index, language_code, language_name, title, codec, is_default, is_forced, is_embedded, external_path)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `, [mediaId, track.index, track.languageCode, track.languageName, track.title, track.codec, track.isDefault ? 1 : 0, track.isForced ? 1 : 0, track.isEmbedded ? 1 : 0, track.externalPath || null]);
-            }
+        for (const chapter of metadata.chapters) {
+            insert(`
+      INSERT INTO chapters (media_id, chapter_index, start_seconds, end_seconds, title)
+      VALUES (?, ?, ?, ?, ?)
+    `, [existing.id, chapter.index, chapter.start, chapter.end, chapter.title || null]);
+        }
 
-            for (const track of metadata.audioTracks) {
-                insert(`
-          INSERT INTO audio_tracks (media_id, track_index, language_code, language_name, title, codec, channels, channel_layout, bitrate, sample_rate, is_default)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `, [mediaId, track.index, track.languageCode, track.languageName, track.title, track.codec, track.channels, track.channelLayout, track.bitrate, track.sampleRate, track.isDefault ? 1 : 0]);
-            }
+        applyLocalMetadata(existing.id);
+    } else {
+        // Insert new record
+        const mediaId = insert(`
+    INSERT INTO media (
+      file_path, file_name, file_size, file_mtime, file_hash, title, year, media_type,
+      season_number, episode_number, episode_title,
+      duration_seconds, video_codec, audio_codec, width, height,
+      resolution, bitrate, fps, container_format,
+      browser_compatible, has_subtitles, has_multiple_audio,
+      local_metadata, sidecar_fingerprint, match_method
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)
+  `, [
+            filePath,
+            fileName,
+            size,
+            mtime,
+            fileHash,
+            parsed.title,
+            parsed.year || null,
+            parsed.mediaType,
+            parsed.season || null,
+            parsed.episode || null,
+            parsed.episodeTitle || null,
+            metadata.duration,
+            metadata.videoCodec,
+            metadata.audioCodec,
+            metadata.width,
+            metadata.height,
+            metadata.resolution,
+            metadata.bitrate,
+            metadata.fps,
+            metadata.container,
+            browserCompatible ? 1 : 0,
+            metadata.subtitleTracks.length > 0 ? 1 : 0,
+            metadata.audioTracks.length > 1 ? 1 : 0,
+            localMetadata,
+            sidecarFingerprint,
+        ]);
+
+        // Insert tracks
+        for (const track of metadata.subtitleTracks) {
+            insert(`
+      INSERT INTO subtitle_tracks (media_id, track_index, language_code, language_name, title, codec, is_default, is_forced, is_embedded, external_path)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [mediaId, track.index, track.languageCode, track.languageName, track.title, track.codec, track.isDefault ? 1 : 0, track.isForced ? 1 : 0, track.isEmbedded ? 1 : 0, track.externalPath || null]);
+        }
 
-            return true; // New file
+        for (const track of metadata.audioTracks) {
+            insert(`
+      INSERT INTO audio_tracks (media_id, track_index, language_code, language_name, title, codec, channels, channel_layout, bitrate, sample_rate, is_default)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [mediaId, track.index, track.languageCode, track.languageName, track.title, track.codec, track.channels, track.channelLayout, track.bitrate, track.sampleRate, track.isDefault ? 1 : 0]);
         }
-    } catch (err) {
-        console.error(`Error processing file ${filePath}:`, err);
 
-        // Log error to database
-        insert(`
+        for (const chapter of metadata.chapters) {
+            insert(`
+      INSERT INTO chapters (media_id, chapter_index, start_seconds, end_seconds, title)
+      VALUES (?, ?, ?, ?, ?)
+    `, [mediaId, chapter.index, chapter.start, chapter.end, chapter.title || null]);
+        }
+
+        applyLocalMetadata(mediaId);
+    }
+}
+
+function logScanError(filePath: string, err: unknown): void {
+    console.error(`Error processing file ${filePath}:`, err);
+
+    // Log error to database
+    insert(`
       INSERT INTO scan_errors (file_path, error_type, error_message)
       VALUES (?, ?, ?)
     `, [filePath, 'processing', err instanceof Error ? err.message : String(err)]);
+}
 
+/**
+ * Process a single video file and add/update in database
+ * Returns false when the file was unchanged and skipped.
+ */
+export async function processFile(filePath: string, force: boolean = false): Promise<boolean> {
+    try {
+        const result = await probeFile(filePath, force);
+        transaction(() => saveProbeResult(result));
+        return result.changed;
+    } catch (err) {
+        logScanError(filePath, err);
         throw err;
     }
 }
 
 /**
  * Scan a directory for video files and update database
+ * Only new or changed files are probed unless options.force is set.
  */
-export async function scanDirectory(scanPath: string, recursive: boolean = true): Promise<ScanResult> {
+export async function scanDirectory(scanPath: string, recursive: boolean = true, options: ScanOptions = {}): Promise<ScanResult> {
+    const { force = false, signal, onProgress } = options;
     const startTime = Date.now();
-    console.log(`\n🔍 Scanning: ${scanPath}`);
+    console.log(`\n🔍 Scanning: ${scanPath}${force ? ' (full rescan)' : ''}`);
 
     // Find all video files
+    onProgress?.({ phase: 'discover', scanPath, current: 0, total: 0 });
     const files = findVideoFiles(scanPath, recursive);
     console.log(`   Found ${files.length} video files`);
 
     let newFiles = 0;
     let updatedFiles = 0;
+    let unchangedFiles = 0;
     let errors = 0;
 
-    for (let i = 0; i < files.length; i++) {
-        const filePath = files[i];
-        const fileName = path.basename(filePath);
+    const countResult = (result: ProbeResult) => {
+        if (!result.changed) unchangedFiles++;
+        else if (result.file.existing) updatedFiles++;
+        else newFiles++;
+    };
+
+    // Probed files waiting to be written
+    let batch: ProbeResult[] = [];
+
+    const flushBatch = () => {
+        if (batch.length === 0) return;
+        const pending = batch;
+        batch = [];
 
         try {
-            process.stdout.write(`   [${i + 1}/${files.length}] ${fileName.substring(0, 50)}...`);
-            const isNew = await processFile(filePath);
-            if (isNew) {
-                const existing = getOne<{ id: number }>('SELECT id FROM media WHERE file_path = ?', [filePath]);
-                if (existing) {
-                    updatedFiles++;
-                    console.log(' ✏️ updated');
-                } else {
-                    newFiles++;
-                    console.log(' ✅ added');
+            transaction(() => pending.forEach(saveProbeResult));
+            pending.forEach(countResult);
+        } catch {
+            // Don't lose the whole batch to one bad row - retry one by one
+            for (const result of pending) {
+                try {
+                    transaction(() => saveProbeResult(result));
+                    countResult(result);
+                } catch (err) {
+                    logScanError(result.changed ? result.file.filePath : result.filePath, err);
+                    errors++;
                 }
-            } else {
-                console.log(' ⏭️ skipped');
             }
-        } catch (err) {
-            console.log(' ❌ error');
-            errors++;
         }
+    };
+
+    // Probe with a bounded number of workers, FFprobe is the slow part
+    const concurrency = Math.min(getScanConcurrency(), Math.max(files.length, 1));
+    let nextIndex = 0;
+    let completed = 0;
+
+    const worker = async () => {
+        while (nextIndex < files.length && !signal?.aborted) {
+            const filePath = files[nextIndex++];
+            const fileName = path.basename(filePath);
+            let status: string;
+
+            try {
+                const result = await probeFile(filePath, force);
+                batch.push(result);
+                status = !result.changed ? '⏭️ unchanged' : result.file.existing ? '✏️ updated' : '✅ added';
+            } catch (err) {
+                logScanError(filePath, err);
+                errors++;
+                status = '❌ error';
+            }
+
+            completed++;
+            console.log(`   [${completed}/${files.length}] ${fileName.substring(0, 50)} ${status}`);
+            onProgress?.({ phase: 'probe', scanPath, current: completed, total: files.length, file: fileName });
+
+            if (batch.length >= WRITE_BATCH_SIZE) {
+                flushBatch();
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: concurrency }, () => worker()));
+    flushBatch();
+
+    if (signal?.aborted) {
+        console.log(`   ⏹️ Scan cancelled after ${completed} files`);
     }
 
     const duration = Date.now() - startTime;
@@ -362,7 +622,7 @@ export async function scanDirectory(scanPath: string, recursive: boolean = true)
   `, [scanPath, duration, files.length, duration, files.length]);
 
     console.log(`\n✅ Scan complete in ${(duration / 1000).toFixed(1)}s`);
-    console.log(`   New: ${newFiles}, Updated: ${updatedFiles}, Errors: ${errors}`);
+    console.log(`   New: ${newFiles}, Updated: ${updatedFiles}, Unchanged: ${unchangedFiles}, Errors: ${errors}`);
 
     // Auto-queue incompatible files for conversion
     try {
@@ -379,6 +639,7 @@ export async function scanDirectory(scanPath: string, recursive: boolean = true)
         totalFiles: files.length,
         newFiles,
         updatedFiles,
+        unchangedFiles,
         errors,
         duration,
     };
@@ -387,7 +648,7 @@ export async function scanDirectory(scanPath: string, recursive: boolean = true)
 /**
  * Scan all enabled paths
  */
-export async function scanAllPaths(): Promise<ScanResult[]> {
+export async function scanAllPaths(options: ScanOptions = {}): Promise<ScanResult[]> {
     const paths = getAll<{ path: string; recursive: number }>(
         'SELECT path, recursive FROM scan_paths WHERE enabled = 1'
     );
@@ -395,8 +656,10 @@ export async function scanAllPaths(): Promise<ScanResult[]> {
     const results: ScanResult[] = [];
 
     for (const p of paths) {
+        if (options.signal?.aborted) break;
+
         if (fs.existsSync(p.path)) {
-            const result = await scanDirectory(p.path, p.recursive === 1);
+            const result = await scanDirectory(p.path, p.recursive === 1, options);
             results.push(result);
         } else {
             console.warn(`⚠️ Path not found: ${p.path}`);
@@ -406,6 +669,22 @@ export async function scanAllPaths(): Promise<ScanResult[]> {
     return results;
 }
 
+/**
+ * Remove a media entry and everything that references it
+ */
+export function removeMedia(mediaId: number): void {
+    run('DELETE FROM subtitle_tracks WHERE media_id = ?', [mediaId]);
+    run('DELETE FROM audio_tracks WHERE media_id = ?', [mediaId]);
+    run('DELETE FROM chapters WHERE media_id = ?', [mediaId]);
+    run('DELETE FROM playback_state WHERE media_id = ?', [mediaId]);
+    run('DELETE FROM watch_history WHERE media_id = ?', [mediaId]);
+    removeThumbnails(mediaId);
+    run('DELETE FROM media WHERE id = ?', [mediaId]);
+
+    // Its artwork may now be unused
+    scheduleImageCache();
+}
+
 /**
  * Remove media entries for files that no longer exist or are not in any library path
  */
@@ -421,10 +700,7 @@ export function cleanupMissingFiles(): number {
 
         // Check if file exists
         if (!fs.existsSync(media.file_path)) {
-            run('DELETE FROM subtitle_tracks WHERE media_id = ?', [media.id]);
-            run('DELETE FROM audio_tracks WHERE media_id = ?', [media.id]);
-            run('DELETE FROM playback_state WHERE media_id = ?', [media.id]);
-            run('DELETE FROM media WHERE id = ?', [media.id]);
+            removeMedia(media.id);
             removed++;
             console.log(`🗑️ Removed missing: ${path.basename(media.file_path)}`);
             continue;
@@ -433,10 +709,7 @@ export function cleanupMissingFiles(): number {
         // Check if file is in any allowed library path
         const isInLibrary = allowedPaths.some(allowed => resolvedPath.startsWith(allowed));
         if (!isInLibrary && allowedPaths.length > 0) {
-            run('DELETE FROM subtitle_tracks WHERE media_id = ?', [media.id]);
-            run('DELETE FROM audio_tracks WHERE media_id = ?', [media.id]);
-            run('DELETE FROM playback_state WHERE media_id = ?', [media.id]);
-            run('DELETE FROM media WHERE id = ?', [media.id]);
+            removeMedia(media.id);
             removed++;
             console.log(`🗑️ Removed (not in library): ${path.basename(media.file_path)}`);
         }
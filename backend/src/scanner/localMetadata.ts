@@ -0,0 +1,393 @@
+/**
+ * Local Metadata - Reads Kodi/Jellyfin style sidecar files
+ * movie.nfo / tvshow.nfo / <video>.nfo, poster.jpg / fanart.jpg next to the
+ * video and title/year container tags. Works without TMDB; values found here
+ * take priority over TMDB data.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { getOne, run } from '../db.js';
+import { parseFilename, ParsedFilename } from './filenameParser.js';
+import { ContainerTags } from './metadataExtractor.js';
+import { cacheLocalImage, scheduleImageCache } from '../services/imageCacheService.js';
+import { normalizeCertification } from '../services/parentalControlService.js';
+import { SUBTITLE_EXTENSIONS } from '../services/subtitleConverter.js';
+
+export interface LocalMetadata {
+    mediaType?: 'movie' | 'tv';
+    title?: string; // Movie or show title
+    year?: number;
+    season?: number;
+    episode?: number;
+    episodeTitle?: string;
+    tmdbId?: number; // Movie or show id
+    imdbId?: string;
+    overview?: string;
+    tagline?: string;
+    runtime?: number; // minutes
+    releaseDate?: string;
+    genres?: string[];
+    cast?: { name: string; character?: string; profile_path?: string }[];
+    director?: string;
+    rating?: number;
+    certification?: string; // <mpaa>, e.g. PG-13
+    posterFile?: string;
+    backdropFile?: string;
+}
+
+export interface SidecarFiles {
+    nfo?: string; // <video>.nfo, or movie.nfo for movies
+    showNfo?: string; // tvshow.nfo in the episode or show folder
+    poster?: string;
+    backdrop?: string;
+    fingerprint: number; // Names and mtimes of the sidecars and external subtitles, 0 when there are none
+}
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp'];
+
+// Episode folders inside a show folder
+const SEASON_FOLDER_PATTERN = /^(season[\s._-]*\d+|specials)$/i;
+
+/**
+ * Map lowercased file names to their real names
+ */
+function listFiles(dir: string): Map<string, string> {
+    try {
+        return new Map(fs.readdirSync(dir).map(name => [name.toLowerCase(), name]));
+    } catch {
+        return new Map();
+    }
+}
+
+function findFile(dir: string, files: Map<string, string>, names: string[]): string | undefined {
+    for (const name of names) {
+        const actual = files.get(name.toLowerCase());
+        if (actual) return path.join(dir, actual);
+    }
+    return undefined;
+}
+
+function findImage(dir: string, files: Map<string, string>, names: string[]): string | undefined {
+    return findFile(dir, files, names.flatMap(name => IMAGE_EXTENSIONS.map(ext => `${name}${ext}`)));
+}
+
+/**
+ * Number that changes when any of the files is added, removed, renamed or edited
+ */
+function fingerprintFiles(files: string[]): number {
+    const entries = files.flatMap(file => {
+        try {
+            return [`${file}:${Math.floor(fs.statSync(file).mtimeMs)}`];
+        } catch {
+            return [];
+        }
+    });
+    if (entries.length === 0) return 0;
+
+    // 48 bits of the hash, a safe integer for the database column
+    const hash = crypto.createHash('md5').update(entries.sort().join('\n')).digest('hex');
+    return parseInt(hash.slice(0, 12), 16);
+}
+
+/**
+ * Find the NFO and artwork files that belong to a video
+ * The fingerprint also covers its external subtitles, so adding one re-probes the video.
+ */
+export function findSidecarFiles(filePath: string, parsed: ParsedFilename): SidecarFiles {
+    const dir = path.dirname(filePath);
+    const base = path.basename(filePath, path.extname(filePath));
+    const files = listFiles(dir);
+
+    // tvshow.nfo sits next to the episodes or one level up, above the season folders
+    const parentDir = path.dirname(dir);
+    const showNfo = findFile(dir, files, ['tvshow.nfo'])
+        || (parentDir !== dir ? findFile(parentDir, listFiles(parentDir), ['tvshow.nfo']) : undefined);
+    const isTv = parsed.mediaType === 'tv' || !!showNfo;
+
+    const sidecars: SidecarFiles = { showNfo, fingerprint: 0 };
+
+    if (isTv) {
+        const showDir = showNfo
+            ? path.dirname(showNfo)
+            : (SEASON_FOLDER_PATTERN.test(path.basename(dir)) ? parentDir : dir);
+        const showFiles = showDir === dir ? files : listFiles(showDir);
+
+        sidecars.nfo = findFile(dir, files, [`${base}.nfo`]);
+        sidecars.poster = findImage(showDir, showFiles, ['poster', 'folder']);
+        sidecars.backdrop = findImage(dir, files, [`${base}-thumb`]) || findImage(showDir, showFiles, ['fanart', 'backdrop']);
+    } else {
+        sidecars.nfo = findFile(dir, files, [`${base}.nfo`, 'movie.nfo']);
+        sidecars.poster = findImage(dir, files, [`${base}-poster`, 'poster', 'folder', 'cover']);
+        sidecars.backdrop = findImage(dir, files, [`${base}-fanart`, 'fanart', 'backdrop']);
+    }
+
+    const subtitles = Array.from(files.values())
+        .filter(name => name.startsWith(base) && SUBTITLE_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+        .map(name => path.join(dir, name));
+
+    sidecars.fingerprint = fingerprintFiles([sidecars.nfo, sidecars.showNfo, sidecars.poster, sidecars.backdrop, ...subtitles]
+        .filter((file): file is string => !!file));
+
+    return sidecars;
+}
+
+function decodeXml(value: string): string {
+    const cdata = value.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+    if (cdata) return cdata[1].trim();
+
+    return value
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code, 10)))
+        .replace(/&amp;/g, '&')
+        .trim();
+}
+
+/**
+ * Get all <tag> elements. NFO files are flat enough that a regex does the job.
+ */
+function getElements(xml: string, tag: string): { attributes: string; content: string }[] {
+    const pattern = new RegExp(`<${tag}(\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'gi');
+    return Array.from(xml.matchAll(pattern), m => ({ attributes: m[1] || '', content: m[2] }));
+}
+
+function getText(xml: string, tag: string): string | undefined {
+    const element = getElements(xml, tag)[0];
+    const text = element ? decodeXml(element.content) : '';
+    return text || undefined;
+}
+
+function getAttribute(attributes: string, name: string): string | undefined {
+    return attributes.match(new RegExp(`${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1];
+}
+
+function toNumber(value: string | undefined): number | undefined {
+    const number = value ? parseFloat(value) : NaN;
+    return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+function toYear(value: string | undefined): number | undefined {
+    const match = value?.match(/\b(19|20)\d{2}\b/);
+    return match ? parseInt(match[0]) : undefined;
+}
+
+/**
+ * Drop undefined fields so spreading doesn't overwrite values
+ */
+function compact<T extends object>(value: T): Partial<T> {
+    return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/**
+ * Parse a movie, tvshow or episodedetails NFO file
+ */
+function readNfo(filePath: string): Partial<LocalMetadata> | null {
+    let xml: string;
+    try {
+        xml = fs.readFileSync(filePath, 'utf-8').replace(/<!--[\s\S]*?-->/g, '');
+    } catch (err) {
+        console.warn(`  ⚠️ Could not read ${filePath}:`, err);
+        return null;
+    }
+
+    const root = xml.match(/<(movie|tvshow|episodedetails)[\s>]/i)?.[1].toLowerCase();
+
+    if (!root) {
+        // Kodi also accepts an NFO that only holds a TMDB or IMDb link
+        const tmdb = xml.match(/themoviedb\.org\/(movie|tv)\/(\d+)/i);
+        const imdb = xml.match(/\b(tt\d{7,})\b/);
+        if (!tmdb && !imdb) return null;
+
+        return compact({
+            mediaType: tmdb ? (tmdb[1].toLowerCase() as 'movie' | 'tv') : undefined,
+            tmdbId: tmdb ? parseInt(tmdb[2]) : undefined,
+            imdbId: imdb?.[1],
+        });
+    }
+
+    // Multi-episode files have one <episodedetails> per episode, use the first
+    const body = getElements(xml, root)[0]?.content ?? xml;
+
+    // Nested blocks have their own <name>/<rating>/<title> tags
+    const fields = body.replace(/<(actor|fileinfo|ratings|set|resume)(\s[^>]*)?>[\s\S]*?<\/\1>/gi, '');
+
+    // Ratings: <ratings><rating default="true"><value> in newer files, <rating> in older ones
+    const ratings = getElements(body, 'ratings')[0]?.content || '';
+    const ratingElements = getElements(ratings, 'rating');
+    const defaultRating = ratingElements.find(r => getAttribute(r.attributes, 'default') === 'true') || ratingElements[0];
+    const rating = toNumber(defaultRating ? getText(defaultRating.content, 'value') : getText(fields, 'rating'));
+
+    const uniqueIds = getElements(fields, 'uniqueid');
+    const uniqueId = (type: string) => {
+        const element = uniqueIds.find(u => getAttribute(u.attributes, 'type')?.toLowerCase() === type);
+        return element ? decodeXml(element.content) : undefined;
+    };
+    const legacyId = getText(fields, 'id');
+
+    const cast = getElements(body, 'actor')
+        .map(actor => ({
+            name: getText(actor.content, 'name') || '',
+            character: getText(actor.content, 'role'),
+            // Only remote photos can be shown (and cached); local paths are skipped
+            profile_path: getText(actor.content, 'thumb')?.match(/^https?:\/\//) ? getText(actor.content, 'thumb') : undefined,
+        }))
+        .filter(actor => actor.name)
+        .slice(0, 10)
+        .map(actor => compact(actor) as { name: string });
+
+    const genres = getElements(fields, 'genre').map(g => decodeXml(g.content)).filter(Boolean);
+    const overview = getText(fields, 'plot') || getText(fields, 'outline');
+    const releaseDate = getText(fields, 'premiered') || getText(fields, 'aired') || getText(fields, 'releasedate');
+
+    const common = {
+        overview,
+        releaseDate,
+        rating,
+        certification: normalizeCertification(getText(fields, 'mpaa')) || undefined,
+        director: getText(fields, 'director'),
+        genres: genres.length > 0 ? genres : undefined,
+        cast: cast.length > 0 ? cast : undefined,
+    };
+
+    if (root === 'episodedetails') {
+        return compact({
+            ...common,
+            mediaType: 'tv' as const,
+            episodeTitle: getText(fields, 'title'),
+            season: toNumber(getText(fields, 'season')),
+            episode: toNumber(getText(fields, 'episode')),
+            runtime: toNumber(getText(fields, 'runtime')),
+        });
+    }
+
+    const tmdbId = toNumber(uniqueId('tmdb') || getText(fields, 'tmdbid') || (legacyId?.match(/^\d+$/) ? legacyId : undefined));
+
+    return compact({
+        ...common,
+        mediaType: root === 'movie' ? 'movie' as const : 'tv' as const,
+        title: getText(fields, 'title'),
+        year: toNumber(getText(fields, 'year')) || toYear(releaseDate),
+        tmdbId: tmdbId ? Math.round(tmdbId) : undefined,
+        imdbId: uniqueId('imdb') || getText(fields, 'imdbid') || (legacyId?.startsWith('tt') ? legacyId : undefined),
+        tagline: getText(fields, 'tagline'),
+        runtime: root === 'movie' ? toNumber(getText(fields, 'runtime')) : undefined,
+    });
+}
+
+/**
+ * Combine sidecar files and container tags into one set of local metadata
+ * Priority: episode or movie NFO, then tvshow.nfo, then container tags.
+ */
+export function readLocalMetadata(sidecars: SidecarFiles, parsed: ParsedFilename, tags?: ContainerTags): LocalMetadata | null {
+    const show = sidecars.showNfo ? readNfo(sidecars.showNfo) : null;
+    const own = sidecars.nfo ? readNfo(sidecars.nfo) : null;
+
+    const local: LocalMetadata = {
+        ...(show || {}),
+        ...(own || {}),
+        posterFile: sidecars.poster,
+        backdropFile: sidecars.backdrop,
+    };
+
+    // Container titles are often release names, so they are cleaned like filenames.
+    // On episodes the title tag names the episode and the date is the air date.
+    if (parsed.mediaType === 'tv' || local.mediaType === 'tv') {
+        local.episodeTitle ??= tags?.title;
+    } else {
+        if (!local.title && tags?.title) {
+            const cleaned = parseFilename(tags.title);
+            local.title = cleaned.title || undefined;
+            local.year ??= cleaned.year;
+        }
+        local.year ??= tags?.year;
+    }
+
+    const result = compact(local) as LocalMetadata;
+    return Object.keys(result).length > 0 ? result : null;
+}
+
+/**
+ * Let local metadata override what was parsed from the filename
+ */
+export function mergeParsedFilename(parsed: ParsedFilename, local: LocalMetadata | null): ParsedFilename {
+    if (!local) return parsed;
+
+    return {
+        ...parsed,
+        title: local.title || parsed.title,
+        year: local.year || parsed.year,
+        mediaType: local.mediaType || parsed.mediaType,
+        season: local.season ?? parsed.season,
+        episode: local.episode ?? parsed.episode,
+        episodeTitle: local.episodeTitle || parsed.episodeTitle,
+    };
+}
+
+/**
+ * Get the local metadata stored for a media item
+ */
+export function getLocalMetadata(mediaId: number): LocalMetadata | null {
+    const row = getOne<{ local_metadata: string | null }>('SELECT local_metadata FROM media WHERE id = ?', [mediaId]);
+    if (!row?.local_metadata) return null;
+
+    try {
+        return JSON.parse(row.local_metadata);
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Write local metadata over the descriptive columns of a media row
+ * Called after every scan and TMDB match so NFO values always win.
+ */
+export function applyLocalMetadata(mediaId: number): void {
+    const local = getLocalMetadata(mediaId);
+    if (!local) return;
+
+    const posterPath = local.posterFile ? cacheLocalImage(local.posterFile) : null;
+    const backdropPath = local.backdropFile ? cacheLocalImage(local.backdropFile) : null;
+
+    run(`
+    UPDATE media SET
+      imdb_id = COALESCE(?, imdb_id),
+      episode_title = COALESCE(?, episode_title),
+      overview = COALESCE(?, overview),
+      tagline = COALESCE(?, tagline),
+      runtime = COALESCE(?, runtime),
+      release_date = COALESCE(?, release_date),
+      poster_path = COALESCE(?, poster_path),
+      backdrop_path = COALESCE(?, backdrop_path),
+      genres = COALESCE(?, genres),
+      cast_members = COALESCE(?, cast_members),
+      director = COALESCE(?, director),
+      rating = COALESCE(?, rating),
+      certification = COALESCE(?, certification)
+    WHERE id = ?
+  `, [
+        local.imdbId || null,
+        local.episodeTitle || null,
+        local.overview || null,
+        local.tagline || null,
+        local.runtime ? Math.round(local.runtime) : null,
+        local.releaseDate || null,
+        posterPath,
+        backdropPath,
+        local.genres ? JSON.stringify(local.genres) : null,
+        local.cast ? JSON.stringify(local.cast) : null,
+        local.director || null,
+        local.rating || null,
+        local.certification || null,
+        mediaId,
+    ]);
+
+    // Remote cast photos from the NFO go through the image cache
+    if (local.cast?.some(c => c.profile_path)) {
+        scheduleImageCache();
+    }
+}
@@ -17,6 +17,13 @@ export interface VideoMetadata {
     container: string;
     subtitleTracks: SubtitleTrack[];
     audioTracks: AudioTrack[];
+    chapters: Chapter[];
+    tags?: ContainerTags;
+}
+
+export interface ContainerTags {
+    title?: string;
+    year?: number;
 }
 
 export interface SubtitleTrack {
@@ -44,6 +51,13 @@ export interface AudioTrack {
     isDefault: boolean;
 }
 
+export interface Chapter {
+    index: number;
+    start: number; // seconds
+    end: number;
+    title?: string;
+}
+
 // Language code to name mapping (common ones)
 const LANGUAGE_NAMES: Record<string, string> = {
     eng: 'English',
@@ -73,11 +87,58 @@ const LANGUAGE_NAMES: Record<string, string> = {
     und: 'Unknown',
 };
 
-function getLanguageName(code: string | undefined): string {
+export function getLanguageName(code: string | undefined): string {
     if (!code) return 'Unknown';
     return LANGUAGE_NAMES[code.toLowerCase()] || code;
 }
 
+/**
+ * Read title and year from container tags (Matroska TITLE/DATE, MP4 title/date)
+ */
+function getContainerTags(tags: Record<string, string | number> | undefined): ContainerTags {
+    if (!tags) return {};
+
+    const lookup = (...keys: string[]) => {
+        for (const [key, value] of Object.entries(tags)) {
+            if (keys.includes(key.toLowerCase()) && String(value).trim()) return String(value).trim();
+        }
+        return undefined;
+    };
+
+    const yearMatch = lookup('date', 'year', 'date_released')?.match(/\b(19|20)\d{2}\b/);
+
+    return {
+        title: lookup('title'),
+        year: yearMatch ? parseInt(yearMatch[0]) : undefined,
+    };
+}
+
+/**
+ * Read the chapter list, skipping empty chapters and titles that are only a timestamp
+ * FFprobe reports chapter tags as "TAG:title" keys.
+ */
+function getChapters(chapters: Record<string, unknown>[], duration: number): Chapter[] {
+    const result: Chapter[] = [];
+
+    for (const chapter of chapters) {
+        const start = Number(chapter.start_time);
+        let end = Number(chapter.end_time);
+        if (!Number.isFinite(start) || start < 0) continue;
+        if (!Number.isFinite(end) || (duration > 0 && end > duration)) end = duration;
+        if (end <= start) continue;
+
+        const tags = chapter.tags as Record<string, unknown> | undefined;
+        const rawTitle = String(tags?.title ?? chapter['TAG:title'] ?? '').trim();
+        const title = rawTitle && !/^[\d:.,]+$/.test(rawTitle) ? rawTitle : undefined;
+
+        result.push({ index: 0, start, end, title });
+    }
+
+    return result
+        .sort((a, b) => a.start - b.start)
+        .map((chapter, index) => ({ ...chapter, index }));
+}
+
 function getResolutionLabel(width: number, height: number): string {
     if (height >= 2160 || width >= 3840) return '4K';
     if (height >= 1080 || width >= 1920) return '1080p';
@@ -91,7 +152,7 @@ function getResolutionLabel(width: number, height: number): string {
  */
 export function extractMetadata(filePath: string): Promise<VideoMetadata> {
     return new Promise((resolve, reject) => {
-        ffmpeg.ffprobe(filePath, (err, metadata) => {
+        ffmpeg.ffprobe(filePath, ['-show_chapters'], (err, metadata) => {
             if (err) {
                 reject(new Error(`FFprobe error: ${err.message}`));
                 return;
@@ -155,6 +216,8 @@ export function extractMetadata(filePath: string): Promise<VideoMetadata> {
                     sampleRate: s.sample_rate ? Number(s.sample_rate) : undefined,
                     isDefault: s.disposition?.default === 1,
                 })),
+                chapters: getChapters(metadata.chapters || [], format.duration || 0),
+                tags: getContainerTags(format.tags),
             };
 
             resolve(result);
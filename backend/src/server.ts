@@ -13,6 +13,19 @@ import playbackRoutes from './routes/playback.js';
 import searchRoutes from './routes/search.js';
 import settingsRoutes from './routes/settings.js';
 import conversionRoutes from './routes/conversion.js';
+import watcherRoutes from './routes/watcher.js';
+import reviewRoutes from './routes/review.js';
+import showRoutes from './routes/shows.js';
+import markerRoutes from './routes/markers.js';
+import thumbnailRoutes from './routes/thumbnails.js';
+import sessionRoutes from './routes/sessions.js';
+import historyRoutes from './routes/history.js';
+import watchlistRoutes from './routes/watchlist.js';
+import collectionRoutes from './routes/collections.js';
+import profileRoutes from './routes/profiles.js';
+import authRoutes from './routes/auth.js';
+import { requireAuth, requireAdmin } from './services/authService.js';
+import { requireProfile } from './services/profileService.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -43,22 +56,37 @@ const apiLimiter = rateLimit({
 
 app.use('/api/', apiLimiter);
 
-// Static files for posters/backdrops
-app.use('/images', express.static(path.join(__dirname, '..', 'public', 'images')));
-
-// API Routes
-app.use('/api/media', mediaRoutes);
-app.use('/api/video', videoRoutes);
-app.use('/api/playback', playbackRoutes);
-app.use('/api/search', searchRoutes);
-app.use('/api/settings', settingsRoutes);
-app.use('/api/conversion', conversionRoutes);
+// Static files for posters/backdrops (TMDB file names never change content)
+app.use('/images', express.static(path.join(__dirname, '..', 'public', 'images'), { maxAge: '30d', immutable: true }));
 
 // Health check
 app.get('/api/health', (req, res) => {
     res.json({ status: 'ok', timestamp: new Date().toISOString() });
 });
 
+// Signing in is the only thing possible without an account
+app.use('/api/auth', authRoutes);
+app.use('/api', requireAuth);
+
+// API Routes
+// Progress, history and player preferences are per profile
+app.use('/api/media', requireProfile, mediaRoutes);
+app.use('/api/video', requireProfile, videoRoutes);
+app.use('/api/playback', requireProfile, playbackRoutes);
+app.use('/api/search', requireProfile, searchRoutes);
+app.use('/api/settings', requireProfile, settingsRoutes);
+app.use('/api/conversion', conversionRoutes);
+app.use('/api/watcher', watcherRoutes);
+app.use('/api/review', requireAdmin, reviewRoutes); // Rewrites metadata, certifications included
+app.use('/api/shows', requireProfile, showRoutes);
+app.use('/api/markers', requireProfile, markerRoutes);
+app.use('/api/thumbnails', thumbnailRoutes);
+app.use('/api/sessions', requireProfile, sessionRoutes);
+app.use('/api/history', requireProfile, historyRoutes);
+app.use('/api/watchlist', requireProfile, watchlistRoutes);
+app.use('/api/collections', requireProfile, collectionRoutes);
+app.use('/api/profiles', profileRoutes);
+
 // Error handler
 app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
     console.error('Server error:', err);
@@ -78,6 +106,9 @@ if (process.env.NODE_ENV === 'production') {
 }
 
 import { runMigrations } from './migrate.js';
+import { syncWatchers } from './services/watcherService.js';
+import { scheduleImageCache } from './services/imageCacheService.js';
+import { cleanupThumbnailCache } from './services/thumbnailService.js';
 
 // Initialize database and start server
 async function start() {
@@ -87,6 +118,14 @@ async function start() {
         await runMigrations();
         console.log('✅ Database initialized');
 
+        syncWatchers();
+
+        // Download artwork that is still remote (e.g. from before the image cache existed)
+        scheduleImageCache();
+
+        // Previews of media removed while the server was down
+        cleanupThumbnailCache();
+
         app.listen(PORT, () => {
             console.log(`🎬 Media Player API running on http://localhost:${PORT}`);
             console.log(`📁 Frontend URL: ${process.env.FRONTEND_URL || 'http://localhost:5173'}`);
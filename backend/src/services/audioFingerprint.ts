@@ -0,0 +1,292 @@
+/**
+ * Audio Fingerprint - Finds the stretch of audio two episodes have in common
+ * The start of each file is decoded to mono PCM with FFmpeg and every frame is
+ * hashed from the energy differences between neighbouring frequency bands
+ * (Haitsma & Kalker), so the same theme song hashes alike in every episode
+ * even when the files were encoded differently.
+ */
+
+import { spawn } from 'child_process';
+
+const SAMPLE_RATE = 8000;
+const FRAME_SIZE = 2048;
+const HOP_SIZE = 512;
+export const FRAME_SECONDS = HOP_SIZE / SAMPLE_RATE;
+
+// 33 bands give 32 bits per frame
+const BAND_COUNT = 33;
+const MIN_FREQUENCY = 300;
+const MAX_FREQUENCY = 2000;
+
+// Frames quieter than this (RMS, full scale = 1) hash to 0 and never match
+const SILENCE_RMS = 0.002;
+
+// Two frames match when their hashes differ in at most this many bits, averaged over a second
+const MAX_BIT_ERRORS = 10;
+const SMOOTHING_FRAMES = Math.round(1 / FRAME_SECONDS);
+// Gaps in a match shorter than this are bridged (a sound effect over the theme song)
+const MAX_GAP_FRAMES = Math.round(1 / FRAME_SECONDS);
+// Offsets need this many close frames (at most CLOSE_BIT_ERRORS apart) to be looked at closely,
+// unrelated audio has about one in 300
+const CLOSE_BIT_ERRORS = 8;
+const MIN_OFFSET_VOTES = 30;
+const CANDIDATE_OFFSETS = 5;
+
+export interface SharedSegment {
+    // Seconds from the start of each file
+    aStart: number;
+    aEnd: number;
+    bStart: number;
+    bEnd: number;
+}
+
+/**
+ * Decode the first seconds of the first audio stream to mono 16-bit PCM
+ */
+export function decodeAudio(filePath: string, seconds: number): Promise<Int16Array> {
+    return new Promise((resolve, reject) => {
+        const ffmpeg = spawn('ffmpeg', [
+            '-v', 'error',
+            '-t', String(seconds),
+            '-i', filePath,
+            '-map', '0:a:0',
+            '-ac', '1',
+            '-ar', String(SAMPLE_RATE),
+            '-f', 's16le',
+            '-',
+        ]);
+
+        const chunks: Buffer[] = [];
+        let stderr = '';
+        ffmpeg.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+        ffmpeg.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+
+        ffmpeg.on('error', reject);
+        ffmpeg.on('close', (code) => {
+            if (code !== 0) {
+                reject(new Error(stderr.trim() || `FFmpeg exited with code ${code}`));
+                return;
+            }
+            const pcm = Buffer.concat(chunks);
+            // Copy into an aligned buffer, the pooled one may start at an odd offset
+            const samples = new Int16Array(Math.floor(pcm.length / 2));
+            for (let i = 0; i < samples.length; i++) {
+                samples[i] = pcm.readInt16LE(i * 2);
+            }
+            resolve(samples);
+        });
+    });
+}
+
+/**
+ * In-place radix-2 FFT
+ */
+function fft(re: Float64Array, im: Float64Array): void {
+    const n = re.length;
+
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            const tRe = re[i];
+            re[i] = re[j];
+            re[j] = tRe;
+            const tIm = im[i];
+            im[i] = im[j];
+            im[j] = tIm;
+        }
+    }
+
+    for (let size = 2; size <= n; size <<= 1) {
+        const angle = -2 * Math.PI / size;
+        const stepRe = Math.cos(angle);
+        const stepIm = Math.sin(angle);
+        for (let start = 0; start < n; start += size) {
+            let wRe = 1;
+            let wIm = 0;
+            for (let k = 0; k < size / 2; k++) {
+                const a = start + k;
+                const b = a + size / 2;
+                const tRe = re[b] * wRe - im[b] * wIm;
+                const tIm = re[b] * wIm + im[b] * wRe;
+                re[b] = re[a] - tRe;
+                im[b] = im[a] - tIm;
+                re[a] += tRe;
+                im[a] += tIm;
+                const nextRe = wRe * stepRe - wIm * stepIm;
+                wIm = wRe * stepIm + wIm * stepRe;
+                wRe = nextRe;
+            }
+        }
+    }
+}
+
+/**
+ * Hash every frame of mono PCM at the fingerprint sample rate
+ */
+export function computeFingerprint(samples: Int16Array): Uint32Array {
+    const frameCount = Math.max(0, Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1);
+    const hashes = new Uint32Array(frameCount);
+
+    const window = new Float64Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) {
+        window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (FRAME_SIZE - 1));
+    }
+
+    // FFT bin where each band starts, spaced logarithmically like hearing
+    const bandEdges: number[] = [];
+    for (let b = 0; b <= BAND_COUNT; b++) {
+        const frequency = MIN_FREQUENCY * Math.pow(MAX_FREQUENCY / MIN_FREQUENCY, b / BAND_COUNT);
+        bandEdges.push(Math.round(frequency * FRAME_SIZE / SAMPLE_RATE));
+    }
+
+    const re = new Float64Array(FRAME_SIZE);
+    const im = new Float64Array(FRAME_SIZE);
+    let previous: Float64Array | null = null;
+
+    for (let frame = 0; frame < frameCount; frame++) {
+        const offset = frame * HOP_SIZE;
+        let power = 0;
+        for (let i = 0; i < FRAME_SIZE; i++) {
+            const sample = samples[offset + i] / 32768;
+            power += sample * sample;
+            re[i] = sample * window[i];
+            im[i] = 0;
+        }
+        fft(re, im);
+
+        const energies = new Float64Array(BAND_COUNT);
+        for (let b = 0; b < BAND_COUNT; b++) {
+            for (let bin = bandEdges[b]; bin < Math.max(bandEdges[b + 1], bandEdges[b] + 1); bin++) {
+                energies[b] += re[bin] * re[bin] + im[bin] * im[bin];
+            }
+        }
+
+        if (previous && Math.sqrt(power / FRAME_SIZE) >= SILENCE_RMS) {
+            let hash = 0;
+            for (let b = 0; b < BAND_COUNT - 1; b++) {
+                const difference = (energies[b] - energies[b + 1]) - (previous[b] - previous[b + 1]);
+                if (difference > 0) hash |= 1 << b;
+            }
+            hashes[frame] = hash >>> 0;
+        }
+        previous = energies;
+    }
+
+    return hashes;
+}
+
+function countBits(value: number): number {
+    value -= (value >>> 1) & 0x55555555;
+    value = (value & 0x33333333) + ((value >>> 2) & 0x33333333);
+    return Math.imul((value + (value >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
+
+/**
+ * Offsets (frame in a minus frame in b) that line up the most similar frames
+ * Exact hash matches are too rare in noisy audio, so every offset is tried
+ * on every other frame.
+ */
+function findCandidateOffsets(a: Uint32Array, b: Uint32Array): number[] {
+    const votes = new Map<number, number>();
+    for (let offset = -(b.length - 1); offset < a.length; offset++) {
+        let count = 0;
+        for (let i = Math.max(0, offset); i < Math.min(a.length, b.length + offset); i += 2) {
+            const hashA = a[i];
+            const hashB = b[i - offset];
+            if (hashA !== 0 && hashB !== 0 && countBits(hashA ^ hashB) <= CLOSE_BIT_ERRORS) count++;
+        }
+        if (count >= MIN_OFFSET_VOTES) votes.set(offset, count);
+    }
+
+    // Neighbouring offsets count too, frames rarely line up to the sample
+    const scored = [...votes.keys()].map(offset => ({
+        offset,
+        votes: (votes.get(offset - 1) || 0) + votes.get(offset)! + (votes.get(offset + 1) || 0),
+    }));
+
+    const candidates: number[] = [];
+    for (const { offset } of scored.sort((x, y) => y.votes - x.votes)) {
+        if (candidates.length >= CANDIDATE_OFFSETS) break;
+        if (candidates.some(c => Math.abs(c - offset) <= 1)) continue;
+        candidates.push(offset);
+    }
+    return candidates;
+}
+
+/**
+ * Longest run of matching frames when b is shifted by offset, as [first, last] frame in a
+ */
+function findLongestRun(a: Uint32Array, b: Uint32Array, offset: number): [number, number] | null {
+    const first = Math.max(0, offset);
+    const last = Math.min(a.length, b.length + offset) - 1;
+    if (last < first) return null;
+
+    // Bit errors per frame, the best of the offsets around this one
+    const errors = new Float64Array(last - first + 1);
+    for (let i = first; i <= last; i++) {
+        let best = 32;
+        for (let shift = -1; shift <= 1; shift++) {
+            const j = i - offset + shift;
+            if (j < 0 || j >= b.length || a[i] === 0 || b[j] === 0) continue;
+            best = Math.min(best, countBits(a[i] ^ b[j]));
+        }
+        errors[i - first] = best;
+    }
+
+    // Averaged over a second, single frames are too noisy to judge
+    const half = Math.floor(SMOOTHING_FRAMES / 2);
+    let sum = 0;
+    let run: [number, number] | null = null;
+    let runStart = -1;
+    let lastMatch = -1;
+
+    for (let k = 0; k < errors.length + half; k++) {
+        if (k < errors.length) sum += errors[k];
+        if (k - SMOOTHING_FRAMES >= 0) sum -= errors[k - SMOOTHING_FRAMES];
+        const center = k - half;
+        if (center < 0) continue;
+
+        const width = Math.min(k, errors.length - 1) - Math.max(0, k - SMOOTHING_FRAMES + 1) + 1;
+        if (sum / width <= MAX_BIT_ERRORS) {
+            if (runStart === -1 || center - lastMatch > MAX_GAP_FRAMES) runStart = center;
+            lastMatch = center;
+            if (!run || lastMatch - runStart > run[1] - run[0]) run = [runStart, lastMatch];
+        }
+    }
+
+    return run ? [run[0] + first, run[1] + first] : null;
+}
+
+/**
+ * Longest stretch of audio found in both fingerprints that lasts between
+ * minSeconds and maxSeconds, or null if there is none
+ */
+export function findSharedSegment(
+    a: Uint32Array,
+    b: Uint32Array,
+    minSeconds: number,
+    maxSeconds: number
+): SharedSegment | null {
+    let best: { offset: number; run: [number, number] } | null = null;
+
+    for (const offset of findCandidateOffsets(a, b)) {
+        const run = findLongestRun(a, b, offset);
+        if (run && (!best || run[1] - run[0] > best.run[1] - best.run[0])) {
+            best = { offset, run };
+        }
+    }
+    if (!best) return null;
+
+    const [start, end] = best.run;
+    const seconds = (end - start + 1) * FRAME_SECONDS;
+    if (seconds < minSeconds || seconds > maxSeconds) return null;
+
+    return {
+        aStart: start * FRAME_SECONDS,
+        aEnd: (end + 1) * FRAME_SECONDS,
+        bStart: (start - best.offset) * FRAME_SECONDS,
+        bEnd: (end + 1 - best.offset) * FRAME_SECONDS,
+    };
+}
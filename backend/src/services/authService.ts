@@ -0,0 +1,224 @@
+/**
+ * Auth Service - Local accounts and sign-in sessions
+ * Passwords are hashed with scrypt. Signing in creates a session token that
+ * browsers keep in an HttpOnly cookie (so <video>, <track> and EventSource
+ * requests are covered too) and other clients send as a bearer token.
+ * Admins manage the library and the server, viewers can only watch.
+ */
+
+import crypto from 'crypto';
+import { promisify } from 'util';
+import { Request, Response, NextFunction } from 'express';
+import { getOne, getAll, run, insert } from '../db.js';
+
+export type AccountRole = 'admin' | 'viewer';
+
+export const ACCOUNT_ROLES: AccountRole[] = ['admin', 'viewer'];
+
+export interface Account {
+    id: number;
+    username: string;
+    role: AccountRole;
+    created_at: string;
+    last_login_at: string | null;
+}
+
+export const SESSION_COOKIE = 'nebula_session';
+
+// Sessions last a month from their last use
+export const SESSION_TTL_DAYS = 30;
+
+// Refreshing last_used_at on every video range request would be wasteful
+const TOUCH_INTERVAL = 60 * 60 * 1000;
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+const ACCOUNT_COLUMNS = 'id, username, role, created_at, last_login_at';
+
+export async function hashPassword(password: string): Promise<string> {
+    const salt = crypto.randomBytes(16);
+    const key = await scrypt(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('hex')}$${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, salt, hash] = stored.split('$');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+    const expected = Buffer.from(hash, 'hex');
+    if (expected.length === 0) return false;
+    const key = await scrypt(password, Buffer.from(salt, 'hex'), expected.length);
+    return crypto.timingSafeEqual(key, expected);
+}
+
+function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function hasAccounts(): boolean {
+    return !!getOne('SELECT id FROM accounts LIMIT 1');
+}
+
+export function getAccounts(): Account[] {
+    return getAll<Account>(`SELECT ${ACCOUNT_COLUMNS} FROM accounts ORDER BY id`);
+}
+
+export function getAccount(id: number): Account | undefined {
+    return getOne<Account>(`SELECT ${ACCOUNT_COLUMNS} FROM accounts WHERE id = ?`, [id]);
+}
+
+export function findAccountByUsername(username: string): Account | undefined {
+    return getOne<Account>(`SELECT ${ACCOUNT_COLUMNS} FROM accounts WHERE username = ?`, [username]);
+}
+
+export async function createAccount(username: string, password: string, role: AccountRole): Promise<Account> {
+    const id = insert(
+        'INSERT INTO accounts (username, password_hash, role) VALUES (?, ?, ?)',
+        [username, await hashPassword(password), role]
+    );
+    console.log(`🔑 Account created: ${username} (${role})`);
+    return getAccount(id)!;
+}
+
+/**
+ * Change an account's password, signing out its other sessions
+ */
+export async function setPassword(accountId: number, password: string, keepSessionId?: number): Promise<void> {
+    run('UPDATE accounts SET password_hash = ? WHERE id = ?', [await hashPassword(password), accountId]);
+    run('DELETE FROM auth_sessions WHERE account_id = ? AND id IS NOT ?', [accountId, keepSessionId ?? null]);
+}
+
+export function setRole(accountId: number, role: AccountRole): void {
+    run('UPDATE accounts SET role = ? WHERE id = ?', [role, accountId]);
+}
+
+export function deleteAccount(accountId: number): void {
+    run('DELETE FROM accounts WHERE id = ?', [accountId]);
+    console.log(`🗑️ Account deleted: ${accountId}`);
+}
+
+/**
+ * Whether the account is the only admin, who can't be removed or demoted
+ */
+export function isLastAdmin(accountId: number): boolean {
+    const admins = getAll<{ id: number }>("SELECT id FROM accounts WHERE role = 'admin'");
+    return admins.length === 1 && admins[0].id === accountId;
+}
+
+/**
+ * Check a username and password, returning the account on success
+ */
+export async function authenticate(username: string, password: string): Promise<Account | null> {
+    const row = getOne<Account & { password_hash: string }>('SELECT * FROM accounts WHERE username = ?', [username]);
+    if (!row) {
+        // Spend the same time as for a wrong password, so usernames can't be probed
+        await hashPassword(password);
+        return null;
+    }
+    if (!(await verifyPassword(password, row.password_hash))) return null;
+
+    run('UPDATE accounts SET last_login_at = CURRENT_TIMESTAMP WHERE id = ?', [row.id]);
+    return getAccount(row.id)!;
+}
+
+/**
+ * Start a session for a signed-in account, returning its token
+ */
+export function createSession(accountId: number, userAgent: string | null): string {
+    const token = crypto.randomBytes(32).toString('base64url');
+    insert(`
+        INSERT INTO auth_sessions (token_hash, account_id, user_agent, expires_at)
+        VALUES (?, ?, ?, datetime('now', ?))
+    `, [hashToken(token), accountId, userAgent, `+${SESSION_TTL_DAYS} days`]);
+    return token;
+}
+
+export function deleteSession(sessionId: number): void {
+    run('DELETE FROM auth_sessions WHERE id = ?', [sessionId]);
+}
+
+// Session token from the cookie or an Authorization: Bearer header
+function getToken(req: Request): string | null {
+    const auth = req.get('authorization');
+    if (auth?.startsWith('Bearer ')) return auth.slice(7).trim() || null;
+
+    for (const part of (req.get('cookie') || '').split(';')) {
+        const [name, ...value] = part.trim().split('=');
+        if (name === SESSION_COOKIE) return decodeURIComponent(value.join('='));
+    }
+    return null;
+}
+
+/**
+ * The account and session a request was made with, if it carries a valid token
+ */
+export function resolveSession(req: Request): { account: Account; sessionId: number } | null {
+    const token = getToken(req);
+    if (!token) return null;
+
+    const session = getOne<{ id: number; account_id: number; last_used_at: string }>(
+        "SELECT id, account_id, last_used_at FROM auth_sessions WHERE token_hash = ? AND expires_at > datetime('now')",
+        [hashToken(token)]
+    );
+    if (!session) return null;
+
+    const account = getAccount(session.account_id);
+    if (!account) return null;
+
+    if (Date.now() - new Date(session.last_used_at + 'Z').getTime() > TOUCH_INTERVAL) {
+        run(
+            "UPDATE auth_sessions SET last_used_at = CURRENT_TIMESTAMP, expires_at = datetime('now', ?) WHERE id = ?",
+            [`+${SESSION_TTL_DAYS} days`, session.id]
+        );
+    }
+
+    return { account, sessionId: session.id };
+}
+
+export function setSessionCookie(req: Request, res: Response, token: string): void {
+    res.cookie(SESSION_COOKIE, token, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: req.secure,
+        path: '/',
+        maxAge: SESSION_TTL_DAYS * 24 * 60 * 60 * 1000,
+    });
+}
+
+export function clearSessionCookie(res: Response): void {
+    res.clearCookie(SESSION_COOKIE, { path: '/' });
+}
+
+/**
+ * Middleware: reject requests without a valid session
+ * Sets res.locals.account and res.locals.authSessionId for the routes.
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+    try {
+        const resolved = resolveSession(req);
+        if (!resolved) {
+            return res.status(401).json({ error: 'Authentication required', code: 'unauthorized' });
+        }
+
+        res.locals.account = resolved.account;
+        res.locals.authSessionId = resolved.sessionId;
+        next();
+    } catch (err) {
+        next(err);
+    }
+}
+
+/**
+ * Middleware: only admins may continue, use after requireAuth
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+    if ((res.locals.account as Account | undefined)?.role !== 'admin') {
+        return res.status(403).json({ error: 'Admin access required', code: 'forbidden' });
+    }
+    next();
+}
+
+// Expired sessions are dropped once a day
+setInterval(() => {
+    run("DELETE FROM auth_sessions WHERE expires_at <= datetime('now')");
+}, 24 * 60 * 60 * 1000).unref();
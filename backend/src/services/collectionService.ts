@@ -0,0 +1,150 @@
+/**
+ * Collection Service - Groups of titles
+ * Manual collections ("Christmas movies") hold the items an admin put in them,
+ * in their chosen order. Automatic collections are TMDB franchises and list
+ * every movie whose belongs_to_collection points at them, by release date.
+ */
+
+import { getOne, getAll, run, insert } from '../db.js';
+import { Media } from '../types/db.js';
+import { certificationFilter } from './parentalControlService.js';
+import { appendListItem, reorderList, OrderedList } from './orderedList.js';
+
+export interface Collection {
+    id: number;
+    name: string;
+    overview: string | null;
+    poster_path: string | null;
+    backdrop_path: string | null;
+    tmdb_collection_id: number | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export type CollectionSummary = Collection & { item_count: number };
+
+export interface TmdbCollection {
+    id: number;
+    name: string;
+    poster_path?: string;
+    backdrop_path?: string;
+}
+
+// A franchise with a single movie in the library isn't worth listing
+const MIN_AUTOMATIC_ITEMS = 2;
+
+const COLLECTION_ITEMS: OrderedList = { table: 'collection_items', ownerColumn: 'collection_id' };
+
+/**
+ * Media of a collection the profile may watch, in collection order
+ */
+export function getCollectionItems(collection: Collection, userId: number): Media[] {
+    const allowed = certificationFilter(userId, 'm.certification');
+
+    if (collection.tmdb_collection_id !== null) {
+        return getAll<Media>(`
+            SELECT m.* FROM media m
+            WHERE m.tmdb_collection_id = ? AND ${allowed.sql}
+            ORDER BY m.release_date NULLS LAST, m.year, m.title
+        `, [collection.tmdb_collection_id, ...allowed.params]);
+    }
+
+    return getAll<Media>(`
+        SELECT m.* FROM collection_items ci
+        JOIN media m ON m.id = ci.media_id
+        WHERE ci.collection_id = ? AND ${allowed.sql}
+        ORDER BY ci.position
+    `, [collection.id, ...allowed.params]);
+}
+
+/**
+ * All collections with how many items the profile sees in them
+ * Collections without their own poster use the one of their first item.
+ */
+export function getCollections(userId: number): CollectionSummary[] {
+    const allowed = certificationFilter(userId, 'm.certification');
+    const collections = getAll<CollectionSummary>(`
+        SELECT c.*,
+            CASE WHEN c.tmdb_collection_id IS NULL
+                THEN (SELECT COUNT(*) FROM collection_items ci JOIN media m ON m.id = ci.media_id
+                      WHERE ci.collection_id = c.id AND ${allowed.sql})
+                ELSE (SELECT COUNT(*) FROM media m
+                      WHERE m.tmdb_collection_id = c.tmdb_collection_id AND ${allowed.sql})
+            END AS item_count
+        FROM collections c
+        ORDER BY c.name COLLATE NOCASE
+    `, [...allowed.params, ...allowed.params]);
+
+    return collections
+        .filter(c => c.tmdb_collection_id === null || c.item_count >= MIN_AUTOMATIC_ITEMS)
+        .map(c => c.poster_path ? c : { ...c, poster_path: getCollectionItems(c, userId)[0]?.poster_path ?? null });
+}
+
+export function getCollection(id: number): Collection | undefined {
+    return getOne<Collection>('SELECT * FROM collections WHERE id = ?', [id]);
+}
+
+/**
+ * Collections a media item is part of, its franchise first
+ */
+export function getMediaCollections(mediaId: number): Collection[] {
+    return getAll<Collection>(`
+        SELECT c.* FROM collections c
+        WHERE c.tmdb_collection_id = (SELECT tmdb_collection_id FROM media WHERE id = ?)
+           OR c.id IN (SELECT collection_id FROM collection_items WHERE media_id = ?)
+        ORDER BY c.tmdb_collection_id IS NULL, c.name COLLATE NOCASE
+    `, [mediaId, mediaId]);
+}
+
+export function createCollection(name: string, overview: string | null): Collection {
+    const id = insert('INSERT INTO collections (name, overview) VALUES (?, ?)', [name, overview]);
+    console.log(`📚 Collection created: ${name}`);
+    return getCollection(id)!;
+}
+
+export function updateCollection(id: number, changes: { name?: string; overview?: string | null }): Collection | undefined {
+    if (changes.name !== undefined) run('UPDATE collections SET name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [changes.name, id]);
+    if (changes.overview !== undefined) run('UPDATE collections SET overview = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?', [changes.overview, id]);
+    return getCollection(id);
+}
+
+/**
+ * Set or clear (null) the poster or backdrop of a collection
+ * Cleared artwork of a franchise comes back from TMDB on the next match.
+ */
+export function setCollectionArtwork(id: number, kind: 'poster' | 'backdrop', imagePath: string | null): Collection | undefined {
+    const column = kind === 'poster' ? 'poster_path' : 'backdrop_path';
+    run(`UPDATE collections SET ${column} = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`, [imagePath, id]);
+    return getCollection(id);
+}
+
+export function deleteCollection(id: number): void {
+    run('DELETE FROM collections WHERE id = ?', [id]);
+    console.log(`🗑️ Collection deleted: ${id}`);
+}
+
+export function addCollectionItem(id: number, mediaId: number): void {
+    appendListItem(COLLECTION_ITEMS, id, mediaId);
+}
+
+export function removeCollectionItem(id: number, mediaId: number): boolean {
+    return run('DELETE FROM collection_items WHERE collection_id = ? AND media_id = ?', [id, mediaId]).changes > 0;
+}
+
+export function reorderCollection(id: number, mediaIds: number[]): void {
+    reorderList(COLLECTION_ITEMS, id, mediaIds);
+}
+
+/**
+ * Create or refresh the automatic collection of a TMDB franchise
+ * Artwork set by hand (or already cached) is kept.
+ */
+export function saveTmdbCollection(collection: TmdbCollection): void {
+    run(`
+        INSERT INTO collections (name, poster_path, backdrop_path, tmdb_collection_id)
+        VALUES (?, ?, ?, ?)
+        ON CONFLICT(tmdb_collection_id) DO UPDATE SET
+            poster_path = COALESCE(collections.poster_path, excluded.poster_path),
+            backdrop_path = COALESCE(collections.backdrop_path, excluded.backdrop_path)
+    `, [collection.name, collection.poster_path || null, collection.backdrop_path || null, collection.id]);
+}
@@ -0,0 +1,134 @@
+/**
+ * History Service - Log of every viewing
+ * Each playback session adds one entry that is kept up to date by its
+ * heartbeats. Watched counts, continue watching and library statistics are
+ * computed from this log, separately for every profile.
+ */
+
+import { getOne, getAll, run, insert } from '../db.js';
+import { Media } from '../types/db.js';
+
+export interface WatchHistoryEntry {
+    id: number;
+    user_id: number;
+    media_id: number;
+    session_id: string | null;
+    started_at: string;
+    ended_at: string;
+    start_position: number;
+    end_position: number;
+    duration_seconds: number;
+    watched_seconds: number;
+    completed: number;
+    source: 'playback' | 'manual' | 'imported';
+}
+
+// Entry with the media it is about, as listed by the routes
+export type HistoryItem = WatchHistoryEntry
+    & Pick<Media, 'title' | 'media_type' | 'season_number' | 'episode_number' | 'episode_title' | 'poster_path'>;
+
+// Same threshold as the resume position uses to mark an item watched
+const COMPLETED_PERCENT = 90;
+
+// Players opened for a few seconds don't count as a viewing
+const MIN_WATCHED_SECONDS = 10;
+
+function isCompleted(position: number, duration: number): boolean {
+    return duration > 0 && (position / duration) * 100 >= COMPLETED_PERCENT;
+}
+
+/**
+ * Start the entry of a playback session
+ */
+export function openHistoryEntry(userId: number, mediaId: number, sessionId: string, position: number): number {
+    const media = getOne<{ duration_seconds: number | null }>('SELECT duration_seconds FROM media WHERE id = ?', [mediaId]);
+    return insert(`
+        INSERT INTO watch_history (user_id, media_id, session_id, start_position, end_position, duration_seconds)
+        VALUES (?, ?, ?, ?, ?, ?)
+    `, [userId, mediaId, sessionId, position, position, Math.round(media?.duration_seconds || 0)]);
+}
+
+/**
+ * Record how far a session got and how much more of it was played
+ */
+export function updateHistoryEntry(entryId: number, position: number, playedSeconds: number): void {
+    const entry = getOne<WatchHistoryEntry>('SELECT * FROM watch_history WHERE id = ?', [entryId]);
+    if (!entry) return; // Deleted while playing
+
+    run(`
+        UPDATE watch_history SET
+            ended_at = CURRENT_TIMESTAMP,
+            end_position = ?,
+            watched_seconds = watched_seconds + ?,
+            completed = ?
+        WHERE id = ?
+    `, [position, Math.max(0, Math.round(playedSeconds)), entry.completed || isCompleted(position, entry.duration_seconds) ? 1 : 0, entryId]);
+}
+
+/**
+ * Finish the entry of a session, dropping it if hardly anything was watched
+ */
+export function closeHistoryEntry(entryId: number, position: number, playedSeconds: number): void {
+    updateHistoryEntry(entryId, position, playedSeconds);
+    run(
+        'DELETE FROM watch_history WHERE id = ? AND completed = 0 AND watched_seconds < ?',
+        [entryId, MIN_WATCHED_SECONDS]
+    );
+}
+
+/**
+ * Add a finished viewing for an item marked as watched by hand
+ */
+export function addWatchedEntry(userId: number, mediaId: number): number {
+    const media = getOne<{ duration_seconds: number | null }>('SELECT duration_seconds FROM media WHERE id = ?', [mediaId]);
+    const duration = Math.round(media?.duration_seconds || 0);
+    return insert(`
+        INSERT INTO watch_history (user_id, media_id, end_position, duration_seconds, completed, source)
+        VALUES (?, ?, ?, ?, 1, 'manual')
+    `, [userId, mediaId, duration, duration]);
+}
+
+/**
+ * Forget every viewing of an item, for items marked as unwatched
+ */
+export function clearMediaHistory(userId: number, mediaId: number): number {
+    return run('DELETE FROM watch_history WHERE user_id = ? AND media_id = ?', [userId, mediaId]).changes;
+}
+
+export function deleteHistoryEntry(userId: number, entryId: number): boolean {
+    return run('DELETE FROM watch_history WHERE id = ? AND user_id = ?', [entryId, userId]).changes > 0;
+}
+
+/**
+ * History entries with their media, most recent first
+ */
+export function getHistory(userId: number, options: { mediaId?: number; limit: number; offset: number }): {
+    data: HistoryItem[];
+    total: number;
+} {
+    const where = options.mediaId !== undefined ? 'WHERE h.user_id = ? AND h.media_id = ?' : 'WHERE h.user_id = ?';
+    const params = options.mediaId !== undefined ? [userId, options.mediaId] : [userId];
+
+    const data = getAll<HistoryItem>(`
+        SELECT h.*, m.title, m.media_type, m.season_number, m.episode_number, m.episode_title, m.poster_path
+        FROM watch_history h
+        JOIN media m ON m.id = h.media_id
+        ${where}
+        ORDER BY h.ended_at DESC, h.id DESC
+        LIMIT ? OFFSET ?
+    `, [...params, options.limit, options.offset]);
+
+    const total = getOne<{ count: number }>(`SELECT COUNT(*) as count FROM watch_history h ${where}`, params);
+    return { data, total: total?.count || 0 };
+}
+
+/**
+ * Times an item was watched to the end
+ */
+export function getWatchCount(userId: number, mediaId: number): number {
+    const result = getOne<{ count: number }>(
+        'SELECT COUNT(*) as count FROM watch_history WHERE user_id = ? AND media_id = ? AND completed = 1',
+        [userId, mediaId]
+    );
+    return result?.count || 0;
+}
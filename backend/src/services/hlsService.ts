@@ -0,0 +1,522 @@
+/**
+ * HLS Service - Real-time HLS streaming for files the browser can't play directly
+ * Segments are produced by FFmpeg on demand, so playback starts within seconds
+ * and seeking restarts the encoder at the requested segment. H.264 video is
+ * copied and cut at its own keyframes, other codecs are re-encoded. Also used to
+ * play an audio track other than the first one, which browsers can't switch to,
+ * and to burn in image-based subtitles (PGS, VobSub) the browser can't render.
+ */
+
+import { spawn, ChildProcess } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { getOne } from '../db.js';
+import { isImageSubtitle } from './subtitleConverter.js';
+
+// Cache directory for live segments (one sub-folder per media item and track combination)
+const CACHE_DIR = path.join(process.cwd(), 'hls_cache');
+
+// Segment length in seconds. Re-encoded video gets keyframes forced on these boundaries,
+// copied video is cut at the first keyframe of the file at least this far from the last cut.
+export const SEGMENT_DURATION = 6;
+
+// Leeway for cutting copied video at a keyframe whose time was printed rounded
+const KEYFRAME_TOLERANCE = 0.05;
+
+// Restart the encoder if a request is this many segments ahead of it (i.e. a seek)
+const MAX_SEGMENT_GAP = 3;
+
+// Stop encoders nobody has requested a segment from for this long
+const IDLE_TIMEOUT = 60000;
+
+// Give up waiting for a segment after this long
+const SEGMENT_WAIT_TIMEOUT = 30000;
+
+// Segments from a previous run may not match the current encoder settings
+fs.rmSync(CACHE_DIR, { recursive: true, force: true });
+fs.mkdirSync(CACHE_DIR, { recursive: true });
+
+interface HlsSession {
+    key: string;
+    mediaId: number;
+    dir: string;
+    process: ChildProcess | null;
+    startSegment: number;
+    audioStream: number | null; // FFprobe stream index, null for the first audio stream
+    burnIn: BurnInSubtitle | null;
+    copyVideo: boolean;
+    boundaries: number[]; // Start of each segment, then the end of the file
+    segmentList: string | null; // Segments the current encoder finished (video copy only)
+    completed: Set<number>; // Copied segments known to be complete
+    lastAccess: number;
+    exited: boolean;
+}
+
+interface SegmentLayout {
+    copyVideo: boolean;
+    boundaries: number[];
+}
+
+interface BurnInSubtitle {
+    trackId: number;
+    externalPath: string | null; // .sup or .idx file, read as a second input
+    stream: number; // Stream index in the video file (or 0 in the external file)
+}
+
+export interface HlsTracks {
+    audioTrackId?: number;
+    subtitleTrackId?: number;
+}
+
+interface HlsMedia {
+    id: number;
+    file_path: string;
+    file_name: string;
+    duration_seconds: number;
+    video_codec: string | null;
+}
+
+// Segment boundaries of copied video, by file path
+const keyframeCache = new Map<string, Promise<number[] | null>>();
+
+// Active sessions keyed by media ID, audio stream and burned-in subtitle
+// Viewers of the same item with the same tracks share one encoder, other tracks get their own.
+const sessions = new Map<string, HlsSession>();
+
+function getSessionKey(mediaId: number, audioStream: number | null, burnIn: BurnInSubtitle | null): string {
+    return `${mediaId}-audio${audioStream ?? 'default'}-sub${burnIn ? burnIn.trackId : 'none'}`;
+}
+
+function getSegmentPath(session: HlsSession, index: number): string {
+    return path.join(session.dir, `segment_${index}.ts`);
+}
+
+function getMedia(mediaId: number): HlsMedia | undefined {
+    return getOne<HlsMedia>(
+        'SELECT id, file_path, file_name, duration_seconds, video_codec FROM media WHERE id = ?',
+        [mediaId]
+    );
+}
+
+/**
+ * Get the stream index of an audio track of a media item
+ * Null for the first track, which the encoder plays by default.
+ */
+function getAudioStream(mediaId: number, audioTrackId?: number): number | null {
+    if (!audioTrackId) return null;
+
+    const track = getOne<{ track_index: number; is_first: number }>(
+        `SELECT track_index, track_index = (SELECT MIN(track_index) FROM audio_tracks WHERE media_id = ?) AS is_first
+         FROM audio_tracks WHERE id = ? AND media_id = ?`,
+        [mediaId, audioTrackId, mediaId]
+    );
+    return track && !track.is_first ? track.track_index : null;
+}
+
+/**
+ * Get the image-based subtitle track to burn into the video
+ */
+function getBurnInSubtitle(mediaId: number, subtitleTrackId?: number): BurnInSubtitle | null {
+    if (!subtitleTrackId) return null;
+
+    const track = getOne<{ id: number; codec: string | null; is_embedded: number; track_index: number | null; external_path: string | null }>(
+        'SELECT id, codec, is_embedded, track_index, external_path FROM subtitle_tracks WHERE id = ? AND media_id = ?',
+        [subtitleTrackId, mediaId]
+    );
+    if (!track || !isImageSubtitle(track.codec)) return null;
+
+    if (track.is_embedded) {
+        return track.track_index !== null ? { trackId: track.id, externalPath: null, stream: track.track_index } : null;
+    }
+    return track.external_path && fs.existsSync(track.external_path)
+        ? { trackId: track.id, externalPath: track.external_path, stream: 0 }
+        : null;
+}
+
+/**
+ * Keyframe times of the first video stream, in seconds from the start of the file
+ * Only packet headers are read, nothing is decoded.
+ */
+function probeKeyframes(filePath: string): Promise<number[]> {
+    return new Promise((resolve, reject) => {
+        const ffprobe = spawn('ffprobe', [
+            '-v', 'error',
+            '-select_streams', 'v:0',
+            '-show_entries', 'format=start_time:packet=pts_time,flags',
+            '-of', 'csv',
+            filePath,
+        ]);
+
+        const chunks: Buffer[] = [];
+        let stderr = '';
+        ffprobe.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+        ffprobe.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+
+        ffprobe.on('error', reject);
+        ffprobe.on('close', (code) => {
+            if (code !== 0) {
+                reject(new Error(stderr.trim() || `FFprobe exited with code ${code}`));
+                return;
+            }
+
+            // Lines are "packet,<pts>,<flags>" and one "format,<start time>"
+            let startTime = 0;
+            const keyframes: number[] = [];
+            for (const line of Buffer.concat(chunks).toString().split('\n')) {
+                const [section, time, flags] = line.trim().split(',');
+                if (section === 'format') {
+                    startTime = parseFloat(time) || 0;
+                } else if (section === 'packet' && flags?.startsWith('K') && !isNaN(parseFloat(time))) {
+                    keyframes.push(parseFloat(time));
+                }
+            }
+            resolve(keyframes.map(time => time - startTime).sort((a, b) => a - b));
+        });
+    });
+}
+
+/**
+ * Segment boundaries of copied video: a cut at the first keyframe at least a segment length after the previous one
+ * Null when the keyframes can't be read, the video is re-encoded then.
+ */
+function getKeyframeBoundaries(media: HlsMedia): Promise<number[] | null> {
+    let boundaries = keyframeCache.get(media.file_path);
+    if (!boundaries) {
+        boundaries = probeKeyframes(media.file_path)
+            .then(keyframes => {
+                if (keyframes.length === 0) return null;
+
+                const cuts = [0];
+                for (const time of keyframes) {
+                    if (time - cuts[cuts.length - 1] >= SEGMENT_DURATION && time < media.duration_seconds) {
+                        cuts.push(time);
+                    }
+                }
+                return [...cuts, media.duration_seconds];
+            })
+            .catch(err => {
+                console.error(`❌ Failed to read keyframes of ${media.file_name}:`, err);
+                return null;
+            });
+        keyframeCache.set(media.file_path, boundaries);
+    }
+    return boundaries;
+}
+
+/**
+ * Decide whether the video can be copied and where its segments start
+ * H.264 is copied unless subtitles are burned in, which means re-encoding the picture.
+ */
+async function getSegmentLayout(media: HlsMedia, burnIn: BurnInSubtitle | null): Promise<SegmentLayout> {
+    const isH264 = ['h264', 'avc1'].some(c => media.video_codec?.toLowerCase().includes(c));
+    const keyframeBoundaries = isH264 && !burnIn ? await getKeyframeBoundaries(media) : null;
+    if (keyframeBoundaries) {
+        return { copyVideo: true, boundaries: keyframeBoundaries };
+    }
+
+    const segmentCount = Math.ceil(media.duration_seconds / SEGMENT_DURATION);
+    const starts = Array.from({ length: segmentCount }, (_, i) => i * SEGMENT_DURATION);
+    return { copyVideo: false, boundaries: [...starts, media.duration_seconds] };
+}
+
+/**
+ * Build a VOD playlist covering the whole file so the player knows the full duration up front
+ * Segment URLs carry the chosen audio and burned-in subtitle tracks.
+ */
+export async function buildPlaylist(mediaId: number, tracks: HlsTracks = {}): Promise<string | null> {
+    const media = getMedia(mediaId);
+    if (!media || !media.duration_seconds) return null;
+
+    const { boundaries } = await getSegmentLayout(media, getBurnInSubtitle(mediaId, tracks.subtitleTrackId));
+    const lengths = boundaries.slice(1).map((end, i) => end - boundaries[i]);
+
+    const params = new URLSearchParams();
+    if (tracks.audioTrackId) params.set('audio', String(tracks.audioTrackId));
+    if (tracks.subtitleTrackId) params.set('subtitle', String(tracks.subtitleTrackId));
+    const query = params.toString() ? `?${params}` : '';
+
+    const lines = [
+        '#EXTM3U',
+        '#EXT-X-VERSION:3',
+        '#EXT-X-PLAYLIST-TYPE:VOD',
+        `#EXT-X-TARGETDURATION:${Math.ceil(Math.max(...lengths))}`,
+        '#EXT-X-MEDIA-SEQUENCE:0',
+    ];
+
+    lengths.forEach((length, i) => {
+        lines.push(`#EXTINF:${length.toFixed(3)},`);
+        lines.push(`segment_${i}.ts${query}`);
+    });
+
+    lines.push('#EXT-X-ENDLIST');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Kill the running encoder of a session (segments on disk are kept)
+ */
+function stopEncoder(session: HlsSession): void {
+    if (session.process && !session.exited) {
+        session.process.kill('SIGKILL');
+    }
+    session.process = null;
+}
+
+/**
+ * Start (or restart) the encoder at a given segment
+ */
+function startEncoder(session: HlsSession, media: HlsMedia, startSegment: number): void {
+    stopEncoder(session);
+
+    const burnIn = session.burnIn;
+    // Copied video is sought to just before the keyframe the segment starts on, so it isn't skipped
+    const startTime = session.copyVideo
+        ? Math.max(0, session.boundaries[startSegment] - 0.001)
+        : session.boundaries[startSegment];
+
+    const videoArgs = session.copyVideo
+        ? ['-c:v', 'copy']
+        : [
+            '-c:v', 'libx264',
+            '-preset', 'veryfast',
+            '-crf', '23',
+            '-pix_fmt', 'yuv420p',
+            '-force_key_frames', `expr:gte(t,n_forced*${SEGMENT_DURATION})`,
+        ];
+
+    // The HLS muxer can only cut at regular intervals, copied video is cut at the
+    // playlist's keyframes by the segment muxer, which lists each segment it finishes
+    let outputArgs: string[];
+    if (session.copyVideo) {
+        forgetSegmentsFrom(session, startSegment);
+        session.segmentList = path.join(session.dir, `segments_${Date.now()}.txt`);
+        const cuts = session.boundaries.slice(startSegment + 1, -1);
+        outputArgs = [
+            '-f', 'segment',
+            '-segment_format', 'mpegts',
+            ...(cuts.length > 0 ? ['-segment_times', cuts.join(',')] : []),
+            '-segment_time_delta', String(KEYFRAME_TOLERANCE),
+            '-segment_start_number', String(startSegment),
+            '-segment_list', session.segmentList,
+            '-segment_list_type', 'flat',
+            '-y',
+            path.join(session.dir, 'segment_%d.ts'),
+        ];
+    } else {
+        outputArgs = [
+            '-f', 'hls',
+            '-hls_time', String(SEGMENT_DURATION),
+            '-hls_list_size', '0',
+            '-hls_flags', 'temp_file+independent_segments',
+            '-start_number', String(startSegment),
+            '-hls_segment_filename', path.join(session.dir, 'segment_%d.ts'),
+            '-y',
+            path.join(session.dir, 'encoder.m3u8'),
+        ];
+    }
+
+    // Subtitle bitmaps are overlaid on the picture, external ones come from a second input
+    const inputArgs = ['-ss', String(startTime), '-i', media.file_path];
+    let videoMap = ['-map', '0:v:0'];
+    if (burnIn) {
+        if (burnIn.externalPath) {
+            inputArgs.push('-ss', String(startTime), '-i', burnIn.externalPath);
+        }
+        const subtitleInput = burnIn.externalPath ? `1:${burnIn.stream}` : `0:${burnIn.stream}`;
+        inputArgs.push('-filter_complex', `[0:v:0][${subtitleInput}]overlay=eof_action=pass[v]`);
+        videoMap = ['-map', '[v]'];
+    }
+
+    const ffmpegArgs = [
+        ...inputArgs,
+        ...videoMap,
+        '-map', session.audioStream !== null ? `0:${session.audioStream}` : '0:a:0?',
+        ...videoArgs,
+        '-c:a', 'aac',
+        '-ac', '2',
+        '-b:a', '192k',
+        '-output_ts_offset', String(startTime), // Keep timestamps aligned with the playlist
+        ...outputArgs,
+    ];
+
+    console.log(`📡 HLS encoder for ${media.file_name} starting at segment ${startSegment}${session.copyVideo ? ' (video copy)' : ''}${session.audioStream !== null ? ` with audio stream ${session.audioStream}` : ''}${burnIn ? ` burning in subtitle ${burnIn.trackId}` : ''}`);
+
+    const ffmpeg = spawn('ffmpeg', ffmpegArgs);
+    session.process = ffmpeg;
+    session.startSegment = startSegment;
+    session.exited = false;
+
+    ffmpeg.stderr.on('data', () => {
+        // Drain stderr so FFmpeg never blocks on a full pipe
+    });
+
+    ffmpeg.on('close', (code) => {
+        if (session.process !== ffmpeg) return; // Replaced by a newer encoder
+        session.exited = true;
+        if (code !== 0 && code !== null) {
+            console.error(`❌ HLS encoder for ${media.file_name} exited with code ${code}`);
+        }
+    });
+
+    ffmpeg.on('error', (err) => {
+        console.error('❌ FFmpeg error:', err);
+        if (session.process === ffmpeg) session.exited = true;
+    });
+}
+
+/**
+ * Whether a segment is complete and can be served
+ * The HLS muxer only moves segments into place once written (temp_file), the segment
+ * muxer writes them in place and lists them when done.
+ */
+function isSegmentReady(session: HlsSession, index: number): boolean {
+    if (!session.copyVideo) {
+        return fs.existsSync(getSegmentPath(session, index));
+    }
+
+    readSegmentList(session);
+    return session.completed.has(index);
+}
+
+function readSegmentList(session: HlsSession): void {
+    if (!session.segmentList || !fs.existsSync(session.segmentList)) return;
+
+    for (const name of fs.readFileSync(session.segmentList, 'utf-8').split('\n')) {
+        const match = name.trim().match(/^segment_(\d+)\.ts$/);
+        if (match) session.completed.add(parseInt(match[1]));
+    }
+}
+
+/**
+ * Forget copied segments a restarted encoder is going to write again
+ */
+function forgetSegmentsFrom(session: HlsSession, startSegment: number): void {
+    // Keep what the previous encoder finished before its list goes away
+    readSegmentList(session);
+    if (session.segmentList) {
+        fs.rmSync(session.segmentList, { force: true });
+    }
+
+    for (const index of Array.from(session.completed)) {
+        if (index >= startSegment) session.completed.delete(index);
+    }
+}
+
+/**
+ * Highest segment the current encoder has finished, or -1 if none yet
+ */
+function getLatestSegment(session: HlsSession): number {
+    let index = session.startSegment;
+    while (isSegmentReady(session, index)) {
+        index++;
+    }
+    return index - 1;
+}
+
+function waitForSegment(session: HlsSession, index: number): Promise<string> {
+    const segmentPath = getSegmentPath(session, index);
+    const startedAt = Date.now();
+
+    return new Promise((resolve, reject) => {
+        const check = () => {
+            if (isSegmentReady(session, index)) {
+                resolve(segmentPath);
+                return;
+            }
+            if (session.exited || !session.process) {
+                reject(new Error(`Encoder stopped before segment ${index} was ready`));
+                return;
+            }
+            if (Date.now() - startedAt > SEGMENT_WAIT_TIMEOUT) {
+                reject(new Error(`Timed out waiting for segment ${index}`));
+                return;
+            }
+            setTimeout(check, 100);
+        };
+        check();
+    });
+}
+
+/**
+ * Get the path of a segment, starting or repositioning the encoder if necessary
+ */
+export async function getSegment(mediaId: number, index: number, tracks: HlsTracks = {}): Promise<string | null> {
+    const media = getMedia(mediaId);
+    if (!media || !media.duration_seconds || !fs.existsSync(media.file_path)) return null;
+
+    const audioStream = getAudioStream(mediaId, tracks.audioTrackId);
+    const burnIn = getBurnInSubtitle(mediaId, tracks.subtitleTrackId);
+
+    const key = getSessionKey(mediaId, audioStream, burnIn);
+    if (!sessions.has(key)) {
+        const layout = await getSegmentLayout(media, burnIn);
+        // Another request may have created it while the keyframes were read
+        if (!sessions.has(key)) {
+            const dir = path.join(CACHE_DIR, key);
+            fs.mkdirSync(dir, { recursive: true });
+            sessions.set(key, {
+                key, mediaId, dir, process: null, startSegment: 0, audioStream, burnIn, ...layout,
+                segmentList: null, completed: new Set(), lastAccess: Date.now(), exited: true,
+            });
+        }
+    }
+    const session = sessions.get(key)!;
+    session.lastAccess = Date.now();
+
+    if (index < 0 || index >= session.boundaries.length - 1) return null;
+
+    const segmentPath = getSegmentPath(session, index);
+    if (isSegmentReady(session, index)) {
+        return segmentPath;
+    }
+
+    // Restart when the request is behind the encoder or too far ahead of it (seek)
+    const latest = getLatestSegment(session);
+    const encoderRunning = session.process && !session.exited;
+    if (!encoderRunning || index < session.startSegment || index > latest + MAX_SEGMENT_GAP) {
+        startEncoder(session, media, index);
+    }
+
+    return waitForSegment(session, index);
+}
+
+/**
+ * Stop a session and remove its segments
+ */
+function removeSession(session: HlsSession): void {
+    stopEncoder(session);
+    sessions.delete(session.key);
+    fs.rmSync(session.dir, { recursive: true, force: true });
+    console.log(`🛑 Stopped HLS session: ${session.key}`);
+}
+
+/**
+ * Key of the session that plays a media item with the given tracks
+ * Tracks that make no difference to the encoder (the first audio track, text subtitles) give the same key.
+ */
+export function getHlsSessionKey(mediaId: number, tracks: HlsTracks = {}): string {
+    return getSessionKey(
+        mediaId,
+        getAudioStream(mediaId, tracks.audioTrackId),
+        getBurnInSubtitle(mediaId, tracks.subtitleTrackId)
+    );
+}
+
+/**
+ * Stop the session that plays a media item with the given tracks, other track combinations keep theirs
+ */
+export function stopHlsSession(mediaId: number, tracks: HlsTracks = {}): boolean {
+    const session = sessions.get(getHlsSessionKey(mediaId, tracks));
+    if (session) removeSession(session);
+    return !!session;
+}
+
+// Clean up sessions whose player went away or switched to other tracks
+setInterval(() => {
+    const now = Date.now();
+    for (const session of Array.from(sessions.values())) {
+        if (now - session.lastAccess > IDLE_TIMEOUT) {
+            removeSession(session);
+        }
+    }
+}, IDLE_TIMEOUT / 2).unref();
@@ -0,0 +1,338 @@
+/**
+ * Image Cache Service - Keeps TMDB artwork on disk
+ * Downloads posters, backdrops, stills and cast photos in a few sizes,
+ * copies artwork found next to video files and uploaded artwork, points
+ * the database at the local copies under /images and deletes cached files
+ * that nothing references anymore.
+ */
+
+import axios from 'axios';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { getAll, run, transaction } from '../db.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Served by server.ts as /images
+const IMAGES_DIR = path.join(__dirname, '..', '..', 'public', 'images');
+const TMDB_IMAGE_BASE_URL = process.env.TMDB_IMAGE_BASE_URL || 'https://image.tmdb.org/t/p';
+
+// Smaller variants kept next to the stored size (used for cards and thumbnails)
+const EXTRA_SIZES: Record<string, string[]> = {
+    w500: ['w342'], // Posters
+    w1280: ['w780'], // Backdrops
+    original: ['w780'], // Episode stills used as backdrops
+};
+
+// Columns holding a single image URL
+const IMAGE_COLUMNS = [
+    { table: 'media', column: 'poster_path' },
+    { table: 'media', column: 'backdrop_path' },
+    { table: 'shows', column: 'poster_path' },
+    { table: 'shows', column: 'backdrop_path' },
+    { table: 'seasons', column: 'poster_path' },
+    { table: 'episodes', column: 'still_path' },
+    { table: 'collections', column: 'poster_path' },
+    { table: 'collections', column: 'backdrop_path' },
+];
+
+// JSON columns with image URLs inside (cast photos)
+const JSON_IMAGE_COLUMNS = [
+    { table: 'media', column: 'cast_members' },
+    { table: 'shows', column: 'cast_members' },
+    { table: 'episodes', column: 'guest_stars' },
+];
+
+// Wait for a burst of matches to settle before downloading
+const CACHE_DELAY_MS = 5000;
+const DOWNLOAD_CONCURRENCY = 4;
+const DOWNLOAD_TIMEOUT_MS = 30000;
+
+let isCaching = false;
+let cacheTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Split a TMDB image URL into its size and file name
+ */
+function parseTmdbUrl(url: string): { size: string; file: string } | null {
+    if (!url.startsWith(`${TMDB_IMAGE_BASE_URL}/`)) return null;
+
+    const [size, file, ...rest] = url.slice(TMDB_IMAGE_BASE_URL.length + 1).split('/');
+    if (rest.length > 0 || !/^(w\d+|h\d+|original)$/.test(size) || !/^[\w-]+\.(jpg|jpeg|png|webp|svg)$/i.test(file)) {
+        return null;
+    }
+
+    return { size, file };
+}
+
+async function downloadImage(url: string, destination: string): Promise<void> {
+    const response = await axios.get<ArrayBuffer>(url, {
+        responseType: 'arraybuffer',
+        timeout: DOWNLOAD_TIMEOUT_MS,
+    });
+
+    // Write to a temp file first so a half-written image is never served
+    fs.mkdirSync(path.dirname(destination), { recursive: true });
+    const tempPath = `${destination}.tmp`;
+    fs.writeFileSync(tempPath, Buffer.from(response.data));
+    fs.renameSync(tempPath, destination);
+}
+
+/**
+ * Download an image in its stored size and the extra sizes
+ * Returns the local /images path.
+ */
+async function cacheImage(url: string): Promise<string | null> {
+    const parsed = parseTmdbUrl(url);
+    if (!parsed) return null;
+
+    const sizes = [parsed.size, ...(EXTRA_SIZES[parsed.size] || [])];
+
+    for (const size of sizes) {
+        const destination = path.join(IMAGES_DIR, size, parsed.file);
+        if (!fs.existsSync(destination)) {
+            await downloadImage(`${TMDB_IMAGE_BASE_URL}/${size}/${parsed.file}`, destination);
+        }
+    }
+
+    return `/images/${parsed.size}/${parsed.file}`;
+}
+
+/**
+ * Copy artwork from a library folder (poster.jpg, fanart.jpg) into the cache
+ * The cached name changes when the source file does, so edits are picked up.
+ * Returns the local /images path.
+ */
+export function cacheLocalImage(filePath: string): string | null {
+    try {
+        const stats = fs.statSync(filePath);
+        const ext = path.extname(filePath).toLowerCase();
+        const hash = crypto.createHash('md5').update(`${filePath}:${stats.size}:${stats.mtimeMs}`).digest('hex');
+        const destination = path.join(IMAGES_DIR, 'local', `${hash}${ext}`);
+
+        if (!fs.existsSync(destination)) {
+            fs.mkdirSync(path.dirname(destination), { recursive: true });
+            fs.copyFileSync(filePath, destination);
+        }
+
+        return `/images/local/${hash}${ext}`;
+    } catch (err) {
+        console.error(`Failed to cache local image ${filePath}:`, err);
+        return null;
+    }
+}
+
+/**
+ * Store uploaded artwork (collection posters), named after its content
+ * Returns the local /images path.
+ */
+export function saveUploadedImage(data: Buffer, ext: string): string {
+    const hash = crypto.createHash('md5').update(data).digest('hex');
+    const destination = path.join(IMAGES_DIR, 'custom', `${hash}${ext}`);
+
+    if (!fs.existsSync(destination)) {
+        fs.mkdirSync(path.dirname(destination), { recursive: true });
+        fs.writeFileSync(destination, data);
+    }
+
+    return `/images/custom/${hash}${ext}`;
+}
+
+/**
+ * Get every TMDB image URL still stored in the database
+ */
+function findRemoteImages(): string[] {
+    const urls = new Set<string>();
+    const prefix = `${TMDB_IMAGE_BASE_URL}/%`;
+
+    for (const { table, column } of IMAGE_COLUMNS) {
+        const rows = getAll<{ url: string }>(
+            `SELECT DISTINCT ${column} as url FROM ${table} WHERE ${column} LIKE ?`,
+            [prefix]
+        );
+        rows.forEach(r => urls.add(r.url));
+    }
+
+    for (const { table, column } of JSON_IMAGE_COLUMNS) {
+        const rows = getAll<{ value: string }>(
+            `SELECT ${column} as value FROM ${table} WHERE ${column} LIKE ?`,
+            [`%${prefix}`]
+        );
+        for (const row of rows) {
+            try {
+                const people = JSON.parse(row.value) as { profile_path?: string }[];
+                people.forEach(p => {
+                    if (p.profile_path?.startsWith(`${TMDB_IMAGE_BASE_URL}/`)) urls.add(p.profile_path);
+                });
+            } catch { }
+        }
+    }
+
+    return Array.from(urls);
+}
+
+/**
+ * Point every row using a remote URL at its local copy
+ */
+function replaceImageUrl(url: string, localPath: string): void {
+    transaction(() => {
+        for (const { table, column } of IMAGE_COLUMNS) {
+            run(`UPDATE ${table} SET ${column} = ? WHERE ${column} = ?`, [localPath, url]);
+        }
+        for (const { table, column } of JSON_IMAGE_COLUMNS) {
+            run(
+                `UPDATE ${table} SET ${column} = REPLACE(${column}, ?, ?) WHERE ${column} LIKE ?`,
+                [JSON.stringify(url), JSON.stringify(localPath), `%${url}%`]
+            );
+        }
+    });
+}
+
+/**
+ * Download all remote artwork, then remove unused files
+ */
+export async function cacheRemoteImages(): Promise<{ cached: number; failed: number }> {
+    if (isCaching) return { cached: 0, failed: 0 };
+    isCaching = true;
+
+    let cached = 0;
+    let failed = 0;
+
+    try {
+        const queue = findRemoteImages();
+        if (queue.length > 0) {
+            console.log(`🖼️ Caching ${queue.length} image(s)...`);
+        }
+
+        const worker = async () => {
+            while (queue.length > 0) {
+                const url = queue.shift()!;
+                try {
+                    const localPath = await cacheImage(url);
+                    if (!localPath) continue;
+                    replaceImageUrl(url, localPath);
+                    cached++;
+                } catch (err) {
+                    // Keep the remote URL; the next run tries again
+                    failed++;
+                    console.error(`Failed to cache image ${url}:`, axios.isAxiosError(err) ? err.message : err);
+                }
+            }
+        };
+
+        await Promise.all(Array.from({ length: DOWNLOAD_CONCURRENCY }, worker));
+
+        if (cached > 0 || failed > 0) {
+            console.log(`🖼️ Cached ${cached} image(s)${failed > 0 ? `, ${failed} failed` : ''}`);
+        }
+    } finally {
+        isCaching = false;
+    }
+
+    collectGarbage();
+    return { cached, failed };
+}
+
+/**
+ * Cache new artwork and collect garbage shortly, once changes settle
+ */
+export function scheduleImageCache(): void {
+    if (cacheTimer) {
+        clearTimeout(cacheTimer);
+    }
+
+    cacheTimer = setTimeout(() => {
+        cacheTimer = null;
+        cacheRemoteImages().catch(err => console.error('Image cache failed:', err));
+    }, CACHE_DELAY_MS);
+}
+
+/**
+ * Get the file names of all cached images still referenced in the database
+ */
+function getReferencedFiles(): Set<string> {
+    const files = new Set<string>();
+    const addPath = (value?: string | null) => {
+        if (value?.startsWith('/images/')) files.add(path.basename(value));
+    };
+
+    for (const { table, column } of IMAGE_COLUMNS) {
+        getAll<{ value: string }>(`SELECT DISTINCT ${column} as value FROM ${table} WHERE ${column} LIKE '/images/%'`)
+            .forEach(r => addPath(r.value));
+    }
+
+    for (const { table, column } of JSON_IMAGE_COLUMNS) {
+        const rows = getAll<{ value: string }>(`SELECT ${column} as value FROM ${table} WHERE ${column} LIKE '%"/images/%'`);
+        for (const row of rows) {
+            try {
+                (JSON.parse(row.value) as { profile_path?: string }[]).forEach(p => addPath(p.profile_path));
+            } catch { }
+        }
+    }
+
+    return files;
+}
+
+/**
+ * Delete cached images (in every size) that no row references anymore
+ */
+export function collectGarbage(): { removed: number; freedBytes: number } {
+    let removed = 0;
+    let freedBytes = 0;
+
+    // A running cache pass may have downloaded files it hasn't referenced yet
+    if (isCaching || !fs.existsSync(IMAGES_DIR)) {
+        return { removed, freedBytes };
+    }
+
+    const referenced = getReferencedFiles();
+
+    for (const size of fs.readdirSync(IMAGES_DIR)) {
+        const sizeDir = path.join(IMAGES_DIR, size);
+        if (!fs.statSync(sizeDir).isDirectory()) continue;
+
+        for (const file of fs.readdirSync(sizeDir)) {
+            if (referenced.has(file)) continue;
+
+            const filePath = path.join(sizeDir, file);
+            try {
+                freedBytes += fs.statSync(filePath).size;
+                fs.unlinkSync(filePath);
+                removed++;
+            } catch (err) {
+                console.error(`Failed to delete cached image ${filePath}:`, err);
+            }
+        }
+    }
+
+    if (removed > 0) {
+        console.log(`🧹 Removed ${removed} unused image(s) (${(freedBytes / 1024 / 1024).toFixed(1)} MB)`);
+    }
+
+    return { removed, freedBytes };
+}
+
+/**
+ * Get image cache size and how many images are still remote
+ */
+export function getImageCacheStats(): { files: number; bytes: number; pending: number; caching: boolean } {
+    let files = 0;
+    let bytes = 0;
+
+    if (fs.existsSync(IMAGES_DIR)) {
+        for (const size of fs.readdirSync(IMAGES_DIR)) {
+            const sizeDir = path.join(IMAGES_DIR, size);
+            if (!fs.statSync(sizeDir).isDirectory()) continue;
+
+            for (const file of fs.readdirSync(sizeDir)) {
+                files++;
+                bytes += fs.statSync(path.join(sizeDir, file)).size;
+            }
+        }
+    }
+
+    return { files, bytes, pending: findRemoteImages().length, caching: isCaching };
+}
@@ -0,0 +1,264 @@
+/**
+ * Marker Service - Intro, recap and credits ranges of media items
+ * Markers are set by hand from the player, and intros are also detected by
+ * finding the audio that episodes of the same season have in common.
+ */
+
+import fs from 'fs';
+import { getAll, getOne, run } from '../db.js';
+import { decodeAudio, computeFingerprint, findSharedSegment } from './audioFingerprint.js';
+import { Media } from '../types/db.js';
+
+export type MarkerType = 'intro' | 'recap' | 'credits';
+
+export const MARKER_TYPES: MarkerType[] = ['intro', 'recap', 'credits'];
+
+export interface MediaMarker {
+    id: number;
+    media_id: number;
+    type: MarkerType;
+    start_seconds: number;
+    end_seconds: number;
+    source: 'manual' | 'detected';
+    created_at: string;
+}
+
+// Intros are looked for in the first minutes of each episode
+const INTRO_SEARCH_SECONDS = 600;
+const MIN_INTRO_SECONDS = 15;
+const MAX_INTRO_SECONDS = 120;
+// An intro this close to the start is moved to the start, skipping it skips the cold open gap too
+const INTRO_START_SNAP_SECONDS = 3;
+
+interface SeasonJob {
+    key: string;
+    mediaIds: number[];
+    force: boolean;
+}
+
+const detectionQueue: SeasonJob[] = [];
+let isProcessing = false;
+
+export function getMarkers(mediaId: number): MediaMarker[] {
+    return getAll<MediaMarker>(
+        'SELECT * FROM media_markers WHERE media_id = ? ORDER BY start_seconds',
+        [mediaId]
+    );
+}
+
+/**
+ * Set a marker by hand, replacing any marker of the same type
+ */
+export function setMarker(mediaId: number, type: MarkerType, start: number, end: number): MediaMarker {
+    run(`
+        INSERT INTO media_markers (media_id, type, start_seconds, end_seconds, source)
+        VALUES (?, ?, ?, ?, 'manual')
+        ON CONFLICT(media_id, type) DO UPDATE SET
+            start_seconds = excluded.start_seconds,
+            end_seconds = excluded.end_seconds,
+            source = 'manual',
+            created_at = CURRENT_TIMESTAMP
+    `, [mediaId, type, start, end]);
+
+    console.log(`🔖 Set ${type} marker for media ${mediaId}: ${start.toFixed(1)}s - ${end.toFixed(1)}s`);
+    return getOne<MediaMarker>('SELECT * FROM media_markers WHERE media_id = ? AND type = ?', [mediaId, type])!;
+}
+
+export function deleteMarker(mediaId: number, type: MarkerType): boolean {
+    return run('DELETE FROM media_markers WHERE media_id = ? AND type = ?', [mediaId, type]).changes > 0;
+}
+
+// Detected markers never replace ones set by hand
+function saveDetectedMarker(mediaId: number, type: MarkerType, start: number, end: number): void {
+    run(`
+        INSERT INTO media_markers (media_id, type, start_seconds, end_seconds, source)
+        VALUES (?, ?, ?, ?, 'detected')
+        ON CONFLICT(media_id, type) DO UPDATE SET
+            start_seconds = excluded.start_seconds,
+            end_seconds = excluded.end_seconds,
+            created_at = CURRENT_TIMESTAMP
+        WHERE source = 'detected'
+    `, [mediaId, type, start, end]);
+}
+
+/**
+ * Episodes of the same season as a media item, in episode order
+ */
+function getSeasonEpisodes(media: Media): { key: string; episodes: Media[] } | null {
+    if (media.media_type !== 'tv' || media.season_number === null) return null;
+
+    let key: string;
+    let where: string;
+    let param: unknown;
+    if (media.show_id) {
+        key = `show:${media.show_id}`;
+        where = 'show_id = ?';
+        param = media.show_id;
+    } else if (media.tmdb_id) {
+        key = `tmdb:${media.tmdb_id}`;
+        where = 'tmdb_id = ?';
+        param = media.tmdb_id;
+    } else if (media.title) {
+        key = `title:${media.title.toLowerCase()}`;
+        where = 'LOWER(title) = ?';
+        param = media.title.toLowerCase();
+    } else {
+        return null;
+    }
+
+    const episodes = getAll<Media>(
+        `SELECT * FROM media WHERE media_type = 'tv' AND ${where} AND season_number = ?
+         ORDER BY episode_number, file_name`,
+        [param, media.season_number]
+    );
+    return { key: `${key}:s${media.season_number}`, episodes };
+}
+
+/**
+ * Queue intro detection for the season a media item belongs to
+ * With force, intros detected before are looked for again.
+ * Returns false if the item isn't an episode of a season with other episodes.
+ */
+export function queueIntroDetection(mediaId: number, force = false): boolean {
+    const media = getOne<Media>('SELECT * FROM media WHERE id = ?', [mediaId]);
+    const season = media ? getSeasonEpisodes(media) : null;
+    if (!season || season.episodes.length < 2) return false;
+
+    const queued = detectionQueue.find(job => job.key === season.key);
+    if (queued) {
+        queued.force = queued.force || force;
+        return true;
+    }
+
+    detectionQueue.push({ key: season.key, mediaIds: season.episodes.map(e => e.id), force });
+    console.log(`📝 Queued intro detection for ${season.key}`);
+
+    processQueue();
+    return true;
+}
+
+/**
+ * Queue intro detection for every season with episodes that weren't fingerprinted yet
+ */
+export function queueUndetectedSeasons(): number {
+    const setting = getOne<{ value: string }>('SELECT value FROM settings WHERE key = ?', ['detect_intros']);
+    if (setting?.value === 'false') return 0;
+
+    const pending = getAll<{ id: number }>(`
+        SELECT m.id FROM media m
+        LEFT JOIN media_fingerprints f ON f.media_id = m.id
+        WHERE m.media_type = 'tv' AND m.season_number IS NOT NULL AND f.media_id IS NULL
+    `);
+
+    const queuedBefore = detectionQueue.length;
+    for (const { id } of pending) {
+        queueIntroDetection(id);
+    }
+    return detectionQueue.length - queuedBefore;
+}
+
+/**
+ * Fingerprint of the start of an episode, cached until the file changes
+ */
+async function getFingerprint(media: Media): Promise<Uint32Array | null> {
+    let fileSize: number;
+    try {
+        fileSize = fs.statSync(media.file_path).size;
+    } catch {
+        return null; // File is gone, cleanup will remove the row
+    }
+
+    const cached = getOne<{ file_size: number; fingerprint: Buffer }>(
+        'SELECT file_size, fingerprint FROM media_fingerprints WHERE media_id = ?',
+        [media.id]
+    );
+    if (cached && cached.file_size === fileSize) {
+        const { buffer, byteOffset, byteLength } = cached.fingerprint;
+        return new Uint32Array(buffer.slice(byteOffset, byteOffset + byteLength));
+    }
+
+    try {
+        const samples = await decodeAudio(media.file_path, INTRO_SEARCH_SECONDS);
+        const fingerprint = computeFingerprint(samples);
+        run(`
+            INSERT INTO media_fingerprints (media_id, file_size, fingerprint) VALUES (?, ?, ?)
+            ON CONFLICT(media_id) DO UPDATE SET
+                file_size = excluded.file_size,
+                fingerprint = excluded.fingerprint,
+                created_at = CURRENT_TIMESTAMP
+        `, [media.id, fileSize, Buffer.from(fingerprint.buffer)]);
+        return fingerprint;
+    } catch (err) {
+        console.error(`❌ Failed to fingerprint ${media.file_name}:`, err);
+        return null;
+    }
+}
+
+/**
+ * Find the intro of every episode in a season by comparing it with its neighbours
+ */
+async function detectSeasonIntros(job: SeasonJob): Promise<number> {
+    const episodes = job.mediaIds
+        .map(id => getOne<Media>('SELECT * FROM media WHERE id = ?', [id]))
+        .filter((m): m is Media => !!m);
+
+    const fingerprints: (Uint32Array | null)[] = [];
+    for (const episode of episodes) {
+        fingerprints.push(await getFingerprint(episode));
+        // Fingerprinting is CPU bound, let requests through between episodes
+        await new Promise(resolve => setImmediate(resolve));
+    }
+
+    let found = 0;
+    for (let i = 0; i < episodes.length; i++) {
+        const fingerprint = fingerprints[i];
+        if (!fingerprint) continue;
+
+        const existing = getOne<MediaMarker>(
+            "SELECT * FROM media_markers WHERE media_id = ? AND type = 'intro'",
+            [episodes[i].id]
+        );
+        if (existing && (existing.source === 'manual' || !job.force)) continue;
+
+        // The longest match with the episodes before and after, or the ones next to
+        // those when a neighbour has a different intro or none at all
+        let intro: { start: number; end: number } | null = null;
+        for (const distance of [1, 2]) {
+            for (const j of [i - distance, i + distance]) {
+                const other = fingerprints[j];
+                if (!other) continue;
+                const segment = findSharedSegment(fingerprint, other, MIN_INTRO_SECONDS, MAX_INTRO_SECONDS);
+                if (segment && (!intro || segment.aEnd - segment.aStart > intro.end - intro.start)) {
+                    intro = { start: segment.aStart, end: segment.aEnd };
+                }
+            }
+            if (intro) break;
+        }
+        if (!intro) continue;
+
+        const start = intro.start < INTRO_START_SNAP_SECONDS ? 0 : Math.round(intro.start * 10) / 10;
+        saveDetectedMarker(episodes[i].id, 'intro', start, Math.round(intro.end * 10) / 10);
+        found++;
+    }
+
+    return found;
+}
+
+async function processQueue(): Promise<void> {
+    if (isProcessing) return;
+    isProcessing = true;
+
+    while (detectionQueue.length > 0) {
+        const job = detectionQueue[0];
+        console.log(`🎵 Detecting intros for ${job.key} (${job.mediaIds.length} episodes)`);
+        try {
+            const found = await detectSeasonIntros(job);
+            console.log(`✅ Found ${found} intro(s) for ${job.key}`);
+        } catch (err) {
+            console.error(`❌ Intro detection failed for ${job.key}:`, err);
+        }
+        detectionQueue.shift();
+    }
+
+    isProcessing = false;
+}
@@ -0,0 +1,43 @@
+/**
+ * Ordered List - Media lists kept in an order chosen by hand
+ * Shared by the watchlist and manual collections: rows of (owner, media_id,
+ * position) where new items go to the end and reordering renumbers them.
+ */
+
+import { getAll, run, transaction } from '../db.js';
+
+export interface OrderedList {
+    table: string;
+    ownerColumn: string; // Column of the list's owner, e.g. the profile of a watchlist
+}
+
+/**
+ * Add an item at the end of a list, adding it twice changes nothing
+ */
+export function appendListItem(list: OrderedList, ownerId: number, mediaId: number): void {
+    run(`
+        INSERT OR IGNORE INTO ${list.table} (${list.ownerColumn}, media_id, position)
+        VALUES (?, ?, (SELECT COALESCE(MAX(position), 0) + 1 FROM ${list.table} WHERE ${list.ownerColumn} = ?))
+    `, [ownerId, mediaId, ownerId]);
+}
+
+/**
+ * Put a list in the given order
+ * Ids that aren't on the list are skipped, items left out keep their order after the given ones.
+ */
+export function reorderList(list: OrderedList, ownerId: number, mediaIds: number[]): void {
+    const current = getAll<{ media_id: number }>(
+        `SELECT media_id FROM ${list.table} WHERE ${list.ownerColumn} = ? ORDER BY position`,
+        [ownerId]
+    ).map(row => row.media_id);
+
+    const onList = new Set(current);
+    const ordered = Array.from(new Set(mediaIds.filter(id => onList.has(id))));
+    const rest = current.filter(id => !ordered.includes(id));
+
+    transaction(() => {
+        [...ordered, ...rest].forEach((mediaId, index) => {
+            run(`UPDATE ${list.table} SET position = ? WHERE ${list.ownerColumn} = ? AND media_id = ?`, [index + 1, ownerId, mediaId]);
+        });
+    });
+}
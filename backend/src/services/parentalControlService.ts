@@ -0,0 +1,102 @@
+/**
+ * Parental Control Service - Age certifications and what each profile may watch
+ * Certifications are US ratings. A profile with a maximum certification only
+ * sees and streams items up to that level; items without a known certification
+ * are hidden unless the profile allows unrated items.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getOne } from '../db.js';
+import { getProfile } from './profileService.js';
+
+// Movie and TV ratings grouped by age, from youngest to oldest
+const CERTIFICATION_LEVELS: { name: string; certifications: string[] }[] = [
+    { name: 'G', certifications: ['G', 'TV-Y', 'TV-G'] },
+    { name: 'PG', certifications: ['PG', 'TV-Y7', 'TV-Y7-FV', 'TV-PG'] },
+    { name: 'PG-13', certifications: ['PG-13', 'TV-14'] },
+    { name: 'R', certifications: ['R', 'TV-MA'] },
+    { name: 'NC-17', certifications: ['NC-17'] },
+];
+
+// Values a profile's maximum certification can take
+export const MAX_CERTIFICATIONS = CERTIFICATION_LEVELS.map(level => level.name);
+
+const KNOWN_CERTIFICATIONS = CERTIFICATION_LEVELS.flatMap(level => level.certifications);
+
+/**
+ * Clean up a certification from TMDB or an NFO file
+ * NFO files write "Rated PG-13" or "US:PG-13", both become "PG-13".
+ */
+export function normalizeCertification(value: string | null | undefined): string | null {
+    if (!value) return null;
+    const cleaned = value.split(':').pop()!.replace(/^rated\s+/i, '').trim();
+    if (!cleaned) return null;
+
+    const known = KNOWN_CERTIFICATIONS.find(c => c.toLowerCase() === cleaned.toLowerCase());
+    return known || cleaned;
+}
+
+/**
+ * Certifications a profile may watch, or null when it has no limit
+ */
+function getAllowedCertifications(userId: number): { certifications: string[]; allowUnrated: boolean } | null {
+    const profile = getProfile(userId);
+    const level = profile?.max_certification ? MAX_CERTIFICATIONS.indexOf(profile.max_certification) : -1;
+    if (!profile || level < 0) return null;
+
+    return {
+        certifications: CERTIFICATION_LEVELS.slice(0, level + 1).flatMap(l => l.certifications),
+        allowUnrated: profile.allow_unrated === 1,
+    };
+}
+
+export function isCertificationAllowed(userId: number, certification: string | null): boolean {
+    const allowed = getAllowedCertifications(userId);
+    if (!allowed) return true;
+    if (certification && allowed.certifications.includes(certification)) return true;
+
+    const unrated = !certification || !KNOWN_CERTIFICATIONS.includes(certification);
+    return unrated && allowed.allowUnrated;
+}
+
+/**
+ * SQL condition limiting media rows to what a profile may watch
+ * column names the certification column, e.g. "m.certification" in joins.
+ */
+export function certificationFilter(userId: number, column: string = 'certification'): { sql: string; params: string[] } {
+    const allowed = getAllowedCertifications(userId);
+    if (!allowed) return { sql: '1=1', params: [] };
+
+    const placeholders = (count: number) => new Array(count).fill('?').join(', ');
+    const allowedSql = `${column} IN (${placeholders(allowed.certifications.length)})`;
+
+    if (!allowed.allowUnrated) {
+        return { sql: allowedSql, params: allowed.certifications };
+    }
+
+    return {
+        sql: `(${allowedSql} OR ${column} IS NULL OR ${column} NOT IN (${placeholders(KNOWN_CERTIFICATIONS.length)}))`,
+        params: [...allowed.certifications, ...KNOWN_CERTIFICATIONS],
+    };
+}
+
+/**
+ * Middleware: refuse media (:id) the active profile may not watch, use after requireProfile
+ * Unknown ids are passed on so the route can answer 404.
+ */
+export function requireAllowedMedia(req: Request, res: Response, next: NextFunction) {
+    try {
+        const media = getOne<{ certification: string | null }>(
+            'SELECT certification FROM media WHERE id = ?',
+            [parseInt(req.params.id)]
+        );
+
+        if (media && !isCertificationAllowed(res.locals.profileId, media.certification)) {
+            return res.status(403).json({ error: 'Restricted by parental controls', code: 'restricted' });
+        }
+
+        next();
+    } catch (err) {
+        next(err);
+    }
+}
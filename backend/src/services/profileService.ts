@@ -0,0 +1,161 @@
+/**
+ * Profile Service - Household members sharing the server
+ * Watch progress, history, remembered tracks and player preferences belong
+ * to a profile. Clients pick one with the X-Profile-Id header, the library
+ * itself and server settings are shared by everyone.
+ * A profile with a PIN can only be picked by a session that entered it.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { getOne, getAll, run, insert } from '../db.js';
+import { verifyPassword } from './authService.js';
+
+export interface Profile {
+    id: number;
+    name: string;
+    avatar_color: string;
+    max_certification: string | null; // Parental controls, null when unrestricted
+    allow_unrated: number; // 0 or 1
+    has_pin: number; // 0 or 1
+    created_at: string;
+}
+
+// Settings each profile can change for itself, the settings table holds the defaults
+export const PROFILE_SETTING_KEYS = [
+    'autoplay_next_episode',
+    'audio_languages',
+    'subtitle_languages',
+    'subtitle_mode',
+    'subtitle_size',
+    'subtitle_color',
+    'subtitle_background',
+    'subtitle_position',
+];
+
+export const AVATAR_COLORS = ['#14b8a6', '#6366f1', '#f59e0b', '#ef4444', '#22c55e', '#ec4899', '#0ea5e9', '#a855f7'];
+
+const PROFILE_HEADER = 'x-profile-id';
+
+// The PIN hash never leaves the server
+const PROFILE_COLUMNS = 'id, name, avatar_color, max_certification, allow_unrated, pin_hash IS NOT NULL AS has_pin, created_at';
+
+export function getProfiles(): Profile[] {
+    return getAll<Profile>(`SELECT ${PROFILE_COLUMNS} FROM users ORDER BY id`);
+}
+
+export function getProfile(id: number): Profile | undefined {
+    return getOne<Profile>(`SELECT ${PROFILE_COLUMNS} FROM users WHERE id = ?`, [id]);
+}
+
+export function findProfileByName(name: string): Profile | undefined {
+    return getOne<Profile>(`SELECT ${PROFILE_COLUMNS} FROM users WHERE name = ?`, [name]);
+}
+
+/**
+ * Add a profile, picking the next unused avatar color when none is given
+ */
+export function createProfile(name: string, avatarColor?: string): Profile {
+    const used = new Set(getProfiles().map(p => p.avatar_color));
+    const color = avatarColor || AVATAR_COLORS.find(c => !used.has(c)) || AVATAR_COLORS[0];
+    const id = insert('INSERT INTO users (name, avatar_color) VALUES (?, ?)', [name, color]);
+    console.log(`👤 Profile created: ${name}`);
+    return getProfile(id)!;
+}
+
+export function updateProfile(id: number, changes: {
+    name?: string;
+    avatarColor?: string;
+    maxCertification?: string | null;
+    allowUnrated?: boolean;
+    pinHash?: string | null;
+}): Profile | undefined {
+    if (changes.name !== undefined) run('UPDATE users SET name = ? WHERE id = ?', [changes.name, id]);
+    if (changes.avatarColor !== undefined) run('UPDATE users SET avatar_color = ? WHERE id = ?', [changes.avatarColor, id]);
+    if (changes.maxCertification !== undefined) run('UPDATE users SET max_certification = ? WHERE id = ?', [changes.maxCertification, id]);
+    if (changes.allowUnrated !== undefined) run('UPDATE users SET allow_unrated = ? WHERE id = ?', [changes.allowUnrated ? 1 : 0, id]);
+    if (changes.pinHash !== undefined) run('UPDATE users SET pin_hash = ? WHERE id = ?', [changes.pinHash, id]);
+    return getProfile(id);
+}
+
+/**
+ * Check a profile's PIN, profiles without one accept anything
+ */
+export async function verifyProfilePin(id: number, pin: string): Promise<boolean> {
+    const row = getOne<{ pin_hash: string | null }>('SELECT pin_hash FROM users WHERE id = ?', [id]);
+    if (!row?.pin_hash) return true;
+    return verifyPassword(pin, row.pin_hash);
+}
+
+/**
+ * Remember the profile picked in a signed-in session
+ * Requests without the profile header (video elements, HLS segments) use it.
+ */
+export function selectSessionProfile(sessionId: number, profileId: number): void {
+    run('UPDATE auth_sessions SET profile_id = ? WHERE id = ?', [profileId, sessionId]);
+}
+
+function getSessionProfileId(sessionId: number | undefined): number | null {
+    if (sessionId === undefined) return null;
+    return getOne<{ profile_id: number | null }>('SELECT profile_id FROM auth_sessions WHERE id = ?', [sessionId])?.profile_id ?? null;
+}
+
+/**
+ * Remove a profile with its progress and history
+ * The last profile can't be removed, everything else assumes there is one.
+ */
+export function deleteProfile(id: number): 'deleted' | 'not_found' | 'last_profile' {
+    if (!getProfile(id)) return 'not_found';
+    const count = getOne<{ count: number }>('SELECT COUNT(*) as count FROM users')?.count || 0;
+    if (count <= 1) return 'last_profile';
+
+    run('DELETE FROM users WHERE id = ?', [id]);
+    console.log(`🗑️ Profile deleted: ${id}`);
+    return 'deleted';
+}
+
+/**
+ * A setting as the profile sees it, its own value or the server default
+ */
+export function getProfileSetting(userId: number, key: string): string | undefined {
+    if (PROFILE_SETTING_KEYS.includes(key)) {
+        const own = getOne<{ value: string }>('SELECT value FROM user_settings WHERE user_id = ? AND key = ?', [userId, key]);
+        if (own) return own.value;
+    }
+    return getOne<{ value: string }>('SELECT value FROM settings WHERE key = ?', [key])?.value;
+}
+
+/**
+ * Middleware: resolve the profile a request is made for into res.locals.profileId
+ * Requests without the header use the session's profile, or the first profile
+ * so older clients keep working. Use after requireAuth.
+ */
+export function requireProfile(req: Request, res: Response, next: NextFunction) {
+    try {
+        const sessionId: number | undefined = res.locals.authSessionId;
+        const selectedId = getSessionProfileId(sessionId);
+        const header = req.get(PROFILE_HEADER);
+        const profile = header
+            ? getProfile(parseInt(header))
+            : selectedId !== null
+                ? getProfile(selectedId)
+                : getOne<Profile>(`SELECT ${PROFILE_COLUMNS} FROM users ORDER BY id LIMIT 1`);
+
+        if (!profile) {
+            return res.status(400).json({ error: 'Unknown profile', code: 'unknown_profile' });
+        }
+
+        if (profile.has_pin && profile.id !== selectedId) {
+            return res.status(403).json({ error: 'This profile is locked with a PIN', code: 'profile_locked' });
+        }
+
+        // Switching to a profile without a PIN through the header locks the previous one again
+        if (header && sessionId !== undefined && profile.id !== selectedId) {
+            selectSessionProfile(sessionId, profile.id);
+        }
+
+        res.locals.profileId = profile.id;
+        next();
+    } catch (err) {
+        next(err);
+    }
+}
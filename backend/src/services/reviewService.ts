@@ -0,0 +1,192 @@
+/**
+ * Review Service - Queue of uncertain TMDB matches
+ * Lists failed and low-confidence automatic matches and applies the
+ * bulk decisions made on them (accept, search again, or no match).
+ */
+
+import { getAll, getOne, run, transaction } from '../db.js';
+import { parseFilename } from '../scanner/filenameParser.js';
+import { applyLocalMetadata } from '../scanner/localMetadata.js';
+import { researchMatch } from './tmdbService.js';
+import { scheduleImageCache } from './imageCacheService.js';
+
+const DEFAULT_THRESHOLD = 70;
+
+// Most items a single re-search request takes, so it answers well within a client timeout
+export const MAX_RESEARCH_BATCH = 10;
+
+export interface ReviewItem {
+    id: number;
+    file_name: string;
+    file_path: string;
+    media_type: string;
+    season_number: number | null;
+    episode_number: number | null;
+    match_method: 'auto' | 'failed';
+    parsed: {
+        title: string;
+        year: number | null;
+    };
+    match: {
+        tmdb_id: number;
+        tmdb_type: 'movie' | 'tv';
+        title: string | null;
+        year: number | null;
+        poster_path: string | null;
+        confidence: number;
+    } | null;
+}
+
+/**
+ * Confidence (0-100) below which automatic matches need review
+ */
+export function getReviewThreshold(): number {
+    const setting = getOne<{ value: string }>('SELECT value FROM settings WHERE key = ?', ['match_review_threshold']);
+    const threshold = setting ? parseInt(setting.value) : DEFAULT_THRESHOLD;
+    return isNaN(threshold) ? DEFAULT_THRESHOLD : Math.min(Math.max(threshold, 0), 100);
+}
+
+/**
+ * Get failed matches and automatic matches below the threshold, worst first
+ */
+export function getReviewQueue(threshold: number = getReviewThreshold()): ReviewItem[] {
+    const rows = getAll<{
+        id: number;
+        file_name: string;
+        file_path: string;
+        media_type: string;
+        season_number: number | null;
+        episode_number: number | null;
+        tmdb_id: number | null;
+        tmdb_type: 'movie' | 'tv' | null;
+        tmdb_title: string | null;
+        release_date: string | null;
+        poster_path: string | null;
+        match_confidence: number;
+        match_method: 'auto' | 'failed';
+    }>(`
+    SELECT id, file_name, file_path, media_type, season_number, episode_number,
+           tmdb_id, tmdb_type, tmdb_title, release_date, poster_path, match_confidence, match_method
+    FROM media
+    WHERE match_method = 'failed'
+       OR (match_method = 'auto' AND match_confidence < ?)
+    ORDER BY match_method = 'failed' DESC, match_confidence ASC, file_name ASC
+  `, [threshold]);
+
+    return rows.map(row => {
+        const parsed = parseFilename(row.file_name);
+
+        return {
+            id: row.id,
+            file_name: row.file_name,
+            file_path: row.file_path,
+            media_type: row.media_type,
+            season_number: row.season_number,
+            episode_number: row.episode_number,
+            match_method: row.match_method,
+            parsed: {
+                title: parsed.title,
+                year: parsed.year || null,
+            },
+            match: row.tmdb_id && row.tmdb_type ? {
+                tmdb_id: row.tmdb_id,
+                tmdb_type: row.tmdb_type,
+                title: row.tmdb_title,
+                // Episodes store their air date, so only movies get a meaningful year
+                year: row.tmdb_type === 'movie' && row.release_date ? parseInt(row.release_date.substring(0, 4)) || null : null,
+                poster_path: row.poster_path,
+                confidence: row.match_confidence,
+            } : null,
+        };
+    });
+}
+
+/**
+ * Keep the current TMDB match of each item, pinning it like a manual match.
+ * Items without a match are skipped. Returns the number of rows updated.
+ */
+export function acceptMatches(ids: number[]): number {
+    return transaction(() => {
+        let updated = 0;
+        for (const id of ids) {
+            const result = run(
+                `UPDATE media SET match_method = 'manual', updated_at = CURRENT_TIMESTAMP
+                 WHERE id = ? AND tmdb_id IS NOT NULL AND match_method IN ('auto', 'failed')`,
+                [id]
+            );
+            updated += result.changes;
+        }
+        return updated;
+    });
+}
+
+/**
+ * Mark items as having no TMDB entry (home videos, recordings...)
+ * Stored as a manual match without a TMDB id, so scans never match them again.
+ */
+export function markNoMatch(ids: number[]): number {
+    const updated = transaction(() => {
+        let changed = 0;
+        for (const id of ids) {
+            const result = run(`
+        UPDATE media SET
+          tmdb_id = NULL,
+          tmdb_type = NULL,
+          tmdb_title = NULL,
+          show_id = NULL,
+          episode_id = NULL,
+          imdb_id = NULL,
+          overview = NULL,
+          tagline = NULL,
+          poster_path = NULL,
+          backdrop_path = NULL,
+          genres = NULL,
+          cast_members = NULL,
+          director = NULL,
+          rating = NULL,
+          vote_count = NULL,
+          certification = NULL,
+          tmdb_collection_id = NULL,
+          match_confidence = 0,
+          match_method = 'manual',
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = ?
+      `, [id]);
+            // Personal videos keep what their NFO files say
+            applyLocalMetadata(id);
+            changed += result.changes;
+        }
+        return changed;
+    });
+
+    scheduleImageCache();
+    return updated;
+}
+
+/**
+ * Search TMDB again for each item with the same edited query
+ * Returns how many items found a match.
+ */
+export async function researchMatches(
+    ids: number[],
+    overrides: { query?: string; year?: number; type?: 'movie' | 'tv' | 'unknown' }
+): Promise<{ matched: number; failed: number }> {
+    let matched = 0;
+    let failed = 0;
+
+    for (const id of ids) {
+        try {
+            if (await researchMatch(id, overrides)) {
+                matched++;
+            } else {
+                failed++;
+            }
+        } catch (err) {
+            console.error(`Failed to re-search media ${id}:`, err);
+            failed++;
+        }
+    }
+
+    console.log(`🔎 Re-searched ${ids.length} item(s): ${matched} matched, ${failed} failed`);
+    return { matched, failed };
+}
@@ -0,0 +1,181 @@
+/**
+ * Scan Job Service - Runs library scans in the background
+ * Only one scan runs at a time. Progress is reported per phase
+ * (discover, probe, cleanup, enrich) through scanEvents.
+ */
+
+import crypto from 'crypto';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { getOne } from '../db.js';
+import { scanDirectory, scanAllPaths, cleanupMissingFiles, ScanResult, ScanProgress } from '../scanner/fileScanner.js';
+import { enrichAllMedia } from './tmdbService.js';
+import { queueUndetectedSeasons } from './markerService.js';
+import { queueThumbnailsAfterScan } from './thumbnailService.js';
+
+// Event emitter for scan progress (consumed by the SSE route)
+export const scanEvents = new EventEmitter();
+
+export type ScanPhase = 'discover' | 'probe' | 'cleanup' | 'enrich' | 'done';
+
+export interface ScanJob {
+    id: string;
+    status: 'running' | 'completed' | 'cancelled' | 'failed';
+    phase: ScanPhase;
+    force: boolean;
+    scanPath: string | null; // Path currently being scanned
+    current: number;
+    total: number;
+    currentItem: string | null; // File being probed or title being enriched
+    results: ScanResult[];
+    removed: number;
+    enriched: number;
+    error?: string;
+    startedAt: string;
+    finishedAt?: string;
+}
+
+export interface StartScanOptions {
+    path?: string; // Scan a single path instead of all enabled ones
+    force?: boolean;
+    enrich?: boolean;
+}
+
+// The running job, or the last finished one
+let currentJob: ScanJob | null = null;
+let abortController: AbortController | null = null;
+
+/**
+ * Get the running scan, or the last finished one
+ */
+export function getScanStatus(): ScanJob | null {
+    return currentJob;
+}
+
+export function isScanRunning(): boolean {
+    return currentJob?.status === 'running';
+}
+
+function updateJob(job: ScanJob, changes: Partial<ScanJob>): void {
+    Object.assign(job, changes);
+    scanEvents.emit('progress', job);
+}
+
+async function runJob(job: ScanJob, options: StartScanOptions, signal: AbortSignal): Promise<void> {
+    const onProgress = (progress: ScanProgress) => {
+        updateJob(job, {
+            phase: progress.phase,
+            scanPath: progress.scanPath,
+            current: progress.current,
+            total: progress.total,
+            currentItem: progress.file || null,
+        });
+    };
+
+    const scanOptions = { force: options.force, signal, onProgress };
+    if (options.path) {
+        // A single folder is scanned as deep as its scan path setting says
+        const scanPath = getOne<{ recursive: number }>(
+            'SELECT recursive FROM scan_paths WHERE path = ?',
+            [path.resolve(options.path)]
+        );
+        job.results = [await scanDirectory(options.path, scanPath ? scanPath.recursive === 1 : true, scanOptions)];
+    } else {
+        job.results = await scanAllPaths(scanOptions);
+    }
+
+    if (signal.aborted) return;
+
+    // Cleanup missing files
+    updateJob(job, { phase: 'cleanup', scanPath: null, current: 0, total: 0, currentItem: null });
+    job.removed = cleanupMissingFiles();
+
+    // Enrich with TMDB metadata
+    if (options.enrich !== false) {
+        updateJob(job, { phase: 'enrich', current: 0, total: 0, currentItem: null });
+        job.enriched = await enrichAllMedia(100, {
+            signal,
+            onProgress: (current, total, title) => updateJob(job, { current, total, currentItem: title }),
+        });
+    }
+
+    // Episodes are grouped into seasons by now, new ones get their intros looked for in the background
+    queueUndetectedSeasons();
+    queueThumbnailsAfterScan();
+}
+
+/**
+ * Start a scan in the background
+ * Returns null if a scan is already running.
+ */
+export function startScan(options: StartScanOptions = {}): ScanJob | null {
+    if (isScanRunning()) {
+        return null;
+    }
+
+    const job: ScanJob = {
+        id: crypto.randomUUID(),
+        status: 'running',
+        phase: 'discover',
+        force: !!options.force,
+        scanPath: options.path || null,
+        current: 0,
+        total: 0,
+        currentItem: null,
+        results: [],
+        removed: 0,
+        enriched: 0,
+        startedAt: new Date().toISOString(),
+    };
+
+    const controller = new AbortController();
+    currentJob = job;
+    abortController = controller;
+
+    console.log(`🚀 Scan job ${job.id} started${job.force ? ' (full rescan)' : ''}`);
+    scanEvents.emit('started', job);
+
+    runJob(job, options, controller.signal)
+        .then(() => {
+            const cancelled = controller.signal.aborted;
+            updateJob(job, {
+                status: cancelled ? 'cancelled' : 'completed',
+                phase: 'done',
+                currentItem: null,
+                finishedAt: new Date().toISOString(),
+            });
+            console.log(`${cancelled ? '⏹️' : '✅'} Scan job ${job.id} ${job.status}`);
+            scanEvents.emit(job.status, job);
+        })
+        .catch((err) => {
+            console.error(`❌ Scan job ${job.id} failed:`, err);
+            updateJob(job, {
+                status: 'failed',
+                phase: 'done',
+                currentItem: null,
+                error: err instanceof Error ? err.message : String(err),
+                finishedAt: new Date().toISOString(),
+            });
+            scanEvents.emit('failed', job);
+        })
+        .finally(() => {
+            if (abortController === controller) {
+                abortController = null;
+            }
+        });
+
+    return job;
+}
+
+/**
+ * Cancel a running scan (stops after the file or title being processed)
+ */
+export function cancelScan(jobId: string): boolean {
+    if (!currentJob || currentJob.id !== jobId || currentJob.status !== 'running' || !abortController) {
+        return false;
+    }
+
+    abortController.abort();
+    console.log(`🛑 Cancelling scan job ${jobId}`);
+    return true;
+}
@@ -0,0 +1,200 @@
+/**
+ * Session Service - Tracks who is watching what right now
+ * Players start a session when playback begins and send heartbeats while it
+ * lasts. Sessions that stop sending them belong to a closed tab or a client
+ * that lost its connection, and the HLS encoders they were using are stopped.
+ * Every session is also logged in the watch history.
+ */
+
+import crypto from 'crypto';
+import { getOne } from '../db.js';
+import { getHlsSessionKey, stopHlsSession, HlsTracks } from './hlsService.js';
+import { openHistoryEntry, updateHistoryEntry, closeHistoryEntry } from './historyService.js';
+import { Media } from '../types/db.js';
+
+export type StreamMode = 'direct' | 'converted' | 'transcoded';
+
+export const STREAM_MODES: StreamMode[] = ['direct', 'converted', 'transcoded'];
+
+export interface ClientInfo {
+    name: string | null;
+    device: string | null;
+    userAgent: string | null;
+    address: string | null;
+}
+
+export interface PlaybackSession {
+    id: string;
+    userId: number;
+    mediaId: number;
+    state: 'playing' | 'paused';
+    positionSeconds: number;
+    streamMode: StreamMode;
+    audioTrackId: number | null;
+    subtitleTrackId: number | null;
+    client: ClientInfo;
+    startedAt: string;
+    lastHeartbeat: string;
+}
+
+export type SessionMedia = Pick<Media,
+    'title' | 'file_name' | 'media_type' | 'season_number' | 'episode_number' | 'episode_title' | 'poster_path' | 'duration_seconds'>;
+
+export interface SessionUpdate {
+    positionSeconds?: number;
+    state?: PlaybackSession['state'];
+    streamMode?: StreamMode;
+    audioTrackId?: number | null;
+    subtitleTrackId?: number | null;
+}
+
+// Players send a heartbeat every 15s, a session missing three in a row is gone
+const SESSION_TIMEOUT = 45000;
+
+// Playback faster than this between two heartbeats was a seek, not watching
+const MAX_PLAYBACK_RATE = 2;
+
+interface SessionEntry {
+    session: PlaybackSession;
+    lastSeen: number; // Time of the last heartbeat
+    historyId: number;
+}
+
+// Active sessions keyed by session ID
+const sessions = new Map<string, SessionEntry>();
+
+/**
+ * Seconds played since the last heartbeat, 0 after a seek or while paused
+ */
+function getPlayedSeconds(entry: SessionEntry, position: number): number {
+    if (entry.session.state !== 'playing') return 0;
+    const advanced = position - entry.session.positionSeconds;
+    const elapsed = (Date.now() - entry.lastSeen) / 1000;
+    return advanced > 0 && advanced <= elapsed * MAX_PLAYBACK_RATE + 1 ? advanced : 0;
+}
+
+/**
+ * Start a session for a media item
+ */
+export function startSession(userId: number, mediaId: number, update: SessionUpdate, client: ClientInfo): PlaybackSession {
+    const now = new Date().toISOString();
+    const session: PlaybackSession = {
+        id: crypto.randomUUID(),
+        userId,
+        mediaId,
+        state: update.state ?? 'playing',
+        positionSeconds: update.positionSeconds ?? 0,
+        streamMode: update.streamMode ?? 'direct',
+        audioTrackId: update.audioTrackId ?? null,
+        subtitleTrackId: update.subtitleTrackId ?? null,
+        client,
+        startedAt: now,
+        lastHeartbeat: now,
+    };
+
+    const historyId = openHistoryEntry(userId, mediaId, session.id, session.positionSeconds);
+    sessions.set(session.id, { session, lastSeen: Date.now(), historyId });
+    console.log(`▶️ Playback session started: media ${mediaId} (${session.streamMode}) on ${client.device || client.address || 'unknown device'}`);
+    return session;
+}
+
+export function getSession(sessionId: string): PlaybackSession | null {
+    return sessions.get(sessionId)?.session ?? null;
+}
+
+/**
+ * Record a heartbeat, pause or track change
+ * Returns null for unknown sessions, the player starts a new one then.
+ */
+export function updateSession(sessionId: string, update: SessionUpdate): PlaybackSession | null {
+    const entry = sessions.get(sessionId);
+    if (!entry) return null;
+
+    const { session } = entry;
+    const wasTranscoding = session.streamMode === 'transcoded';
+    const previousTracks = getHlsTracks(session);
+
+    if (update.positionSeconds !== undefined) {
+        updateHistoryEntry(entry.historyId, update.positionSeconds, getPlayedSeconds(entry, update.positionSeconds));
+        session.positionSeconds = update.positionSeconds;
+    }
+    if (update.state !== undefined) session.state = update.state;
+    if (update.streamMode !== undefined) session.streamMode = update.streamMode;
+    if (update.audioTrackId !== undefined) session.audioTrackId = update.audioTrackId;
+    if (update.subtitleTrackId !== undefined) session.subtitleTrackId = update.subtitleTrackId;
+    session.lastHeartbeat = new Date().toISOString();
+    entry.lastSeen = Date.now();
+
+    // Switched back to the file itself or to other tracks, the old encoder may not be needed anymore
+    if (wasTranscoding && (session.streamMode !== 'transcoded'
+        || getHlsSessionKey(session.mediaId, getHlsTracks(session)) !== getHlsSessionKey(session.mediaId, previousTracks))) {
+        releaseEncoder(session.mediaId, previousTracks);
+    }
+
+    return session;
+}
+
+/**
+ * End a session, stopping its encoder when no one else is using it
+ */
+export function stopSession(sessionId: string, positionSeconds?: number): PlaybackSession | null {
+    const entry = sessions.get(sessionId);
+    if (!entry) return null;
+
+    const { session } = entry;
+    const position = positionSeconds ?? session.positionSeconds;
+    closeHistoryEntry(entry.historyId, position, getPlayedSeconds(entry, position));
+    session.positionSeconds = position;
+    sessions.delete(sessionId);
+
+    console.log(`⏹️ Playback session ended: media ${session.mediaId}`);
+    if (session.streamMode === 'transcoded') {
+        releaseEncoder(session.mediaId, getHlsTracks(session));
+    }
+    return session;
+}
+
+/**
+ * Active sessions with the media they are playing and who is watching, most recent first
+ */
+export function getSessions(): (PlaybackSession & { media: SessionMedia | null; profileName: string | null })[] {
+    return Array.from(sessions.values())
+        .map(({ session }) => ({
+            ...session,
+            profileName: getOne<{ name: string }>('SELECT name FROM users WHERE id = ?', [session.userId])?.name ?? null,
+            media: getOne<SessionMedia>(
+                `SELECT title, file_name, media_type, season_number, episode_number, episode_title, poster_path, duration_seconds
+                 FROM media WHERE id = ?`,
+                [session.mediaId]
+            ) ?? null,
+        }))
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+function getHlsTracks(session: PlaybackSession): HlsTracks {
+    return { audioTrackId: session.audioTrackId ?? undefined, subtitleTrackId: session.subtitleTrackId ?? undefined };
+}
+
+/**
+ * Stop the HLS encoder of a media item and track combination unless a session is still transcoding with it
+ * Encoders are shared by everyone playing the same item with the same tracks.
+ */
+export function releaseEncoder(mediaId: number, tracks: HlsTracks = {}): boolean {
+    const key = getHlsSessionKey(mediaId, tracks);
+    const stillUsed = Array.from(sessions.values()).some(({ session }) =>
+        session.mediaId === mediaId
+        && session.streamMode === 'transcoded'
+        && getHlsSessionKey(mediaId, getHlsTracks(session)) === key);
+    return stillUsed ? false : stopHlsSession(mediaId, tracks);
+}
+
+// End sessions whose player went away without saying so
+setInterval(() => {
+    const now = Date.now();
+    for (const [id, entry] of sessions) {
+        if (now - entry.lastSeen > SESSION_TIMEOUT) {
+            console.log(`👻 Playback session timed out: media ${entry.session.mediaId}`);
+            stopSession(id);
+        }
+    }
+}, SESSION_TIMEOUT / 3).unref();
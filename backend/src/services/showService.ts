@@ -0,0 +1,192 @@
+/**
+ * Show Service - Reads TV shows, seasons and episodes
+ * TMDB data for these tables is written by the TMDB service. Certifications
+ * are stored on the episode files, so a profile only sees the files its
+ * parental controls allow and shows it has none of.
+ */
+
+import { getAll, getOne } from '../db.js';
+import { certificationFilter } from './parentalControlService.js';
+
+export interface Show {
+    id: number;
+    tmdb_id: number;
+    title: string;
+    original_title: string | null;
+    overview: string | null;
+    tagline: string | null;
+    status: string | null;
+    first_air_date: string | null;
+    last_air_date: string | null;
+    poster_path: string | null;
+    backdrop_path: string | null;
+    genres: string | null;
+    cast_members: string | null;
+    creator: string | null;
+    rating: number | null;
+    vote_count: number | null;
+    number_of_seasons: number | null;
+    number_of_episodes: number | null;
+    added_at: string;
+    tmdb_fetched_at: string | null;
+}
+
+export interface Season {
+    id: number | null;
+    show_id: number;
+    season_number: number;
+    name: string | null;
+    overview: string | null;
+    air_date: string | null;
+    poster_path: string | null;
+    episode_count: number | null;
+    tmdb_fetched_at: string | null;
+    available_count: number;
+}
+
+export interface Episode {
+    id: number | null;
+    season_number: number;
+    episode_number: number | null;
+    title: string | null;
+    overview: string | null;
+    air_date: string | null;
+    still_path: string | null;
+    runtime: number | null;
+    rating: number | null;
+    vote_count: number | null;
+    guest_stars: string | null;
+    // File in the library, if any
+    media_id: number | null;
+    duration_seconds: number | null;
+    resolution: string | null;
+    progress_seconds: number | null;
+    state_total: number | null;
+    completed: number | null;
+}
+
+/**
+ * Get a show row
+ */
+export function getShow(showId: number): Show | undefined {
+    return getOne<Show>('SELECT * FROM shows WHERE id = ?', [showId]);
+}
+
+/**
+ * Whether a profile may see a show, i.e. may watch at least one of its files
+ */
+export function isShowAllowed(showId: number, userId: number): boolean {
+    const allowed = certificationFilter(userId);
+    return !!getOne(`SELECT 1 FROM media WHERE show_id = ? AND ${allowed.sql} LIMIT 1`, [showId, ...allowed.params]);
+}
+
+/**
+ * Get a show's seasons that exist on TMDB or in the library, with how many episodes the profile may watch on disk
+ */
+export function getSeasons(showId: number, userId: number): Season[] {
+    const allowed = certificationFilter(userId, 'm.certification');
+    const seasons = getAll<Season>(`
+    SELECT s.id, s.show_id, s.season_number, s.name, s.overview, s.air_date, s.poster_path,
+           s.episode_count, s.tmdb_fetched_at,
+           (SELECT COUNT(DISTINCT COALESCE(m.episode_number, -m.id)) FROM media m
+            WHERE m.show_id = s.show_id AND m.season_number = s.season_number AND ${allowed.sql}) AS available_count
+    FROM seasons s
+    WHERE s.show_id = ?
+    ORDER BY s.season_number
+  `, [...allowed.params, showId]);
+
+    // Files whose season is unknown to TMDB still need a place to show up
+    const known = new Set(seasons.map(s => s.season_number));
+    const extra = getAll<{ season_number: number; available_count: number }>(`
+    SELECT COALESCE(m.season_number, 0) AS season_number, COUNT(*) AS available_count
+    FROM media m
+    WHERE m.show_id = ? AND ${allowed.sql}
+    GROUP BY COALESCE(m.season_number, 0)
+  `, [showId, ...allowed.params]).filter(s => !known.has(s.season_number));
+
+    return [
+        ...seasons,
+        ...extra.map(s => ({
+            id: null,
+            show_id: showId,
+            season_number: s.season_number,
+            name: null,
+            overview: null,
+            air_date: null,
+            poster_path: null,
+            episode_count: null,
+            tmdb_fetched_at: null,
+            available_count: s.available_count,
+        })),
+    ].sort((a, b) => a.season_number - b.season_number);
+}
+
+/**
+ * Get the episodes of a season, each with its file and the profile's playback state when it is in the library
+ * Files the profile may not watch are left out, their episodes look like they aren't in the library.
+ */
+export function getEpisodes(showId: number, seasonNumber: number, userId: number): Episode[] {
+    const allowed = certificationFilter(userId);
+    const allowedFile = certificationFilter(userId, 'm.certification');
+    const episodes = getAll<Episode>(`
+    SELECT e.id, e.season_number, e.episode_number, e.title, e.overview, e.air_date, e.still_path,
+           e.runtime, e.rating, e.vote_count, e.guest_stars,
+           m.id AS media_id, m.duration_seconds, m.resolution,
+           p.position_seconds AS progress_seconds, p.duration_seconds AS state_total, p.completed
+    FROM episodes e
+    LEFT JOIN media m ON m.id = (SELECT MIN(id) FROM media WHERE episode_id = e.id AND ${allowed.sql})
+    LEFT JOIN playback_state p ON p.media_id = m.id AND p.user_id = ?
+    WHERE e.show_id = ? AND e.season_number = ?
+    ORDER BY e.episode_number
+  `, [...allowed.params, userId, showId, seasonNumber]);
+
+    // Files TMDB doesn't list (specials, wrong numbering...)
+    const unlinked = getAll<Episode>(`
+    SELECT NULL AS id, COALESCE(m.season_number, 0) AS season_number, m.episode_number,
+           COALESCE(m.episode_title, m.title) AS title, m.overview, m.release_date AS air_date,
+           NULL AS still_path, m.runtime, m.rating, m.vote_count, NULL AS guest_stars,
+           m.id AS media_id, m.duration_seconds, m.resolution,
+           p.position_seconds AS progress_seconds, p.duration_seconds AS state_total, p.completed
+    FROM media m
+    LEFT JOIN playback_state p ON p.media_id = m.id AND p.user_id = ?
+    WHERE m.show_id = ? AND COALESCE(m.season_number, 0) = ? AND m.episode_id IS NULL AND ${allowedFile.sql}
+  `, [userId, showId, seasonNumber, ...allowedFile.params]);
+
+    return [...episodes, ...unlinked]
+        .sort((a, b) => (a.episode_number ?? Infinity) - (b.episode_number ?? Infinity));
+}
+
+/**
+ * Replace episode-level fields with show-level ones on rows that stand for a whole show
+ * (series-grouped listings), so a show card never shows an episode's overview or guest stars.
+ */
+export function applyShowInfo<T extends { show_id?: number | null }>(rows: T[]): T[] {
+    const showIds = Array.from(new Set(rows.map(r => r.show_id).filter((id): id is number => !!id)));
+    if (showIds.length === 0) return rows;
+
+    const shows = getAll<Show>(
+        `SELECT * FROM shows WHERE id IN (${showIds.map(() => '?').join(',')})`,
+        showIds
+    );
+    const showMap = new Map(shows.map(s => [s.id, s]));
+
+    return rows.map(row => {
+        const show = row.show_id ? showMap.get(row.show_id) : undefined;
+        if (!show) return row;
+
+        return {
+            ...row,
+            title: show.title,
+            overview: show.overview,
+            tagline: show.tagline,
+            release_date: show.first_air_date,
+            poster_path: show.poster_path,
+            backdrop_path: show.backdrop_path,
+            genres: show.genres,
+            cast_members: show.cast_members,
+            director: show.creator,
+            rating: show.rating,
+            vote_count: show.vote_count,
+        };
+    });
+}
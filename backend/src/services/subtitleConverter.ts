@@ -1,57 +1,340 @@
 /**
- * Subtitle Converter - Converts SRT to WebVTT format
+ * Subtitle Converter - Converts SRT and ASS/SSA subtitles to WebVTT format
+ * ASS styles and positioning become VTT STYLE blocks and cue settings.
+ * Image-based formats (PGS, VobSub) can't be converted and are burned into the video.
  */
 
 import fs from 'fs';
 import path from 'path';
 import ffmpeg from 'fluent-ffmpeg';
+import { srtToVtt, readSubtitleFile, formatVttTime } from './subtitleParser.js';
+
+// External subtitle files picked up next to a video (VobSub .sub files are read through their .idx)
+export const SUBTITLE_EXTENSIONS = ['.srt', '.vtt', '.ass', '.ssa', '.sub', '.idx', '.sup'];
+
+// Codec stored for each external subtitle extension (matches FFprobe's codec names)
+const EXTERNAL_CODECS: Record<string, string> = {
+    '.srt': 'subrip',
+    '.vtt': 'webvtt',
+    '.ass': 'ass',
+    '.ssa': 'ssa',
+    '.sub': 'microdvd',
+    '.idx': 'dvd_subtitle',
+    '.sup': 'hdmv_pgs_subtitle',
+};
+
+// Bitmap subtitle codecs, the browser can only show them burned into the video
+const IMAGE_CODECS = ['hdmv_pgs_subtitle', 'pgssub', 'dvd_subtitle', 'dvdsub', 'dvb_subtitle', 'dvbsub', 'xsub'];
+
+export function getExternalSubtitleCodec(filePath: string): string {
+    return EXTERNAL_CODECS[path.extname(filePath).toLowerCase()] || 'unknown';
+}
+
+export function isImageSubtitle(codec: string | null | undefined): boolean {
+    return !!codec && IMAGE_CODECS.includes(codec.toLowerCase());
+}
+
+export function isAssSubtitle(codec: string | null | undefined): boolean {
+    return codec === 'ass' || codec === 'ssa';
+}
+
+interface AssStyle {
+    className: string;
+    fontName?: string;
+    color?: string;
+    bold: boolean;
+    italic: boolean;
+    underline: boolean;
+    alignment: number; // Numpad layout: 1-3 bottom, 4-6 middle, 7-9 top
+    marginL: number;
+    marginR: number;
+    marginV: number;
+}
+
+interface AssCue {
+    start: number;
+    end: number;
+    settings: string;
+    text: string;
+}
+
+// "0:01:02.50" -> seconds
+function parseAssTime(value: string): number {
+    const match = value.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})(?:[.:](\d+))?$/);
+    if (!match) return NaN;
+    const fraction = match[4] ? parseInt(match[4], 10) / Math.pow(10, match[4].length) : 0;
+    return parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3], 10) + fraction;
+}
+
+// &HAABBGGRR -> #RRGGBB
+function parseAssColor(value: string | undefined): string | undefined {
+    const hex = value?.replace(/^&H|&$/gi, '').padStart(8, '0').slice(-6);
+    if (!hex || !/^[0-9a-f]{6}$/i.test(hex)) return undefined;
+    return `#${hex.slice(4, 6)}${hex.slice(2, 4)}${hex.slice(0, 2)}`.toLowerCase();
+}
+
+// SSA (v4) alignment: 1-3 bottom, 5-7 top, 9-11 middle
+function fromLegacyAlignment(value: number): number {
+    if (value >= 9) return value - 5;
+    if (value >= 5) return value + 2;
+    return value;
+}
+
+function percent(value: number, total: number): string {
+    const p = Math.min(100, Math.max(0, (value / total) * 100));
+    return `${Math.round(p * 100) / 100}%`;
+}
+
+function escapeCueText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
 
 /**
- * Convert SRT subtitle format to WebVTT
+ * Build VTT cue settings for an alignment, optionally anchored at a \pos() point
  */
-export function srtToVtt(srtContent: string): string {
-    // WebVTT header
-    let vtt = 'WEBVTT\n\n';
+function getCueSettings(
+    alignment: number,
+    style: AssStyle,
+    resX: number,
+    resY: number,
+    pos?: { x: number; y: number },
+    margins?: { l: number; r: number; v: number }
+): string {
+    const column = (alignment - 1) % 3; // 0 left, 1 center, 2 right
+    const row = alignment >= 7 ? 'top' : alignment >= 4 ? 'middle' : 'bottom';
+    const align = ['start', 'center', 'end'][column];
+
+    if (pos) {
+        const lineAlign = row === 'top' ? 'start' : row === 'middle' ? 'center' : 'end';
+        const positionAlign = ['line-left', 'center', 'line-right'][column];
+        return `line:${percent(pos.y, resY)},${lineAlign} position:${percent(pos.x, resX)},${positionAlign} align:${align}`;
+    }
+
+    const marginL = margins?.l || style.marginL;
+    const marginR = margins?.r || style.marginR;
+    const marginV = margins?.v || style.marginV;
 
-    // Split into blocks
-    const blocks = srtContent.trim().split(/\n\n+/);
+    const settings: string[] = [];
+    if (row === 'top') settings.push(`line:${percent(marginV, resY)},start`);
+    if (row === 'middle') settings.push('line:50%,center');
+    if (column === 0) settings.push(`position:${percent(marginL, resX)},line-left`);
+    if (column === 2) settings.push(`position:${percent(resX - marginR, resX)},line-right`);
+    if (align !== 'center') settings.push(`align:${align}`);
+    return settings.join(' ');
+}
 
-    for (const block of blocks) {
-        const lines = block.split('\n');
+/**
+ * Convert ASS/SSA dialogue text with override tags to VTT cue text
+ * Returns the cue text plus the alignment and position set by \an, \a and \pos.
+ */
+function convertAssText(raw: string, style: AssStyle): { text: string; alignment: number; pos?: { x: number; y: number } } {
+    let alignment = style.alignment;
+    let pos: { x: number; y: number } | undefined;
+    let drawing = false;
+    let out = '';
+    const base = { b: style.bold, i: style.italic, u: style.underline };
+    const current = { ...base };
 
-        if (lines.length < 2) continue;
+    // Re-open the tags that apply after every override block
+    const setFormat = (tag: 'b' | 'i' | 'u', on: boolean) => {
+        if (current[tag] === on) return;
+        out += on ? `<${tag}>` : `</${tag}>`;
+        current[tag] = on;
+    };
 
-        // Find timestamp line (skip sequence number)
-        let timestampIndex = 0;
-        if (lines[0].match(/^\d+$/)) {
-            timestampIndex = 1;
+    for (const part of raw.split(/(\{[^}]*\})/)) {
+        if (part.startsWith('{') && part.endsWith('}')) {
+            for (const tag of part.slice(1, -1).split('\\').slice(1)) {
+                let m: RegExpMatchArray | null;
+                if ((m = tag.match(/^an([1-9])/))) alignment = parseInt(m[1], 10);
+                else if ((m = tag.match(/^a(\d{1,2})$/))) alignment = fromLegacyAlignment(parseInt(m[1], 10));
+                else if ((m = tag.match(/^pos\(\s*([-\d.]+)\s*,\s*([-\d.]+)\s*\)/))) pos = { x: parseFloat(m[1]), y: parseFloat(m[2]) };
+                else if ((m = tag.match(/^p(\d+)$/))) drawing = m[1] !== '0';
+                else if ((m = tag.match(/^([biu])(\d*)$/))) {
+                    const key = m[1] as 'b' | 'i' | 'u';
+                    setFormat(key, m[2] === '' ? base[key] : m[2] !== '0');
+                } else if (tag === 'r') {
+                    (['b', 'i', 'u'] as const).forEach(t => setFormat(t, base[t]));
+                }
+                // Colors, fonts, transforms and karaoke timing have no VTT equivalent
+            }
+            continue;
         }
 
-        if (timestampIndex >= lines.length) continue;
+        if (drawing) continue;
+        out += escapeCueText(part)
+            .replace(/\\N/g, '\n')
+            .replace(/\\n/g, ' ')
+            .replace(/\\h/g, '\u00a0');
+    }
+
+    (['b', 'i', 'u'] as const).forEach(t => setFormat(t, base[t]));
 
-        const timestampLine = lines[timestampIndex];
+    // Formatting set by the style wraps the whole cue
+    const styled = (['b', 'i', 'u'] as const).filter(t => base[t]);
+    const text = styled.map(t => `<${t}>`).join('') + out + [...styled].reverse().map(t => `</${t}>`).join('');
 
-        // Convert timestamp format: 00:00:00,000 --> 00:00:00,000
-        // to WebVTT format: 00:00:00.000 --> 00:00:00.000
-        const vttTimestamp = timestampLine.replace(/,/g, '.');
+    return { text: text.trim(), alignment, pos };
+}
+
+function parseFormat(line: string): string[] {
+    return line.slice(line.indexOf(':') + 1).split(',').map(f => f.trim().toLowerCase());
+}
+
+// Split a "Key: a,b,c" line into as many fields as the format has, the last one keeps its commas
+function parseFields(line: string, format: string[]): Record<string, string> {
+    const values = line.slice(line.indexOf(':') + 1).trimStart().split(',');
+    const fields: Record<string, string> = {};
+    format.forEach((name, i) => {
+        fields[name] = i === format.length - 1 ? values.slice(i).join(',') : (values[i] ?? '').trim();
+    });
+    return fields;
+}
+
+/**
+ * Convert an ASS/SSA subtitle to WebVTT
+ * Each ASS style becomes a ::cue class (font, color, bold, italic, underline),
+ * alignment, margins and \pos() become cue positioning.
+ */
+export function assToVtt(assContent: string): string {
+    const lines = assContent.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const styles = new Map<string, AssStyle>();
+    const cues: AssCue[] = [];
 
-        // Get subtitle text (everything after timestamp)
-        const textLines = lines.slice(timestampIndex + 1);
-        const text = textLines.join('\n');
+    let section = '';
+    let legacy = false;
+    let resX = 384; // ASS defaults when PlayRes isn't set
+    let resY = 288;
+    let styleFormat: string[] = [];
+    let eventFormat: string[] = [];
 
-        if (vttTimestamp && text) {
-            vtt += `${vttTimestamp}\n${text}\n\n`;
+    // Events can name a style that was never defined
+    const defaultStyle = (): AssStyle => ({
+        className: `s${styles.size}`,
+        bold: false,
+        italic: false,
+        underline: false,
+        alignment: 2,
+        marginL: 0,
+        marginR: 0,
+        marginV: 0,
+    });
+
+    for (const rawLine of lines) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith(';')) continue;
+
+        const header = line.match(/^\[(.+)\]$/);
+        if (header) {
+            section = header[1].toLowerCase();
+            legacy = section === 'v4 styles';
+            continue;
         }
+
+        if (section === 'script info') {
+            const m = line.match(/^PlayRes([XY])\s*:\s*(\d+)/i);
+            if (m && parseInt(m[2], 10) > 0) {
+                if (m[1].toUpperCase() === 'X') resX = parseInt(m[2], 10);
+                else resY = parseInt(m[2], 10);
+            }
+        } else if (section.endsWith('styles')) {
+            if (/^Format\s*:/i.test(line)) styleFormat = parseFormat(line);
+            else if (/^Style\s*:/i.test(line) && styleFormat.length > 0) {
+                const f = parseFields(line, styleFormat);
+                const alignment = parseInt(f.alignment, 10) || 2;
+                const flag = (value: string | undefined) => !!value && value !== '0';
+                styles.set(f.name, {
+                    className: `s${styles.size}`,
+                    fontName: f.fontname || undefined,
+                    color: parseAssColor(f.primarycolour),
+                    bold: flag(f.bold),
+                    italic: flag(f.italic),
+                    underline: flag(f.underline),
+                    alignment: legacy ? fromLegacyAlignment(alignment) : alignment,
+                    marginL: parseInt(f.marginl, 10) || 0,
+                    marginR: parseInt(f.marginr, 10) || 0,
+                    marginV: parseInt(f.marginv, 10) || 0,
+                });
+            }
+        } else if (section === 'events') {
+            if (/^Format\s*:/i.test(line)) eventFormat = parseFormat(line);
+            else if (/^Dialogue\s*:/i.test(line) && eventFormat.length > 0) {
+                const f = parseFields(line, eventFormat);
+                const start = parseAssTime(f.start);
+                const end = parseAssTime(f.end);
+                if (isNaN(start) || isNaN(end) || end <= start) continue;
+
+                const styleName = (f.style || 'Default').replace(/^\*/, '');
+                let style = styles.get(styleName);
+                if (!style) {
+                    style = defaultStyle();
+                    styles.set(styleName, style);
+                }
+
+                const converted = convertAssText(f.text ?? '', style);
+                if (!converted.text.replace(/<[^>]+>/g, '').trim()) continue;
+
+                const margins = {
+                    l: parseInt(f.marginl, 10) || 0,
+                    r: parseInt(f.marginr, 10) || 0,
+                    v: parseInt(f.marginv, 10) || 0,
+                };
+                cues.push({
+                    start,
+                    end,
+                    settings: getCueSettings(converted.alignment, style, resX, resY, converted.pos, margins),
+                    text: `<c.${style.className}>${converted.text}</c>`,
+                });
+            }
+        }
+    }
+
+    let vtt = 'WEBVTT\n\n';
+
+    // Style classes (only the properties VTT can express)
+    const rules = [...styles.values()].map(style => {
+        const props: string[] = [];
+        if (style.fontName) props.push(`font-family: "${style.fontName.replace(/["\\]/g, '')}", sans-serif;`);
+        if (style.color) props.push(`color: ${style.color};`);
+        return props.length > 0 ? `::cue(.${style.className}) { ${props.join(' ')} }` : '';
+    }).filter(Boolean);
+    if (rules.length > 0) {
+        vtt += `STYLE\n${rules.join('\n')}\n\n`;
+    }
+
+    cues.sort((a, b) => a.start - b.start);
+    for (const cue of cues) {
+        const settings = cue.settings ? ` ${cue.settings}` : '';
+        vtt += `${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}${settings}\n${cue.text}\n\n`;
     }
 
     return vtt;
 }
 
+// "01:02:03.456" or "02:03.456" -> seconds
+function parseVttTime(value: string): number {
+    const parts = value.split(':').map(parseFloat);
+    return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Shift all cue timings of a WebVTT file (positive offsets show subtitles later)
+ */
+export function shiftVtt(vtt: string, offsetMs: number): string {
+    if (!offsetMs) return vtt;
+
+    const shift = (time: string) => formatVttTime(Math.max(0, parseVttTime(time) + offsetMs / 1000));
+    return vtt.replace(
+        /^((?:\d+:)?\d{2}:\d{2}\.\d{3})[ \t]+-->[ \t]+((?:\d+:)?\d{2}:\d{2}\.\d{3})/gm,
+        (_, start: string, end: string) => `${shift(start)} --> ${shift(end)}`
+    );
+}
+
 /**
  * Convert an SRT file to WebVTT and save it
  */
 export async function convertSrtFile(srtPath: string, outputPath?: string): Promise<string> {
-    const srtContent = fs.readFileSync(srtPath, 'utf-8');
+    const srtContent = readSubtitleFile(srtPath);
     const vttContent = srtToVtt(srtContent);
 
     // Determine output path
@@ -69,12 +352,13 @@ export async function convertSrtFile(srtPath: string, outputPath?: string): Prom
 }
 
 /**
- * Extract an embedded subtitle track to a VTT file
+ * Extract a subtitle stream to a VTT file, or to an ASS file to keep its styling
  */
 export function extractEmbeddedSubtitle(
     inputPath: string,
     trackIndex: number,
-    outputPath: string
+    outputPath: string,
+    format: 'webvtt' | 'ass' = 'webvtt'
 ): Promise<string> {
     return new Promise((resolve, reject) => {
         // Ensure directory exists
@@ -88,7 +372,8 @@ export function extractEmbeddedSubtitle(
         ffmpeg(inputPath)
             .outputOptions([
                 `-map 0:${trackIndex}`, // Select specific stream
-                '-f webvtt'             // Output format
+                ...(format === 'ass' ? ['-c:s copy'] : []),
+                `-f ${format}`          // Output format
             ])
             .output(outputPath)
             .on('end', () => {
@@ -0,0 +1,304 @@
+/**
+ * Subtitle Parser - Reads subtitle files in any common encoding and parses SRT
+ * Detects the character encoding (BOMs, UTF-8, Windows-1252, Windows-1251, GB2312),
+ * tolerates CRLF line endings, missing sequence numbers and sloppy timestamps,
+ * and converts SRT markup (<font>, {\an8}, ...) to its WebVTT equivalent.
+ */
+
+import fs from 'fs';
+
+export type SubtitleEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'windows-1251' | 'gb18030';
+
+export interface SubtitleCue {
+    start: number; // Seconds
+    end: number;
+    text: string; // WebVTT cue text
+    settings: string; // WebVTT cue settings, empty for the default position
+}
+
+// Shown this long when a cue ends before it starts
+const DEFAULT_CUE_DURATION = 3;
+
+// Allowed WebVTT markup, anything else is stripped
+const VTT_TAGS = ['b', 'i', 'u'];
+
+// Cue settings for {\anN} positions (numpad layout: 1-3 bottom, 4-6 middle, 7-9 top)
+const ALIGNMENT_SETTINGS: Record<number, string> = {
+    1: 'position:10%,line-left align:start',
+    2: '',
+    3: 'position:90%,line-right align:end',
+    4: 'line:50%,center position:10%,line-left align:start',
+    5: 'line:50%,center',
+    6: 'line:50%,center position:90%,line-right align:end',
+    7: 'line:5%,start position:10%,line-left align:start',
+    8: 'line:5%,start',
+    9: 'line:5%,start position:90%,line-right align:end',
+};
+
+/**
+ * Detect the character encoding of a subtitle file
+ */
+export function detectEncoding(buffer: Buffer): SubtitleEncoding {
+    if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) return 'utf-8';
+    if (buffer[0] === 0xff && buffer[1] === 0xfe) return 'utf-16le';
+    if (buffer[0] === 0xfe && buffer[1] === 0xff) return 'utf-16be';
+
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+        return 'utf-8';
+    } catch {
+        // Not UTF-8, guess between the legacy code pages below
+    }
+
+    // Western text only has the odd accented letter between ASCII ones,
+    // Cyrillic and Chinese text has runs of non-ASCII bytes
+    let highBytes = 0;
+    let runs = 0;
+    let gbRangeBytes = 0;
+    for (let i = 0; i < buffer.length; i++) {
+        const byte = buffer[i];
+        if (byte < 0x80) continue;
+        highBytes++;
+        if (i === 0 || buffer[i - 1] < 0x80) runs++;
+        // Common in GB2312 (lead bytes of frequent characters and trail bytes), rare in Russian text
+        if (byte >= 0xa1 && byte <= 0xbf) gbRangeBytes++;
+    }
+
+    if (runs === 0 || highBytes / runs < 1.5) return 'windows-1252';
+
+    if (gbRangeBytes / highBytes > 0.15) {
+        try {
+            new TextDecoder('gb18030', { fatal: true }).decode(buffer);
+            return 'gb18030';
+        } catch {
+            // Invalid byte pairs, not Chinese
+        }
+    }
+
+    return 'windows-1251';
+}
+
+/**
+ * Decode a subtitle file to a string with normalized line endings
+ */
+export function decodeSubtitle(buffer: Buffer): { text: string; encoding: SubtitleEncoding } {
+    const encoding = detectEncoding(buffer);
+    const text = new TextDecoder(encoding).decode(buffer) // Drops the BOM
+        .replace(/\r\n?/g, '\n');
+    return { text, encoding };
+}
+
+export function readSubtitleFile(filePath: string): string {
+    return decodeSubtitle(fs.readFileSync(filePath)).text;
+}
+
+/**
+ * Parse one SRT timestamp, accepting missing hours, "." or ":" before the
+ * milliseconds and fewer than three millisecond digits ("00:01:02,5")
+ */
+function parseTimestamp(value: string): number | null {
+    const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.:](\d{1,3}))?$/);
+    if (!match) return null;
+
+    const [, h, m, s, ms] = match;
+    const minutes = parseInt(m, 10);
+    const seconds = parseInt(s, 10);
+    if (minutes >= 60 || seconds >= 60) return null;
+
+    const fraction = ms ? parseInt(ms, 10) / Math.pow(10, ms.length) : 0;
+    return (h ? parseInt(h, 10) : 0) * 3600 + minutes * 60 + seconds + fraction;
+}
+
+// "00:00:01,000 --> 00:00:02,000" with any arrow length and spacing, plus SRT coordinates after it
+const TIMING_LINE = /^\s*([^\s>-]*\d[^\s>-]*)\s*-+>\s*([^\s>-]*\d[^\s>-]*)/;
+
+function parseTimingLine(line: string): { start: number; end: number } | null | undefined {
+    const match = line.match(TIMING_LINE);
+    if (!match) return undefined; // Not a timing line
+    const start = parseTimestamp(match[1]);
+    const end = parseTimestamp(match[2]);
+    if (start === null || end === null) return null; // A timing line we can't read
+    return { start, end: end > start ? end : start + DEFAULT_CUE_DURATION };
+}
+
+function escapeText(text: string): string {
+    return text.replace(/&(?!(?:amp|lt|gt|nbsp|lrm|rlm|#\d+|#x[0-9a-f]+);)/gi, '&amp;');
+}
+
+// "#ff0000", "ff0000" or "red" -> class name and CSS color
+function parseFontColor(value: string): { className: string; color: string } | null {
+    const color = value.trim().replace(/^["']|["']$/g, '').toLowerCase();
+    if (/^#?[0-9a-f]{6}$/.test(color)) {
+        const hex = color.replace('#', '');
+        return { className: `color-${hex}`, color: `#${hex}` };
+    }
+    if (/^#?[0-9a-f]{3}$/.test(color)) {
+        const hex = color.replace('#', '').split('').map(c => c + c).join('');
+        return { className: `color-${hex}`, color: `#${hex}` };
+    }
+    if (/^[a-z]+$/.test(color)) {
+        return { className: `color-${color}`, color };
+    }
+    return null;
+}
+
+/**
+ * Convert SRT cue markup to WebVTT cue text and settings
+ * <b>, <i> and <u> are kept, <font color> becomes a color class, {\anN}
+ * becomes cue positioning and everything else is dropped.
+ */
+export function convertSrtMarkup(raw: string, colors: Map<string, string> = new Map()): { text: string; settings: string } {
+    let settings = '';
+    const open: string[] = []; // Tags to close at the end of the cue, innermost last
+
+    // {\an8}, {\a6} and other ASS override blocks
+    let text = raw.replace(/\{\\([^}]*)\}/g, (_, body: string) => {
+        let replacement = '';
+        for (const tag of body.split('\\')) {
+            const an = tag.match(/^an([1-9])$/);
+            if (an) settings = ALIGNMENT_SETTINGS[parseInt(an[1], 10)];
+            // Legacy SSA alignment: 1-3 bottom, 5-7 top, 9-11 middle
+            const legacy = tag.match(/^a(\d{1,2})$/);
+            if (legacy) {
+                const value = parseInt(legacy[1], 10);
+                settings = ALIGNMENT_SETTINGS[value >= 9 ? value - 5 : value >= 5 ? value + 2 : value] ?? settings;
+            }
+            const format = tag.match(/^([biu])([01])$/);
+            if (format) replacement += format[2] === '1' ? `<${format[1]}>` : `</${format[1]}>`;
+        }
+        return replacement;
+    });
+
+    // {i}...{/i} style tags used by some rippers
+    text = text.replace(/\{(\/?)([biu])\}/gi, (_, slash: string, tag: string) => `<${slash}${tag.toLowerCase()}>`);
+
+    text = escapeText(text);
+
+    // Keep known tags, convert <font>, escape stray angle brackets
+    let out = '';
+    let last = 0;
+    const tagPattern = /<(\/?)([a-z]+)([^<>]*)>/gi;
+    for (const match of text.matchAll(tagPattern)) {
+        out += text.slice(last, match.index).replace(/</g, '&lt;').replace(/>/g, '&gt;');
+        last = (match.index ?? 0) + match[0].length;
+
+        const closing = match[1] === '/';
+        const name = match[2].toLowerCase();
+
+        if (VTT_TAGS.includes(name)) {
+            if (closing) {
+                const at = open.lastIndexOf(name);
+                if (at === -1) continue;
+                // Close tags opened inside this one first so the markup stays nested
+                out += open.splice(at).reverse().map(t => `</${t}>`).join('');
+            } else {
+                out += `<${name}>`;
+                open.push(name);
+            }
+        } else if (name === 'font') {
+            if (closing) {
+                const at = open.lastIndexOf('c');
+                if (at === -1) continue;
+                out += open.splice(at).reverse().map(t => `</${t}>`).join('');
+                continue;
+            }
+            const colorAttr = match[3].match(/color\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i);
+            const color = colorAttr ? parseFontColor(colorAttr[1]) : null;
+            if (color) {
+                colors.set(color.className, color.color);
+                out += `<c.${color.className}>`;
+                open.push('c');
+            }
+        }
+        // Any other tag is dropped
+    }
+    out += text.slice(last).replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    out += open.reverse().map(t => `</${t}>`).join('');
+
+    // Blank lines would end the cue early, and "-->" is not allowed in cue text
+    out = out.split('\n').map(line => line.trim()).filter(Boolean).join('\n').replace(/-->/g, '--&gt;');
+
+    return { text: out, settings };
+}
+
+/**
+ * Parse SRT content into cues
+ * Cues are found by their timing line, so missing or wrong sequence numbers,
+ * missing blank lines and cues with unreadable timestamps don't break the rest.
+ */
+export function parseSrt(content: string, colors: Map<string, string> = new Map()): SubtitleCue[] {
+    const lines = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+    const cues: SubtitleCue[] = [];
+
+    let timing: { start: number; end: number } | null = null;
+    let textLines: string[] = [];
+    let skipping = false; // Text of a cue whose timing line was unreadable
+
+    const flush = () => {
+        while (textLines.length > 0 && !textLines[textLines.length - 1].trim()) {
+            textLines.pop();
+        }
+        // A number right before the next timing line is that cue's sequence number
+        if (textLines.length > 0 && /^\s*\d+\s*$/.test(textLines[textLines.length - 1])) {
+            textLines.pop();
+        }
+        if (timing) {
+            const { text, settings } = convertSrtMarkup(textLines.join('\n'), colors);
+            if (text) cues.push({ ...timing, text, settings });
+        }
+        timing = null;
+        textLines = [];
+    };
+
+    for (const line of lines) {
+        const parsed = parseTimingLine(line);
+        if (parsed !== undefined) {
+            flush();
+            timing = parsed;
+            skipping = parsed === null;
+            continue;
+        }
+        if (!timing && !skipping) continue; // Sequence numbers and junk before a cue
+        textLines.push(line);
+    }
+    flush();
+
+    return cues.sort((a, b) => a.start - b.start);
+}
+
+export function formatVttTime(seconds: number): string {
+    const ms = Math.round(seconds * 1000);
+    const h = Math.floor(ms / 3600000);
+    const m = Math.floor((ms % 3600000) / 60000);
+    const s = Math.floor((ms % 60000) / 1000);
+    const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+    return `${pad(h)}:${pad(m)}:${pad(s)}.${pad(ms % 1000, 3)}`;
+}
+
+/**
+ * Write cues as a WebVTT file, with a STYLE block for <font> colors
+ */
+export function cuesToVtt(cues: SubtitleCue[], colors: Map<string, string> = new Map()): string {
+    let vtt = 'WEBVTT\n\n';
+
+    if (colors.size > 0) {
+        const rules = [...colors].map(([className, color]) => `::cue(.${className}) { color: ${color}; }`);
+        vtt += `STYLE\n${rules.join('\n')}\n\n`;
+    }
+
+    for (const cue of cues) {
+        const settings = cue.settings ? ` ${cue.settings}` : '';
+        vtt += `${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}${settings}\n${cue.text}\n\n`;
+    }
+
+    return vtt;
+}
+
+/**
+ * Convert SRT content to WebVTT
+ */
+export function srtToVtt(content: string): string {
+    const colors = new Map<string, string>();
+    const cues = parseSrt(content, colors);
+    return cuesToVtt(cues, colors);
+}
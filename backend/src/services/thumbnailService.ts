@@ -0,0 +1,449 @@
+/**
+ * Thumbnail Service - Background generation of seek-bar previews (trickplay)
+ * FFmpeg grabs a frame every few seconds and tiles them into JPEG sprite sheets,
+ * indexed by a WebVTT file whose cues point at a region of a sheet. Sheets live in
+ * a size-limited cache where the least recently watched media is removed first.
+ */
+
+import ffmpeg from 'fluent-ffmpeg';
+import fs from 'fs';
+import path from 'path';
+import { getOne, getAll, run } from '../db.js';
+import { EventEmitter } from 'events';
+import { formatVttTime } from './subtitleParser.js';
+
+// Cache directory, one folder per media item
+const CACHE_DIR = path.join(process.cwd(), 'thumbnail_cache');
+
+if (!fs.existsSync(CACHE_DIR)) {
+    fs.mkdirSync(CACHE_DIR, { recursive: true });
+}
+
+// Event emitter for progress updates
+export const thumbnailEvents = new EventEmitter();
+
+export const THUMBNAIL_INDEX = 'thumbnails.vtt';
+
+const TILE_WIDTH = 240;
+// Thumbnails per sheet, smaller sheets also mean more frequent progress updates
+const SHEET_COLUMNS = 5;
+const SHEET_ROWS = 5;
+const DEFAULT_INTERVAL = 10;
+const DEFAULT_CACHE_MB = 2048;
+
+interface ThumbnailJob {
+    mediaId: number;
+    fileName: string;
+    status: 'queued' | 'generating' | 'completed' | 'failed';
+    progress: number;
+    error?: string;
+    startTime?: number;
+    endTime?: number;
+    command?: ffmpeg.FfmpegCommand;
+}
+
+export interface ThumbnailSet {
+    media_id: number;
+    file_size: number | null;
+    interval_seconds: number;
+    tile_width: number;
+    tile_height: number;
+    sheet_count: number;
+    size_bytes: number;
+    created_at: string;
+    last_accessed_at: string;
+}
+
+// Active jobs and queue
+const activeJobs = new Map<number, ThumbnailJob>();
+const jobQueue: number[] = [];
+
+function getNumberSetting(key: string, fallback: number): number {
+    const setting = getOne<{ value: string }>('SELECT value FROM settings WHERE key = ?', [key]);
+    const value = Number(setting?.value);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function getMediaDir(mediaId: number): string {
+    return path.join(CACHE_DIR, String(mediaId));
+}
+
+/**
+ * Get generation status for all jobs
+ */
+export function getThumbnailStatus(): {
+    active: Omit<ThumbnailJob, 'command'>[];
+    queued: number[];
+    completed: number;
+    totalInQueue: number;
+} {
+    const active: Omit<ThumbnailJob, 'command'>[] = [];
+    activeJobs.forEach((job) => {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { command, ...jobData } = job;
+        active.push(jobData);
+    });
+
+    const completed = getOne<{ count: number }>('SELECT COUNT(*) as count FROM media_thumbnails')?.count || 0;
+
+    return {
+        active,
+        queued: [...jobQueue],
+        completed,
+        totalInQueue: jobQueue.length + Array.from(activeJobs.values()).filter(j => j.status === 'generating').length,
+    };
+}
+
+/**
+ * Thumbnails of a media item, if they exist and were made from the current file
+ */
+export function getThumbnails(mediaId: number): ThumbnailSet | null {
+    const set = getOne<ThumbnailSet & { current_size: number }>(
+        `SELECT t.*, m.file_size AS current_size FROM media_thumbnails t
+         JOIN media m ON m.id = t.media_id WHERE t.media_id = ?`,
+        [mediaId]
+    );
+    if (!set || set.file_size !== set.current_size) return null;
+    if (!fs.existsSync(path.join(getMediaDir(mediaId), THUMBNAIL_INDEX))) return null;
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { current_size, ...thumbnails } = set;
+    return thumbnails;
+}
+
+/**
+ * Path of the WebVTT index or a sprite sheet, marking the set as recently used
+ */
+export function getThumbnailFile(mediaId: number, fileName: string): string | null {
+    if (fileName !== THUMBNAIL_INDEX && !/^sheet_\d+\.jpg$/.test(fileName)) return null;
+    if (!getThumbnails(mediaId)) return null;
+
+    const filePath = path.join(getMediaDir(mediaId), fileName);
+    if (!fs.existsSync(filePath)) return null;
+
+    if (fileName === THUMBNAIL_INDEX) {
+        run('UPDATE media_thumbnails SET last_accessed_at = CURRENT_TIMESTAMP WHERE media_id = ?', [mediaId]);
+    }
+    return filePath;
+}
+
+/**
+ * Queue thumbnail generation for a media item
+ */
+export function queueThumbnails(mediaId: number): boolean {
+    if (getThumbnails(mediaId)) {
+        return false;
+    }
+
+    if (activeJobs.get(mediaId)?.status === 'generating' || jobQueue.includes(mediaId)) {
+        return false;
+    }
+
+    jobQueue.push(mediaId);
+    console.log(`📝 Queued thumbnails: media ${mediaId}`);
+
+    thumbnailEvents.emit('queued', { mediaId });
+
+    processQueue();
+
+    return true;
+}
+
+/**
+ * Queue thumbnail generation for all media without up-to-date thumbnails
+ */
+export function queueAllThumbnails(): number {
+    const missing = getAll<{ id: number }>(
+        `SELECT m.id FROM media m
+         LEFT JOIN media_thumbnails t ON t.media_id = m.id
+         WHERE m.duration_seconds > 0
+         AND (t.media_id IS NULL OR t.file_size IS NOT m.file_size)
+         ORDER BY m.added_at DESC`
+    );
+
+    let queued = 0;
+    for (const media of missing) {
+        if (queueThumbnails(media.id)) {
+            queued++;
+        }
+    }
+
+    console.log(`📋 Queued ${queued} files for thumbnails`);
+    return queued;
+}
+
+/**
+ * Queue thumbnails for new media after a scan, when enabled in settings
+ */
+export function queueThumbnailsAfterScan(): number {
+    const setting = getOne<{ value: string }>('SELECT value FROM settings WHERE key = ?', ['generate_thumbnails']);
+    return setting?.value === 'true' ? queueAllThumbnails() : 0;
+}
+
+/**
+ * Process the generation queue, one job at a time
+ */
+function processQueue(): void {
+    if (Array.from(activeJobs.values()).some(j => j.status === 'generating')) return;
+
+    while (jobQueue.length > 0) {
+        if (startGeneration(jobQueue.shift()!)) return;
+    }
+}
+
+/**
+ * WebVTT index with one cue per thumbnail pointing at its region of a sheet
+ */
+function buildIndex(duration: number, interval: number, sheetCount: number, width: number, height: number): string {
+    const perSheet = SHEET_COLUMNS * SHEET_ROWS;
+    const count = Math.min(Math.ceil(duration / interval), sheetCount * perSheet);
+
+    let vtt = 'WEBVTT\n\n';
+    for (let i = 0; i < count; i++) {
+        const sheet = Math.floor(i / perSheet);
+        const tile = i % perSheet;
+        const x = (tile % SHEET_COLUMNS) * width;
+        const y = Math.floor(tile / SHEET_COLUMNS) * height;
+        const start = i * interval;
+        const end = Math.min((i + 1) * interval, duration);
+        vtt += `${formatVttTime(start)} --> ${formatVttTime(end)}\nsheet_${sheet}.jpg#xywh=${x},${y},${width},${height}\n\n`;
+    }
+    return vtt;
+}
+
+/**
+ * Start generating the sprite sheets of a media item
+ * Returns false when the item can't be processed.
+ */
+function startGeneration(mediaId: number): boolean {
+    const media = getOne<{
+        id: number;
+        file_path: string;
+        file_name: string;
+        file_size: number;
+        duration_seconds: number;
+        width: number | null;
+        height: number | null;
+    }>('SELECT id, file_path, file_name, file_size, duration_seconds, width, height FROM media WHERE id = ?', [mediaId]);
+
+    if (!media || !fs.existsSync(media.file_path) || !media.duration_seconds) {
+        console.error(`❌ Can't generate thumbnails for media ${mediaId}: file or duration missing`);
+        return false;
+    }
+
+    const interval = Math.round(getNumberSetting('thumbnail_interval', DEFAULT_INTERVAL));
+    // Even height with the video's aspect ratio, 16:9 if unknown
+    const aspect = media.width && media.height ? media.height / media.width : 9 / 16;
+    const tileHeight = Math.max(2, Math.round(TILE_WIDTH * aspect / 2) * 2);
+
+    const outputDir = getMediaDir(mediaId);
+    const tempDir = `${outputDir}_temp_${Date.now()}`;
+    fs.mkdirSync(tempDir, { recursive: true });
+
+    console.log(`🖼️ Generating thumbnails: ${media.file_name} (every ${interval}s)`);
+
+    const job: ThumbnailJob = {
+        mediaId,
+        fileName: media.file_name,
+        status: 'generating',
+        progress: 0,
+        startTime: Date.now(),
+    };
+
+    activeJobs.set(mediaId, job);
+    thumbnailEvents.emit('started', job);
+
+    const command = ffmpeg(media.file_path)
+        .inputOptions(['-skip_frame nokey']) // Keyframes are close enough and much faster to decode
+        .outputOptions([
+            '-map 0:v:0',
+            `-vf fps=1/${interval},scale=${TILE_WIDTH}:${tileHeight},tile=${SHEET_COLUMNS}x${SHEET_ROWS}`,
+            '-q:v 5',
+            '-start_number 0',
+        ])
+        .output(path.join(tempDir, 'sheet_%d.jpg'))
+        .on('progress', (progress) => {
+            if (progress.percent && progress.percent > 0) {
+                const currentProgress = Math.min(99, Math.round(progress.percent));
+                if (currentProgress !== job.progress) {
+                    job.progress = currentProgress;
+                    thumbnailEvents.emit('progress', { mediaId, progress: currentProgress, fileName: job.fileName });
+                }
+            }
+        })
+        .on('end', () => {
+            job.endTime = Date.now();
+            job.command = undefined;
+
+            try {
+                const sheets = fs.readdirSync(tempDir).filter(f => /^sheet_\d+\.jpg$/.test(f));
+                if (sheets.length === 0) {
+                    throw new Error('FFmpeg produced no sprite sheets');
+                }
+
+                fs.writeFileSync(
+                    path.join(tempDir, THUMBNAIL_INDEX),
+                    buildIndex(media.duration_seconds, interval, sheets.length, TILE_WIDTH, tileHeight)
+                );
+                const size = fs.readdirSync(tempDir)
+                    .reduce((total, f) => total + fs.statSync(path.join(tempDir, f)).size, 0);
+
+                fs.rmSync(outputDir, { recursive: true, force: true });
+                fs.renameSync(tempDir, outputDir);
+
+                run(`
+                    INSERT INTO media_thumbnails (media_id, file_size, interval_seconds, tile_width, tile_height, sheet_count, size_bytes)
+                    VALUES (?, ?, ?, ?, ?, ?, ?)
+                    ON CONFLICT(media_id) DO UPDATE SET
+                        file_size = excluded.file_size,
+                        interval_seconds = excluded.interval_seconds,
+                        tile_width = excluded.tile_width,
+                        tile_height = excluded.tile_height,
+                        sheet_count = excluded.sheet_count,
+                        size_bytes = excluded.size_bytes,
+                        created_at = CURRENT_TIMESTAMP,
+                        last_accessed_at = CURRENT_TIMESTAMP
+                `, [mediaId, media.file_size, interval, TILE_WIDTH, tileHeight, sheets.length, size]);
+
+                job.status = 'completed';
+                job.progress = 100;
+
+                console.log(`✅ Thumbnails ready: ${media.file_name} (${sheets.length} sheets)`);
+                thumbnailEvents.emit('completed', job);
+
+                enforceCacheLimit(mediaId);
+            } catch (e) {
+                console.error('Failed to finalize thumbnails:', e);
+                fs.rmSync(tempDir, { recursive: true, force: true });
+                job.status = 'failed';
+                job.error = e instanceof Error ? e.message : 'Failed to save thumbnails';
+                thumbnailEvents.emit('failed', job);
+            }
+
+            scheduleStatusCleanup(job);
+            processQueue();
+        })
+        .on('error', (err: Error) => {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+
+            // Cancelled jobs are already gone from the active list
+            if (activeJobs.get(mediaId) !== job) return;
+
+            console.error(`❌ FFmpeg thumbnail error for ${media.file_name}:`, err.message);
+
+            job.status = 'failed';
+            job.error = err.message;
+            job.command = undefined;
+
+            thumbnailEvents.emit('failed', job);
+
+            scheduleStatusCleanup(job);
+            processQueue();
+        });
+
+    job.command = command;
+    command.run();
+    return true;
+}
+
+// Finished jobs stay in the status for 30s so the result can be seen
+function scheduleStatusCleanup(job: ThumbnailJob): void {
+    setTimeout(() => {
+        if (activeJobs.get(job.mediaId) === job) {
+            activeJobs.delete(job.mediaId);
+        }
+    }, 30000);
+}
+
+/**
+ * Cancel a queued or running job
+ */
+export function cancelThumbnails(mediaId: number): boolean {
+    const queueIndex = jobQueue.indexOf(mediaId);
+    if (queueIndex > -1) {
+        jobQueue.splice(queueIndex, 1);
+        thumbnailEvents.emit('cancelled', { mediaId });
+        return true;
+    }
+
+    const job = activeJobs.get(mediaId);
+    if (job && job.command) {
+        activeJobs.delete(mediaId);
+        job.command.kill('SIGKILL');
+        thumbnailEvents.emit('cancelled', { mediaId });
+        processQueue();
+        return true;
+    }
+
+    return false;
+}
+
+/**
+ * Delete the thumbnails of a media item
+ */
+export function removeThumbnails(mediaId: number): boolean {
+    fs.rmSync(getMediaDir(mediaId), { recursive: true, force: true });
+    return run('DELETE FROM media_thumbnails WHERE media_id = ?', [mediaId]).changes > 0;
+}
+
+/**
+ * Remove the least recently watched thumbnails until the cache fits its size limit
+ */
+function enforceCacheLimit(keepMediaId: number): void {
+    const limit = getNumberSetting('thumbnail_cache_mb', DEFAULT_CACHE_MB) * 1024 * 1024;
+    const sets = getAll<{ media_id: number; size_bytes: number }>(
+        'SELECT media_id, size_bytes FROM media_thumbnails ORDER BY last_accessed_at ASC'
+    );
+
+    let total = sets.reduce((sum, s) => sum + s.size_bytes, 0);
+    for (const set of sets) {
+        if (total <= limit) break;
+        if (set.media_id === keepMediaId) continue;
+        removeThumbnails(set.media_id);
+        total -= set.size_bytes;
+        console.log(`🧹 Removed thumbnails of media ${set.media_id} to stay under the cache limit`);
+    }
+}
+
+/**
+ * Delete folders left behind by removed media and interrupted jobs
+ */
+export function cleanupThumbnailCache(): number {
+    if (!fs.existsSync(CACHE_DIR)) return 0;
+
+    const known = new Set(getAll<{ media_id: number }>('SELECT media_id FROM media_thumbnails').map(r => String(r.media_id)));
+    let removed = 0;
+    for (const entry of fs.readdirSync(CACHE_DIR)) {
+        if (known.has(entry)) continue;
+        if (/^\d+_temp_\d+$/.test(entry) && activeJobs.has(parseInt(entry))) continue;
+        fs.rmSync(path.join(CACHE_DIR, entry), { recursive: true, force: true });
+        removed++;
+    }
+
+    if (removed > 0) {
+        console.log(`🧹 Removed ${removed} unused thumbnail folder(s)`);
+    }
+    return removed;
+}
+
+/**
+ * Get cache statistics
+ */
+export function getThumbnailCacheStats(): {
+    totalItems: number;
+    totalSizeBytes: number;
+    totalSizeMB: number;
+    limitMB: number;
+} {
+    const stats = getOne<{ count: number; size: number | null }>(
+        'SELECT COUNT(*) as count, SUM(size_bytes) as size FROM media_thumbnails'
+    );
+    const totalSize = stats?.size || 0;
+
+    return {
+        totalItems: stats?.count || 0,
+        totalSizeBytes: totalSize,
+        totalSizeMB: Math.round(totalSize / 1024 / 1024),
+        limitMB: getNumberSetting('thumbnail_cache_mb', DEFAULT_CACHE_MB),
+    };
+}
@@ -3,12 +3,22 @@
  */
 
 import axios from 'axios';
-import { getOne, getAll, run } from '../db.js';
+import { getOne, getAll, run, transaction } from '../db.js';
+import { scheduleImageCache } from './imageCacheService.js';
+import { getLocalMetadata, applyLocalMetadata } from '../scanner/localMetadata.js';
+import { normalizeCertification } from './parentalControlService.js';
+import { saveTmdbCollection, TmdbCollection } from './collectionService.js';
 
 const TMDB_API_KEY = process.env.TMDB_API_KEY || '';
 const TMDB_BASE_URL = process.env.TMDB_BASE_URL || 'https://api.themoviedb.org/3';
 const TMDB_IMAGE_BASE_URL = process.env.TMDB_IMAGE_BASE_URL || 'https://image.tmdb.org/t/p';
 
+// Show details are re-fetched after this long so new seasons show up
+const SHOW_REFRESH_DAYS = 7;
+
+// Certifications are taken from this country's releases
+const CERTIFICATION_COUNTRY = 'US';
+
 // Rate limiting: max 40 requests per 10 seconds
 let requestQueue: number[] = [];
 const RATE_LIMIT = 40;
@@ -61,6 +71,10 @@ interface TMDBMovieDetails {
         cast?: { id: number; name: string; character: string; profile_path?: string }[];
         crew?: { id: number; name: string; job: string }[];
     };
+    release_dates?: {
+        results?: { iso_3166_1: string; release_dates: { certification: string; type: number }[] }[];
+    };
+    belongs_to_collection?: { id: number; name: string; poster_path?: string | null; backdrop_path?: string | null } | null;
 }
 
 interface TMDBTVDetails {
@@ -70,6 +84,18 @@ interface TMDBTVDetails {
     tagline?: string;
     overview?: string;
     first_air_date?: string;
+    last_air_date?: string;
+    status?: string;
+    number_of_seasons?: number;
+    number_of_episodes?: number;
+    seasons?: {
+        season_number: number;
+        name?: string;
+        overview?: string;
+        air_date?: string;
+        poster_path?: string;
+        episode_count?: number;
+    }[];
     episode_run_time?: number[];
     poster_path?: string;
     backdrop_path?: string;
@@ -80,6 +106,9 @@ interface TMDBTVDetails {
         cast?: { id: number; name: string; character: string; profile_path?: string }[];
         crew?: { id: number; name: string; job: string }[];
     };
+    content_ratings?: {
+        results?: { iso_3166_1: string; rating: string }[];
+    };
 }
 
 interface TMDBEpisodeDetails {
@@ -97,11 +126,22 @@ interface TMDBEpisodeDetails {
     guest_stars?: { id: number; name: string; character: string; profile_path?: string }[];
 }
 
+interface TMDBSeasonDetails {
+    id: number;
+    name?: string;
+    overview?: string;
+    air_date?: string;
+    poster_path?: string;
+    season_number: number;
+    episodes?: TMDBEpisodeDetails[];
+}
+
 export interface TMDBMetadata {
     tmdb_id: number;
     tmdb_type: 'movie' | 'tv';
     imdb_id?: string;
     title: string;
+    tmdb_title?: string; // Movie or show name
     overview?: string;
     tagline?: string;
     runtime?: number;
@@ -113,6 +153,8 @@ export interface TMDBMetadata {
     director?: string;
     rating?: number;
     vote_count?: number;
+    certification?: string; // e.g. PG-13 or TV-MA
+    collection?: TmdbCollection; // Franchise of a movie
     match_confidence: number;
     season_number?: number;
     episode_number?: number;
@@ -224,7 +266,7 @@ async function getMovieDetails(id: number): Promise<TMDBMovieDetails | null> {
         const response = await axios.get(`${TMDB_BASE_URL}/movie/${id}`, {
             params: {
                 api_key: TMDB_API_KEY,
-                append_to_response: 'credits',
+                append_to_response: 'credits,release_dates',
             },
         });
         return response.data;
@@ -244,7 +286,7 @@ async function getTVDetails(id: number): Promise<TMDBTVDetails | null> {
         const response = await axios.get(`${TMDB_BASE_URL}/tv/${id}`, {
             params: {
                 api_key: TMDB_API_KEY,
-                append_to_response: 'credits',
+                append_to_response: 'credits,content_ratings',
             },
         });
         return response.data;
@@ -279,6 +321,29 @@ async function getEpisodeDetails(tvId: number, season: number, episode: number):
     }
 }
 
+/**
+ * Get a season with all of its episodes
+ */
+async function getSeasonDetails(tvId: number, season: number): Promise<TMDBSeasonDetails | null> {
+    await throttle();
+
+    try {
+        const response = await axios.get(`${TMDB_BASE_URL}/tv/${tvId}/season/${season}`, {
+            params: {
+                api_key: TMDB_API_KEY,
+            },
+        });
+        return response.data;
+    } catch (err) {
+        if (axios.isAxiosError(err) && err.response?.status === 404) {
+            console.log(`Season not found on TMDB: TV ${tvId} S${season}`);
+        } else {
+            console.error('TMDB season details error:', err);
+        }
+        return null;
+    }
+}
+
 /**
  * Fetch full metadata for a media item
  */
@@ -321,11 +386,99 @@ export async function fetchMetadata(
         }
     }
 
-    // Fetch full details
+    const metadata = await buildMetadata(matchType, bestMatch.id, bestConfidence, season, episode);
+    if (!metadata) return null;
+
+    // Cache result for 30 days
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + 30);
+
+    run(`
+    INSERT INTO tmdb_cache (cache_key, tmdb_id, data, expires_at)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(cache_key) DO UPDATE SET
+      data = ?,
+      cached_at = CURRENT_TIMESTAMP,
+      expires_at = ?
+  `, [exactCacheKey, metadata.tmdb_id, JSON.stringify(metadata), expiresAt.toISOString(), JSON.stringify(metadata), expiresAt.toISOString()]);
+
+    return metadata;
+}
+
+/**
+ * Certification of a movie, preferring the theatrical release (type 3)
+ */
+function movieCertification(details: TMDBMovieDetails): string | undefined {
+    const releases = details.release_dates?.results?.find(r => r.iso_3166_1 === CERTIFICATION_COUNTRY)?.release_dates || [];
+    const rated = releases.filter(r => r.certification);
+    const release = rated.find(r => r.type === 3) || rated[0];
+    return normalizeCertification(release?.certification) || undefined;
+}
+
+function showCertification(details: TMDBTVDetails): string | undefined {
+    const rating = details.content_ratings?.results?.find(r => r.iso_3166_1 === CERTIFICATION_COUNTRY)?.rating;
+    return normalizeCertification(rating) || undefined;
+}
+
+/**
+ * Metadata of a TV episode file, from its show and (when known) its episode
+ */
+function buildTVMetadata(
+    showDetails: TMDBTVDetails,
+    episodeDetails: TMDBEpisodeDetails | null,
+    confidence: number,
+    season?: number,
+    episode?: number
+): TMDBMetadata {
+    const creator = showDetails.credits?.crew?.find(c => c.job === 'Creator' || c.job === 'Executive Producer');
+
+    // Use episode specific info if available, fallback to show info
+    return {
+        tmdb_id: showDetails.id,
+        tmdb_type: 'tv',
+        title: episodeDetails?.name || showDetails.name, // Episode name or Show name
+        tmdb_title: showDetails.name,
+        overview: episodeDetails?.overview || showDetails.overview,
+        tagline: showDetails.tagline,
+        runtime: episodeDetails?.runtime || showDetails.episode_run_time?.[0],
+        release_date: episodeDetails?.air_date || showDetails.first_air_date,
+        // Prefer episode still for backdrop/poster context if needed, but usually poster is show poster
+        // We use still_path as backdrop for episodes in many UIs, or a specific field
+        poster_path: showDetails.poster_path ? `${TMDB_IMAGE_BASE_URL}/w500${showDetails.poster_path}` : undefined,
+        // Use episode still as backdrop if available
+        backdrop_path: episodeDetails?.still_path
+            ? `${TMDB_IMAGE_BASE_URL}/original${episodeDetails.still_path}`
+            : (showDetails.backdrop_path ? `${TMDB_IMAGE_BASE_URL}/w1280${showDetails.backdrop_path}` : undefined),
+        genres: showDetails.genres?.map(g => g.name) || [],
+        cast: (episodeDetails?.guest_stars || showDetails.credits?.cast)?.slice(0, 10).map(c => ({
+            name: c.name,
+            character: c.character,
+            profile_path: c.profile_path ? `${TMDB_IMAGE_BASE_URL}/w185${c.profile_path}` : undefined,
+        })) || [],
+        director: creator?.name,
+        rating: episodeDetails?.vote_average || showDetails.vote_average,
+        vote_count: episodeDetails?.vote_count || showDetails.vote_count,
+        certification: showCertification(showDetails), // TV ratings are per show
+        match_confidence: confidence,
+        season_number: season,
+        episode_number: episode
+    };
+}
+
+/**
+ * Fetch full details for a known TMDB id
+ */
+async function buildMetadata(
+    matchType: 'movie' | 'tv',
+    tmdbId: number,
+    confidence: number,
+    season?: number,
+    episode?: number
+): Promise<TMDBMetadata | null> {
     let metadata: TMDBMetadata;
 
     if (matchType === 'movie') {
-        const details = await getMovieDetails(bestMatch.id);
+        const details = await getMovieDetails(tmdbId);
         if (!details) return null;
 
         const director = details.credits?.crew?.find(c => c.job === 'Director');
@@ -335,6 +488,7 @@ export async function fetchMetadata(
             tmdb_type: 'movie',
             imdb_id: details.imdb_id,
             title: details.title,
+            tmdb_title: details.title,
             overview: details.overview,
             tagline: details.tagline,
             runtime: details.runtime,
@@ -350,64 +504,28 @@ export async function fetchMetadata(
             director: director?.name,
             rating: details.vote_average,
             vote_count: details.vote_count,
-            match_confidence: bestConfidence,
+            certification: movieCertification(details),
+            collection: details.belongs_to_collection ? {
+                id: details.belongs_to_collection.id,
+                name: details.belongs_to_collection.name,
+                poster_path: details.belongs_to_collection.poster_path ? `${TMDB_IMAGE_BASE_URL}/w500${details.belongs_to_collection.poster_path}` : undefined,
+                backdrop_path: details.belongs_to_collection.backdrop_path ? `${TMDB_IMAGE_BASE_URL}/w1280${details.belongs_to_collection.backdrop_path}` : undefined,
+            } : undefined,
+            match_confidence: confidence,
         };
     } else {
         // It's a TV show
-        const showDetails = await getTVDetails(bestMatch.id);
+        const showDetails = await getTVDetails(tmdbId);
         if (!showDetails) return null;
 
         let episodeDetails: TMDBEpisodeDetails | null = null;
         if (season && episode) {
-            episodeDetails = await getEpisodeDetails(bestMatch.id, season, episode);
+            episodeDetails = await getEpisodeDetails(tmdbId, season, episode);
         }
 
-        const creator = showDetails.credits?.crew?.find(c => c.job === 'Creator' || c.job === 'Executive Producer');
-
-        // Use episode specific info if available, fallback to show info
-        metadata = {
-            tmdb_id: showDetails.id,
-            tmdb_type: 'tv',
-            title: episodeDetails?.name || showDetails.name, // Episode name or Show name
-            overview: episodeDetails?.overview || showDetails.overview,
-            tagline: showDetails.tagline,
-            runtime: episodeDetails?.runtime || showDetails.episode_run_time?.[0],
-            release_date: episodeDetails?.air_date || showDetails.first_air_date,
-            // Prefer episode still for backdrop/poster context if needed, but usually poster is show poster
-            // We use still_path as backdrop for episodes in many UIs, or a specific field
-            poster_path: showDetails.poster_path ? `${TMDB_IMAGE_BASE_URL}/w500${showDetails.poster_path}` : undefined,
-            // Use episode still as backdrop if available
-            backdrop_path: episodeDetails?.still_path
-                ? `${TMDB_IMAGE_BASE_URL}/original${episodeDetails.still_path}`
-                : (showDetails.backdrop_path ? `${TMDB_IMAGE_BASE_URL}/w1280${showDetails.backdrop_path}` : undefined),
-            genres: showDetails.genres?.map(g => g.name) || [],
-            cast: (episodeDetails?.guest_stars || showDetails.credits?.cast)?.slice(0, 10).map(c => ({
-                name: c.name,
-                character: c.character,
-                profile_path: c.profile_path ? `${TMDB_IMAGE_BASE_URL}/w185${c.profile_path}` : undefined,
-            })) || [],
-            director: creator?.name,
-            rating: episodeDetails?.vote_average || showDetails.vote_average,
-            vote_count: episodeDetails?.vote_count || showDetails.vote_count,
-            match_confidence: bestConfidence,
-            season_number: season,
-            episode_number: episode
-        };
+        metadata = buildTVMetadata(showDetails, episodeDetails, confidence, season, episode);
     }
 
-    // Cache result for 30 days
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 30);
-
-    run(`
-    INSERT INTO tmdb_cache (cache_key, tmdb_id, data, expires_at)
-    VALUES (?, ?, ?, ?)
-    ON CONFLICT(cache_key) DO UPDATE SET
-      data = ?,
-      cached_at = CURRENT_TIMESTAMP,
-      expires_at = ?
-  `, [exactCacheKey, metadata.tmdb_id, JSON.stringify(metadata), expiresAt.toISOString(), JSON.stringify(metadata), expiresAt.toISOString()]);
-
     return metadata;
 }
 
@@ -415,8 +533,18 @@ export async function fetchMetadata(
  * Enrich a media record with TMDB metadata
  */
 export async function enrichMedia(mediaId: number): Promise<boolean> {
-    const media = getOne<{ id: number; title: string; year: number; media_type: string; season_number?: number; episode_number?: number }>(
-        'SELECT id, title, year, media_type, season_number, episode_number FROM media WHERE id = ?',
+    const media = getOne<{
+        id: number;
+        title: string;
+        year: number;
+        media_type: string;
+        season_number?: number;
+        episode_number?: number;
+        tmdb_id: number | null;
+        tmdb_type: 'movie' | 'tv' | null;
+        match_method: string | null;
+    }>(
+        'SELECT id, title, year, media_type, season_number, episode_number, tmdb_id, tmdb_type, match_method FROM media WHERE id = ?',
         [mediaId]
     );
 
@@ -424,6 +552,23 @@ export async function enrichMedia(mediaId: number): Promise<boolean> {
         return false;
     }
 
+    // Manual matches are never replaced, only refreshed.
+    // A manual match without a TMDB id was marked as having no match.
+    if (media.match_method === 'manual') {
+        if (!media.tmdb_id || !media.tmdb_type) return false;
+        return (await pinMatch(media.id, media.tmdb_id, media.tmdb_type, false)) > 0;
+    }
+
+    // A TMDB id from an NFO file is used instead of searching
+    const local = getLocalMetadata(mediaId);
+    if (TMDB_API_KEY && local?.tmdbId && local.mediaType) {
+        const metadata = await buildMetadata(local.mediaType, local.tmdbId, 100, media.season_number, media.episode_number);
+        if (metadata) {
+            await storeMatch(mediaId, media.title, metadata, 'auto');
+            return true;
+        }
+    }
+
     const metadata = await fetchMetadata(
         media.title,
         media.media_type as 'movie' | 'tv' | 'unknown',
@@ -437,10 +582,23 @@ export async function enrichMedia(mediaId: number): Promise<boolean> {
         return false;
     }
 
+    await storeMatch(mediaId, media.title, metadata, 'auto');
+    return true;
+}
+
+/**
+ * Store TMDB metadata on a media row
+ */
+function saveMetadata(mediaId: number, parsedTitle: string, metadata: TMDBMetadata, matchMethod: 'auto' | 'manual'): void {
+    if (metadata.collection) {
+        saveTmdbCollection(metadata.collection);
+    }
+
     run(`
     UPDATE media SET
       tmdb_id = ?,
       tmdb_type = ?,
+      tmdb_title = ?,
       media_type = ?,
       imdb_id = ?,
       episode_title = ?, -- Store episode title separately if it's TV
@@ -455,16 +613,19 @@ export async function enrichMedia(mediaId: number): Promise<boolean> {
       director = ?,
       rating = ?,
       vote_count = ?,
+      certification = ?,
+      tmdb_collection_id = ?,
       match_confidence = ?,
-      match_method = 'auto',
+      match_method = ?,
       tmdb_fetched_at = CURRENT_TIMESTAMP
     WHERE id = ?
   `, [
         metadata.tmdb_id,
         metadata.tmdb_type,
+        metadata.tmdb_title || null,
         metadata.tmdb_type, // Also update media_type to match TMDB type
         metadata.imdb_id || null,
-        (metadata.tmdb_type === 'tv' && metadata.title !== media.title) ? metadata.title : null, // Use this for episode_title
+        (metadata.tmdb_type === 'tv' && metadata.title !== parsedTitle) ? metadata.title : null, // Use this for episode_title
         metadata.overview || null,
         metadata.tagline || null,
         metadata.runtime || null,
@@ -476,20 +637,465 @@ export async function enrichMedia(mediaId: number): Promise<boolean> {
         metadata.director || null,
         metadata.rating || null,
         metadata.vote_count || null,
+        metadata.certification || null,
+        metadata.collection?.id ?? null,
         metadata.match_confidence,
+        matchMethod,
         mediaId,
     ]);
+}
+
+/**
+ * Save a match and, for TV episodes, link the file to its show and episode
+ * Values from NFO files are written back over the TMDB data.
+ */
+async function storeMatch(mediaId: number, parsedTitle: string, metadata: TMDBMetadata, matchMethod: 'auto' | 'manual'): Promise<void> {
+    saveMetadata(mediaId, parsedTitle, metadata, matchMethod);
+    applyLocalMetadata(mediaId);
+    await linkEpisode(mediaId);
+    scheduleImageCache();
+}
+
+/**
+ * Fetch and store series-level details and the season list of a show
+ * Returns the local show id.
+ */
+export async function syncShow(tmdbId: number): Promise<number | null> {
+    if (!TMDB_API_KEY) return null;
+
+    const details = await getTVDetails(tmdbId);
+    return details ? saveShow(details) : null;
+}
+
+/**
+ * Store series-level details and the season list of a show
+ */
+function saveShow(details: TMDBTVDetails): number {
+    const creator = details.credits?.crew?.find(c => c.job === 'Creator' || c.job === 'Executive Producer');
+    const cast = details.credits?.cast?.slice(0, 10).map(c => ({
+        name: c.name,
+        character: c.character,
+        profile_path: c.profile_path ? `${TMDB_IMAGE_BASE_URL}/w185${c.profile_path}` : undefined,
+    })) || [];
+
+    const showId = transaction(() => {
+        run(`
+      INSERT INTO shows (
+        tmdb_id, title, original_title, overview, tagline, status, first_air_date, last_air_date,
+        poster_path, backdrop_path, genres, cast_members, creator, rating, vote_count,
+        number_of_seasons, number_of_episodes, tmdb_fetched_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(tmdb_id) DO UPDATE SET
+        title = excluded.title,
+        original_title = excluded.original_title,
+        overview = excluded.overview,
+        tagline = excluded.tagline,
+        status = excluded.status,
+        first_air_date = excluded.first_air_date,
+        last_air_date = excluded.last_air_date,
+        poster_path = excluded.poster_path,
+        backdrop_path = excluded.backdrop_path,
+        genres = excluded.genres,
+        cast_members = excluded.cast_members,
+        creator = excluded.creator,
+        rating = excluded.rating,
+        vote_count = excluded.vote_count,
+        number_of_seasons = excluded.number_of_seasons,
+        number_of_episodes = excluded.number_of_episodes,
+        tmdb_fetched_at = CURRENT_TIMESTAMP
+    `, [
+            details.id,
+            details.name,
+            details.original_name || null,
+            details.overview || null,
+            details.tagline || null,
+            details.status || null,
+            details.first_air_date || null,
+            details.last_air_date || null,
+            details.poster_path ? `${TMDB_IMAGE_BASE_URL}/w500${details.poster_path}` : null,
+            details.backdrop_path ? `${TMDB_IMAGE_BASE_URL}/w1280${details.backdrop_path}` : null,
+            JSON.stringify(details.genres?.map(g => g.name) || []),
+            JSON.stringify(cast),
+            creator?.name || null,
+            details.vote_average || null,
+            details.vote_count || null,
+            details.number_of_seasons || null,
+            details.number_of_episodes || null,
+        ]);
+
+        const show = getOne<{ id: number }>('SELECT id FROM shows WHERE tmdb_id = ?', [details.id])!;
+
+        for (const season of details.seasons || []) {
+            run(`
+        INSERT INTO seasons (show_id, season_number, name, overview, air_date, poster_path, episode_count)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(show_id, season_number) DO UPDATE SET
+          name = excluded.name,
+          overview = excluded.overview,
+          air_date = excluded.air_date,
+          poster_path = excluded.poster_path,
+          episode_count = excluded.episode_count
+      `, [
+                show.id,
+                season.season_number,
+                season.name || null,
+                season.overview || null,
+                season.air_date || null,
+                season.poster_path ? `${TMDB_IMAGE_BASE_URL}/w500${season.poster_path}` : null,
+                season.episode_count ?? null,
+            ]);
+        }
 
+        return show.id;
+    });
+
+    scheduleImageCache();
+    return showId;
+}
+
+/**
+ * Fetch and store a season and all of its episodes, then re-link the season's files
+ */
+export async function syncSeason(showId: number, tmdbId: number, seasonNumber: number): Promise<boolean> {
+    if (!TMDB_API_KEY) return false;
+
+    const details = await getSeasonDetails(tmdbId, seasonNumber);
+    if (!details) return false;
+
+    saveSeason(showId, seasonNumber, details);
+    return true;
+}
+
+/**
+ * Store a season and all of its episodes, then re-link the season's files
+ */
+function saveSeason(showId: number, seasonNumber: number, details: TMDBSeasonDetails): void {
+    transaction(() => {
+        run(`
+      INSERT INTO seasons (show_id, season_number, name, overview, air_date, poster_path, episode_count, tmdb_fetched_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(show_id, season_number) DO UPDATE SET
+        name = excluded.name,
+        overview = excluded.overview,
+        air_date = excluded.air_date,
+        poster_path = excluded.poster_path,
+        episode_count = excluded.episode_count,
+        tmdb_fetched_at = CURRENT_TIMESTAMP
+    `, [
+            showId,
+            seasonNumber,
+            details.name || null,
+            details.overview || null,
+            details.air_date || null,
+            details.poster_path ? `${TMDB_IMAGE_BASE_URL}/w500${details.poster_path}` : null,
+            details.episodes?.length ?? null,
+        ]);
+
+        const season = getOne<{ id: number }>(
+            'SELECT id FROM seasons WHERE show_id = ? AND season_number = ?',
+            [showId, seasonNumber]
+        )!;
+
+        for (const episode of details.episodes || []) {
+            const guestStars = episode.guest_stars?.slice(0, 10).map(c => ({
+                name: c.name,
+                character: c.character,
+                profile_path: c.profile_path ? `${TMDB_IMAGE_BASE_URL}/w185${c.profile_path}` : undefined,
+            })) || [];
+
+            run(`
+        INSERT INTO episodes (
+          show_id, season_id, season_number, episode_number, tmdb_id,
+          title, overview, air_date, still_path, runtime, rating, vote_count, guest_stars
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(show_id, season_number, episode_number) DO UPDATE SET
+          season_id = excluded.season_id,
+          tmdb_id = excluded.tmdb_id,
+          title = excluded.title,
+          overview = excluded.overview,
+          air_date = excluded.air_date,
+          still_path = excluded.still_path,
+          runtime = excluded.runtime,
+          rating = excluded.rating,
+          vote_count = excluded.vote_count,
+          guest_stars = excluded.guest_stars
+      `, [
+                showId,
+                season.id,
+                seasonNumber,
+                episode.episode_number,
+                episode.id,
+                episode.name || null,
+                episode.overview || null,
+                episode.air_date || null,
+                episode.still_path ? `${TMDB_IMAGE_BASE_URL}/w300${episode.still_path}` : null,
+                episode.runtime || null,
+                episode.vote_average || null,
+                episode.vote_count || null,
+                JSON.stringify(guestStars),
+            ]);
+        }
+
+        run(`
+      UPDATE media SET episode_id = (
+        SELECT e.id FROM episodes e
+        WHERE e.show_id = media.show_id
+          AND e.season_number = media.season_number
+          AND e.episode_number = media.episode_number
+      )
+      WHERE show_id = ? AND season_number = ?
+    `, [showId, seasonNumber]);
+    });
+
+    scheduleImageCache();
+}
+
+/**
+ * Attach a matched TV episode file to its show and episode rows,
+ * fetching them from TMDB the first time they are needed.
+ * Files that aren't TV matches are detached.
+ */
+async function linkEpisode(mediaId: number): Promise<void> {
+    const media = getOne<{ tmdb_id: number | null; tmdb_type: string | null; season_number: number | null; episode_number: number | null }>(
+        'SELECT tmdb_id, tmdb_type, season_number, episode_number FROM media WHERE id = ?',
+        [mediaId]
+    );
+    if (!media) return;
+
+    if (media.tmdb_type !== 'tv' || !media.tmdb_id) {
+        run('UPDATE media SET show_id = NULL, episode_id = NULL WHERE id = ?', [mediaId]);
+        return;
+    }
+
+    const show = getOne<{ id: number }>(
+        `SELECT id FROM shows
+         WHERE tmdb_id = ? AND tmdb_fetched_at > datetime('now', ?)`,
+        [media.tmdb_id, `-${SHOW_REFRESH_DAYS} days`]
+    );
+    const showId = show?.id ?? await syncShow(media.tmdb_id);
+
+    if (!showId) {
+        run('UPDATE media SET show_id = NULL, episode_id = NULL WHERE id = ?', [mediaId]);
+        return;
+    }
+
+    run('UPDATE media SET show_id = ? WHERE id = ?', [showId, mediaId]);
+
+    if (media.season_number === null || media.episode_number === null) {
+        run('UPDATE media SET episode_id = NULL WHERE id = ?', [mediaId]);
+        return;
+    }
+
+    const findEpisode = () => getOne<{ id: number }>(
+        'SELECT id FROM episodes WHERE show_id = ? AND season_number = ? AND episode_number = ?',
+        [showId, media.season_number, media.episode_number]
+    );
+
+    let episode = findEpisode();
+    if (!episode) {
+        // Fetch the season unless it was fetched recently and really lacks this episode
+        const fresh = getOne(
+            `SELECT id FROM seasons
+             WHERE show_id = ? AND season_number = ? AND tmdb_fetched_at > datetime('now', '-1 day')`,
+            [showId, media.season_number]
+        );
+        if (!fresh && await syncSeason(showId, media.tmdb_id, media.season_number)) {
+            episode = findEpisode();
+        }
+    }
+
+    run('UPDATE media SET episode_id = ? WHERE id = ?', [episode?.id ?? null, mediaId]);
+}
+
+export interface MatchCandidate {
+    tmdb_id: number;
+    tmdb_type: 'movie' | 'tv';
+    title: string;
+    original_title?: string;
+    year: number | null;
+    overview?: string;
+    poster_path?: string;
+    confidence: number;
+}
+
+/**
+ * Search TMDB for possible matches of a media item, best first
+ * The parsed title/year/type are used unless overridden.
+ */
+export async function getMatchCandidates(
+    mediaId: number,
+    overrides: { query?: string; year?: number; type?: 'movie' | 'tv' | 'unknown' } = {}
+): Promise<{ query: string; year?: number; type: string; candidates: MatchCandidate[] } | null> {
+    const media = getOne<{ title: string; year: number | null; media_type: string }>(
+        'SELECT title, year, media_type FROM media WHERE id = ?',
+        [mediaId]
+    );
+
+    if (!media) {
+        return null;
+    }
+
+    const query = overrides.query || media.title;
+    const year = overrides.year ?? (media.year || undefined);
+    const type = overrides.type || (media.media_type === 'movie' || media.media_type === 'tv' ? media.media_type : 'unknown');
+
+    // Search without the year filter so a wrong parsed year can't hide the right result
+    const results = await searchTMDB(query, type as 'movie' | 'tv' | 'unknown');
+
+    const candidates = results
+        .map(result => {
+            const date = result.release_date || result.first_air_date;
+            return {
+                tmdb_id: result.id,
+                tmdb_type: (result.title ? 'movie' : 'tv') as 'movie' | 'tv',
+                title: result.title || result.name || '',
+                original_title: result.original_title || result.original_name,
+                year: date ? parseInt(date.substring(0, 4)) || null : null,
+                overview: result.overview,
+                poster_path: result.poster_path ? `${TMDB_IMAGE_BASE_URL}/w185${result.poster_path}` : undefined,
+                confidence: calculateConfidence(query, result, year),
+            };
+        })
+        .sort((a, b) => b.confidence - a.confidence);
+
+    return { query, year, type, candidates };
+}
+
+/**
+ * Pin a TMDB id as a manual match. Later scans and enrichments never replace it.
+ * For TV episodes the whole series (rows sharing the old match or parsed title) is pinned.
+ * Returns the number of rows updated.
+ */
+export async function pinMatch(
+    mediaId: number,
+    tmdbId: number,
+    tmdbType: 'movie' | 'tv',
+    includeSeries: boolean = true
+): Promise<number> {
+    const media = getOne<{ id: number; title: string; media_type: string; tmdb_id: number | null }>(
+        'SELECT id, title, media_type, tmdb_id FROM media WHERE id = ?',
+        [mediaId]
+    );
+
+    if (!media) {
+        return 0;
+    }
+
+    let targets = [media.id];
+    if (includeSeries && tmdbType === 'tv' && media.media_type === 'tv') {
+        const series = media.tmdb_id
+            ? getAll<{ id: number }>('SELECT id FROM media WHERE tmdb_id = ? AND media_type = ?', [media.tmdb_id, 'tv'])
+            : getAll<{ id: number }>('SELECT id FROM media WHERE title = ? AND tmdb_id IS NULL', [media.title]);
+        targets = Array.from(new Set([media.id, ...series.map(s => s.id)]));
+    }
+
+    let updated = 0;
+    if (tmdbType === 'tv') {
+        updated = await pinEpisodes(targets, tmdbId);
+    } else {
+        const metadata = await buildMetadata('movie', tmdbId, 100);
+        if (metadata) {
+            await storeMatch(media.id, media.title, metadata, 'manual');
+            updated = 1;
+        }
+    }
+
+    console.log(`📌 Pinned TMDB ${tmdbType} ${tmdbId} on ${updated} item(s)`);
+    return updated;
+}
+
+/**
+ * Pin a show on its episode files
+ * The show and each of its seasons are fetched once, not once per file.
+ */
+async function pinEpisodes(ids: number[], tmdbId: number): Promise<number> {
+    const showDetails = await getTVDetails(tmdbId);
+    if (!showDetails) return 0;
+
+    const showId = saveShow(showDetails);
+    const seasons = new Map<number, TMDBSeasonDetails | null>();
+    let updated = 0;
+
+    for (const id of ids) {
+        const row = getOne<{ title: string; season_number: number | null; episode_number: number | null }>(
+            'SELECT title, season_number, episode_number FROM media WHERE id = ?',
+            [id]
+        );
+        if (!row) continue;
+
+        const season = row.season_number ?? undefined;
+        const episode = row.episode_number ?? undefined;
+
+        let episodeDetails: TMDBEpisodeDetails | null = null;
+        if (season && episode) {
+            if (!seasons.has(season)) {
+                const details = await getSeasonDetails(tmdbId, season);
+                if (details) saveSeason(showId, season, details);
+                seasons.set(season, details);
+            }
+            episodeDetails = seasons.get(season)?.episodes?.find(e => e.episode_number === episode) ?? null;
+        }
+
+        // The show and season are stored by now, so linking the episode needs no more requests
+        await storeMatch(id, row.title, buildTVMetadata(showDetails, episodeDetails, 100, season, episode), 'manual');
+        updated++;
+    }
+
+    return updated;
+}
+
+/**
+ * Search again with an edited query and keep the best result as an automatic match
+ */
+export async function researchMatch(
+    mediaId: number,
+    overrides: { query?: string; year?: number; type?: 'movie' | 'tv' | 'unknown' }
+): Promise<boolean> {
+    const result = await getMatchCandidates(mediaId, overrides);
+    if (!result) {
+        return false;
+    }
+
+    const best = result.candidates[0];
+    const row = getOne<{ season_number?: number; episode_number?: number }>(
+        'SELECT season_number, episode_number FROM media WHERE id = ?',
+        [mediaId]
+    );
+    const metadata = best
+        ? await buildMetadata(best.tmdb_type, best.tmdb_id, best.confidence, row?.season_number, row?.episode_number)
+        : null;
+
+    if (!metadata) {
+        run('UPDATE media SET match_method = ? WHERE id = ?', ['failed', mediaId]);
+        return false;
+    }
+
+    await storeMatch(mediaId, result.query, metadata, 'auto');
     return true;
 }
 
 /**
  * Enrich all media without TMDB data
  */
-export async function enrichAllMedia(batchSize: number = 20): Promise<number> {
+export async function enrichAllMedia(
+    batchSize: number = 20,
+    options: {
+        signal?: AbortSignal;
+        onProgress?: (current: number, total: number, title: string) => void;
+    } = {}
+): Promise<number> {
+    const { signal, onProgress } = options;
     let totalEnriched = 0;
+    let processed = 0;
 
-    while (true) {
+    const pending = getOne<{ count: number }>(
+        `SELECT COUNT(*) as count FROM media
+         WHERE (tmdb_id IS NULL OR (media_type = 'tv' AND episode_title IS NULL))
+         AND match_method IS NULL`
+    );
+    const total = pending?.count || 0;
+
+    while (!signal?.aborted) {
         const media = getAll<{ id: number; title: string; year: number; media_type: string }>(
             `SELECT id, title, year, media_type 
              FROM media 
@@ -504,6 +1110,10 @@ export async function enrichAllMedia(batchSize: number = 20): Promise<number> {
         console.log(`🎬 Processing batch of ${media.length} items for enrichment...`);
 
         for (const item of media) {
+            if (signal?.aborted) break;
+
+            processed++;
+            onProgress?.(processed, Math.max(total, processed), item.title);
             console.log(`   Enriching: ${item.title}${item.year ? ` (${item.year})` : ''}`);
             const success = await enrichMedia(item.id);
             if (success) {
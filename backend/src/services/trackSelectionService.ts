@@ -0,0 +1,199 @@
+/**
+ * Track Selection Service - Picks the audio and subtitle tracks a video starts with
+ * Follows the profile's ordered language lists and subtitle mode, unless the
+ * viewer switched tracks while watching another episode of the same series.
+ */
+
+import { getAll, getOne, run } from '../db.js';
+import { getLanguageName } from '../scanner/metadataExtractor.js';
+import { isImageSubtitle } from './subtitleConverter.js';
+import { getProfileSetting } from './profileService.js';
+import { Media, AudioTrack, SubtitleTrack } from '../types/db.js';
+
+export type SubtitleMode = 'off' | 'forced' | 'always' | 'foreign';
+
+const SUBTITLE_MODES: SubtitleMode[] = ['off', 'forced', 'always', 'foreign'];
+
+interface TrackPreferences {
+    audioLanguages: string[];
+    subtitleLanguages: string[];
+    subtitleMode: SubtitleMode;
+}
+
+interface SeriesOverride {
+    series_key: string;
+    audio_language: string | null;
+    subtitle_language: string | null;
+    subtitle_forced: number;
+}
+
+export interface TrackSelection {
+    audioTrackId: number | null;
+    subtitleTrackId: number | null;
+    seriesOverride: boolean;
+}
+
+function parseLanguages(value: string | undefined): string[] {
+    if (!value) return [];
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed.filter((l): l is string => typeof l === 'string' && !!l) : [];
+    } catch {
+        return [value];
+    }
+}
+
+export function getTrackPreferences(userId: number): TrackPreferences {
+    const mode = getProfileSetting(userId, 'subtitle_mode') as SubtitleMode | undefined;
+    return {
+        audioLanguages: parseLanguages(getProfileSetting(userId, 'audio_languages')),
+        subtitleLanguages: parseLanguages(getProfileSetting(userId, 'subtitle_languages')),
+        subtitleMode: mode && SUBTITLE_MODES.includes(mode) ? mode : 'foreign',
+    };
+}
+
+// Codes are compared by name so "en" and "eng" match
+function isLanguage(code: string | null, language: string): boolean {
+    return !!code && getLanguageName(code) === getLanguageName(language);
+}
+
+function isKnownLanguage(code: string | null): boolean {
+    return !!code && getLanguageName(code) !== 'Unknown';
+}
+
+/**
+ * Key that groups the episodes of a series, or null for anything else
+ */
+function getSeriesKey(media: Media): string | null {
+    if (media.media_type !== 'tv') return null;
+    if (media.show_id) return `show:${media.show_id}`;
+    if (media.tmdb_id) return `tmdb:${media.tmdb_id}`;
+    return media.title ? `title:${media.title.toLowerCase()}` : null;
+}
+
+/**
+ * First track in the most preferred language that has one
+ */
+function findByLanguage<T extends { language_code: string | null }>(tracks: T[], languages: string[]): T | undefined {
+    for (const language of languages) {
+        const track = tracks.find(t => isLanguage(t.language_code, language));
+        if (track) return track;
+    }
+    return undefined;
+}
+
+function pickAudioTrack(tracks: AudioTrack[], languages: string[]): AudioTrack | undefined {
+    const inLanguage = (language: string) => tracks.filter(t => isLanguage(t.language_code, language));
+
+    for (const language of languages) {
+        const matches = inLanguage(language);
+        if (matches.length > 0) return matches.find(t => t.is_default) || matches[0];
+    }
+    return tracks.find(t => t.is_default) || tracks[0];
+}
+
+function pickSubtitleTrack(
+    tracks: SubtitleTrack[],
+    audio: AudioTrack | undefined,
+    prefs: TrackPreferences
+): SubtitleTrack | undefined {
+    const forced = tracks.filter(t => t.is_forced);
+    const full = tracks.filter(t => !t.is_forced);
+
+    // Forced subtitles only translate foreign dialogue, so they follow the audio language
+    const pickForced = () =>
+        (audio?.language_code && forced.find(t => isLanguage(t.language_code, audio.language_code!)))
+        || findByLanguage(forced, prefs.subtitleLanguages);
+
+    switch (prefs.subtitleMode) {
+        case 'off':
+            return undefined;
+        case 'forced':
+            return pickForced();
+        case 'always':
+            return findByLanguage(full, prefs.subtitleLanguages) || pickForced();
+        case 'foreign': {
+            // Audio in an unknown language is assumed to be understood
+            const audioLanguage = audio?.language_code ?? null;
+            const understood = !isKnownLanguage(audioLanguage)
+                || prefs.subtitleLanguages.some(l => isLanguage(audioLanguage, l));
+            return understood
+                ? pickForced()
+                : findByLanguage(full, prefs.subtitleLanguages) || pickForced();
+        }
+    }
+}
+
+/**
+ * Pick the tracks to start a media item with
+ */
+export function selectTracks(mediaId: number, userId: number): TrackSelection {
+    const media = getOne<Media>('SELECT * FROM media WHERE id = ?', [mediaId]);
+    const audioTracks = getAll<AudioTrack>('SELECT * FROM audio_tracks WHERE media_id = ? ORDER BY track_index', [mediaId]);
+    // Text tracks before image-based ones in the same language, which need burning in
+    const subtitleTracks = getAll<SubtitleTrack>('SELECT * FROM subtitle_tracks WHERE media_id = ?', [mediaId])
+        .sort((a, b) => Number(isImageSubtitle(a.codec)) - Number(isImageSubtitle(b.codec)));
+
+    const prefs = getTrackPreferences(userId);
+    const seriesKey = media ? getSeriesKey(media) : null;
+    const override = seriesKey
+        ? getOne<SeriesOverride>('SELECT * FROM series_track_preferences WHERE user_id = ? AND series_key = ?', [userId, seriesKey])
+        : undefined;
+
+    if (!override) {
+        const audio = pickAudioTrack(audioTracks, prefs.audioLanguages);
+        const subtitle = pickSubtitleTrack(subtitleTracks, audio, prefs);
+        return { audioTrackId: audio?.id ?? null, subtitleTrackId: subtitle?.id ?? null, seriesOverride: false };
+    }
+
+    // The remembered languages go first, the usual preferences fill the gaps
+    const audioLanguages = override.audio_language
+        ? [override.audio_language, ...prefs.audioLanguages]
+        : prefs.audioLanguages;
+    const audio = pickAudioTrack(audioTracks, audioLanguages);
+
+    let subtitle: SubtitleTrack | undefined;
+    if (override.subtitle_language) {
+        const candidates = subtitleTracks.filter(t => !!t.is_forced === !!override.subtitle_forced);
+        subtitle = findByLanguage(candidates, [override.subtitle_language])
+            || findByLanguage(subtitleTracks, [override.subtitle_language]);
+    }
+
+    return { audioTrackId: audio?.id ?? null, subtitleTrackId: subtitle?.id ?? null, seriesOverride: true };
+}
+
+/**
+ * Remember the tracks picked in the player for the rest of the series
+ * Returns false for media that isn't part of a series.
+ */
+export function saveSeriesOverride(userId: number, mediaId: number, audioTrackId: number | null, subtitleTrackId: number | null): boolean {
+    const media = getOne<Media>('SELECT * FROM media WHERE id = ?', [mediaId]);
+    const seriesKey = media ? getSeriesKey(media) : null;
+    if (!seriesKey) return false;
+
+    const audio = audioTrackId
+        ? getOne<AudioTrack>('SELECT * FROM audio_tracks WHERE id = ? AND media_id = ?', [audioTrackId, mediaId])
+        : undefined;
+    const subtitle = subtitleTrackId
+        ? getOne<SubtitleTrack>('SELECT * FROM subtitle_tracks WHERE id = ? AND media_id = ?', [subtitleTrackId, mediaId])
+        : undefined;
+
+    run(`
+        INSERT INTO series_track_preferences (user_id, series_key, audio_language, subtitle_language, subtitle_forced, updated_at)
+        VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+        ON CONFLICT(user_id, series_key) DO UPDATE SET
+            audio_language = excluded.audio_language,
+            subtitle_language = excluded.subtitle_language,
+            subtitle_forced = excluded.subtitle_forced,
+            updated_at = CURRENT_TIMESTAMP
+    `, [
+        userId,
+        seriesKey,
+        audio?.language_code ?? null,
+        subtitle?.language_code ?? null,
+        subtitle?.is_forced ? 1 : 0,
+    ]);
+
+    console.log(`🎧 Remembered tracks for ${seriesKey}`);
+    return true;
+}
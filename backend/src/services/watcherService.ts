@@ -0,0 +1,324 @@
+/**
+ * Watcher Service - Keeps the library in sync with the filesystem
+ * Follows every enabled scan path and adds, updates, removes or renames
+ * media entries as files change, without waiting for a manual scan.
+ */
+
+import chokidar, { FSWatcher } from 'chokidar';
+import fs from 'fs';
+import path from 'path';
+import { EventEmitter } from 'events';
+import { getAll, getOne, run } from '../db.js';
+import { processFile, removeMedia } from '../scanner/fileScanner.js';
+import { isVideoFile } from '../scanner/filenameParser.js';
+import { enrichMedia } from './tmdbService.js';
+import { queueAllIncompatible } from './conversionService.js';
+import { isScanRunning } from './scanJobService.js';
+import { SUBTITLE_EXTENSIONS } from './subtitleConverter.js';
+
+// Event emitter for library changes (consumed by the SSE route)
+export const watcherEvents = new EventEmitter();
+
+// Wait until a file stops growing before probing it (copies in progress)
+const WRITE_STABILITY_MS = 5000;
+
+// How long a removed file waits for a matching add before it is treated as deleted.
+// Must be longer than WRITE_STABILITY_MS, since the add side of a rename is delayed by it.
+const RENAME_WINDOW_MS = WRITE_STABILITY_MS + 5000;
+
+// How often to check whether a running scan job has finished
+const SCAN_WAIT_MS = 2000;
+
+// Same folders the scanner skips
+const IGNORED_FOLDERS = ['node_modules', '@eaDir', 'Thumbs'];
+
+interface WatchedPath {
+    watcher: FSWatcher;
+    recursive: boolean;
+}
+
+interface PendingRemoval {
+    mediaId: number;
+    filePath: string;
+    fileSize: number;
+    timer: NodeJS.Timeout;
+}
+
+// Active watchers keyed by scan path
+const watchers = new Map<string, WatchedPath>();
+
+// Files that disappeared recently, keyed by their old path
+const pendingRemovals = new Map<string, PendingRemoval>();
+
+// Files waiting to be probed
+const fileQueue: string[] = [];
+let isProcessing = false;
+let scanWaitTimer: NodeJS.Timeout | null = null;
+
+// Queued files that must be re-probed even though their fingerprint is unchanged
+const forcedFiles = new Set<string>();
+
+/**
+ * Get watcher status
+ */
+export function getWatcherStatus(): {
+    enabled: boolean;
+    paths: string[];
+    queued: number;
+    processing: boolean;
+} {
+    return {
+        enabled: isWatchingEnabled(),
+        paths: Array.from(watchers.keys()),
+        queued: fileQueue.length,
+        processing: isProcessing,
+    };
+}
+
+function isWatchingEnabled(): boolean {
+    const setting = getOne<{ value: string }>('SELECT value FROM settings WHERE key = ?', ['watch_library']);
+    return setting?.value !== 'false';
+}
+
+function isIgnored(filePath: string): boolean {
+    const name = path.basename(filePath);
+    return name.startsWith('.') || IGNORED_FOLDERS.includes(name);
+}
+
+function isSubtitleFile(filePath: string): boolean {
+    return SUBTITLE_EXTENSIONS.includes(path.extname(filePath).toLowerCase());
+}
+
+/**
+ * Add a file to the probe queue
+ */
+function queueFile(filePath: string, force: boolean = false): void {
+    if (force) {
+        forcedFiles.add(filePath);
+    }
+    if (!fileQueue.includes(filePath)) {
+        fileQueue.push(filePath);
+    }
+    processQueue();
+}
+
+/**
+ * Probe queued files one at a time
+ */
+async function processQueue(): Promise<void> {
+    if (isProcessing) return;
+
+    // Let a running scan job finish first so the same file is never probed twice at once
+    if (isScanRunning()) {
+        if (!scanWaitTimer) {
+            scanWaitTimer = setTimeout(() => {
+                scanWaitTimer = null;
+                processQueue();
+            }, SCAN_WAIT_MS);
+        }
+        return;
+    }
+
+    isProcessing = true;
+
+    while (fileQueue.length > 0) {
+        const filePath = fileQueue.shift()!;
+        const force = forcedFiles.delete(filePath);
+        if (!fs.existsSync(filePath)) continue;
+
+        const existed = getOne<{ id: number }>('SELECT id FROM media WHERE file_path = ?', [filePath]);
+
+        try {
+            const processed = await processFile(filePath, force);
+            if (!processed) continue;
+
+            const media = getOne<{ id: number; tmdb_id: number | null; match_method: string | null }>(
+                'SELECT id, tmdb_id, match_method FROM media WHERE file_path = ?',
+                [filePath]
+            );
+            if (!media) continue;
+
+            if (!media.tmdb_id && !media.match_method) {
+                await enrichMedia(media.id);
+            }
+
+            console.log(`${existed ? '✏️ Updated' : '✅ Added'}: ${path.basename(filePath)}`);
+            watcherEvents.emit(existed ? 'updated' : 'added', { mediaId: media.id, filePath });
+        } catch (err) {
+            // processFile already logged the error to scan_errors
+            console.error(`❌ Watcher failed to process ${filePath}:`, err);
+        }
+    }
+
+    isProcessing = false;
+
+    try {
+        queueAllIncompatible();
+    } catch (err) {
+        console.error('Failed to auto-queue conversions:', err);
+    }
+}
+
+/**
+ * Re-probe the videos an external subtitle file belongs to
+ */
+function handleSubtitleChange(subtitlePath: string): void {
+    const dir = path.dirname(subtitlePath);
+    const subtitleName = path.basename(subtitlePath);
+
+    const candidates = getAll<{ file_path: string }>(
+        'SELECT file_path FROM media WHERE file_path LIKE ?',
+        [path.join(dir, '%')]
+    );
+
+    for (const media of candidates) {
+        if (path.dirname(media.file_path) !== dir) continue;
+        const basename = path.basename(media.file_path, path.extname(media.file_path));
+        if (subtitleName.startsWith(basename)) {
+            queueFile(media.file_path, true);
+        }
+    }
+}
+
+function handleAdd(filePath: string, stats?: fs.Stats): void {
+    if (isSubtitleFile(filePath)) {
+        handleSubtitleChange(filePath);
+        return;
+    }
+    if (!isVideoFile(filePath)) return;
+
+    let size: number;
+    try {
+        size = stats?.size ?? fs.statSync(filePath).size;
+    } catch {
+        return; // Gone again already, e.g. a temporary or partial download
+    }
+    const ext = path.extname(filePath).toLowerCase();
+
+    // A file of the same size and type vanished a moment ago: treat it as a rename/move
+    const rename = Array.from(pendingRemovals.values()).find(p =>
+        p.fileSize === size && path.extname(p.filePath).toLowerCase() === ext
+    );
+
+    if (rename && !getOne('SELECT id FROM media WHERE file_path = ?', [filePath])) {
+        clearTimeout(rename.timer);
+        pendingRemovals.delete(rename.filePath);
+
+        run(
+            'UPDATE media SET file_path = ?, file_name = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+            [filePath, path.basename(filePath), rename.mediaId]
+        );
+
+        console.log(`🔀 Renamed: ${path.basename(rename.filePath)} → ${path.basename(filePath)}`);
+        watcherEvents.emit('renamed', { mediaId: rename.mediaId, from: rename.filePath, to: filePath });
+
+        // Refresh parsed info and external subtitles for the new name
+        queueFile(filePath, true);
+        return;
+    }
+
+    queueFile(filePath);
+}
+
+function handleChange(filePath: string): void {
+    if (isSubtitleFile(filePath)) {
+        handleSubtitleChange(filePath);
+        return;
+    }
+    if (!isVideoFile(filePath)) return;
+
+    queueFile(filePath);
+}
+
+function handleUnlink(filePath: string): void {
+    if (isSubtitleFile(filePath)) {
+        handleSubtitleChange(filePath);
+        return;
+    }
+    if (!isVideoFile(filePath)) return;
+
+    // Drop it from the queue if it never made it into the database
+    const queuedIndex = fileQueue.indexOf(filePath);
+    if (queuedIndex !== -1) {
+        fileQueue.splice(queuedIndex, 1);
+        forcedFiles.delete(filePath);
+    }
+
+    const media = getOne<{ id: number; file_size: number }>(
+        'SELECT id, file_size FROM media WHERE file_path = ?',
+        [filePath]
+    );
+    if (!media) return;
+
+    // Hold the removal back in case the file shows up again under another name
+    const timer = setTimeout(() => {
+        pendingRemovals.delete(filePath);
+        removeMedia(media.id);
+        console.log(`🗑️ Removed missing: ${path.basename(filePath)}`);
+        watcherEvents.emit('removed', { mediaId: media.id, filePath });
+    }, RENAME_WINDOW_MS);
+
+    pendingRemovals.set(filePath, {
+        mediaId: media.id,
+        filePath,
+        fileSize: media.file_size,
+        timer,
+    });
+}
+
+function startWatcher(scanPath: string, recursive: boolean): void {
+    const watcher = chokidar.watch(scanPath, {
+        ignoreInitial: true, // Existing files are the scanner's job
+        ignored: isIgnored,
+        depth: recursive ? undefined : 0,
+        awaitWriteFinish: {
+            stabilityThreshold: WRITE_STABILITY_MS,
+            pollInterval: 1000,
+        },
+    });
+
+    watcher
+        .on('add', handleAdd)
+        .on('change', handleChange)
+        .on('unlink', handleUnlink)
+        .on('error', (err) => console.error(`❌ Watcher error for ${scanPath}:`, err));
+
+    watchers.set(scanPath, { watcher, recursive });
+    console.log(`👀 Watching: ${scanPath}`);
+}
+
+function stopWatcher(scanPath: string): void {
+    const watched = watchers.get(scanPath);
+    if (!watched) return;
+
+    watched.watcher.close().catch(err => console.error(`Failed to close watcher for ${scanPath}:`, err));
+    watchers.delete(scanPath);
+    console.log(`🛑 Stopped watching: ${scanPath}`);
+}
+
+/**
+ * Start, stop or restart watchers so they match the enabled scan paths
+ */
+export function syncWatchers(): void {
+    const paths = isWatchingEnabled()
+        ? getAll<{ path: string; recursive: number }>('SELECT path, recursive FROM scan_paths WHERE enabled = 1')
+        : [];
+
+    const wanted = new Map(
+        paths
+            .filter(p => fs.existsSync(p.path))
+            .map(p => [p.path, p.recursive === 1])
+    );
+
+    for (const [scanPath, watched] of watchers) {
+        if (wanted.get(scanPath) !== watched.recursive) {
+            stopWatcher(scanPath);
+        }
+    }
+
+    for (const [scanPath, recursive] of wanted) {
+        if (!watchers.has(scanPath)) {
+            startWatcher(scanPath, recursive);
+        }
+    }
+}
@@ -0,0 +1,43 @@
+/**
+ * Watchlist Service - "My List" of items each profile wants to watch later
+ * Items keep the order the profile gave them, new ones go to the end.
+ */
+
+import { getOne, getAll, run } from '../db.js';
+import { Media } from '../types/db.js';
+import { certificationFilter } from './parentalControlService.js';
+import { appendListItem, reorderList, OrderedList } from './orderedList.js';
+
+const WATCHLIST: OrderedList = { table: 'watchlist', ownerColumn: 'user_id' };
+
+export type WatchlistItem = Media & { position: number; added_at: string };
+
+/**
+ * The profile's list in its order, without titles its parental controls hide
+ */
+export function getWatchlist(userId: number): WatchlistItem[] {
+    const allowed = certificationFilter(userId, 'm.certification');
+    return getAll<WatchlistItem>(`
+        SELECT m.*, w.position, w.added_at
+        FROM watchlist w
+        JOIN media m ON m.id = w.media_id
+        WHERE w.user_id = ? AND ${allowed.sql}
+        ORDER BY w.position
+    `, [userId, ...allowed.params]);
+}
+
+export function isOnWatchlist(userId: number, mediaId: number): boolean {
+    return !!getOne('SELECT 1 FROM watchlist WHERE user_id = ? AND media_id = ?', [userId, mediaId]);
+}
+
+export function addToWatchlist(userId: number, mediaId: number): void {
+    appendListItem(WATCHLIST, userId, mediaId);
+}
+
+export function removeFromWatchlist(userId: number, mediaId: number): boolean {
+    return run('DELETE FROM watchlist WHERE user_id = ? AND media_id = ?', [userId, mediaId]).changes > 0;
+}
+
+export function reorderWatchlist(userId: number, mediaIds: number[]): void {
+    reorderList(WATCHLIST, userId, mediaIds);
+}
@@ -10,6 +10,9 @@ export interface Media {
     episode_title?: string | null;
     tmdb_id: number | null;
     tmdb_type?: 'movie' | 'tv';
+    tmdb_title?: string;
+    show_id?: number | null;
+    episode_id?: number | null;
     imdb_id?: string;
     overview: string | null;
     tagline?: string;
@@ -18,6 +21,8 @@ export interface Media {
     genres: string | null; // JSON string
     rating: number | null;
     vote_count: number | null;
+    certification: string | null; // e.g. PG-13 or TV-MA
+    tmdb_collection_id?: number | null;
     runtime: number | null;
     resolution: string | null;
     video_codec: string | null;
@@ -48,6 +53,7 @@ export interface SubtitleTrack {
     external_path: string | null;
     track_index: number | null;
     converted_path: string | null;
+    offset_ms?: number;
 }
 
 export interface AudioTrack {
@@ -66,8 +72,18 @@ export interface AudioTrack {
     track_index: number;
 }
 
+export interface Chapter {
+    id: number;
+    media_id: number;
+    chapter_index: number;
+    start_seconds: number;
+    end_seconds: number;
+    title: string | null;
+}
+
 export interface PlaybackState {
     id: number;
+    user_id: number;
     media_id: number;
     position_seconds: number;
     duration_seconds: number;
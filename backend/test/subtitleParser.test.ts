@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { decodeSubtitle, detectEncoding, parseSrt, convertSrtMarkup, srtToVtt } from '../src/services/subtitleParser.js';
+
+// Each <name>.srt fixture has the WebVTT it should convert to in <name>.vtt
+const FIXTURES = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'subtitles');
+
+function readFixture(name: string): Buffer {
+    return fs.readFileSync(path.join(FIXTURES, name));
+}
+
+describe('detectEncoding', () => {
+    const expected: Record<string, string> = {
+        'basic.srt': 'utf-8',
+        'crlf-bom.srt': 'utf-8',
+        'utf-16le.srt': 'utf-16le',
+        'windows-1252.srt': 'windows-1252',
+        'windows-1251.srt': 'windows-1251',
+        'gb2312.srt': 'gb18030',
+    };
+
+    for (const [fixture, encoding] of Object.entries(expected)) {
+        it(`detects ${encoding} in ${fixture}`, () => {
+            assert.equal(detectEncoding(readFixture(fixture)), encoding);
+        });
+    }
+
+    it('decodes legacy code pages to the right characters', () => {
+        assert.match(decodeSubtitle(readFixture('windows-1252.srt')).text, /Ça va, l'été à Noël\?/);
+        assert.match(decodeSubtitle(readFixture('windows-1251.srt')).text, /Привет, как дела\?/);
+        assert.match(decodeSubtitle(readFixture('gb2312.srt')).text, /你好，最近怎么样？/);
+    });
+
+    it('strips the BOM and normalizes line endings', () => {
+        const { text } = decodeSubtitle(readFixture('crlf-bom.srt'));
+        assert.ok(!text.startsWith('\uFEFF'));
+        assert.ok(!text.includes('\r'));
+    });
+});
+
+describe('srtToVtt fixtures', () => {
+    const fixtures = fs.readdirSync(FIXTURES).filter(f => f.endsWith('.srt')).sort();
+
+    for (const fixture of fixtures) {
+        it(`converts ${fixture}`, () => {
+            const { text } = decodeSubtitle(readFixture(fixture));
+            const expected = readFixture(fixture.replace(/\.srt$/, '.vtt')).toString('utf-8');
+            assert.equal(srtToVtt(text), expected);
+        });
+    }
+});
+
+describe('parseSrt', () => {
+    it('finds cues without sequence numbers or blank lines', () => {
+        const cues = parseSrt('00:00:01,000 --> 00:00:02,000\nOne\n2\n00:00:03,000 --> 00:00:04,000\nTwo');
+        assert.deepEqual(cues.map(c => c.text), ['One', 'Two']);
+    });
+
+    it('skips cues with unreadable timestamps and keeps the rest', () => {
+        const cues = parseSrt('1\n00:00:aa,000 --> 00:00:02,000\nBad\n\n2\n00:00:03,000 --> 00:00:04,000\nGood\n');
+        assert.deepEqual(cues.map(c => c.text), ['Good']);
+    });
+
+    it('gives cues that end before they start a default duration', () => {
+        const [cue] = parseSrt('00:00:10,000 --> 00:00:05,000\nBackwards');
+        assert.equal(cue.start, 10);
+        assert.equal(cue.end, 13);
+    });
+
+    it('sorts cues by start time', () => {
+        const cues = parseSrt('00:00:05,000 --> 00:00:06,000\nLater\n\n00:00:01,000 --> 00:00:02,000\nEarlier');
+        assert.deepEqual(cues.map(c => c.text), ['Earlier', 'Later']);
+    });
+});
+
+describe('convertSrtMarkup', () => {
+    it('turns {\\an8} into a top position', () => {
+        assert.deepEqual(convertSrtMarkup('{\\an8}Top'), { text: 'Top', settings: 'line:5%,start' });
+    });
+
+    it('turns <font color> into a color class', () => {
+        const colors = new Map<string, string>();
+        const { text } = convertSrtMarkup('<font color="#00FF00">Green</font>', colors);
+        assert.equal(text, '<c.color-00ff00>Green</c>');
+        assert.equal(colors.get('color-00ff00'), '#00ff00');
+    });
+
+    it('closes tags left open', () => {
+        assert.equal(convertSrtMarkup('<i>Never closed').text, '<i>Never closed</i>');
+    });
+
+    it('escapes text that looks like markup', () => {
+        assert.equal(convertSrtMarkup('a < b & c > d').text, 'a &lt; b &amp; c &gt; d');
+    });
+});
@@ -1,28 +1,39 @@
-import { BrowserRouter, Routes, Route, useNavigate, useLocation } from 'react-router-dom';
-import { useEffect, useState } from 'react';
+import { BrowserRouter, Routes, Route, Navigate, useNavigate, useLocation } from 'react-router-dom';
+import { useEffect } from 'react';
 import HomePage from './pages/HomePage';
 import DetailPage from './pages/DetailPage';
 import PlayerPage from './pages/PlayerPage';
 import SearchPage from './pages/SearchPage';
+import WatchlistPage from './pages/WatchlistPage';
+import CollectionsPage from './pages/CollectionsPage';
+import CollectionPage from './pages/CollectionPage';
 import SettingsPage from './pages/SettingsPage';
 import WelcomePage from './pages/WelcomePage';
+import ReviewPage from './pages/ReviewPage';
+import ProfilesPage from './pages/ProfilesPage';
+import LoginPage from './pages/LoginPage';
 import ConversionProgress from './components/ConversionProgress';
 import Layout from './components/Layout';
 import { settingsApi } from './api/client';
+import { useActiveProfileId } from './hooks/useProfiles';
+import { useAuth, refreshAuth } from './hooks/useAuth';
 import './index.css';
 
+// Everything needs an account, signed-out visitors only get the sign-in page
 function AuthCheck({ children }: { children: React.ReactNode }) {
   const navigate = useNavigate();
   const location = useLocation();
-  const [checking, setChecking] = useState(true);
+  const { status, isAdmin } = useAuth();
 
   useEffect(() => {
-    const checkSetup = async () => {
-      if (location.pathname === '/welcome') {
-        setChecking(false);
-        return;
-      }
+    refreshAuth();
+  }, []);
+
+  // On a new server an admin adds the first library folder before anything else
+  useEffect(() => {
+    if (status !== 'signed-in' || !isAdmin || location.pathname === '/welcome') return;
 
+    const checkSetup = async () => {
       try {
         const res = await settingsApi.getScanPaths();
         if (res.data.data.length === 0) {
@@ -30,34 +41,57 @@ function AuthCheck({ children }: { children: React.ReactNode }) {
         }
       } catch (err) {
         console.error(err);
-      } finally {
-        setChecking(false);
       }
     };
     checkSetup();
-  }, [navigate, location.pathname]);
+  }, [status, isAdmin, navigate, location.pathname]);
+
+  if (status === 'loading') return null; // Or a loading spinner
+
+  if (status !== 'signed-in') {
+    return location.pathname === '/login' ? <LoginPage /> : <Navigate to="/login" replace />;
+  }
+  if (location.pathname === '/login') {
+    return <Navigate to="/" replace />;
+  }
+  return <>{children}</>;
+}
+
+// Progress and history belong to a profile, so one has to be picked first
+function ProfileCheck({ children }: { children: React.ReactNode }) {
+  const location = useLocation();
+  const profileId = useActiveProfileId();
 
-  if (checking) return null; // Or a loading spinner
+  if (profileId === null && location.pathname !== '/profiles' && location.pathname !== '/welcome') {
+    return <Navigate to="/profiles" replace />;
+  }
   return <>{children}</>;
 }
 
 function App() {
   return (
     <BrowserRouter>
-      <Layout>
-        <AuthCheck>
-          <Routes>
-            <Route path="/" element={<HomePage />} />
-            <Route path="/welcome" element={<WelcomePage />} />
-            <Route path="/media/:id" element={<DetailPage />} />
-            <Route path="/play/:id" element={<PlayerPage />} />
-            <Route path="/search" element={<SearchPage />} />
-            <Route path="/settings" element={<SettingsPage />} />
-          </Routes>
-        </AuthCheck>
-        {/* Floating conversion progress panel */}
-        <ConversionProgress />
-      </Layout>
+      <AuthCheck>
+        <Layout>
+          <ProfileCheck>
+            <Routes>
+              <Route path="/" element={<HomePage />} />
+              <Route path="/welcome" element={<WelcomePage />} />
+              <Route path="/profiles" element={<ProfilesPage />} />
+              <Route path="/media/:id" element={<DetailPage />} />
+              <Route path="/play/:id" element={<PlayerPage />} />
+              <Route path="/search" element={<SearchPage />} />
+              <Route path="/my-list" element={<WatchlistPage />} />
+              <Route path="/collections" element={<CollectionsPage />} />
+              <Route path="/collections/:id" element={<CollectionPage />} />
+              <Route path="/settings" element={<SettingsPage />} />
+              <Route path="/review" element={<ReviewPage />} />
+            </Routes>
+          </ProfileCheck>
+          {/* Floating conversion progress panel */}
+          <ConversionProgress />
+        </Layout>
+      </AuthCheck>
     </BrowserRouter>
   );
 }
@@ -3,6 +3,7 @@
  */
 
 import axios from 'axios';
+import type { AccountRole, MarkerType, ProfileRestrictions, SessionUpdate } from '../types';
 
 const api = axios.create({
     baseURL: '/api',
@@ -12,15 +13,93 @@ const api = axios.create({
     },
 });
 
+// Profile the requests are made for, picked on the "who's watching" screen
+const PROFILE_KEY = 'nebula_profile_id';
+export const PROFILE_CHANGE_EVENT = 'nebula-profile-change';
+
+export function getActiveProfileId(): number | null {
+    const id = parseInt(localStorage.getItem(PROFILE_KEY) || '');
+    return isNaN(id) ? null : id;
+}
+
+export function setActiveProfileId(id: number | null) {
+    if (id === null) {
+        localStorage.removeItem(PROFILE_KEY);
+    } else {
+        localStorage.setItem(PROFILE_KEY, id.toString());
+    }
+    window.dispatchEvent(new Event(PROFILE_CHANGE_EVENT));
+}
+
+// Sent when a request comes back unauthorized, the app shows the sign-in page then
+export const AUTH_EXPIRED_EVENT = 'nebula-auth-expired';
+
+api.interceptors.request.use((config) => {
+    const profileId = getActiveProfileId();
+    if (profileId !== null) {
+        config.headers.set('X-Profile-Id', profileId.toString());
+    }
+    return config;
+});
+
 // Response interceptor for error handling
 api.interceptors.response.use(
     (response) => response,
     (error) => {
         console.error('API Error:', error.response?.data || error.message);
+        // The profile was deleted (possibly on another device) or locked again with its PIN, pick another one
+        if (['unknown_profile', 'profile_locked'].includes(error.response?.data?.code)) {
+            setActiveProfileId(null);
+        }
+        // The session expired or was revoked, sign in again
+        if (error.response?.data?.code === 'unauthorized') {
+            window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+        }
         throw error;
     }
 );
 
+// Auth API
+export const authApi = {
+    me: () => api.get('/auth/me'),
+
+    setup: (username: string, password: string) =>
+        api.post('/auth/setup', { username, password }),
+
+    login: (username: string, password: string) =>
+        api.post('/auth/login', { username, password }),
+
+    logout: () => api.post('/auth/logout'),
+
+    changePassword: (currentPassword: string, newPassword: string) =>
+        api.put('/auth/password', { currentPassword, newPassword }),
+
+    getAccounts: () => api.get('/auth/accounts'),
+
+    createAccount: (username: string, password: string, role: AccountRole) =>
+        api.post('/auth/accounts', { username, password, role }),
+
+    updateAccount: (id: number, changes: { role?: AccountRole; password?: string }) =>
+        api.put(`/auth/accounts/${id}`, changes),
+
+    deleteAccount: (id: number) => api.delete(`/auth/accounts/${id}`),
+};
+
+// Profiles API
+export const profilesApi = {
+    getAll: () => api.get('/profiles'),
+
+    create: (name: string, avatarColor?: string, restrictions: ProfileRestrictions = {}) =>
+        api.post('/profiles', { name, avatarColor, ...restrictions }),
+
+    update: (id: number, changes: { name?: string; avatarColor?: string } & ProfileRestrictions) =>
+        api.put(`/profiles/${id}`, changes),
+
+    select: (id: number, pin?: string) => api.post(`/profiles/${id}/select`, { pin }),
+
+    delete: (id: number) => api.delete(`/profiles/${id}`),
+};
+
 // Media API
 export const mediaApi = {
     getAll: (params?: {
@@ -36,11 +115,23 @@ export const mediaApi = {
 
     getById: (id: number) => api.get(`/media/${id}`),
 
-    scan: (path?: string, enrich = true) =>
-        api.post('/media/scan', { path, enrich }),
+    scan: (path?: string, enrich = true, force = false) =>
+        api.post('/media/scan', { path, enrich, force }),
+
+    getScanStatus: () => api.get('/media/scan/status'),
+
+    cancelScan: (jobId: string) => api.post(`/media/scan/${jobId}/cancel`),
 
     enrich: (id: number) => api.post(`/media/${id}/enrich`),
 
+    getMatchCandidates: (id: number, params?: { query?: string; year?: number; type?: string }) =>
+        api.get(`/media/${id}/match/candidates`, { params }),
+
+    pinMatch: (id: number, tmdb_id: number, tmdb_type: 'movie' | 'tv', apply_to_series = true) =>
+        api.put(`/media/${id}/match`, { tmdb_id, tmdb_type, apply_to_series }),
+
+    resetMatch: (id: number) => api.delete(`/media/${id}/match`),
+
     delete: (id: number) => api.delete(`/media/${id}`),
 
     getGenres: () => api.get('/media/meta/genres'),
@@ -58,6 +149,10 @@ export const playbackApi = {
     setWatched: (id: number, watched: boolean) =>
         api.put(`/playback/${id}/watched`, { watched }),
 
+    // Remembered for the other episodes of a series
+    saveTracks: (id: number, audioTrackId: number | null, subtitleTrackId: number | null) =>
+        api.put(`/playback/${id}/tracks`, { audioTrackId, subtitleTrackId }),
+
     getContinueWatching: (limit = 20) =>
         api.get('/playback/continue', { params: { limit } }),
 
@@ -65,6 +160,66 @@ export const playbackApi = {
         api.get('/playback/recently-watched', { params: { limit } }),
 };
 
+// Watchlist ("My List") API
+export const watchlistApi = {
+    getAll: () => api.get('/watchlist'),
+
+    add: (mediaId: number) => api.post('/watchlist', { mediaId }),
+
+    remove: (mediaId: number) => api.delete(`/watchlist/${mediaId}`),
+
+    // From first to last
+    reorder: (mediaIds: number[]) => api.put('/watchlist/order', { mediaIds }),
+};
+
+// Collections API
+export const collectionsApi = {
+    getAll: () => api.get('/collections'),
+
+    getById: (id: number) => api.get(`/collections/${id}`),
+
+    create: (name: string, overview?: string) => api.post('/collections', { name, overview }),
+
+    update: (id: number, changes: { name?: string; overview?: string }) =>
+        api.put(`/collections/${id}`, changes),
+
+    delete: (id: number) => api.delete(`/collections/${id}`),
+
+    // The image file is sent as the request body
+    uploadArtwork: (id: number, kind: 'poster' | 'backdrop', file: File) =>
+        api.put(`/collections/${id}/artwork/${kind}`, file, { headers: { 'Content-Type': file.type } }),
+
+    removeArtwork: (id: number, kind: 'poster' | 'backdrop') =>
+        api.delete(`/collections/${id}/artwork/${kind}`),
+
+    addItem: (id: number, mediaId: number) => api.post(`/collections/${id}/items`, { mediaId }),
+
+    removeItem: (id: number, mediaId: number) => api.delete(`/collections/${id}/items/${mediaId}`),
+
+    // From first to last
+    reorder: (id: number, mediaIds: number[]) => api.put(`/collections/${id}/items/order`, { mediaIds }),
+};
+
+// Playback sessions API
+export const sessionsApi = {
+    getAll: () => api.get('/sessions'),
+
+    start: (mediaId: number, update: SessionUpdate, client: { name: string; device: string }) =>
+        api.post('/sessions', { mediaId, ...update, client }),
+
+    heartbeat: (sessionId: string, update: SessionUpdate) =>
+        api.post(`/sessions/${sessionId}/heartbeat`, update),
+
+    pause: (sessionId: string, update: SessionUpdate) =>
+        api.post(`/sessions/${sessionId}/pause`, update),
+
+    stop: (sessionId: string, position?: number) =>
+        api.post(`/sessions/${sessionId}/stop`, { position }),
+
+    // For page unloads, where a normal request may be cancelled
+    getStopUrl: (sessionId: string) => `/api/sessions/${sessionId}/stop`,
+};
+
 // Search API
 export const searchApi = {
     search: (params: {
@@ -113,6 +268,29 @@ export const settingsApi = {
 
     getScanErrors: (limit = 50) =>
         api.get('/settings/scan-errors', { params: { limit } }),
+
+    getImageCache: () => api.get('/settings/image-cache'),
+
+    refreshImageCache: () => api.post('/settings/image-cache/refresh'),
+};
+
+// Shows API
+export const showsApi = {
+    getById: (id: number) => api.get(`/shows/${id}`),
+
+    getSeason: (id: number, seasonNumber: number) => api.get(`/shows/${id}/seasons/${seasonNumber}`),
+};
+
+// Match review API
+export const reviewApi = {
+    getQueue: (threshold?: number) => api.get('/review', { params: { threshold } }),
+
+    accept: (ids: number[]) => api.post('/review/accept', { ids }),
+
+    research: (ids: number[], params: { query?: string; year?: number; type?: string }) =>
+        api.post('/review/research', { ids, ...params }),
+
+    markNoMatch: (ids: number[]) => api.post('/review/no-match', { ids }),
 };
 
 // Video API
@@ -124,10 +302,63 @@ export const videoApi = {
         return `/api/video/${id}`;
     },
 
+    // Audio tracks other than the first and image-based subtitles are only playable through HLS
+    getHlsUrl: (id: number, audioTrackId?: number | null, subtitleTrackId?: number | null) => {
+        const params = new URLSearchParams();
+        if (audioTrackId) params.set('audio', String(audioTrackId));
+        if (subtitleTrackId) params.set('subtitle', String(subtitleTrackId));
+        const query = params.toString();
+        return query ? `/api/video/${id}/hls/index.m3u8?${query}` : `/api/video/${id}/hls/index.m3u8`;
+    },
+
     getSubtitleUrl: (mediaId: number, trackId: number) =>
         `/api/video/${mediaId}/subtitle/${trackId}`,
 
+    // Delay in milliseconds, positive values show subtitles later
+    setSubtitleOffset: (mediaId: number, trackId: number, offsetMs: number) =>
+        api.put(`/video/${mediaId}/subtitle/${trackId}/offset`, { offsetMs }),
+
     getInfo: (id: number) => api.get(`/video/${id}/info`),
+
+    // Seek previews: sprite sheets with a WebVTT index of their regions
+    getThumbnails: (id: number) => api.get(`/video/${id}/thumbnails`),
+
+    getThumbnailIndex: (id: number) =>
+        api.get<string>(`/video/${id}/thumbnails/thumbnails.vtt`, { responseType: 'text' }),
+
+    getThumbnailBaseUrl: (id: number) => `/api/video/${id}/thumbnails/`,
+
+    queueThumbnails: (id: number) => api.post(`/video/${id}/thumbnails`),
+
+    deleteThumbnails: (id: number) => api.delete(`/video/${id}/thumbnails`),
+};
+
+// Thumbnails API
+export const thumbnailsApi = {
+    getStatus: () => api.get('/thumbnails/status'),
+
+    queueAll: () => api.post('/thumbnails/queue-all'),
+
+    getStats: () => api.get('/thumbnails/stats'),
+};
+
+// Markers API
+export const markersApi = {
+    get: (mediaId: number) => api.get(`/markers/${mediaId}`),
+
+    set: (mediaId: number, type: MarkerType, start: number, end: number) =>
+        api.put(`/markers/${mediaId}/${type}`, { start, end }),
+
+    delete: (mediaId: number, type: MarkerType) => api.delete(`/markers/${mediaId}/${type}`),
+
+    // Looks for the intros of the whole season again
+    detect: (mediaId: number) => api.post('/markers/detect', { mediaId }),
+};
+
+// Image helpers
+export const imageApi = {
+    // Cards don't need the full w500 poster; the cache and TMDB both have w342
+    getPosterThumbUrl: (url: string) => url.replace(/\/w500\/([^/]+)$/, '/w342/$1'),
 };
 
 export default api;
@@ -0,0 +1,215 @@
+import { useState, useEffect, useCallback } from 'react';
+import { isAxiosError } from 'axios';
+import { KeyRound, Plus, Trash2, Shield, User } from 'lucide-react';
+import { authApi } from '../api/client';
+import { useAuth } from '../hooks/useAuth';
+import type { Account, AccountRole } from '../types';
+
+interface AccountSettingsProps {
+    onMessage: (type: 'success' | 'error', text: string) => void;
+}
+
+function errorText(err: unknown, fallback: string): string {
+    return isAxiosError(err) && err.response?.data?.error ? err.response.data.error : fallback;
+}
+
+const inputClass = 'px-4 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-teal-500 transition-colors';
+
+/**
+ * Password change for the signed-in account, and the account list for admins
+ */
+export default function AccountSettings({ onMessage }: AccountSettingsProps) {
+    const { account, isAdmin } = useAuth();
+    const [accounts, setAccounts] = useState<Account[]>([]);
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [newUsername, setNewUsername] = useState('');
+    const [newUserPassword, setNewUserPassword] = useState('');
+    const [newRole, setNewRole] = useState<AccountRole>('viewer');
+    const [saving, setSaving] = useState(false);
+
+    const fetchAccounts = useCallback(async () => {
+        if (!isAdmin) return;
+        try {
+            const response = await authApi.getAccounts();
+            setAccounts(response.data.data);
+        } catch (err) {
+            console.error('Failed to fetch accounts:', err);
+        }
+    }, [isAdmin]);
+
+    useEffect(() => {
+        fetchAccounts();
+    }, [fetchAccounts]);
+
+    const handleChangePassword = async () => {
+        setSaving(true);
+        try {
+            await authApi.changePassword(currentPassword, newPassword);
+            setCurrentPassword('');
+            setNewPassword('');
+            onMessage('success', 'Password changed, other devices were signed out');
+        } catch (err) {
+            onMessage('error', errorText(err, 'Failed to change password'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleAddAccount = async () => {
+        setSaving(true);
+        try {
+            await authApi.createAccount(newUsername.trim(), newUserPassword, newRole);
+            setNewUsername('');
+            setNewUserPassword('');
+            setNewRole('viewer');
+            await fetchAccounts();
+            onMessage('success', 'Account added');
+        } catch (err) {
+            onMessage('error', errorText(err, 'Failed to add account'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleRoleChange = async (target: Account, role: AccountRole) => {
+        try {
+            await authApi.updateAccount(target.id, { role });
+            await fetchAccounts();
+        } catch (err) {
+            onMessage('error', errorText(err, 'Failed to change role'));
+        }
+    };
+
+    const handleDelete = async (target: Account) => {
+        if (!confirm(`Delete the account "${target.username}"? It will be signed out everywhere.`)) return;
+        try {
+            await authApi.deleteAccount(target.id);
+            await fetchAccounts();
+            onMessage('success', 'Account deleted');
+        } catch (err) {
+            onMessage('error', errorText(err, 'Failed to delete account'));
+        }
+    };
+
+    return (
+        <section className="mb-10">
+            <h2 className="text-xl font-semibold text-white mb-4">Accounts</h2>
+
+            <div className="bg-(--bg-secondary) rounded-lg p-4 space-y-6">
+                {/* Own password */}
+                <div>
+                    <p className="text-white mb-1">Change Password</p>
+                    <p className="text-sm text-gray-500 mb-3">Signed in as {account?.username}</p>
+                    <div className="flex flex-wrap gap-2">
+                        <input
+                            type="password"
+                            value={currentPassword}
+                            onChange={(e) => setCurrentPassword(e.target.value)}
+                            placeholder="Current password"
+                            autoComplete="current-password"
+                            className={`flex-1 min-w-40 ${inputClass}`}
+                        />
+                        <input
+                            type="password"
+                            value={newPassword}
+                            onChange={(e) => setNewPassword(e.target.value)}
+                            placeholder="New password"
+                            autoComplete="new-password"
+                            className={`flex-1 min-w-40 ${inputClass}`}
+                        />
+                        <button
+                            onClick={handleChangePassword}
+                            disabled={saving || !currentPassword || !newPassword}
+                            className="btn-secondary"
+                        >
+                            <KeyRound className="w-4 h-4" />
+                            Change
+                        </button>
+                    </div>
+                </div>
+
+                {/* Everyone who can sign in, admins only */}
+                {isAdmin && (
+                    <div className="pt-4 border-t border-white/10">
+                        <p className="text-white mb-1">Server Accounts</p>
+                        <p className="text-sm text-gray-500 mb-3">
+                            Admins manage the library and settings, viewers can only watch
+                        </p>
+
+                        <ul className="space-y-2 mb-4">
+                            {accounts.map(a => (
+                                <li key={a.id} className="flex items-center gap-3 p-3 rounded-lg bg-(--bg-card)">
+                                    {a.role === 'admin'
+                                        ? <Shield className="w-4 h-4 text-teal-400 shrink-0" />
+                                        : <User className="w-4 h-4 text-gray-400 shrink-0" />}
+                                    <div className="flex-1 min-w-0">
+                                        <p className="text-white truncate">
+                                            {a.username}
+                                            {a.id === account?.id && <span className="text-gray-500"> (you)</span>}
+                                        </p>
+                                        <p className="text-xs text-gray-500">
+                                            {a.last_login_at
+                                                ? `Last sign-in ${new Date(a.last_login_at + 'Z').toLocaleString()}`
+                                                : 'Never signed in'}
+                                        </p>
+                                    </div>
+                                    <select
+                                        value={a.role}
+                                        onChange={(e) => handleRoleChange(a, e.target.value as AccountRole)}
+                                        className="px-3 py-1.5 bg-(--bg-secondary) border border-gray-700 rounded-lg text-white text-sm focus:border-teal-500 focus:outline-none"
+                                    >
+                                        <option value="admin">Admin</option>
+                                        <option value="viewer">Viewer</option>
+                                    </select>
+                                    <button
+                                        onClick={() => handleDelete(a)}
+                                        className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                        title="Delete account"
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+
+                        <div className="flex flex-wrap gap-2">
+                            <input
+                                type="text"
+                                value={newUsername}
+                                onChange={(e) => setNewUsername(e.target.value)}
+                                placeholder="Username"
+                                autoComplete="off"
+                                className={`flex-1 min-w-32 ${inputClass}`}
+                            />
+                            <input
+                                type="password"
+                                value={newUserPassword}
+                                onChange={(e) => setNewUserPassword(e.target.value)}
+                                placeholder="Password (8+ characters)"
+                                autoComplete="new-password"
+                                className={`flex-1 min-w-40 ${inputClass}`}
+                            />
+                            <select
+                                value={newRole}
+                                onChange={(e) => setNewRole(e.target.value as AccountRole)}
+                                className="px-3 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white focus:border-teal-500 focus:outline-none"
+                            >
+                                <option value="viewer">Viewer</option>
+                                <option value="admin">Admin</option>
+                            </select>
+                            <button
+                                onClick={handleAddAccount}
+                                disabled={saving || !newUsername.trim() || !newUserPassword}
+                                className="btn-secondary"
+                            >
+                                <Plus className="w-4 h-4" />
+                                Add
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </section>
+    );
+}
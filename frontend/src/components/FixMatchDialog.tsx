@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback } from 'react';
+import { X, Search, Film, Check, RotateCcw } from 'lucide-react';
+import { mediaApi } from '../api/client';
+import type { Media, MatchCandidate } from '../types';
+
+interface FixMatchDialogProps {
+    media: Media;
+    onClose: () => void;
+    onMatched: () => void;
+}
+
+export default function FixMatchDialog({ media, onClose, onMatched }: FixMatchDialogProps) {
+    const [query, setQuery] = useState(media.title);
+    const [year, setYear] = useState(media.year ? String(media.year) : '');
+    const [type, setType] = useState<string>(media.media_type === 'unknown' ? 'unknown' : media.media_type);
+    const [candidates, setCandidates] = useState<MatchCandidate[]>([]);
+    const [searching, setSearching] = useState(true);
+    const [pinning, setPinning] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const search = useCallback(async (params?: { query?: string; year?: number; type?: string }) => {
+        setSearching(true);
+        setError(null);
+        try {
+            const response = await mediaApi.getMatchCandidates(media.id, params);
+            setCandidates(response.data.candidates);
+        } catch (err) {
+            console.error(err);
+            setError('Search failed. Is TMDB configured?');
+        } finally {
+            setSearching(false);
+        }
+    }, [media.id]);
+
+    // Start with the parsed title, year and type
+    useEffect(() => {
+        mediaApi.getMatchCandidates(media.id)
+            .then(response => setCandidates(response.data.candidates))
+            .catch(err => {
+                console.error(err);
+                setError('Search failed. Is TMDB configured?');
+            })
+            .finally(() => setSearching(false));
+    }, [media.id]);
+
+    const handleSearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        search({ query: query.trim(), year: year ? parseInt(year) : undefined, type });
+    };
+
+    const handlePin = async (candidate: MatchCandidate) => {
+        setPinning(candidate.tmdb_id);
+        setError(null);
+        try {
+            await mediaApi.pinMatch(media.id, candidate.tmdb_id, candidate.tmdb_type);
+            onMatched();
+            onClose();
+        } catch (err) {
+            console.error(err);
+            setError('Failed to apply match');
+        } finally {
+            setPinning(null);
+        }
+    };
+
+    const handleReset = async () => {
+        setPinning(-1);
+        try {
+            await mediaApi.resetMatch(media.id);
+            onMatched();
+            onClose();
+        } catch (err) {
+            console.error(err);
+            setError('Failed to reset match');
+        } finally {
+            setPinning(null);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 modal-backdrop" onClick={onClose}>
+            <div
+                className="bg-(--bg-secondary) rounded-xl w-full max-w-2xl max-h-[80vh] flex flex-col animate-fadeInScale"
+                onClick={(e) => e.stopPropagation()}
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between p-4 border-b border-gray-700">
+                    <div className="min-w-0">
+                        <h3 className="text-xl font-semibold text-white">Fix Match</h3>
+                        <p className="text-sm text-gray-500 truncate" title={media.file_name}>{media.file_name}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+                        <X className="w-6 h-6" />
+                    </button>
+                </div>
+
+                {/* Search Form */}
+                <form onSubmit={handleSearch} className="flex flex-wrap gap-2 p-4 border-b border-gray-700 bg-(--bg-card)">
+                    <input
+                        type="text"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Title"
+                        className="flex-1 min-w-[200px] px-3 py-2 bg-(--bg-secondary) border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-teal-500 transition-colors"
+                    />
+                    <input
+                        type="number"
+                        value={year}
+                        onChange={(e) => setYear(e.target.value)}
+                        placeholder="Year"
+                        className="w-24 px-3 py-2 bg-(--bg-secondary) border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-teal-500 transition-colors"
+                    />
+                    <select
+                        value={type}
+                        onChange={(e) => setType(e.target.value)}
+                        className="px-3 py-2 bg-(--bg-secondary) border border-gray-700 rounded-lg text-white focus:border-teal-500 focus:outline-none transition-colors"
+                    >
+                        <option value="unknown">Any</option>
+                        <option value="movie">Movie</option>
+                        <option value="tv">TV Show</option>
+                    </select>
+                    <button type="submit" disabled={searching || !query.trim()} className="btn-primary">
+                        <Search className="w-4 h-4" />
+                        Search
+                    </button>
+                </form>
+
+                {/* Results */}
+                <div className="flex-1 overflow-y-auto p-2 min-h-[300px]">
+                    {error && (
+                        <p className="text-red-400 text-sm p-3">{error}</p>
+                    )}
+
+                    {searching ? (
+                        <div className="flex items-center justify-center h-full py-12">
+                            <div className="loading-spinner" />
+                        </div>
+                    ) : candidates.length === 0 ? (
+                        <p className="text-gray-500 text-center py-12">No results. Try a different title or year.</p>
+                    ) : (
+                        <ul className="space-y-1">
+                            {candidates.map(candidate => {
+                                const isCurrent = candidate.tmdb_id === media.tmdb_id && candidate.tmdb_type === media.tmdb_type;
+
+                                return (
+                                    <li key={`${candidate.tmdb_type}-${candidate.tmdb_id}`}>
+                                        <button
+                                            onClick={() => handlePin(candidate)}
+                                            disabled={pinning !== null}
+                                            className="w-full flex gap-3 p-2 rounded-lg text-left hover:bg-white/5 transition-colors disabled:opacity-60"
+                                        >
+                                            {candidate.poster_path ? (
+                                                <img
+                                                    src={candidate.poster_path}
+                                                    alt={candidate.title}
+                                                    className="w-12 h-18 object-cover rounded shrink-0"
+                                                    loading="lazy"
+                                                />
+                                            ) : (
+                                                <div className="w-12 h-18 bg-gray-800 rounded flex items-center justify-center shrink-0">
+                                                    <Film className="w-5 h-5 text-gray-600" />
+                                                </div>
+                                            )}
+                                            <div className="flex-1 min-w-0">
+                                                <div className="flex items-center gap-2">
+                                                    <p className="text-white font-medium truncate">{candidate.title}</p>
+                                                    {candidate.year && <span className="text-gray-400 text-sm">({candidate.year})</span>}
+                                                    {isCurrent && <Check className="w-4 h-4 text-teal-400 shrink-0" />}
+                                                </div>
+                                                <p className="text-xs text-gray-500 mb-1">
+                                                    {candidate.tmdb_type === 'movie' ? 'Movie' : 'TV Show'} • {candidate.confidence}% match
+                                                </p>
+                                                {candidate.overview && (
+                                                    <p className="text-sm text-gray-400 line-clamp-2">{candidate.overview}</p>
+                                                )}
+                                            </div>
+                                            {pinning === candidate.tmdb_id && (
+                                                <div className="loading-spinner self-center" />
+                                            )}
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+                </div>
+
+                {/* Footer */}
+                {media.match_method === 'manual' && (
+                    <div className="p-4 border-t border-gray-700 flex justify-end">
+                        <button onClick={handleReset} disabled={pinning !== null} className="btn-secondary">
+                            <RotateCcw className="w-4 h-4" />
+                            Use Automatic Match
+                        </button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
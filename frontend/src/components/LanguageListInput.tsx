@@ -0,0 +1,78 @@
+import { ChevronUp, X } from 'lucide-react';
+
+const LANGUAGES: { code: string; name: string }[] = [
+    { code: 'eng', name: 'English' },
+    { code: 'spa', name: 'Spanish' },
+    { code: 'fre', name: 'French' },
+    { code: 'ger', name: 'German' },
+    { code: 'ita', name: 'Italian' },
+    { code: 'por', name: 'Portuguese' },
+    { code: 'rus', name: 'Russian' },
+    { code: 'jpn', name: 'Japanese' },
+    { code: 'kor', name: 'Korean' },
+    { code: 'chi', name: 'Chinese' },
+    { code: 'hin', name: 'Hindi' },
+    { code: 'ara', name: 'Arabic' },
+];
+
+interface LanguageListInputProps {
+    value: string[];
+    onChange: (languages: string[]) => void;
+}
+
+function getName(code: string): string {
+    return LANGUAGES.find(l => l.code === code)?.name || code;
+}
+
+// Ordered list of languages, the first one is preferred most
+export default function LanguageListInput({ value, onChange }: LanguageListInputProps) {
+    const available = LANGUAGES.filter(l => !value.includes(l.code));
+
+    const moveUp = (index: number) => {
+        const next = [...value];
+        [next[index - 1], next[index]] = [next[index], next[index - 1]];
+        onChange(next);
+    };
+
+    return (
+        <div className="flex flex-wrap items-center justify-end gap-2">
+            {value.map((code, index) => (
+                <span
+                    key={code}
+                    className="flex items-center gap-1 pl-3 pr-1 py-1 bg-(--bg-card) border border-gray-700 rounded-full text-sm text-white"
+                >
+                    <span className="text-gray-500">{index + 1}.</span>
+                    {getName(code)}
+                    {index > 0 && (
+                        <button
+                            onClick={() => moveUp(index)}
+                            className="p-0.5 text-gray-400 hover:text-teal-400 transition-colors"
+                            title="Prefer this language"
+                        >
+                            <ChevronUp className="w-4 h-4" />
+                        </button>
+                    )}
+                    <button
+                        onClick={() => onChange(value.filter(c => c !== code))}
+                        className="p-0.5 text-gray-400 hover:text-red-400 transition-colors"
+                        title="Remove"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </span>
+            ))}
+            {available.length > 0 && (
+                <select
+                    value=""
+                    onChange={(e) => e.target.value && onChange([...value, e.target.value])}
+                    className="px-3 py-1 bg-(--bg-card) border border-gray-700 rounded-lg text-sm text-white focus:border-teal-500 focus:outline-none transition-colors"
+                >
+                    <option value="">Add language…</option>
+                    {available.map(l => (
+                        <option key={l.code} value={l.code}>{l.name}</option>
+                    ))}
+                </select>
+            )}
+        </div>
+    );
+}
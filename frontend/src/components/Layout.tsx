@@ -11,6 +11,11 @@ export default function Layout({ children }: LayoutProps) {
     const [sidebarOpen, setSidebarOpen] = useState(false);
     const location = useLocation();
 
+    // The "who's watching" screen is shown on its own
+    if (location.pathname === '/profiles') {
+        return <div className="min-h-screen bg-(--bg-primary)">{children}</div>;
+    }
+
     return (
         <div className="min-h-screen bg-(--bg-primary) flex">
             {/* Sidebar */}
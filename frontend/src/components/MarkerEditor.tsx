@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import { Trash2, WandSparkles } from 'lucide-react';
+import { markersApi } from '../api/client';
+import type { MediaMarker, MarkerType } from '../types';
+
+const MARKER_LABELS: Record<MarkerType, string> = {
+    intro: 'Intro',
+    recap: 'Recap',
+    credits: 'Credits',
+};
+
+interface MarkerEditorProps {
+    mediaId: number;
+    markers: MediaMarker[];
+    currentTime: number;
+    duration: number;
+    canDetect: boolean; // Episodes only, intros are found by comparing a season
+    formatTime: (seconds: number) => string;
+    onChange: (markers: MediaMarker[]) => void;
+    onSeek: (time: number) => void;
+}
+
+// Set intro, recap and credits ranges from the current playback position
+export default function MarkerEditor({ mediaId, markers, currentTime, duration, canDetect, formatTime, onChange, onSeek }: MarkerEditorProps) {
+    // Start picked for a marker that has no end yet
+    const [pendingStart, setPendingStart] = useState<Partial<Record<MarkerType, number>>>({});
+    const [detecting, setDetecting] = useState(false);
+    const [detectQueued, setDetectQueued] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const save = async (type: MarkerType, start: number, end: number) => {
+        setError(null);
+        try {
+            const response = await markersApi.set(mediaId, type, start, end);
+            onChange([...markers.filter(m => m.type !== type), response.data].sort((a, b) => a.start_seconds - b.start_seconds));
+            setPendingStart(prev => ({ ...prev, [type]: undefined }));
+        } catch {
+            setError(`Failed to save the ${MARKER_LABELS[type].toLowerCase()} marker`);
+        }
+    };
+
+    const setStart = (type: MarkerType, marker?: MediaMarker) => {
+        const start = Math.floor(currentTime * 10) / 10;
+        if (marker && marker.end_seconds > start) {
+            save(type, start, marker.end_seconds);
+        } else if (type === 'credits' && duration > start) {
+            // Credits usually run to the end
+            save(type, start, duration);
+        } else {
+            setPendingStart(prev => ({ ...prev, [type]: start }));
+        }
+    };
+
+    const setEnd = (type: MarkerType, marker?: MediaMarker) => {
+        const end = Math.floor(currentTime * 10) / 10;
+        const start = pendingStart[type] ?? marker?.start_seconds ?? 0;
+        if (end <= start) {
+            setError('The end has to be after the start');
+            return;
+        }
+        save(type, start, end);
+    };
+
+    const remove = async (type: MarkerType) => {
+        setError(null);
+        setPendingStart(prev => ({ ...prev, [type]: undefined }));
+        try {
+            await markersApi.delete(mediaId, type);
+            onChange(markers.filter(m => m.type !== type));
+        } catch {
+            setError(`Failed to remove the ${MARKER_LABELS[type].toLowerCase()} marker`);
+        }
+    };
+
+    const detect = async () => {
+        setError(null);
+        setDetecting(true);
+        try {
+            await markersApi.detect(mediaId);
+            setDetectQueued(true);
+        } catch {
+            setError('Failed to start intro detection');
+        }
+        setDetecting(false);
+    };
+
+    return (
+        <div className="w-72 text-sm">
+            {(Object.keys(MARKER_LABELS) as MarkerType[]).map(type => {
+                const marker = markers.find(m => m.type === type);
+                const pending = pendingStart[type];
+
+                return (
+                    <div key={type} className="px-4 py-2 border-b border-white/10 last:border-b-0">
+                        <div className="flex items-center justify-between mb-1">
+                            <span className="text-white font-medium">
+                                {MARKER_LABELS[type]}
+                                {marker?.source === 'detected' && <span className="ml-2 text-xs text-gray-500">detected</span>}
+                            </span>
+                            {marker && (
+                                <button
+                                    onClick={() => remove(type)}
+                                    className="p-1 text-gray-400 hover:text-red-400 transition-colors"
+                                    title="Remove marker"
+                                >
+                                    <Trash2 className="w-4 h-4" />
+                                </button>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => setStart(type, marker)}
+                                className="flex-1 px-2 py-1 rounded bg-white/10 text-white hover:bg-white/20 transition-colors"
+                                title="Set the start to the current position"
+                            >
+                                Start {pending !== undefined
+                                    ? formatTime(pending)
+                                    : marker ? formatTime(marker.start_seconds) : '–'}
+                            </button>
+                            <button
+                                onClick={() => setEnd(type, marker)}
+                                className="flex-1 px-2 py-1 rounded bg-white/10 text-white hover:bg-white/20 transition-colors"
+                                title="Set the end to the current position"
+                            >
+                                End {marker && pending === undefined ? formatTime(marker.end_seconds) : '–'}
+                            </button>
+                            {marker && (
+                                <button
+                                    onClick={() => onSeek(marker.start_seconds)}
+                                    className="px-2 py-1 text-gray-400 hover:text-white transition-colors"
+                                    title="Jump to the start"
+                                >
+                                    Go
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                );
+            })}
+
+            {canDetect && (
+                <button
+                    onClick={detect}
+                    disabled={detecting || detectQueued}
+                    className="w-full flex items-center gap-2 px-4 py-2 text-left text-gray-300 hover:bg-white/10 hover:text-white disabled:opacity-50 transition-colors"
+                    title="Compare the audio of this season's episodes to find the intro"
+                >
+                    <WandSparkles className="w-4 h-4" />
+                    Detect intros for this season
+                </button>
+            )}
+
+            {detectQueued && <p className="px-4 py-2 text-xs text-gray-400">Looking for intros in the background</p>}
+            {error && <p className="px-4 py-2 text-xs text-red-400">{error}</p>}
+        </div>
+    );
+}
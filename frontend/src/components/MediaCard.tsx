@@ -1,5 +1,7 @@
 import { Link } from 'react-router-dom';
 import { Play } from 'lucide-react';
+import { imageApi } from '../api/client';
+import WatchlistButton from './WatchlistButton';
 import type { Media } from '../types';
 
 interface MediaCardProps {
@@ -29,7 +31,7 @@ export default function MediaCard({ media, showProgress = true }: MediaCardProps
             {/* Poster Image */}
             {media.poster_path ? (
                 <img
-                    src={media.poster_path}
+                    src={imageApi.getPosterThumbUrl(media.poster_path)}
                     alt={media.title}
                     className="w-full h-full object-cover"
                     loading="lazy"
@@ -52,7 +54,7 @@ export default function MediaCard({ media, showProgress = true }: MediaCardProps
                 </div>
 
                 {/* Info */}
-                <div className="relative z-10">
+                <div className="relative z-10 pr-9">
                     <h3 className="text-white font-semibold text-sm truncate">
                         {media.title}
                     </h3>
@@ -73,6 +75,11 @@ export default function MediaCard({ media, showProgress = true }: MediaCardProps
                         </p>
                     )}
                 </div>
+
+                {/* My List Toggle */}
+                <div className="absolute bottom-3 right-3 z-20">
+                    <WatchlistButton mediaId={media.id} compact />
+                </div>
             </div>
 
             {/* TV Episode Badge */}
@@ -0,0 +1,38 @@
+import { X } from 'lucide-react';
+import { describeScanProgress } from '../hooks/useScanJob';
+import type { ScanJob } from '../types';
+
+interface ScanProgressProps {
+    job: ScanJob;
+    progress: number;
+    onCancel?: () => void;
+}
+
+export default function ScanProgress({ job, progress, onCancel }: ScanProgressProps) {
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-300">{describeScanProgress(job)}</span>
+                {onCancel && (
+                    <button
+                        onClick={onCancel}
+                        className="flex items-center gap-1 text-gray-400 hover:text-red-400 transition-colors"
+                        title="Cancel scan"
+                    >
+                        <X className="w-4 h-4" />
+                        Cancel
+                    </button>
+                )}
+            </div>
+            <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                <div
+                    className={`h-full bg-teal-500 transition-all duration-300 ${job.total === 0 ? 'animate-pulse w-full opacity-50' : ''}`}
+                    style={job.total > 0 ? { width: `${progress}%` } : undefined}
+                />
+            </div>
+            {job.currentItem && (
+                <p className="text-xs text-gray-500 truncate" title={job.currentItem}>{job.currentItem}</p>
+            )}
+        </div>
+    );
+}
@@ -1,8 +1,9 @@
 import { NavLink } from 'react-router-dom';
-import { Home, Film, Tv, Settings, Search, RefreshCw, X } from 'lucide-react';
-import { useState } from 'react';
-import { mediaApi } from '../api/client';
+import { Home, Film, Tv, Bookmark, Library, Settings, Search, RefreshCw, LogOut, X } from 'lucide-react';
 import { useQueryClient } from '@tanstack/react-query';
+import { useScanJob, describeScanProgress } from '../hooks/useScanJob';
+import { useActiveProfile } from '../hooks/useProfiles';
+import { useAuth, signOut } from '../hooks/useAuth';
 
 interface SidebarProps {
     isOpen: boolean;
@@ -10,19 +11,20 @@ interface SidebarProps {
 }
 
 export default function Sidebar({ isOpen, onClose }: SidebarProps) {
-    const [scanning, setScanning] = useState(false);
     const queryClient = useQueryClient();
+    const profile = useActiveProfile();
+    const { account, isAdmin } = useAuth();
+
+    const { job, scanning, startScan } = useScanJob(async () => {
+        await queryClient.invalidateQueries({ queryKey: ['media'] });
+        await queryClient.invalidateQueries({ queryKey: ['continue-watching'] });
+    });
 
     const handleScan = async () => {
-        setScanning(true);
         try {
-            await mediaApi.scan();
-            await queryClient.invalidateQueries({ queryKey: ['media'] });
-            await queryClient.invalidateQueries({ queryKey: ['continue-watching'] });
+            await startScan();
         } catch (err) {
             console.error('Scan failed:', err);
-        } finally {
-            setScanning(false);
         }
     };
 
@@ -30,6 +32,8 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
         { to: '/', icon: Home, label: 'Home' },
         { to: '/?type=movie', icon: Film, label: 'Movies' },
         { to: '/?type=tv', icon: Tv, label: 'TV Shows' },
+        { to: '/my-list', icon: Bookmark, label: 'My List' },
+        { to: '/collections', icon: Library, label: 'Collections' },
         { to: '/search', icon: Search, label: 'Search' },
         { to: '/settings', icon: Settings, label: 'Settings' },
     ];
@@ -91,14 +95,45 @@ export default function Sidebar({ isOpen, onClose }: SidebarProps) {
 
                     {/* Footer Actions */}
                     <div className="pt-4 border-t border-white/10 space-y-2">
+                        {profile && (
+                            <NavLink
+                                to="/profiles"
+                                onClick={() => window.innerWidth < 768 && onClose()}
+                                title="Switch profile"
+                                className="flex items-center gap-3 px-3 py-2 text-gray-400 hover:text-white hover:bg-white/5 rounded-lg transition-colors overflow-hidden whitespace-nowrap"
+                            >
+                                <span
+                                    className="w-6 h-6 shrink-0 rounded-md flex items-center justify-center text-xs font-bold text-white"
+                                    style={{ backgroundColor: profile.avatar_color }}
+                                >
+                                    {profile.name.charAt(0).toUpperCase()}
+                                </span>
+                                <span className="font-medium opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity duration-300 delay-75 truncate">
+                                    {profile.name}
+                                </span>
+                            </NavLink>
+                        )}
+                        {isAdmin && (
+                            <button
+                                onClick={handleScan}
+                                disabled={scanning}
+                                title={scanning && job ? describeScanProgress(job) : undefined}
+                                className="flex items-center gap-3 px-3 py-3 w-full text-left text-gray-400 hover:text-white hover:bg-white/5 rounded-lg transition-colors overflow-hidden whitespace-nowrap"
+                            >
+                                <RefreshCw className={`w-5 h-5 shrink-0 ${scanning ? 'animate-spin' : ''}`} />
+                                <span className="font-medium opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity duration-300 delay-75 truncate">
+                                    {scanning && job ? describeScanProgress(job) : 'Scan Library'}
+                                </span>
+                            </button>
+                        )}
                         <button
-                            onClick={handleScan}
-                            disabled={scanning}
+                            onClick={() => signOut().catch(console.error)}
+                            title={account ? `Sign out ${account.username}` : 'Sign out'}
                             className="flex items-center gap-3 px-3 py-3 w-full text-left text-gray-400 hover:text-white hover:bg-white/5 rounded-lg transition-colors overflow-hidden whitespace-nowrap"
                         >
-                            <RefreshCw className={`w-5 h-5 shrink-0 ${scanning ? 'animate-spin' : ''}`} />
-                            <span className="font-medium opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity duration-300 delay-75">
-                                {scanning ? 'Scanning...' : 'Scan Library'}
+                            <LogOut className="w-5 h-5 shrink-0" />
+                            <span className="font-medium opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity duration-300 delay-75 truncate">
+                                Sign Out
                             </span>
                         </button>
                     </div>
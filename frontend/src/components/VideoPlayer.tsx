@@ -2,10 +2,63 @@ import { useEffect, useRef, useCallback, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
     Play, Pause, Volume2, VolumeX, Volume1, Maximize, Minimize,
-    RotateCcw, RotateCw, X, Loader2, Subtitles
+    RotateCcw, RotateCw, X, Loader2, Subtitles, AudioLines, Bookmark, SkipForward, ListVideo
 } from 'lucide-react';
+import Hls from 'hls.js';
 import { playbackApi, videoApi } from '../api/client';
-import type { Media, SubtitleTrack } from '../types';
+import { useSubtitleStyle, getCueCss } from '../hooks/useSubtitleStyle';
+import { useThumbnails } from '../hooks/useThumbnails';
+import { usePlaybackSession } from '../hooks/usePlaybackSession';
+import { useAuth } from '../hooks/useAuth';
+import MarkerEditor from './MarkerEditor';
+import type { Media, SubtitleTrack, AudioTrack, MediaMarker, Chapter, StreamMode } from '../types';
+
+interface StreamInfo {
+    mediaId: number;
+    startPosition: number;
+    willTranscode?: boolean;
+    converted?: boolean; // Plays the converted copy of the file
+    streamUrl?: string;
+    subtitleTracks?: SubtitleTrack[];
+    audioTracks?: AudioTrack[];
+    defaultAudioTrackId?: number | null;
+    defaultSubtitleTrackId?: number | null;
+    markers?: MediaMarker[];
+}
+
+// Previous chapter goes back to the start of the current one when it began longer ago than this
+const CHAPTER_RESTART_SECONDS = 3;
+
+function getChapterAt(chapters: Chapter[], time: number): Chapter | undefined {
+    return chapters.filter(c => c.start_seconds <= time).pop();
+}
+
+function getChapterTitle(chapter: Chapter): string {
+    return chapter.title || `Chapter ${chapter.chapter_index + 1}`;
+}
+
+// Without a credits marker the next episode countdown starts this long before the end
+const NEXT_EPISODE_LEAD_SECONDS = 20;
+
+function formatAudioTrack(track: AudioTrack): string {
+    const channels = track.channels > 2 ? `${track.channels - 1}.1` : track.channels === 1 ? 'Mono' : 'Stereo';
+    const parts = [track.language_name || track.language_code || 'Unknown', channels];
+    if (track.title) parts.push(track.title);
+    return parts.join(' · ');
+}
+
+// Subtitle delay limits and keyboard step (G/H), in milliseconds
+const MAX_SUBTITLE_OFFSET = 10000;
+const SUBTITLE_OFFSET_STEP = 100;
+
+function formatOffset(offsetMs: number): string {
+    const seconds = (offsetMs / 1000).toFixed(1);
+    return offsetMs > 0 ? `+${seconds}s` : `${seconds}s`;
+}
+
+function getSubtitleLabel(track: SubtitleTrack): string {
+    return track.label || track.title || track.language_name || track.language_code;
+}
 
 interface VideoPlayerProps {
     media: Media;
@@ -16,16 +69,20 @@ interface VideoPlayerProps {
 
 export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = true }: VideoPlayerProps) {
     const navigate = useNavigate();
+    const { isAdmin } = useAuth();
     const videoRef = useRef<HTMLVideoElement>(null);
     const progressRef = useRef<HTMLDivElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
     const saveIntervalRef = useRef<number | null>(null);
+    const hlsRef = useRef<Hls | null>(null);
     const hideControlsTimeout = useRef<number | null>(null);
     const [isDragging, setIsDragging] = useState(false);
     const isDraggingRef = useRef(false); // Ref for event listeners
     const isHoveringControls = useRef(false); // Ref to prevent hiding when interacting
     const isLoadingRef = useRef(true); // Ref to track loading state in listeners
     const [nextEpisodeCountdown, setNextEpisodeCountdown] = useState<number | null>(null);
+    const countdownDismissedRef = useRef(false); // Cancelled until playback leaves the credits
+    const creditsStartRef = useRef<number | null>(null); // For the timeupdate listener
 
     // Load saved volume from localStorage (persisted across sessions)
     const getSavedVolume = (): number => {
@@ -60,6 +117,38 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
     const [subtitleTracks, setSubtitleTracks] = useState<SubtitleTrack[]>([]);
     const [currentSubtitleTrack, setCurrentSubtitleTrack] = useState<number | null>(null);
     const [showSubtitlesMenu, setShowSubtitlesMenu] = useState(false);
+    const [streamInfo, setStreamInfo] = useState<StreamInfo | null>(null);
+    const [audioTracks, setAudioTracks] = useState<AudioTrack[]>([]);
+    const [currentAudioTrack, setCurrentAudioTrack] = useState<number | null>(null);
+    const [showAudioMenu, setShowAudioMenu] = useState(false);
+    const [markers, setMarkers] = useState<MediaMarker[]>([]);
+    const [showMarkerMenu, setShowMarkerMenu] = useState(false);
+    const [showChapterMenu, setShowChapterMenu] = useState(false);
+    const [hoverTime, setHoverTime] = useState<number | null>(null); // Progress bar position under the mouse
+    const { getThumbnailAt } = useThumbnails(media.id);
+
+    // Image-based subtitles can't be a text track, the server burns them into an HLS stream
+    const burnInSubtitle = subtitleTracks.find(t => t.id === currentSubtitleTrack && t.image_based)?.id ?? null;
+    const currentTextTrack = subtitleTracks.find(t => t.id === currentSubtitleTrack && !t.image_based) ?? null;
+    const subtitleOffset = currentTextTrack?.offset_ms ?? 0;
+    const [subtitleNotice, setSubtitleNotice] = useState<string | null>(null);
+    const subtitleNoticeTimeout = useRef<number | null>(null);
+    const saveOffsetTimeout = useRef<number | null>(null);
+    const subtitleStyle = useSubtitleStyle(videoRef);
+    const resumeRef = useRef<{ time: number; playing: boolean } | null>(null); // Kept when the source changes
+
+    // How the source effect below streams the file, reported to the server with the playback session
+    let streamMode: StreamMode | null = null;
+    if (streamInfo && streamInfo.mediaId === media.id) {
+        const firstAudioTrack = streamInfo.audioTracks?.[0]?.id ?? null;
+        if (streamInfo.willTranscode || currentAudioTrack !== firstAudioTrack || burnInSubtitle !== null) {
+            streamMode = 'transcoded';
+        } else {
+            streamMode = streamInfo.converted ? 'converted' : 'direct';
+        }
+    }
+    // Stopping the session also frees the server-side encoder, unless someone else is using it
+    usePlaybackSession(videoRef, media.id, streamMode, currentAudioTrack, currentSubtitleTrack);
 
     // Format time as HH:MM:SS
     const formatTime = (seconds: number): string => {
@@ -94,11 +183,11 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
         if (!isPlaying || isHoveringControls.current) return;
 
         hideControlsTimeout.current = window.setTimeout(() => {
-            if (isPlaying && !showSettings && !showSubtitlesMenu && !isHoveringControls.current) {
+            if (isPlaying && !showSettings && !showSubtitlesMenu && !showAudioMenu && !showMarkerMenu && !showChapterMenu && !isHoveringControls.current) {
                 setShowControls(false);
             }
         }, 3000);
-    }, [isPlaying, showSettings, showSubtitlesMenu]);
+    }, [isPlaying, showSettings, showSubtitlesMenu, showAudioMenu, showMarkerMenu, showChapterMenu]);
 
     // Update hide behavior when play state changes
     useEffect(() => {
@@ -136,33 +225,6 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
         const video = videoRef.current;
         if (!video) return;
 
-        // Load saved position and info on mount
-        const loadInfo = async () => {
-            try {
-                // Load position
-                const response = await playbackApi.getState(media.id);
-                const savedPosition = response.data?.position_seconds || 0;
-                const dur = duration || media.duration_seconds || 0;
-                if (savedPosition > 5 && savedPosition < dur - 10) {
-                    video.currentTime = savedPosition;
-                    setDisplayTime(savedPosition);
-                }
-
-                // Load subtitle tracks
-                const infoResponse = await videoApi.getInfo(media.id);
-                if (infoResponse.data.subtitleTracks) {
-                    setSubtitleTracks(infoResponse.data.subtitleTracks);
-                    // Auto-select default track if any
-                    const defaultTrack = infoResponse.data.subtitleTracks.find((t: SubtitleTrack) => t.is_default);
-                    if (defaultTrack) {
-                        setCurrentSubtitleTrack(defaultTrack.id);
-                    }
-                }
-            } catch (err) {
-                console.error('Failed to load video info:', err);
-            }
-        };
-
         const handleCanPlay = () => {
             setIsLoading(false);
             isLoadingRef.current = false;
@@ -194,13 +256,18 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
             // Display time = video current time
             setDisplayTime(video.currentTime || 0);
 
-            // Check for next episode auto-play
-            if (nextEpisode && video.duration && (video.duration - video.currentTime) <= 20) {
-                if (nextEpisodeCountdown === null) {
-                    setNextEpisodeCountdown(10);
+            // Count down to the next episode once the credits start
+            const creditsStart = creditsStartRef.current;
+            const inCredits = creditsStart !== null
+                ? video.currentTime >= creditsStart
+                : video.duration - video.currentTime <= NEXT_EPISODE_LEAD_SECONDS;
+            if (nextEpisode && video.duration && inCredits) {
+                if (!countdownDismissedRef.current) {
+                    setNextEpisodeCountdown(prev => prev ?? 10);
                 }
             } else {
-                if (nextEpisodeCountdown !== null) setNextEpisodeCountdown(null);
+                countdownDismissedRef.current = false;
+                setNextEpisodeCountdown(null);
             }
         };
 
@@ -243,9 +310,6 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
         video.volume = getSavedVolume();
         video.muted = getSavedMuted();
 
-        // Load info
-        loadInfo();
-
         // Auto-save every 10 seconds
         saveIntervalRef.current = window.setInterval(() => {
             const dur = duration || media.duration_seconds;
@@ -284,11 +348,6 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
         };
         document.addEventListener('visibilitychange', handleVisibilityChange);
 
-        // Start playing if autoPlay
-        if (autoPlay) {
-            video.play().catch(console.error);
-        }
-
         return () => {
             if (saveIntervalRef.current) clearInterval(saveIntervalRef.current);
             if (hideControlsTimeout.current) clearTimeout(hideControlsTimeout.current);
@@ -306,6 +365,93 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
         };
     }, [media.id, autoPlay, savePosition, duration, media.duration_seconds]);
 
+    // Load saved position and stream info
+    useEffect(() => {
+        let cancelled = false;
+
+        const loadInfo = async () => {
+            let savedPosition = 0;
+            let info: Omit<StreamInfo, 'mediaId' | 'startPosition'> = {};
+            try {
+                const [stateResponse, infoResponse] = await Promise.all([
+                    playbackApi.getState(media.id),
+                    videoApi.getInfo(media.id),
+                ]);
+                savedPosition = stateResponse.data?.position_seconds || 0;
+                info = infoResponse.data;
+            } catch (err) {
+                console.error('Failed to load video info:', err);
+            }
+            if (cancelled) return;
+
+            const dur = media.duration_seconds || 0;
+            const startPosition = savedPosition > 5 && savedPosition < dur - 10 ? savedPosition : 0;
+            setDisplayTime(startPosition);
+
+            // Start with the tracks from the language preferences (chosen by the server)
+            setSubtitleTracks(info.subtitleTracks || []);
+            setCurrentSubtitleTrack(info.defaultSubtitleTrackId ?? null);
+            setAudioTracks(info.audioTracks || []);
+            setCurrentAudioTrack(info.defaultAudioTrackId ?? null);
+            setMarkers(info.markers || []);
+            setStreamInfo({ ...info, mediaId: media.id, startPosition });
+        };
+
+        loadInfo();
+
+        return () => {
+            cancelled = true;
+            resumeRef.current = null;
+        };
+    }, [media.id, media.duration_seconds]);
+
+    // Attach the source: the file itself, or an HLS stream when the server has to
+    // transcode, when an audio track other than the first one is selected or
+    // when an image-based subtitle has to be burned in
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video || !streamInfo || streamInfo.mediaId !== media.id) return;
+
+        const resume = resumeRef.current;
+        resumeRef.current = null;
+        const startPosition = resume ? resume.time : streamInfo.startPosition;
+
+        const firstAudioTrack = streamInfo.audioTracks?.[0]?.id ?? null;
+        const audioTrackId = currentAudioTrack !== firstAudioTrack ? currentAudioTrack : null;
+
+        if (streamInfo.willTranscode || audioTrackId !== null || burnInSubtitle !== null) {
+            const hlsUrl = videoApi.getHlsUrl(media.id, audioTrackId, burnInSubtitle);
+            if (Hls.isSupported()) {
+                const hls = new Hls({ startPosition });
+                hls.loadSource(hlsUrl);
+                hls.attachMedia(video);
+                hlsRef.current = hls;
+            } else {
+                // Safari plays HLS natively
+                video.src = hlsUrl;
+                video.currentTime = startPosition;
+            }
+        } else {
+            video.src = streamInfo.streamUrl || videoApi.getStreamUrl(media.id);
+            video.currentTime = startPosition;
+        }
+
+        if (resume ? resume.playing : autoPlay) {
+            video.play().catch(console.error);
+        }
+
+        return () => {
+            if (hlsRef.current) {
+                hlsRef.current.destroy();
+                hlsRef.current = null;
+            }
+        };
+    }, [streamInfo, currentAudioTrack, burnInSubtitle, media.id, autoPlay]);
+
+    useEffect(() => {
+        creditsStartRef.current = markers.find(m => m.type === 'credits')?.start_seconds ?? null;
+    }, [markers]);
+
     // Next Episode Countdown effect
     useEffect(() => {
         let countdownInterval: any;
@@ -330,6 +476,57 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
         };
     }, [nextEpisodeCountdown, isPlaying, nextEpisode, navigate]);
 
+    // Shift the loaded cues right away, the server applies the saved delay the next time the track loads
+    const changeSubtitleOffset = useCallback((offsetMs: number) => {
+        if (!currentTextTrack) return;
+        const next = Math.max(-MAX_SUBTITLE_OFFSET, Math.min(MAX_SUBTITLE_OFFSET, offsetMs));
+        const delta = (next - subtitleOffset) / 1000;
+        if (delta === 0) return;
+
+        const video = videoRef.current;
+        const label = getSubtitleLabel(currentTextTrack);
+        if (video) {
+            for (let i = 0; i < video.textTracks.length; i++) {
+                const t = video.textTracks[i];
+                if (t.label !== label || !t.cues) continue;
+                for (const cue of Array.from(t.cues)) {
+                    cue.startTime += delta;
+                    cue.endTime += delta;
+                }
+            }
+        }
+
+        const trackId = currentTextTrack.id;
+        setSubtitleTracks(tracks => tracks.map(t => t.id === trackId ? { ...t, offset_ms: next } : t));
+
+        setSubtitleNotice(`Subtitle delay ${formatOffset(next)}`);
+        if (subtitleNoticeTimeout.current) clearTimeout(subtitleNoticeTimeout.current);
+        subtitleNoticeTimeout.current = window.setTimeout(() => setSubtitleNotice(null), 1500);
+
+        // The saved delay is shared by everyone, viewers only shift this playback
+        if (!isAdmin) return;
+        if (saveOffsetTimeout.current) clearTimeout(saveOffsetTimeout.current);
+        saveOffsetTimeout.current = window.setTimeout(() => {
+            videoApi.setSubtitleOffset(media.id, trackId, next).catch(console.error);
+        }, 500);
+    }, [currentTextTrack, subtitleOffset, media.id, isAdmin]);
+
+    // Jump to the next chapter, or back to the start of this one / the previous one
+    const seekChapter = useCallback((chapters: Chapter[], direction: 1 | -1) => {
+        if (direction === 1) {
+            const next = chapters.find(c => c.start_seconds > displayTime + 0.5);
+            if (next) seekToTime(next.start_seconds);
+            return;
+        }
+        const current = getChapterAt(chapters, displayTime);
+        if (current && displayTime - current.start_seconds > CHAPTER_RESTART_SECONDS) {
+            seekToTime(current.start_seconds);
+            return;
+        }
+        const previous = current ? chapters[chapters.indexOf(current) - 1] : undefined;
+        seekToTime(previous ? previous.start_seconds : 0);
+    }, [displayTime, seekToTime]);
+
     // Keyboard shortcuts
     useEffect(() => {
         const video = videoRef.current;
@@ -384,6 +581,21 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
                         onClose();
                     }
                     break;
+                case 'g':
+                    e.preventDefault();
+                    changeSubtitleOffset(subtitleOffset - SUBTITLE_OFFSET_STEP);
+                    break;
+                case 'h':
+                    e.preventDefault();
+                    changeSubtitleOffset(subtitleOffset + SUBTITLE_OFFSET_STEP);
+                    break;
+                case 'pagedown':
+                case 'pageup':
+                    if (media.chapters?.length) {
+                        e.preventDefault();
+                        seekChapter(media.chapters, e.key.toLowerCase() === 'pagedown' ? 1 : -1);
+                    }
+                    break;
                 case '0': case '1': case '2': case '3': case '4':
                 case '5': case '6': case '7': case '8': case '9':
                     e.preventDefault();
@@ -394,7 +606,7 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
 
         document.addEventListener('keydown', handleKeyDown);
         return () => document.removeEventListener('keydown', handleKeyDown);
-    }, [onClose, showControlsTemporarily, duration, media.duration_seconds, displayTime, seekToTime]);
+    }, [onClose, showControlsTemporarily, duration, media.duration_seconds, media.chapters, displayTime, seekToTime, seekChapter, changeSubtitleOffset, subtitleOffset]);
 
     // Control functions
     const togglePlay = () => {
@@ -480,6 +692,51 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
         seekToTime(displayTime + seconds);
     };
 
+    // Picked tracks carry over to the next episodes of a series
+    const rememberTracks = (audioTrackId: number | null, subtitleTrackId: number | null) => {
+        playbackApi.saveTracks(media.id, audioTrackId, subtitleTrackId).catch(console.error);
+    };
+
+    const selectSubtitleTrack = (track: SubtitleTrack | null) => {
+        const video = videoRef.current;
+        setShowSubtitlesMenu(false);
+        const trackId = track?.id ?? null;
+        if (!video || trackId === currentSubtitleTrack) return;
+
+        rememberTracks(currentAudioTrack, trackId);
+
+        // Image-based tracks are burned into the stream, reload it at the same position
+        if (burnInSubtitle !== null || track?.image_based) {
+            resumeRef.current = { time: video.currentTime || displayTime, playing: !video.paused };
+            setIsLoading(true);
+            isLoadingRef.current = true;
+        }
+
+        // Show the matching text track, if any
+        const label = track && !track.image_based ? getSubtitleLabel(track) : null;
+        for (let i = 0; i < video.textTracks.length; i++) {
+            const t = video.textTracks[i];
+            // Match by label/language as source might re-order or we can't easily match ID to TextTrack object
+            t.mode = t.label === label ? 'showing' : 'disabled';
+        }
+
+        setCurrentSubtitleTrack(trackId);
+    };
+
+    const selectAudioTrack = (trackId: number) => {
+        const video = videoRef.current;
+        setShowAudioMenu(false);
+        if (!video || trackId === currentAudioTrack) return;
+
+        rememberTracks(trackId, currentSubtitleTrack);
+
+        // Reload at the same position with the new track
+        resumeRef.current = { time: video.currentTime || displayTime, playing: !video.paused };
+        setIsLoading(true);
+        isLoadingRef.current = true;
+        setCurrentAudioTrack(trackId);
+    };
+
     const setSpeed = (rate: number) => {
         const video = videoRef.current;
         if (!video) return;
@@ -525,6 +782,12 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
         isDraggingRef.current = false;
     }, [duration, media.duration_seconds, seekToTime]);
 
+    const handleScrubberHover = (e: React.MouseEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const x = Math.max(0, Math.min(e.clientX - rect.left, rect.width));
+        setHoverTime((x / rect.width) * (duration || media.duration_seconds || 0));
+    };
+
     // Attach global mouse listeners when dragging
     useEffect(() => {
         if (isDragging) {
@@ -539,6 +802,17 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
 
     const actualDuration = duration || media.duration_seconds || 0;
     const progress = actualDuration > 0 ? (displayTime / actualDuration) * 100 : 0;
+    const chapters = media.chapters ?? [];
+    // Seek preview follows the drag, or the mouse when just hovering
+    const previewTime = isDragging ? displayTime : hoverTime;
+    const previewThumbnail = previewTime !== null ? getThumbnailAt(previewTime) : null;
+    const previewChapter = previewTime !== null ? getChapterAt(chapters, previewTime) : undefined;
+    const previewHalfWidth = (previewThumbnail?.width ?? 0) / 2;
+    const currentChapter = getChapterAt(chapters, displayTime);
+    // Intro or recap playing right now, the button goes away for its last second
+    const skippableMarker = markers.find(m =>
+        m.type !== 'credits' && displayTime >= m.start_seconds && displayTime < m.end_seconds - 1
+    );
 
     // Unified click handler for Video element
     const handleVideoClick = (e: React.MouseEvent | React.PointerEvent) => {
@@ -569,7 +843,6 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
             {/* Video Element */}
             <video
                 ref={videoRef}
-                src={videoApi.getStreamUrl(media.id)}
                 crossOrigin="anonymous"
                 autoPlay={autoPlay}
                 playsInline
@@ -577,18 +850,27 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
                 style={{ maxHeight: '100vh' }}
                 onClick={handleVideoClick} // Use new handler
             >
-                {subtitleTracks.map(track => (
+                {subtitleTracks.filter(track => !track.image_based).map(track => (
                     <track
                         key={track.id}
                         kind="subtitles"
                         src={videoApi.getSubtitleUrl(media.id, track.id)}
-                        label={track.label || track.title || track.language_name || track.language_code}
+                        label={getSubtitleLabel(track)}
                         srcLang={track.language_code}
                         default={track.id === currentSubtitleTrack}
                     />
                 ))}
             </video>
 
+            <style>{getCueCss(subtitleStyle)}</style>
+
+            {/* Subtitle Delay Notice */}
+            {subtitleNotice && (
+                <div className="absolute top-20 left-1/2 -translate-x-1/2 px-4 py-2 rounded-lg bg-black/70 text-white text-sm pointer-events-none z-20">
+                    {subtitleNotice}
+                </div>
+            )}
+
             {/* Loading Indicator */}
             {isLoading && (
                 <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
@@ -658,7 +940,32 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
                     className="relative h-2 bg-white/20 rounded-full cursor-pointer group mb-4 hover:h-3 transition-all"
                     style={{ touchAction: 'none' }}
                     onMouseDown={handleScrubberMouseDown}
+                    onMouseMove={handleScrubberHover}
+                    onMouseLeave={() => setHoverTime(null)}
                 >
+                    {/* Seek Preview */}
+                    {previewTime !== null && actualDuration > 0 && (
+                        <div
+                            className="absolute bottom-full mb-3 -translate-x-1/2 flex flex-col items-center gap-1 pointer-events-none"
+                            style={{ left: `clamp(${previewHalfWidth}px, ${(previewTime / actualDuration) * 100}%, calc(100% - ${previewHalfWidth}px))` }}
+                        >
+                            {previewThumbnail && (
+                                <div
+                                    className="rounded-md border border-white/30 shadow-xl bg-black"
+                                    style={{
+                                        width: previewThumbnail.width,
+                                        height: previewThumbnail.height,
+                                        backgroundImage: `url(${previewThumbnail.url})`,
+                                        backgroundPosition: `-${previewThumbnail.x}px -${previewThumbnail.y}px`,
+                                    }}
+                                />
+                            )}
+                            <span className="px-2 py-0.5 rounded bg-black/80 text-white text-xs font-mono">
+                                {formatTime(previewTime)}
+                                {previewChapter && ` · ${getChapterTitle(previewChapter)}`}
+                            </span>
+                        </div>
+                    )}
                     {/* Buffered */}
                     <div
                         className="absolute top-0 left-0 h-full bg-white/30 rounded-full transition-all"
@@ -669,6 +976,14 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
                         className="absolute top-0 left-0 h-full bg-teal-500 rounded-full transition-all"
                         style={{ width: `${progress}%` }}
                     />
+                    {/* Chapter Ticks */}
+                    {actualDuration > 0 && chapters.filter(c => c.start_seconds > 0).map(chapter => (
+                        <div
+                            key={chapter.id}
+                            className="absolute top-0 h-full w-0.5 bg-black/70 pointer-events-none"
+                            style={{ left: `${(chapter.start_seconds / actualDuration) * 100}%` }}
+                        />
+                    ))}
                     {/* Thumb */}
                     <div
                         className={`absolute top-1/2 -translate-y-1/2 w-4 h-4 bg-teal-500 rounded-full shadow-lg transition-transform ${isDragging ? 'scale-100' : 'scale-0 group-hover:scale-100'}`}
@@ -718,10 +1033,50 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
                         <span className="text-white text-sm ml-2 font-mono">
                             {formatTime(displayTime)} / {formatTime(actualDuration)}
                         </span>
+                        {currentChapter && (
+                            <span className="text-white/60 text-sm ml-2 truncate max-w-48">
+                                • {getChapterTitle(currentChapter)}
+                            </span>
+                        )}
                     </div>
 
                     {/* Right Controls */}
                     <div className="flex items-center gap-1">
+                        {/* Chapters */}
+                        {chapters.length > 0 && (
+                            <div className="relative">
+                                <button
+                                    onClick={() => {
+                                        setShowChapterMenu(!showChapterMenu);
+                                        setShowSubtitlesMenu(false);
+                                        setShowAudioMenu(false);
+                                        setShowMarkerMenu(false);
+                                        setShowSettings(false);
+                                    }}
+                                    className={`p-2 rounded-full transition-colors ${showChapterMenu ? 'text-teal-400 bg-white/10' : 'text-white hover:bg-white/10'
+                                        }`}
+                                    title="Chapters (PgUp / PgDn)"
+                                >
+                                    <ListVideo className="w-5 h-5" />
+                                </button>
+                                {showChapterMenu && (
+                                    <div className="absolute bottom-full right-0 mb-2 bg-black/95 rounded-lg py-2 min-w-[240px] shadow-xl max-h-72 overflow-y-auto z-20">
+                                        {chapters.map(chapter => (
+                                            <button
+                                                key={chapter.id}
+                                                onClick={() => seekToTime(chapter.start_seconds)}
+                                                className={`w-full flex items-center justify-between gap-4 px-4 py-2 text-sm text-left hover:bg-white/10 ${currentChapter?.id === chapter.id ? 'text-teal-400' : 'text-white'
+                                                    }`}
+                                            >
+                                                <span className="truncate">{getChapterTitle(chapter)}</span>
+                                                <span className="text-xs text-gray-400 font-mono">{formatTime(chapter.start_seconds)}</span>
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
                         {/* Subtitles */}
                         {subtitleTracks.length > 0 && (
                             <div className="relative">
@@ -729,6 +1084,9 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
                                     onClick={() => {
                                         setShowSubtitlesMenu(!showSubtitlesMenu);
                                         setShowSettings(false);
+                                        setShowAudioMenu(false);
+                                        setShowMarkerMenu(false);
+                                        setShowChapterMenu(false);
                                     }}
                                     className={`p-2 rounded-full transition-colors ${currentSubtitleTrack !== null ? 'text-teal-400 bg-white/10' : 'text-white hover:bg-white/10'
                                         }`}
@@ -739,18 +1097,7 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
                                 {showSubtitlesMenu && (
                                     <div className="absolute bottom-full right-0 mb-2 bg-black/95 rounded-lg py-2 min-w-[150px] shadow-xl max-h-60 overflow-y-auto z-20">
                                         <button
-                                            onClick={() => {
-                                                setCurrentSubtitleTrack(null);
-                                                setShowSubtitlesMenu(false);
-
-                                                // Disable all tracks
-                                                const video = videoRef.current;
-                                                if (video) {
-                                                    for (let i = 0; i < video.textTracks.length; i++) {
-                                                        video.textTracks[i].mode = 'disabled';
-                                                    }
-                                                }
-                                            }}
+                                            onClick={() => selectSubtitleTrack(null)}
                                             className={`w-full px-4 py-2 text-sm text-left hover:bg-white/10 ${currentSubtitleTrack === null ? 'text-teal-400' : 'text-white'
                                                 }`}
                                         >
@@ -759,36 +1106,105 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
                                         {subtitleTracks.map(track => (
                                             <button
                                                 key={track.id}
-                                                onClick={() => {
-                                                    setCurrentSubtitleTrack(track.id);
-                                                    setShowSubtitlesMenu(false);
-
-                                                    // Enable specific track
-                                                    const video = videoRef.current;
-                                                    if (video) {
-                                                        const label = track.label || track.title || track.language_name || track.language_code;
-
-                                                        let found = false;
-                                                        for (let i = 0; i < video.textTracks.length; i++) {
-                                                            const t = video.textTracks[i];
-                                                            // Match by label/language as source might re-order or we can't easily match ID to TextTrack object
-                                                            if (t.label === label) {
-                                                                t.mode = 'showing';
-                                                                found = true;
-                                                            } else {
-                                                                t.mode = 'disabled';
-                                                            }
-                                                        }
-                                                        void found; // Silence unused variable warning
-                                                    }
-                                                }}
+                                                onClick={() => selectSubtitleTrack(track)}
                                                 className={`w-full px-4 py-2 text-sm text-left hover:bg-white/10 ${currentSubtitleTrack === track.id ? 'text-teal-400' : 'text-white'
                                                     }`}
                                             >
-                                                {track.label || track.title || track.language_name || track.language_code}
+                                                {getSubtitleLabel(track)}
                                                 {track.is_forced ? ' (Forced)' : ''}
                                             </button>
                                         ))}
+                                        {currentTextTrack && (
+                                            <div className="mt-2 pt-2 px-4 border-t border-white/10">
+                                                <div className="flex items-center justify-between text-xs text-gray-400 mb-1">
+                                                    <span>Delay</span>
+                                                    <button
+                                                        onClick={() => changeSubtitleOffset(0)}
+                                                        className="hover:text-white"
+                                                        title="Reset delay"
+                                                    >
+                                                        {formatOffset(subtitleOffset)}
+                                                    </button>
+                                                </div>
+                                                <input
+                                                    type="range"
+                                                    min={-MAX_SUBTITLE_OFFSET}
+                                                    max={MAX_SUBTITLE_OFFSET}
+                                                    step={SUBTITLE_OFFSET_STEP}
+                                                    value={subtitleOffset}
+                                                    onChange={(e) => changeSubtitleOffset(parseInt(e.target.value))}
+                                                    className="w-full accent-teal-500"
+                                                />
+                                                <p className="text-xs text-gray-500 mt-1">G / H to adjust</p>
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Audio Tracks */}
+                        {audioTracks.length > 1 && (
+                            <div className="relative">
+                                <button
+                                    onClick={() => {
+                                        setShowAudioMenu(!showAudioMenu);
+                                        setShowSubtitlesMenu(false);
+                                        setShowSettings(false);
+                                        setShowMarkerMenu(false);
+                                        setShowChapterMenu(false);
+                                    }}
+                                    className="p-2 text-white hover:bg-white/10 rounded-full transition-colors"
+                                    title="Audio"
+                                >
+                                    <AudioLines className="w-5 h-5" />
+                                </button>
+                                {showAudioMenu && (
+                                    <div className="absolute bottom-full right-0 mb-2 bg-black/95 rounded-lg py-2 min-w-[200px] shadow-xl max-h-60 overflow-y-auto z-20">
+                                        {audioTracks.map(track => (
+                                            <button
+                                                key={track.id}
+                                                onClick={() => selectAudioTrack(track.id)}
+                                                className={`w-full px-4 py-2 text-sm text-left hover:bg-white/10 whitespace-nowrap ${currentAudioTrack === track.id ? 'text-teal-400' : 'text-white'
+                                                    }`}
+                                            >
+                                                {formatAudioTrack(track)}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        {/* Markers, shared by everyone so only admins edit them */}
+                        {isAdmin && (
+                            <div className="relative">
+                                <button
+                                    onClick={() => {
+                                        setShowMarkerMenu(!showMarkerMenu);
+                                        setShowSubtitlesMenu(false);
+                                        setShowAudioMenu(false);
+                                        setShowSettings(false);
+                                        setShowChapterMenu(false);
+                                    }}
+                                    className={`p-2 rounded-full transition-colors ${showMarkerMenu ? 'text-teal-400 bg-white/10' : 'text-white hover:bg-white/10'
+                                        }`}
+                                    title="Intro & credits markers"
+                                >
+                                    <Bookmark className="w-5 h-5" />
+                                </button>
+                                {showMarkerMenu && (
+                                    <div className="absolute bottom-full right-0 mb-2 bg-black/95 rounded-lg py-2 shadow-xl z-20">
+                                        <MarkerEditor
+                                            mediaId={media.id}
+                                            markers={markers}
+                                            currentTime={displayTime}
+                                            duration={actualDuration}
+                                            canDetect={media.media_type === 'tv'}
+                                            formatTime={formatTime}
+                                            onChange={setMarkers}
+                                            onSeek={seekToTime}
+                                        />
                                     </div>
                                 )}
                             </div>
@@ -797,7 +1213,12 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
                         {/* Playback Speed */}
                         <div className="relative">
                             <button
-                                onClick={() => setShowSettings(!showSettings)}
+                                onClick={() => {
+                                    setShowSettings(!showSettings);
+                                    setShowAudioMenu(false);
+                                    setShowMarkerMenu(false);
+                                    setShowChapterMenu(false);
+                                }}
                                 className="px-3 py-2 text-white hover:bg-white/10 rounded-lg transition-colors text-sm font-medium"
                             >
                                 {playbackRate}x
@@ -827,10 +1248,21 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
 
                 {/* Keyboard Shortcuts Hint */}
                 <div className="text-center text-white/40 text-xs mt-2">
-                    Space: Play • J/L: ±30s • ←/→: ±10s • 0-9: Jump • M: Mute • F: Fullscreen
+                    Space: Play • J/L: ±30s • ←/→: ±10s • 0-9: Jump{chapters.length > 0 && ' • PgUp/PgDn: Chapters'} • M: Mute • F: Fullscreen
                 </div>
             </div>
 
+            {/* Skip Intro / Recap */}
+            {skippableMarker && (
+                <button
+                    onClick={() => seekToTime(skippableMarker.end_seconds)}
+                    className="absolute bottom-32 right-8 z-40 flex items-center gap-2 px-5 py-3 bg-gray-900/90 border border-gray-700 text-white font-medium rounded-lg shadow-2xl hover:bg-white hover:text-black transition-colors"
+                >
+                    <SkipForward className="w-5 h-5" />
+                    Skip {skippableMarker.type === 'intro' ? 'Intro' : 'Recap'}
+                </button>
+            )}
+
             {/* Next Episode Overlay */}
             {nextEpisode && nextEpisodeCountdown !== null && (
                 <div className="absolute bottom-32 right-8 bg-gray-900/90 border border-gray-700 p-4 rounded-lg shadow-2xl animate-fadeInUp max-w-sm z-50">
@@ -847,7 +1279,10 @@ export default function VideoPlayer({ media, nextEpisode, onClose, autoPlay = tr
                             Play Now
                         </button>
                         <button
-                            onClick={() => setNextEpisodeCountdown(null)}
+                            onClick={() => {
+                                countdownDismissedRef.current = true;
+                                setNextEpisodeCountdown(null);
+                            }}
                             className="px-3 py-2 text-gray-400 hover:text-white transition-colors"
                         >
                             Cancel
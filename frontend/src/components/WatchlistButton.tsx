@@ -0,0 +1,52 @@
+import { useState } from 'react';
+import { BookmarkPlus, BookmarkCheck } from 'lucide-react';
+import { useWatchlist, toggleWatchlist } from '../hooks/useWatchlist';
+
+interface WatchlistButtonProps {
+    mediaId: number;
+    compact?: boolean; // Round icon button for posters
+}
+
+/**
+ * Add to or remove from "My List"
+ */
+export default function WatchlistButton({ mediaId, compact = false }: WatchlistButtonProps) {
+    const { isOnWatchlist } = useWatchlist();
+    const [saving, setSaving] = useState(false);
+    const onList = isOnWatchlist(mediaId);
+    const Icon = onList ? BookmarkCheck : BookmarkPlus;
+
+    const handleClick = async (e: React.MouseEvent) => {
+        // Cards are links, the toggle must not open the details page
+        e.preventDefault();
+        e.stopPropagation();
+        setSaving(true);
+        try {
+            await toggleWatchlist(mediaId);
+        } catch (err) {
+            console.error('Failed to update watchlist:', err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (compact) {
+        return (
+            <button
+                onClick={handleClick}
+                disabled={saving}
+                title={onList ? 'Remove from My List' : 'Add to My List'}
+                className={`w-8 h-8 rounded-full flex items-center justify-center transition-colors ${onList ? 'bg-teal-500 text-white' : 'bg-black/70 text-white hover:bg-black/90'}`}
+            >
+                <Icon className="w-4 h-4" />
+            </button>
+        );
+    }
+
+    return (
+        <button onClick={handleClick} disabled={saving} className="btn-secondary">
+            <Icon className="w-5 h-5" />
+            {onList ? 'On My List' : 'My List'}
+        </button>
+    );
+}
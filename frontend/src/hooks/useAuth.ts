@@ -0,0 +1,75 @@
+import { useSyncExternalStore } from 'react';
+import { authApi, AUTH_EXPIRED_EVENT } from '../api/client';
+import { queryClient } from '../queryClient';
+import type { Account } from '../types';
+
+type AuthState =
+    | { status: 'loading'; account: null }
+    | { status: 'setup'; account: null } // No accounts yet, the first one becomes admin
+    | { status: 'signed-out'; account: null }
+    | { status: 'signed-in'; account: Account };
+
+// Shared by every component, the session cookie itself isn't readable from JS
+let authState: AuthState = { status: 'loading', account: null };
+const listeners = new Set<() => void>();
+
+function setAuthState(next: AuthState) {
+    authState = next;
+    listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+window.addEventListener(AUTH_EXPIRED_EVENT, () => {
+    if (authState.status === 'signed-in') {
+        queryClient.clear();
+        setAuthState({ status: 'signed-out', account: null });
+    }
+});
+
+/**
+ * Ask the server who is signed in
+ */
+export async function refreshAuth() {
+    try {
+        const response = await authApi.me();
+        const { account, setupRequired } = response.data;
+        if (account) {
+            setAuthState({ status: 'signed-in', account });
+        } else {
+            setAuthState({ status: setupRequired ? 'setup' : 'signed-out', account: null });
+        }
+    } catch (err) {
+        console.error('Failed to check sign-in:', err);
+        setAuthState({ status: 'signed-out', account: null });
+    }
+}
+
+/**
+ * Sign in, or create the first admin account when the server has none
+ */
+export async function signIn(username: string, password: string) {
+    const response = authState.status === 'setup'
+        ? await authApi.setup(username, password)
+        : await authApi.login(username, password);
+    setAuthState({ status: 'signed-in', account: response.data.account });
+}
+
+export async function signOut() {
+    try {
+        await authApi.logout();
+    } finally {
+        queryClient.clear();
+        setAuthState({ status: 'signed-out', account: null });
+    }
+}
+
+export function useAuth() {
+    const state = useSyncExternalStore(subscribe, () => authState);
+    return { ...state, isAdmin: state.account?.role === 'admin' };
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { collectionsApi } from '../api/client';
+import type { CollectionSummary, CollectionDetails } from '../types';
+
+export function useCollections() {
+    const [collections, setCollections] = useState<CollectionSummary[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchCollections = useCallback(async () => {
+        setError(null);
+        try {
+            const response = await collectionsApi.getAll();
+            setCollections(response.data.data);
+        } catch (err) {
+            setError('Failed to fetch collections');
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchCollections();
+    }, [fetchCollections]);
+
+    return { collections, loading, error, refetch: fetchCollections };
+}
+
+export function useCollection(collectionId?: number | null) {
+    const [collection, setCollection] = useState<CollectionDetails | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchCollection = useCallback(async () => {
+        if (!collectionId) {
+            setCollection(null);
+            return;
+        }
+
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await collectionsApi.getById(collectionId);
+            setCollection(response.data);
+        } catch (err) {
+            setError('Failed to fetch collection');
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    }, [collectionId]);
+
+    useEffect(() => {
+        fetchCollection();
+    }, [fetchCollection]);
+
+    return { collection, loading, error, refetch: fetchCollection };
+}
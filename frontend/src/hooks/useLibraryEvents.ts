@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+
+export interface LibraryEvent {
+    type: 'added' | 'updated' | 'removed' | 'renamed';
+    data: { mediaId: number; filePath?: string; from?: string; to?: string };
+}
+
+/**
+ * Subscribe to library changes picked up by the backend file watcher.
+ * Bursts of events (e.g. copying a season folder) are collapsed into one callback.
+ */
+export function useLibraryEvents(onChange: (events: LibraryEvent[]) => void, debounceMs = 1000) {
+    const onChangeRef = useRef(onChange);
+
+    useEffect(() => {
+        onChangeRef.current = onChange;
+    }, [onChange]);
+
+    useEffect(() => {
+        const eventSource = new EventSource('/api/watcher/events');
+        let pending: LibraryEvent[] = [];
+        let timer: ReturnType<typeof setTimeout> | null = null;
+
+        eventSource.onmessage = (event) => {
+            try {
+                const data = JSON.parse(event.data);
+                if (data.type === 'status') return;
+
+                pending.push(data);
+                if (timer) clearTimeout(timer);
+                timer = setTimeout(() => {
+                    const events = pending;
+                    pending = [];
+                    onChangeRef.current(events);
+                }, debounceMs);
+            } catch (e) {
+                console.error('SSE parse error:', e);
+            }
+        };
+
+        return () => {
+            if (timer) clearTimeout(timer);
+            eventSource.close();
+        };
+    }, [debounceMs]);
+}
@@ -0,0 +1,139 @@
+import { useEffect, useRef, type RefObject } from 'react';
+import { isAxiosError } from 'axios';
+import { sessionsApi } from '../api/client';
+import type { SessionUpdate, StreamMode } from '../types';
+
+// The server ends sessions that miss three heartbeats in a row
+const HEARTBEAT_INTERVAL = 15000;
+
+const CLIENT_NAME = 'Nebula Web';
+
+// "Firefox on Windows" and the like, shown in the list of active viewers
+function describeDevice(): string {
+    const ua = navigator.userAgent;
+    const browser = /Edg\//.test(ua) ? 'Edge'
+        : /Firefox\//.test(ua) ? 'Firefox'
+        : /Chrome\//.test(ua) ? 'Chrome'
+        : /Safari\//.test(ua) ? 'Safari'
+        : 'Browser';
+    const os = /Android/.test(ua) ? 'Android'
+        : /iPhone|iPad/.test(ua) ? 'iOS'
+        : /Windows/.test(ua) ? 'Windows'
+        : /Mac OS X/.test(ua) ? 'macOS'
+        : /Linux/.test(ua) ? 'Linux'
+        : null;
+    return os ? `${browser} on ${os}` : browser;
+}
+
+/**
+ * Tell the server what is playing, from when the stream is chosen until the player closes
+ * streamMode is null until the player knows how it will stream the file.
+ */
+export function usePlaybackSession(
+    videoRef: RefObject<HTMLVideoElement | null>,
+    mediaId: number,
+    streamMode: StreamMode | null,
+    audioTrackId: number | null,
+    subtitleTrackId: number | null
+) {
+    const sessionIdRef = useRef<string | null>(null);
+    const streamRef = useRef({ streamMode, audioTrackId, subtitleTrackId });
+    const ready = streamMode !== null;
+
+    // Start the session once the stream is known, end it when the player closes
+    useEffect(() => {
+        if (!ready) return;
+        const video = videoRef.current;
+        let ended = false;
+
+        const getUpdate = (): SessionUpdate => ({
+            position: Math.round(video?.currentTime || 0),
+            state: video && !video.paused ? 'playing' : 'paused',
+            streamMode: streamRef.current.streamMode ?? undefined,
+            audioTrackId: streamRef.current.audioTrackId,
+            subtitleTrackId: streamRef.current.subtitleTrackId,
+        });
+
+        const start = async () => {
+            try {
+                const response = await sessionsApi.start(mediaId, getUpdate(), { name: CLIENT_NAME, device: describeDevice() });
+                if (ended) {
+                    sessionsApi.stop(response.data.id).catch(console.error);
+                } else {
+                    sessionIdRef.current = response.data.id;
+                }
+            } catch (err) {
+                console.error('Failed to start playback session:', err);
+            }
+        };
+
+        const heartbeat = async () => {
+            const sessionId = sessionIdRef.current;
+            if (!sessionId) {
+                start();
+                return;
+            }
+            try {
+                await sessionsApi.heartbeat(sessionId, getUpdate());
+            } catch (err) {
+                // The server forgot the session (restart or timeout), start a new one
+                if (isAxiosError(err) && err.response?.status === 404 && sessionIdRef.current === sessionId) {
+                    sessionIdRef.current = null;
+                    start();
+                } else {
+                    console.error('Playback session heartbeat failed:', err);
+                }
+            }
+        };
+
+        const handlePause = () => {
+            const sessionId = sessionIdRef.current;
+            if (sessionId) sessionsApi.pause(sessionId, getUpdate()).catch(console.error);
+        };
+
+        // A normal request may be cancelled while the page unloads, a beacon isn't
+        const handlePageHide = () => {
+            const sessionId = sessionIdRef.current;
+            if (!sessionId) return;
+            const body = new Blob([JSON.stringify({ position: getUpdate().position })], { type: 'application/json' });
+            navigator.sendBeacon(sessionsApi.getStopUrl(sessionId), body);
+            sessionIdRef.current = null;
+        };
+
+        start();
+        const interval = window.setInterval(heartbeat, HEARTBEAT_INTERVAL);
+        video?.addEventListener('pause', handlePause);
+        video?.addEventListener('play', heartbeat);
+        window.addEventListener('pagehide', handlePageHide);
+
+        return () => {
+            ended = true;
+            clearInterval(interval);
+            video?.removeEventListener('pause', handlePause);
+            video?.removeEventListener('play', heartbeat);
+            window.removeEventListener('pagehide', handlePageHide);
+
+            const sessionId = sessionIdRef.current;
+            sessionIdRef.current = null;
+            if (sessionId) {
+                sessionsApi.stop(sessionId, getUpdate().position).catch(console.error);
+            }
+        };
+    }, [ready, mediaId, videoRef]);
+
+    // Switching tracks or to HLS is reported right away, the encoder depends on it
+    useEffect(() => {
+        streamRef.current = { streamMode, audioTrackId, subtitleTrackId };
+
+        const sessionId = sessionIdRef.current;
+        const video = videoRef.current;
+        if (!sessionId || !streamMode) return;
+        sessionsApi.heartbeat(sessionId, {
+            position: Math.round(video?.currentTime || 0),
+            state: video && !video.paused ? 'playing' : 'paused',
+            streamMode,
+            audioTrackId,
+            subtitleTrackId,
+        }).catch(console.error);
+    }, [streamMode, audioTrackId, subtitleTrackId, videoRef]);
+}
@@ -0,0 +1,64 @@
+import { useState, useEffect, useCallback, useSyncExternalStore } from 'react';
+import { profilesApi, getActiveProfileId, PROFILE_CHANGE_EVENT } from '../api/client';
+import type { Profile } from '../types';
+
+function subscribe(onChange: () => void) {
+    // 'storage' covers switching profiles in another tab
+    window.addEventListener(PROFILE_CHANGE_EVENT, onChange);
+    window.addEventListener('storage', onChange);
+    return () => {
+        window.removeEventListener(PROFILE_CHANGE_EVENT, onChange);
+        window.removeEventListener('storage', onChange);
+    };
+}
+
+/**
+ * ID of the profile this browser is using, null until one is picked
+ */
+export function useActiveProfileId(): number | null {
+    return useSyncExternalStore(subscribe, getActiveProfileId);
+}
+
+export function useProfiles() {
+    const [profiles, setProfiles] = useState<Profile[]>([]);
+    const [colors, setColors] = useState<string[]>([]);
+    const [certifications, setCertifications] = useState<string[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchProfiles = useCallback(async () => {
+        setError(null);
+        try {
+            const response = await profilesApi.getAll();
+            setProfiles(response.data.data);
+            setColors(response.data.colors);
+            setCertifications(response.data.certifications);
+        } catch (err) {
+            setError('Failed to fetch profiles');
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        fetchProfiles();
+    }, [fetchProfiles]);
+
+    return { profiles, colors, certifications, loading, error, refetch: fetchProfiles };
+}
+
+/**
+ * The active profile itself, for showing who is watching
+ */
+export function useActiveProfile(): Profile | null {
+    const profileId = useActiveProfileId();
+    const { profiles, refetch } = useProfiles();
+
+    // A profile added on the selection screen isn't in the list yet
+    useEffect(() => {
+        refetch();
+    }, [profileId, refetch]);
+
+    return profiles.find(p => p.id === profileId) ?? null;
+}
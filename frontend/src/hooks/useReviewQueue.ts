@@ -0,0 +1,31 @@
+import { useState, useEffect, useCallback } from 'react';
+import { reviewApi } from '../api/client';
+import type { ReviewItem } from '../types';
+
+export function useReviewQueue(threshold?: number) {
+    const [items, setItems] = useState<ReviewItem[]>([]);
+    const [activeThreshold, setActiveThreshold] = useState<number | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchQueue = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await reviewApi.getQueue(threshold);
+            setItems(response.data.items);
+            setActiveThreshold(response.data.threshold);
+        } catch (err) {
+            setError('Failed to fetch review queue');
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    }, [threshold]);
+
+    useEffect(() => {
+        fetchQueue();
+    }, [fetchQueue]);
+
+    return { items, threshold: activeThreshold, loading, error, refetch: fetchQueue };
+}
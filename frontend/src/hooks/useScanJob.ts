@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { isAxiosError } from 'axios';
+import { mediaApi } from '../api/client';
+import type { ScanJob } from '../types';
+
+const PHASE_LABELS: Record<ScanJob['phase'], string> = {
+    discover: 'Finding files',
+    probe: 'Reading files',
+    cleanup: 'Removing missing files',
+    enrich: 'Fetching metadata',
+    done: 'Done',
+};
+
+/**
+ * Short human readable description of a scan job's progress
+ */
+export function describeScanProgress(job: ScanJob): string {
+    const label = PHASE_LABELS[job.phase];
+    return job.total > 0 ? `${label} ${job.current}/${job.total}` : `${label}...`;
+}
+
+/**
+ * Follow the background library scan over SSE and start/cancel it
+ */
+export function useScanJob(onFinished?: (job: ScanJob) => void) {
+    const [job, setJob] = useState<ScanJob | null>(null);
+    const onFinishedRef = useRef(onFinished);
+
+    useEffect(() => {
+        onFinishedRef.current = onFinished;
+    }, [onFinished]);
+
+    useEffect(() => {
+        const eventSource = new EventSource('/api/media/scan/events');
+
+        eventSource.onmessage = (event) => {
+            try {
+                const data = JSON.parse(event.data);
+                setJob(data.data);
+
+                if (data.type === 'completed' || data.type === 'cancelled' || data.type === 'failed') {
+                    onFinishedRef.current?.(data.data);
+                }
+            } catch (e) {
+                console.error('SSE parse error:', e);
+            }
+        };
+
+        return () => {
+            eventSource.close();
+        };
+    }, []);
+
+    const startScan = useCallback(async (force = false) => {
+        try {
+            const response = await mediaApi.scan(undefined, true, force);
+            setJob(response.data.job);
+        } catch (err) {
+            // A scan is already running - just follow that one
+            if (isAxiosError(err) && err.response?.status === 409) {
+                setJob(err.response.data.job);
+                return;
+            }
+            throw err;
+        }
+    }, []);
+
+    const cancelScan = useCallback(async () => {
+        if (job?.status === 'running') {
+            await mediaApi.cancelScan(job.id);
+        }
+    }, [job]);
+
+    return {
+        job,
+        scanning: job?.status === 'running',
+        progress: job && job.total > 0 ? Math.round((job.current / job.total) * 100) : 0,
+        startScan,
+        cancelScan,
+    };
+}
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback } from 'react';
+import { showsApi } from '../api/client';
+import type { Show, Season } from '../types';
+
+export function useShow(showId?: number | null) {
+    const [show, setShow] = useState<Show | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchShow = useCallback(async () => {
+        if (!showId) {
+            setShow(null);
+            return;
+        }
+
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await showsApi.getById(showId);
+            setShow(response.data);
+        } catch (err) {
+            setError('Failed to fetch show');
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    }, [showId]);
+
+    useEffect(() => {
+        fetchShow();
+    }, [fetchShow]);
+
+    return { show, loading, error, refetch: fetchShow };
+}
+
+export function useSeason(showId?: number | null, seasonNumber?: number | null) {
+    const [season, setSeason] = useState<Season | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fetchSeason = useCallback(async () => {
+        if (!showId || seasonNumber == null) {
+            setSeason(null);
+            return;
+        }
+
+        setLoading(true);
+        setError(null);
+        try {
+            const response = await showsApi.getSeason(showId, seasonNumber);
+            setSeason(response.data);
+        } catch (err) {
+            setError('Failed to fetch season');
+            console.error(err);
+        } finally {
+            setLoading(false);
+        }
+    }, [showId, seasonNumber]);
+
+    useEffect(() => {
+        fetchSeason();
+    }, [fetchSeason]);
+
+    return { season, loading, error, refetch: fetchSeason };
+}
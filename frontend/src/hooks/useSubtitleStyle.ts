@@ -0,0 +1,97 @@
+import { useState, useEffect, type RefObject } from 'react';
+import { settingsApi } from '../api/client';
+
+export interface SubtitleStyle {
+    size: number; // Percent of the default cue size
+    color: string;
+    background: 'none' | 'translucent' | 'solid';
+    position: 'bottom' | 'raised' | 'top';
+}
+
+const DEFAULT_STYLE: SubtitleStyle = {
+    size: 100,
+    color: '#ffffff',
+    background: 'translucent',
+    position: 'bottom',
+};
+
+const BACKGROUNDS: Record<SubtitleStyle['background'], string> = {
+    none: 'transparent',
+    translucent: 'rgba(0, 0, 0, 0.6)',
+    solid: '#000000',
+};
+
+// VTT line of cues without a position of their own (negative lines count up from the bottom)
+const LINES: Record<SubtitleStyle['position'], LineAndPositionSetting> = {
+    bottom: 'auto',
+    raised: -4,
+    top: 0,
+};
+
+// Whether a cue was positioned by the subtitle file, remembered before we move it
+const positionedByFile = new WeakMap<VTTCue, boolean>();
+
+function parseStyle(settings: Record<string, unknown>): SubtitleStyle {
+    const size = Number(settings.subtitle_size);
+    const background = settings.subtitle_background as SubtitleStyle['background'];
+    const position = settings.subtitle_position as SubtitleStyle['position'];
+    return {
+        size: size > 0 ? size : DEFAULT_STYLE.size,
+        color: typeof settings.subtitle_color === 'string' ? settings.subtitle_color : DEFAULT_STYLE.color,
+        background: background in BACKGROUNDS ? background : DEFAULT_STYLE.background,
+        position: position in LINES ? position : DEFAULT_STYLE.position,
+    };
+}
+
+/**
+ * CSS for the subtitle cues of the player
+ */
+export function getCueCss(style: SubtitleStyle): string {
+    return `video::cue { font-size: ${style.size}%; color: ${style.color}; background-color: ${BACKGROUNDS[style.background]}; }`;
+}
+
+/**
+ * Subtitle appearance from settings, moves the cues of the video to the preferred position
+ */
+export function useSubtitleStyle(videoRef: RefObject<HTMLVideoElement | null>) {
+    const [style, setStyle] = useState<SubtitleStyle>(DEFAULT_STYLE);
+
+    useEffect(() => {
+        settingsApi.getAll()
+            .then(response => setStyle(parseStyle(response.data)))
+            .catch(console.error);
+    }, []);
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video) return;
+
+        const line = LINES[style.position];
+
+        // Cues are positioned as they become active, so tracks loaded later are covered too
+        const handleCueChange = (event: Event) => {
+            const track = event.target as TextTrack;
+            for (const cue of Array.from(track.activeCues || [])) {
+                if (!(cue instanceof VTTCue)) continue;
+                if (!positionedByFile.has(cue)) positionedByFile.set(cue, cue.line !== 'auto');
+                if (!positionedByFile.get(cue) && cue.line !== line) cue.line = line;
+            }
+        };
+
+        const watchTrack = (track: TextTrack) => track.addEventListener('cuechange', handleCueChange);
+        const handleAddTrack = (event: TrackEvent) => {
+            if (event.track instanceof TextTrack) watchTrack(event.track);
+        };
+
+        const tracks = video.textTracks;
+        Array.from(tracks).forEach(watchTrack);
+        tracks.addEventListener('addtrack', handleAddTrack);
+
+        return () => {
+            tracks.removeEventListener('addtrack', handleAddTrack);
+            Array.from(tracks).forEach(track => track.removeEventListener('cuechange', handleCueChange));
+        };
+    }, [videoRef, style.position]);
+
+    return style;
+}
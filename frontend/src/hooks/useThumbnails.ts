@@ -0,0 +1,134 @@
+import { useState, useEffect, useCallback } from 'react';
+import { videoApi, thumbnailsApi } from '../api/client';
+import type { ThumbnailCue, ThumbnailStatus } from '../types';
+
+// "HH:MM:SS.mmm" or "MM:SS.mmm" to seconds
+function parseVttTime(value: string): number {
+    return value.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+/**
+ * Cues of a WebVTT thumbnail index, sheet URLs resolved against baseUrl
+ */
+export function parseThumbnailIndex(vtt: string, baseUrl: string): ThumbnailCue[] {
+    const cues: ThumbnailCue[] = [];
+    const lines = vtt.split(/\r?\n/);
+
+    for (let i = 0; i < lines.length - 1; i++) {
+        const timing = lines[i].match(/^([\d:.]+)\s+-->\s+([\d:.]+)/);
+        if (!timing) continue;
+
+        const region = lines[i + 1].trim().match(/^(.+)#xywh=(\d+),(\d+),(\d+),(\d+)$/);
+        if (!region) continue;
+
+        cues.push({
+            start: parseVttTime(timing[1]),
+            end: parseVttTime(timing[2]),
+            url: baseUrl + region[1],
+            x: parseInt(region[2]),
+            y: parseInt(region[3]),
+            width: parseInt(region[4]),
+            height: parseInt(region[5]),
+        });
+    }
+
+    return cues;
+}
+
+/**
+ * Seek preview thumbnails of a media item, empty until they've been generated
+ */
+export function useThumbnails(mediaId: number) {
+    const [cues, setCues] = useState<ThumbnailCue[]>([]);
+
+    useEffect(() => {
+        let cancelled = false;
+
+        const load = async () => {
+            try {
+                const info = await videoApi.getThumbnails(mediaId);
+                if (!info.data.available) {
+                    if (!cancelled) setCues([]);
+                    return;
+                }
+                const index = await videoApi.getThumbnailIndex(mediaId);
+                if (!cancelled) setCues(parseThumbnailIndex(index.data, videoApi.getThumbnailBaseUrl(mediaId)));
+            } catch (err) {
+                // Scrubbing still works without previews
+                console.error('Failed to load thumbnails:', err);
+                if (!cancelled) setCues([]);
+            }
+        };
+        load();
+
+        return () => {
+            cancelled = true;
+        };
+    }, [mediaId]);
+
+    // Cues are in order and evenly spaced, but a search keeps this independent of the interval
+    const getThumbnailAt = useCallback((time: number): ThumbnailCue | null => {
+        let low = 0;
+        let high = cues.length - 1;
+        while (low <= high) {
+            const mid = (low + high) >> 1;
+            if (time < cues[mid].start) high = mid - 1;
+            else if (time >= cues[mid].end) low = mid + 1;
+            else return cues[mid];
+        }
+        return null;
+    }, [cues]);
+
+    return { hasThumbnails: cues.length > 0, getThumbnailAt };
+}
+
+/**
+ * Follow seek preview generation over SSE
+ */
+export function useThumbnailStatus() {
+    const [status, setStatus] = useState<ThumbnailStatus | null>(null);
+
+    const fetchStatus = useCallback(async () => {
+        try {
+            const response = await thumbnailsApi.getStatus();
+            setStatus(response.data);
+        } catch (e) {
+            console.error('Failed to fetch thumbnail status:', e);
+        }
+    }, []);
+
+    useEffect(() => {
+        const eventSource = new EventSource('/api/thumbnails/events');
+
+        eventSource.onmessage = (event) => {
+            try {
+                const data = JSON.parse(event.data);
+
+                if (data.type === 'status') {
+                    setStatus(data.data);
+                } else if (data.type === 'progress') {
+                    setStatus(prev => {
+                        if (!prev) return prev;
+                        const active = prev.active.map(job =>
+                            job.mediaId === data.data.mediaId
+                                ? { ...job, progress: data.data.progress }
+                                : job
+                        );
+                        return { ...prev, active };
+                    });
+                } else {
+                    // Queued, started, finished or cancelled - refresh full status
+                    fetchStatus();
+                }
+            } catch (e) {
+                console.error('SSE parse error:', e);
+            }
+        };
+
+        return () => {
+            eventSource.close();
+        };
+    }, [fetchStatus]);
+
+    return { status, refetch: fetchStatus };
+}
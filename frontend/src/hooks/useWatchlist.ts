@@ -0,0 +1,82 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { watchlistApi, getActiveProfileId, PROFILE_CHANGE_EVENT } from '../api/client';
+import { useActiveProfileId } from './useProfiles';
+import type { Media } from '../types';
+
+interface WatchlistState {
+    media: Media[];
+    loading: boolean;
+}
+
+// Shared by every card and page, so a toggle shows up everywhere at once
+let watchlistState: WatchlistState = { media: [], loading: true };
+let loadedFor: number | null | undefined; // Profile the list belongs to
+const listeners = new Set<() => void>();
+
+function setWatchlistState(next: WatchlistState) {
+    watchlistState = next;
+    listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+window.addEventListener(PROFILE_CHANGE_EVENT, () => {
+    loadedFor = undefined;
+    setWatchlistState({ media: [], loading: true });
+});
+
+export async function refreshWatchlist() {
+    loadedFor = getActiveProfileId();
+    try {
+        const response = await watchlistApi.getAll();
+        setWatchlistState({ media: response.data.data, loading: false });
+    } catch (err) {
+        console.error('Failed to fetch watchlist:', err);
+        setWatchlistState({ ...watchlistState, loading: false });
+    }
+}
+
+export async function toggleWatchlist(mediaId: number) {
+    if (watchlistState.media.some(m => m.id === mediaId)) {
+        await watchlistApi.remove(mediaId);
+    } else {
+        await watchlistApi.add(mediaId);
+    }
+    await refreshWatchlist();
+}
+
+/**
+ * Save a new order, shown right away and replaced by the server's answer
+ */
+export async function reorderWatchlist(mediaIds: number[]) {
+    const byId = new Map(watchlistState.media.map(m => [m.id, m]));
+    setWatchlistState({ ...watchlistState, media: mediaIds.flatMap(id => byId.get(id) ?? []) });
+    try {
+        const response = await watchlistApi.reorder(mediaIds);
+        setWatchlistState({ media: response.data.data, loading: false });
+    } catch (err) {
+        console.error('Failed to reorder watchlist:', err);
+        await refreshWatchlist();
+    }
+}
+
+export function useWatchlist() {
+    const profileId = useActiveProfileId();
+    const state = useSyncExternalStore(subscribe, () => watchlistState);
+
+    useEffect(() => {
+        if (loadedFor !== profileId) {
+            refreshWatchlist();
+        }
+    }, [profileId]);
+
+    return {
+        ...state,
+        isOnWatchlist: (mediaId: number) => state.media.some(m => m.id === mediaId),
+    };
+}
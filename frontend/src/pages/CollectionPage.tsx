@@ -0,0 +1,295 @@
+import { useState, useRef } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { isAxiosError } from 'axios';
+import { ArrowLeft, ChevronUp, ChevronDown, Pencil, Trash2, X, Image, ImageOff } from 'lucide-react';
+import { collectionsApi, imageApi } from '../api/client';
+import { useCollection } from '../hooks/useCollections';
+import { useAuth } from '../hooks/useAuth';
+import MediaGrid from '../components/MediaGrid';
+import type { Media } from '../types';
+
+type ArtworkKind = 'poster' | 'backdrop';
+
+function errorText(err: unknown, fallback: string): string {
+    return isAxiosError(err) && err.response?.data?.error ? err.response.data.error : fallback;
+}
+
+const inputClass = 'px-4 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-teal-500 transition-colors';
+
+export default function CollectionPage() {
+    const { id } = useParams<{ id: string }>();
+    const navigate = useNavigate();
+    const { isAdmin } = useAuth();
+    const { collection, loading, error, refetch } = useCollection(parseInt(id!));
+    const [draft, setDraft] = useState<{ name: string; overview: string } | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [actionError, setActionError] = useState<string | null>(null);
+    const fileInputs = {
+        poster: useRef<HTMLInputElement>(null),
+        backdrop: useRef<HTMLInputElement>(null),
+    };
+
+    if (loading && !collection) {
+        return (
+            <div className="min-h-screen px-8 py-6">
+                <div className="h-10 w-72 rounded-lg skeleton mb-6" />
+                <MediaGrid media={[]} loading />
+            </div>
+        );
+    }
+
+    if (error || !collection) {
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center text-gray-400">
+                <p className="mb-4">{error || 'Collection not found'}</p>
+                <Link to="/collections" className="btn-secondary">Back to Collections</Link>
+            </div>
+        );
+    }
+
+    // The titles of a franchise follow TMDB, they can't be added, moved or removed
+    const isManual = collection.tmdb_collection_id === null;
+    const canArrange = isAdmin && isManual;
+
+    // Runs an admin action, then shows the collection as the server has it
+    const perform = async (action: () => Promise<unknown>, fallback: string) => {
+        setSaving(true);
+        setActionError(null);
+        try {
+            await action();
+            await refetch();
+            return true;
+        } catch (err) {
+            setActionError(errorText(err, fallback));
+            return false;
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleSave = async () => {
+        if (!draft) return;
+        const saved = await perform(
+            () => collectionsApi.update(collection.id, { name: draft.name.trim(), overview: draft.overview }),
+            'Failed to update collection'
+        );
+        if (saved) setDraft(null);
+    };
+
+    const handleArtworkFile = (kind: ArtworkKind, file: File | undefined) => {
+        if (!file) return;
+        perform(() => collectionsApi.uploadArtwork(collection.id, kind, file), 'Failed to upload artwork');
+    };
+
+    const handleDelete = async () => {
+        if (!window.confirm(`Delete the collection "${collection.name}"? The titles in it stay in the library.`)) {
+            return;
+        }
+        const deleted = await perform(() => collectionsApi.delete(collection.id), 'Failed to delete collection');
+        if (deleted) navigate('/collections');
+    };
+
+    const move = (index: number, offset: number) => {
+        const ids = collection.items.map(m => m.id);
+        const [mediaId] = ids.splice(index, 1);
+        ids.splice(index + offset, 0, mediaId);
+        perform(() => collectionsApi.reorder(collection.id, ids), 'Failed to reorder collection');
+    };
+
+    const handleRemove = (item: Media) => {
+        perform(() => collectionsApi.removeItem(collection.id, item.id), 'Failed to remove from collection');
+    };
+
+    return (
+        <div className="min-h-screen">
+            {/* Backdrop Header */}
+            <div className="relative h-[40vh] min-h-[280px]">
+                {collection.backdrop_path ? (
+                    <img
+                        src={collection.backdrop_path}
+                        alt={collection.name}
+                        className="w-full h-full object-cover"
+                    />
+                ) : (
+                    <div className="w-full h-full bg-linear-to-br from-gray-800 to-gray-900" />
+                )}
+                <div className="gradient-overlay absolute inset-0" />
+
+                <button
+                    onClick={() => navigate('/collections')}
+                    className="absolute top-6 left-6 flex items-center gap-2 text-white/80 hover:text-white transition-colors"
+                >
+                    <ArrowLeft className="w-5 h-5" />
+                    Collections
+                </button>
+            </div>
+
+            <div className="relative -mt-24 px-8 pb-16">
+                <div className="flex flex-col md:flex-row gap-8 items-start mb-10">
+                    {collection.poster_path && (
+                        <img
+                            src={collection.poster_path}
+                            alt={collection.name}
+                            className="flex-none w-40 md:w-48 rounded-lg shadow-2xl animate-fadeInScale"
+                        />
+                    )}
+
+                    <div className="flex-1 min-w-0 animate-fadeInUp">
+                        {draft ? (
+                            <div className="flex flex-col gap-3 max-w-2xl">
+                                <input
+                                    type="text"
+                                    value={draft.name}
+                                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                                    placeholder="Name"
+                                    maxLength={100}
+                                    className={inputClass}
+                                />
+                                <textarea
+                                    value={draft.overview}
+                                    onChange={(e) => setDraft({ ...draft, overview: e.target.value })}
+                                    placeholder="Overview"
+                                    rows={3}
+                                    className={inputClass}
+                                />
+                                <div className="flex gap-3">
+                                    <button onClick={handleSave} disabled={saving || !draft.name.trim()} className="btn-primary">
+                                        Save
+                                    </button>
+                                    <button onClick={() => setDraft(null)} className="btn-secondary">
+                                        Cancel
+                                    </button>
+                                </div>
+                            </div>
+                        ) : (
+                            <>
+                                <p className="text-sm text-gray-400 mb-1">{isManual ? 'Collection' : 'Franchise'}</p>
+                                <h1 className="text-4xl font-bold text-white mb-3">{collection.name}</h1>
+                                {collection.overview && (
+                                    <p className="text-gray-300 max-w-3xl mb-3">{collection.overview}</p>
+                                )}
+                                <p className="text-gray-500">
+                                    {collection.items.length} {collection.items.length === 1 ? 'title' : 'titles'}
+                                </p>
+                            </>
+                        )}
+
+                        {isAdmin && !draft && (
+                            <div className="flex flex-wrap gap-3 mt-6">
+                                <button
+                                    onClick={() => setDraft({ name: collection.name, overview: collection.overview || '' })}
+                                    className="btn-secondary"
+                                >
+                                    <Pencil className="w-5 h-5" />
+                                    Edit
+                                </button>
+                                {(['poster', 'backdrop'] as ArtworkKind[]).map(kind => (
+                                    <div key={kind} className="flex gap-1">
+                                        <input
+                                            ref={fileInputs[kind]}
+                                            type="file"
+                                            accept="image/jpeg,image/png,image/webp"
+                                            className="hidden"
+                                            onChange={(e) => {
+                                                handleArtworkFile(kind, e.target.files?.[0]);
+                                                e.target.value = '';
+                                            }}
+                                        />
+                                        <button
+                                            onClick={() => fileInputs[kind].current?.click()}
+                                            disabled={saving}
+                                            className="btn-secondary"
+                                        >
+                                            <Image className="w-5 h-5" />
+                                            {kind === 'poster' ? 'Poster' : 'Backdrop'}
+                                        </button>
+                                        {collection[kind === 'poster' ? 'poster_path' : 'backdrop_path'] && (
+                                            <button
+                                                onClick={() => perform(() => collectionsApi.removeArtwork(collection.id, kind), 'Failed to remove artwork')}
+                                                disabled={saving}
+                                                className="p-2 text-gray-400 hover:text-white hover:bg-white/5 rounded-lg transition-colors"
+                                                title={isManual ? `Remove ${kind}` : `Reset ${kind} to TMDB's on the next match`}
+                                            >
+                                                <ImageOff className="w-5 h-5" />
+                                            </button>
+                                        )}
+                                    </div>
+                                ))}
+                                {isManual && (
+                                    <button
+                                        onClick={handleDelete}
+                                        disabled={saving}
+                                        className="px-4 py-2 bg-red-600/20 hover:bg-red-600/40 text-red-200 rounded-lg flex items-center gap-2 transition-colors cursor-pointer"
+                                    >
+                                        <Trash2 className="w-5 h-5" />
+                                        Delete
+                                    </button>
+                                )}
+                            </div>
+                        )}
+
+                        {actionError && <p className="text-sm text-red-400 mt-3">{actionError}</p>}
+                    </div>
+                </div>
+
+                {canArrange && collection.items.length > 0 ? (
+                    <ul className="space-y-2 max-w-5xl">
+                        {collection.items.map((item, index) => (
+                            <li key={item.id} className="flex items-center gap-4 p-3 rounded-lg bg-(--bg-secondary)">
+                                <div className="flex flex-col">
+                                    <button
+                                        onClick={() => move(index, -1)}
+                                        disabled={saving || index === 0}
+                                        className="p-1 text-gray-400 hover:text-white disabled:opacity-30 transition-colors"
+                                        title="Move up"
+                                    >
+                                        <ChevronUp className="w-4 h-4" />
+                                    </button>
+                                    <button
+                                        onClick={() => move(index, 1)}
+                                        disabled={saving || index === collection.items.length - 1}
+                                        className="p-1 text-gray-400 hover:text-white disabled:opacity-30 transition-colors"
+                                        title="Move down"
+                                    >
+                                        <ChevronDown className="w-4 h-4" />
+                                    </button>
+                                </div>
+
+                                <Link to={`/media/${item.id}`} className="flex items-center gap-4 flex-1 min-w-0 group">
+                                    {item.poster_path ? (
+                                        <img
+                                            src={imageApi.getPosterThumbUrl(item.poster_path)}
+                                            alt={item.title}
+                                            className="w-12 aspect-2/3 rounded object-cover shrink-0"
+                                            loading="lazy"
+                                        />
+                                    ) : (
+                                        <div className="w-12 aspect-2/3 rounded bg-gray-800 shrink-0" />
+                                    )}
+                                    <div className="min-w-0">
+                                        <p className="text-white truncate group-hover:text-teal-400 transition-colors">{item.title}</p>
+                                        <p className="text-sm text-gray-500 truncate">{item.year}</p>
+                                    </div>
+                                </Link>
+
+                                <button
+                                    onClick={() => handleRemove(item)}
+                                    disabled={saving}
+                                    className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                    title="Remove from collection"
+                                >
+                                    <X className="w-5 h-5" />
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <MediaGrid
+                        media={collection.items}
+                        emptyMessage={isAdmin && isManual ? 'Add titles from their detail pages' : 'Nothing to show in this collection'}
+                    />
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { isAxiosError } from 'axios';
+import { Plus, Library } from 'lucide-react';
+import { collectionsApi, imageApi } from '../api/client';
+import { useCollections } from '../hooks/useCollections';
+import { useAuth } from '../hooks/useAuth';
+
+const inputClass = 'px-4 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-teal-500 transition-colors';
+
+export default function CollectionsPage() {
+    const navigate = useNavigate();
+    const { isAdmin } = useAuth();
+    const { collections, loading, error } = useCollections();
+    const [creating, setCreating] = useState(false);
+    const [name, setName] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [createError, setCreateError] = useState<string | null>(null);
+
+    const handleCreate = async () => {
+        if (!name.trim()) return;
+        setSaving(true);
+        setCreateError(null);
+        try {
+            const response = await collectionsApi.create(name.trim());
+            navigate(`/collections/${response.data.id}`);
+        } catch (err) {
+            setCreateError(isAxiosError(err) && err.response?.data?.error ? err.response.data.error : 'Failed to create collection');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen px-8 py-6 animate-fadeIn">
+            <div className="flex items-center justify-between gap-4 mb-2">
+                <h1 className="text-2xl font-bold text-white">Collections</h1>
+                {isAdmin && !creating && (
+                    <button onClick={() => setCreating(true)} className="btn-secondary">
+                        <Plus className="w-5 h-5" />
+                        New Collection
+                    </button>
+                )}
+            </div>
+            <p className="text-gray-400 mb-6">
+                Franchises found on TMDB and collections put together by hand.
+            </p>
+
+            {creating && (
+                <div className="flex flex-wrap items-center gap-3 mb-6">
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                        placeholder="Name, e.g. Christmas movies"
+                        maxLength={100}
+                        autoFocus
+                        className={`${inputClass} w-72`}
+                    />
+                    <button onClick={handleCreate} disabled={saving || !name.trim()} className="btn-primary">
+                        Create
+                    </button>
+                    <button onClick={() => { setCreating(false); setName(''); setCreateError(null); }} className="btn-secondary">
+                        Cancel
+                    </button>
+                    {createError && <p className="text-sm text-red-400">{createError}</p>}
+                </div>
+            )}
+
+            {error && <p className="text-red-400 mb-4">{error}</p>}
+
+            {loading ? (
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+                    {Array.from({ length: 6 }).map((_, i) => (
+                        <div key={i} className="aspect-2/3 rounded-md skeleton" />
+                    ))}
+                </div>
+            ) : collections.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-20 text-gray-500">
+                    <Library className="w-12 h-12 mb-4" />
+                    <p>No collections yet. Franchises show up once two of their movies are matched.</p>
+                </div>
+            ) : (
+                <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
+                    {collections.map(collection => (
+                        <Link key={collection.id} to={`/collections/${collection.id}`} className="group">
+                            {collection.poster_path ? (
+                                <img
+                                    src={imageApi.getPosterThumbUrl(collection.poster_path)}
+                                    alt={collection.name}
+                                    className="w-full aspect-2/3 rounded-md object-cover group-hover:ring-2 group-hover:ring-teal-500 transition-all"
+                                    loading="lazy"
+                                />
+                            ) : (
+                                <div className="w-full aspect-2/3 rounded-md bg-gray-800 flex items-center justify-center group-hover:ring-2 group-hover:ring-teal-500 transition-all">
+                                    <Library className="w-12 h-12 text-gray-600" />
+                                </div>
+                            )}
+                            <p className="mt-2 text-white truncate group-hover:text-teal-400 transition-colors">{collection.name}</p>
+                            <p className="text-sm text-gray-500">
+                                {collection.item_count} {collection.item_count === 1 ? 'title' : 'titles'}
+                            </p>
+                        </Link>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
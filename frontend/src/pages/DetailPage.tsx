@@ -1,10 +1,16 @@
 import { useParams, Link, useNavigate } from 'react-router-dom';
 import React, { useState, useEffect, useMemo } from 'react';
-import { Play, ArrowLeft, Clock, Star, Calendar, Film, Check, Plus, Trash } from 'lucide-react';
+import { Play, ArrowLeft, Clock, Star, Calendar, Film, Check, Plus, Trash, Wand2, Library } from 'lucide-react';
 import { useMediaDetails, useMedia } from '../hooks/useMedia';
 import { usePlayback } from '../hooks/usePlayback';
-import { mediaApi } from '../api/client';
-import type { CastMember, Media } from '../types';
+import { useAuth } from '../hooks/useAuth';
+import { useShow, useSeason } from '../hooks/useShow';
+import { useCollections, useCollection } from '../hooks/useCollections';
+import { mediaApi, collectionsApi } from '../api/client';
+import FixMatchDialog from '../components/FixMatchDialog';
+import WatchlistButton from '../components/WatchlistButton';
+import ContinueWatching from '../components/ContinueWatching';
+import type { CastMember, Media, Episode } from '../types';
 
 
 export interface MediaWithProgress extends Media {
@@ -13,6 +19,53 @@ export interface MediaWithProgress extends Media {
     completed?: number;
 }
 
+// One row of the episode list, built from either show data or sibling files
+interface EpisodeItem {
+    key: string;
+    mediaId: number | null;
+    episodeNumber?: number | null;
+    title: string;
+    overview?: string;
+    image?: string;
+    durationSeconds?: number;
+    airDate?: string;
+    completed: boolean;
+    progressPercent: number | null;
+}
+
+function episodeFromMedia(ep: MediaWithProgress): EpisodeItem {
+    return {
+        key: `media-${ep.id}`,
+        mediaId: ep.id,
+        episodeNumber: ep.episode_number,
+        title: ep.episode_title || ep.title,
+        overview: ep.overview,
+        image: ep.backdrop_path,
+        durationSeconds: ep.duration_seconds,
+        completed: ep.completed === 1 || ep.playback_state?.completed === 1,
+        progressPercent: ep.progress_seconds && ep.state_total && ep.completed !== 1
+            ? Math.min(100, (ep.progress_seconds / ep.state_total) * 100)
+            : null,
+    };
+}
+
+function episodeFromShow(ep: Episode): EpisodeItem {
+    return {
+        key: ep.id ? `episode-${ep.id}` : `media-${ep.media_id}`,
+        mediaId: ep.media_id,
+        episodeNumber: ep.episode_number,
+        title: ep.title || `Episode ${ep.episode_number ?? '?'}`,
+        overview: ep.overview,
+        image: ep.still_path,
+        durationSeconds: ep.duration_seconds || (ep.runtime ? ep.runtime * 60 : undefined),
+        airDate: ep.air_date,
+        completed: ep.completed === 1,
+        progressPercent: ep.progress_seconds && ep.state_total && ep.completed !== 1
+            ? Math.min(100, (ep.progress_seconds / ep.state_total) * 100)
+            : null,
+    };
+}
+
 class ErrorBoundary extends React.Component<{ children: React.ReactNode }, { hasError: boolean, error: Error | null }> {
     constructor(props: { children: React.ReactNode }) {
         super(props);
@@ -46,7 +99,10 @@ export default function DetailPage() {
     const navigate = useNavigate();
     const { media, loading, error, refetch } = useMediaDetails(parseInt(id!));
     const { setWatched, saving } = usePlayback(parseInt(id!));
+    const { isAdmin } = useAuth();
     const [deleting, setDeleting] = useState(false);
+    const [showFixMatch, setShowFixMatch] = useState(false);
+    const [addingToCollection, setAddingToCollection] = useState(false);
 
     // Memoize params to ensure stability for useMedia hook
     const siblingsParams = useMemo(() => ({
@@ -59,6 +115,18 @@ export default function DetailPage() {
     // Fetch siblings if TV show
     const { media: siblings, refetch: refetchSiblings } = useMedia(siblingsParams);
 
+    // Matched shows have their own seasons and episodes
+    const { show, refetch: refetchShow } = useShow(media?.show_id);
+
+    // The TMDB franchise comes first, the rest are manual collections
+    const franchise = media?.collections?.find(c => c.tmdb_collection_id !== null);
+    const manualCollections = media?.collections?.filter(c => c.tmdb_collection_id === null) ?? [];
+    const { collection: franchiseDetails } = useCollection(franchise?.id);
+    const { collections: allCollections } = useCollections();
+    const addableCollections = allCollections.filter(c =>
+        c.tmdb_collection_id === null && !manualCollections.some(m => m.id === c.id)
+    );
+
     // Group siblings by season
     const seasons = useMemo(() => {
         if (!siblings || !Array.isArray(siblings)) return {};
@@ -72,10 +140,14 @@ export default function DetailPage() {
 
     // Sort logic
     const sortedSeasons = useMemo(() => {
+        if (show) {
+            return show.seasons.filter(s => s.available_count > 0).map(s => s.season_number);
+        }
         return Object.keys(seasons).map(Number).sort((a, b) => a - b);
-    }, [seasons]);
+    }, [seasons, show]);
 
     const [selectedSeason, setSelectedSeason] = useState<number | null>(null);
+    const { season, refetch: refetchSeason } = useSeason(show?.id, show ? selectedSeason : null);
 
     // Auto-select first season or current season
     const targetSeason = useMemo(() => {
@@ -92,18 +164,24 @@ export default function DetailPage() {
         }
     }, [targetSeason, selectedSeason]);
 
-    const activeEpisodes = useMemo(() => {
+    const activeEpisodes = useMemo((): EpisodeItem[] => {
         if (selectedSeason === null) return [];
+        if (show) {
+            return season?.episodes?.map(episodeFromShow) || [];
+        }
+
         const seasonEps = seasons[selectedSeason];
         if (!seasonEps) return [];
 
         try {
-            return [...seasonEps].sort((a, b) => (a.episode_number || 0) - (b.episode_number || 0));
+            return [...seasonEps]
+                .sort((a, b) => (a.episode_number || 0) - (b.episode_number || 0))
+                .map(episodeFromMedia);
         } catch (e) {
             console.error('Error sorting episodes:', e);
             return [];
         }
-    }, [seasons, selectedSeason]);
+    }, [seasons, selectedSeason, show, season]);
 
     // Silence unused
     useEffect(() => {
@@ -131,11 +209,14 @@ export default function DetailPage() {
     }
 
     // Parse JSON fields
+    // Series-level genres and cast come from the show, not the episode
     let genres: string[] = [];
     let cast: CastMember[] = [];
     try {
-        if (media.genres) genres = JSON.parse(media.genres);
-        if (media.cast_members) cast = JSON.parse(media.cast_members);
+        const genresJson = show?.genres || media.genres;
+        const castJson = show?.cast_members || media.cast_members;
+        if (genresJson) genres = JSON.parse(genresJson);
+        if (castJson) cast = JSON.parse(castJson);
     } catch { }
 
     const formatDuration = (seconds?: number) => {
@@ -173,6 +254,8 @@ export default function DetailPage() {
                 navigate('/');
             } else {
                 refetchSiblings();
+                refetchShow();
+                refetchSeason();
                 if (targetId === media.id) {
                     navigate('/');
                 }
@@ -185,6 +268,19 @@ export default function DetailPage() {
         }
     };
 
+    const handleAddToCollection = async (collectionId: number) => {
+        try {
+            setAddingToCollection(true);
+            await collectionsApi.addItem(collectionId, media.id);
+            refetch();
+        } catch (err) {
+            console.error('Failed to add to collection', err);
+            alert('Failed to add to collection');
+        } finally {
+            setAddingToCollection(false);
+        }
+    };
+
 
     return (
         <div className="min-h-screen">
@@ -241,7 +337,7 @@ export default function DetailPage() {
                     {/* Info */}
                     <div className="flex-1 animate-fadeInUp" style={{ animationDelay: '0.1s' }}>
                         <h1 className="text-3xl md:text-4xl font-bold text-white mb-2">
-                            {media.title}
+                            {show?.title || media.title}
                         </h1>
 
                         {media.media_type === 'tv' && media.season_number && media.episode_number && (
@@ -253,6 +349,9 @@ export default function DetailPage() {
 
                         {/* Meta Info */}
                         <div className="flex flex-wrap items-center gap-4 text-gray-400 mb-4">
+                            {media.certification && (
+                                <span className="px-2 py-0.5 border border-gray-500 rounded text-sm text-gray-300">{media.certification}</span>
+                            )}
                             {media.year && (
                                 <span className="flex items-center gap-1">
                                     <Calendar className="w-4 h-4" />
@@ -329,8 +428,19 @@ export default function DetailPage() {
                                     </>
                                 )}
                             </button>
+                            <WatchlistButton mediaId={media.id} />
+                            {isAdmin && (
+                                <button
+                                    onClick={() => setShowFixMatch(true)}
+                                    className="btn-secondary"
+                                    title="Pick the correct TMDB entry"
+                                >
+                                    <Wand2 className="w-5 h-5" />
+                                    Fix Match
+                                </button>
+                            )}
 
-                            {media.media_type === 'movie' && (
+                            {media.media_type === 'movie' && isAdmin && (
                                 <button
                                     onClick={() => handleDelete(media.id, true)}
                                     disabled={deleting}
@@ -342,6 +452,35 @@ export default function DetailPage() {
                             )}
                         </div>
 
+                        {/* Manual collections */}
+                        {(manualCollections.length > 0 || (isAdmin && addableCollections.length > 0)) && (
+                            <div className="flex flex-wrap items-center gap-2 mb-6">
+                                <Library className="w-4 h-4 text-gray-500" />
+                                {manualCollections.map(collection => (
+                                    <Link
+                                        key={collection.id}
+                                        to={`/collections/${collection.id}`}
+                                        className="px-3 py-1 rounded-full bg-gray-800 text-sm text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+                                    >
+                                        {collection.name}
+                                    </Link>
+                                ))}
+                                {isAdmin && addableCollections.length > 0 && (
+                                    <select
+                                        value=""
+                                        onChange={e => handleAddToCollection(parseInt(e.target.value))}
+                                        disabled={addingToCollection}
+                                        className="px-3 py-1 rounded-full bg-transparent border border-gray-700 text-sm text-gray-400 focus:outline-none focus:border-(--accent)"
+                                    >
+                                        <option value="" disabled>Add to collection…</option>
+                                        {addableCollections.map(collection => (
+                                            <option key={collection.id} value={collection.id}>{collection.name}</option>
+                                        ))}
+                                    </select>
+                                )}
+                            </div>
+                        )}
+
                         {/* Director */}
                         {media.director && (
                             <p className="text-gray-400 mb-4">
@@ -377,8 +516,21 @@ export default function DetailPage() {
                             </div>
                         )}
 
+                        {/* Franchise */}
+                        {franchise && franchiseDetails && franchiseDetails.items.length > 1 && (
+                            <div className="mb-8">
+                                <h3 className="text-lg font-semibold text-white mb-3">
+                                    Part of{' '}
+                                    <Link to={`/collections/${franchise.id}`} className="hover:text-teal-400 transition-colors">
+                                        {franchise.name}
+                                    </Link>
+                                </h3>
+                                <ContinueWatching media={franchiseDetails.items} />
+                            </div>
+                        )}
+
                         {/* Episodes List */}
-                        {media.media_type === 'tv' && siblings.length > 0 && (
+                        {media.media_type === 'tv' && sortedSeasons.length > 0 && (
                             <div className="mb-8">
                                 <h3 className="text-lg font-semibold text-white mb-4">Episodes</h3>
 
@@ -395,30 +547,28 @@ export default function DetailPage() {
                                                 : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
                                                 }`}
                                         >
-                                            {seasonNum === 0 ? 'Specials' : `Season ${seasonNum}`}
+                                            {show?.seasons.find(s => s.season_number === seasonNum)?.name
+                                                || (seasonNum === 0 ? 'Specials' : `Season ${seasonNum}`)}
                                         </button>
                                     ))}
                                 </div>
 
+                                {season?.overview && (
+                                    <p className="text-sm text-gray-400 mb-4 max-w-3xl">{season.overview}</p>
+                                )}
+
                                 {/* Episode Cards */}
                                 <ErrorBoundary>
                                     <div className="space-y-3">
-                                        {activeEpisodes.map((ep: Media) => (
-                                            <Link
-                                                key={ep.id}
-                                                to={`/media/${ep.id}`}
-                                                className={`block rounded-lg overflow-hidden transition-all hover:scale-[1.01] ${ep.id === media.id
-                                                    ? 'ring-2 ring-white/50 bg-white/10'
-                                                    : 'bg-gray-800/50 hover:bg-gray-700/50'
-                                                    }`}
-                                            >
+                                        {activeEpisodes.map((ep: EpisodeItem) => {
+                                            const content = (
                                                 <div className="flex gap-4 p-3">
                                                     {/* Episode Thumbnail */}
                                                     <div className="shrink-0 w-40 aspect-video rounded overflow-hidden bg-gray-700">
-                                                        {ep.backdrop_path ? (
+                                                        {ep.image ? (
                                                             <img
-                                                                src={ep.backdrop_path}
-                                                                alt={ep.episode_title || `Episode ${ep.episode_number}`}
+                                                                src={ep.image}
+                                                                alt={ep.title}
                                                                 className="w-full h-full object-cover"
                                                             />
                                                         ) : (
@@ -433,26 +583,29 @@ export default function DetailPage() {
                                                         <div className="flex items-start justify-between gap-2">
                                                             <div className="min-w-0">
                                                                 <p className="font-medium text-white">
-                                                                    <span className="text-gray-400 mr-2">{ep.episode_number}.</span>
-                                                                    {ep.episode_title || ep.title}
+                                                                    {ep.episodeNumber != null && (
+                                                                        <span className="text-gray-400 mr-2">{ep.episodeNumber}.</span>
+                                                                    )}
+                                                                    {ep.title}
+                                                                </p>
+                                                                <p className="text-sm text-gray-400 mt-1">
+                                                                    {[
+                                                                        formatDuration(ep.durationSeconds),
+                                                                        ep.airDate && new Date(ep.airDate).toLocaleDateString(),
+                                                                        ep.mediaId === null && 'Not in library',
+                                                                    ].filter(Boolean).join(' • ')}
                                                                 </p>
-                                                                {ep.duration_seconds && (
-                                                                    <p className="text-sm text-gray-400 mt-1">
-                                                                        {formatDuration(ep.duration_seconds)}
-                                                                    </p>
-                                                                )}
                                                             </div>
-                                                            {/* Watched indicator - handles both list API (ep.completed) and details API (ep.playback_state?.completed) */}
-                                                            {((ep as any).completed === 1 || ep.playback_state?.completed === 1) && (
+                                                            {ep.completed && (
                                                                 <Check className="w-5 h-5 text-green-400 shrink-0" />
                                                             )}
                                                         </div>
                                                         {/* Progress bar for partially watched episodes */}
-                                                        {(ep as any).progress_seconds && (ep as any).state_total && (ep as any).completed !== 1 && (
+                                                        {ep.progressPercent !== null && (
                                                             <div className="w-full bg-gray-700 rounded-full h-1 mt-2">
                                                                 <div
                                                                     className="bg-(--accent) h-1 rounded-full"
-                                                                    style={{ width: `${Math.min(100, ((ep as any).progress_seconds / (ep as any).state_total) * 100)}%` }}
+                                                                    style={{ width: `${ep.progressPercent}%` }}
                                                                 />
                                                             </div>
                                                         )}
@@ -464,8 +617,30 @@ export default function DetailPage() {
                                                         )}
                                                     </div>
                                                 </div>
-                                            </Link>
-                                        ))}
+                                            );
+
+                                            // Episodes missing from the library are listed but can't be opened
+                                            if (ep.mediaId === null) {
+                                                return (
+                                                    <div key={ep.key} className="rounded-lg overflow-hidden bg-gray-800/30 opacity-50">
+                                                        {content}
+                                                    </div>
+                                                );
+                                            }
+
+                                            return (
+                                                <Link
+                                                    key={ep.key}
+                                                    to={`/media/${ep.mediaId}`}
+                                                    className={`block rounded-lg overflow-hidden transition-all hover:scale-[1.01] ${ep.mediaId === media.id
+                                                        ? 'ring-2 ring-white/50 bg-white/10'
+                                                        : 'bg-gray-800/50 hover:bg-gray-700/50'
+                                                        }`}
+                                                >
+                                                    {content}
+                                                </Link>
+                                            );
+                                        })}
                                     </div>
                                 </ErrorBoundary>
                             </div>
@@ -548,6 +723,17 @@ export default function DetailPage() {
                     </div>
                 </div>
             </div>
+
+            {showFixMatch && (
+                <FixMatchDialog
+                    media={media}
+                    onClose={() => setShowFixMatch(false)}
+                    onMatched={() => {
+                        refetch();
+                        refetchSiblings();
+                    }}
+                />
+            )}
         </div>
     );
 }
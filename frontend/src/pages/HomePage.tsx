@@ -4,13 +4,15 @@ import { Play } from 'lucide-react';
 import MediaGrid from '../components/MediaGrid';
 import ContinueWatching from '../components/ContinueWatching';
 import { useMedia, useContinueWatching } from '../hooks/useMedia';
+import { useWatchlist } from '../hooks/useWatchlist';
+import { useLibraryEvents } from '../hooks/useLibraryEvents';
 import type { Media } from '../types';
 
 export default function HomePage() {
     const [searchParams] = useSearchParams();
     const type = searchParams.get('type') || undefined;
 
-    const { media, loading } = useMedia({
+    const { media, loading, refetch } = useMedia({
         sort: 'added_at',
         order: 'DESC',
         limit: 50,
@@ -18,9 +20,16 @@ export default function HomePage() {
         type
     });
 
-    const { media: continueWatching, loading: cwLoading } = useContinueWatching();
+    const { media: continueWatching, loading: cwLoading, refetch: refetchContinueWatching } = useContinueWatching();
+    const { media: myList } = useWatchlist();
     const [heroMedia, setHeroMedia] = useState<Media | null>(null);
 
+    // Keep the rows in sync with files added/removed on disk
+    useLibraryEvents(() => {
+        refetch();
+        refetchContinueWatching();
+    });
+
     // Pick a random featured item for hero
     useEffect(() => {
         if (media.length > 0) {
@@ -98,6 +107,22 @@ export default function HomePage() {
                     </section>
                 )}
 
+                {/* My List, on the unfiltered home page only */}
+                {!type && myList.length > 0 && (
+                    <section className="mb-10">
+                        <div className="flex items-center justify-between mb-4">
+                            <h2 className="text-xl font-semibold text-white">My List</h2>
+                            <Link
+                                to="/my-list"
+                                className="text-sm text-gray-400 hover:text-white transition-colors"
+                            >
+                                View All →
+                            </Link>
+                        </div>
+                        <ContinueWatching media={myList} />
+                    </section>
+                )}
+
                 {/* Recently Added */}
                 <section>
                     <div className="flex items-center justify-between mb-4">
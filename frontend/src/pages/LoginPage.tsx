@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { isAxiosError } from 'axios';
+import { LogIn, UserPlus, AlertTriangle } from 'lucide-react';
+import { signIn, useAuth } from '../hooks/useAuth';
+
+export default function LoginPage() {
+    const { status } = useAuth();
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const settingUp = status === 'setup';
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (settingUp && password !== confirmPassword) {
+            setError('Passwords do not match');
+            return;
+        }
+
+        setSubmitting(true);
+        setError(null);
+        try {
+            await signIn(username.trim(), password);
+        } catch (err) {
+            setError(isAxiosError(err) && err.response?.data?.error ? err.response.data.error : 'Failed to sign in');
+            setPassword('');
+            setConfirmPassword('');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    const inputClass = 'w-full px-4 py-3 bg-(--bg-card) border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-teal-500 transition-colors';
+
+    return (
+        <div className="min-h-screen flex items-center justify-center px-6 animate-fadeIn">
+            <form onSubmit={handleSubmit} className="w-full max-w-sm space-y-5">
+                <div className="text-center mb-8">
+                    <h1 className="text-4xl font-bold bg-linear-to-r from-teal-400 to-blue-500 bg-clip-text text-transparent mb-3">
+                        Nebula
+                    </h1>
+                    <p className="text-gray-400">
+                        {settingUp
+                            ? 'Create the admin account for this server'
+                            : 'Sign in to continue'}
+                    </p>
+                </div>
+
+                {error && (
+                    <div className="flex items-center gap-2 px-4 py-3 rounded-lg bg-red-500/10 text-red-400 text-sm">
+                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                        {error}
+                    </div>
+                )}
+
+                <input
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    placeholder="Username"
+                    autoComplete="username"
+                    autoFocus
+                    required
+                    className={inputClass}
+                />
+                <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder="Password"
+                    autoComplete={settingUp ? 'new-password' : 'current-password'}
+                    required
+                    className={inputClass}
+                />
+                {settingUp && (
+                    <input
+                        type="password"
+                        value={confirmPassword}
+                        onChange={(e) => setConfirmPassword(e.target.value)}
+                        placeholder="Confirm password"
+                        autoComplete="new-password"
+                        required
+                        className={inputClass}
+                    />
+                )}
+
+                <button
+                    type="submit"
+                    disabled={submitting || !username.trim() || !password}
+                    className="btn-primary w-full justify-center"
+                >
+                    {settingUp ? <UserPlus className="w-5 h-5" /> : <LogIn className="w-5 h-5" />}
+                    {settingUp ? 'Create Account' : 'Sign In'}
+                </button>
+
+                {settingUp && (
+                    <p className="text-xs text-gray-500 text-center">
+                        More accounts can be added later in Settings → Accounts.
+                    </p>
+                )}
+            </form>
+        </div>
+    );
+}
@@ -0,0 +1,366 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { isAxiosError } from 'axios';
+import { Plus, Pencil, Trash2, Check, X, Lock } from 'lucide-react';
+import { profilesApi, setActiveProfileId } from '../api/client';
+import { useProfiles, useActiveProfileId } from '../hooks/useProfiles';
+import { useAuth } from '../hooks/useAuth';
+import type { Profile, ProfileRestrictions } from '../types';
+
+// Profile being added (id null) or edited in the form
+interface ProfileDraft {
+    id: number | null;
+    name: string;
+    avatarColor: string;
+    maxCertification: string | null;
+    allowUnrated: boolean;
+    hasPin: boolean;
+    pin: string; // New PIN, empty keeps the current one
+    removePin: boolean;
+}
+
+function errorText(err: unknown, fallback: string): string {
+    return isAxiosError(err) && err.response?.data?.error ? err.response.data.error : fallback;
+}
+
+const inputClass = 'px-4 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-teal-500 transition-colors';
+
+function ProfileAvatar({ profile, size = 'w-28 h-28 text-5xl' }: { profile: Pick<Profile, 'name' | 'avatar_color'>; size?: string }) {
+    return (
+        <div
+            className={`${size} rounded-xl flex items-center justify-center font-bold text-white select-none`}
+            style={{ backgroundColor: profile.avatar_color }}
+        >
+            {profile.name.trim().charAt(0).toUpperCase() || '?'}
+        </div>
+    );
+}
+
+export default function ProfilesPage() {
+    const navigate = useNavigate();
+    const queryClient = useQueryClient();
+    const activeProfileId = useActiveProfileId();
+    const { isAdmin } = useAuth();
+    const { profiles, colors, certifications, loading, refetch } = useProfiles();
+    const [managing, setManaging] = useState(false);
+    const [draft, setDraft] = useState<ProfileDraft | null>(null);
+    const [locked, setLocked] = useState<Profile | null>(null); // Profile waiting for its PIN
+    const [pin, setPin] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const switchTo = async (profile: Profile, profilePin?: string) => {
+        setSaving(true);
+        setError(null);
+        try {
+            await profilesApi.select(profile.id, profilePin);
+            // Nothing cached for the previous profile may show up for this one
+            if (profile.id !== activeProfileId) {
+                queryClient.clear();
+            }
+            setActiveProfileId(profile.id);
+            navigate('/');
+        } catch (err) {
+            setError(errorText(err, 'Failed to switch profile'));
+            setPin('');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleSelect = (profile: Profile) => {
+        if (managing) {
+            setDraft({
+                id: profile.id,
+                name: profile.name,
+                avatarColor: profile.avatar_color,
+                maxCertification: profile.max_certification,
+                allowUnrated: profile.allow_unrated === 1,
+                hasPin: profile.has_pin === 1,
+                pin: '',
+                removePin: false,
+            });
+            return;
+        }
+        if (profile.has_pin) {
+            setLocked(profile);
+            return;
+        }
+        switchTo(profile);
+    };
+
+    const handleAdd = () => {
+        const used = new Set(profiles.map(p => p.avatar_color));
+        setDraft({
+            id: null,
+            name: '',
+            avatarColor: colors.find(c => !used.has(c)) || colors[0] || '#14b8a6',
+            maxCertification: null,
+            allowUnrated: false,
+            hasPin: false,
+            pin: '',
+            removePin: false,
+        });
+    };
+
+    const closeForm = () => {
+        setDraft(null);
+        setLocked(null);
+        setPin('');
+        setError(null);
+    };
+
+    const handleSave = async () => {
+        if (!draft || !draft.name.trim()) return;
+        setSaving(true);
+        setError(null);
+        // Parental controls are only sent by admins, the server refuses them from viewers
+        const restrictions: ProfileRestrictions = isAdmin
+            ? {
+                maxCertification: draft.maxCertification,
+                allowUnrated: draft.allowUnrated,
+                ...(draft.removePin ? { pin: null } : draft.pin ? { pin: draft.pin } : {}),
+            }
+            : {};
+        try {
+            if (draft.id === null) {
+                await profilesApi.create(draft.name.trim(), draft.avatarColor, restrictions);
+            } else {
+                await profilesApi.update(draft.id, { name: draft.name.trim(), avatarColor: draft.avatarColor, ...restrictions });
+            }
+            await refetch();
+            closeForm();
+        } catch (err) {
+            setError(errorText(err, 'Failed to save profile'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async () => {
+        if (draft?.id == null) return;
+        if (!confirm(`Delete "${draft.name}"? Its watch progress and history will be lost.`)) return;
+        setSaving(true);
+        setError(null);
+        try {
+            await profilesApi.delete(draft.id);
+            if (draft.id === activeProfileId) {
+                setActiveProfileId(null);
+                queryClient.clear();
+            }
+            await refetch();
+            closeForm();
+        } catch (err) {
+            setError(errorText(err, 'Failed to delete profile'));
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    if (loading) return null;
+
+    return (
+        <div className="min-h-screen flex flex-col items-center justify-center px-8 py-12 animate-fadeIn">
+            <h1 className="text-4xl font-bold text-white mb-10">
+                {managing ? 'Manage Profiles' : "Who's watching?"}
+            </h1>
+
+            {locked ? (
+                <form
+                    onSubmit={(e) => {
+                        e.preventDefault();
+                        switchTo(locked, pin);
+                    }}
+                    className="w-full max-w-xs flex flex-col items-center gap-5"
+                >
+                    <ProfileAvatar profile={locked} />
+                    <p className="text-gray-400">Enter the PIN for {locked.name}</p>
+                    <input
+                        type="password"
+                        inputMode="numeric"
+                        value={pin}
+                        onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                        placeholder="PIN"
+                        maxLength={8}
+                        autoFocus
+                        className={`w-full text-center text-2xl tracking-widest ${inputClass}`}
+                    />
+
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+
+                    <div className="flex gap-2">
+                        <button type="button" onClick={closeForm} disabled={saving} className="btn-secondary">
+                            <X className="w-4 h-4" />
+                            Cancel
+                        </button>
+                        <button type="submit" disabled={saving || pin.length < 4} className="btn-primary">
+                            <Check className="w-4 h-4" />
+                            Continue
+                        </button>
+                    </div>
+                </form>
+            ) : draft ? (
+                <div className="w-full max-w-md bg-(--bg-secondary) rounded-xl p-6 space-y-5">
+                    <div className="flex items-center gap-4">
+                        <ProfileAvatar profile={{ name: draft.name, avatar_color: draft.avatarColor }} size="w-16 h-16 text-3xl" />
+                        <input
+                            type="text"
+                            value={draft.name}
+                            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                            placeholder="Name"
+                            maxLength={30}
+                            autoFocus
+                            className={`flex-1 ${inputClass}`}
+                        />
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                        {colors.map(color => (
+                            <button
+                                key={color}
+                                onClick={() => setDraft({ ...draft, avatarColor: color })}
+                                className={`w-8 h-8 rounded-full flex items-center justify-center transition-transform hover:scale-110 ${draft.avatarColor === color ? 'ring-2 ring-white' : ''}`}
+                                style={{ backgroundColor: color }}
+                                title={color}
+                            >
+                                {draft.avatarColor === color && <Check className="w-4 h-4 text-white" />}
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* Parental controls, admins only */}
+                    {isAdmin && (
+                        <div className="pt-4 border-t border-white/10 space-y-3">
+                            <div className="flex items-center justify-between gap-4">
+                                <label htmlFor="max-certification" className="text-white">Maximum rating</label>
+                                <select
+                                    id="max-certification"
+                                    value={draft.maxCertification ?? ''}
+                                    onChange={(e) => setDraft({ ...draft, maxCertification: e.target.value || null })}
+                                    className="px-3 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white focus:border-teal-500 focus:outline-none"
+                                >
+                                    <option value="">Unrestricted</option>
+                                    {certifications.map(c => (
+                                        <option key={c} value={c}>{c}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {draft.maxCertification && (
+                                <label className="flex items-center gap-2 text-sm text-gray-400">
+                                    <input
+                                        type="checkbox"
+                                        checked={draft.allowUnrated}
+                                        onChange={(e) => setDraft({ ...draft, allowUnrated: e.target.checked })}
+                                        className="accent-teal-500"
+                                    />
+                                    Allow titles without a rating
+                                </label>
+                            )}
+
+                            <div className="flex items-center gap-2">
+                                <input
+                                    type="password"
+                                    inputMode="numeric"
+                                    value={draft.pin}
+                                    onChange={(e) => setDraft({ ...draft, pin: e.target.value.replace(/\D/g, ''), removePin: false })}
+                                    placeholder={draft.hasPin && !draft.removePin ? 'Change PIN (4-8 digits)' : 'PIN (4-8 digits, optional)'}
+                                    maxLength={8}
+                                    autoComplete="new-password"
+                                    className={`flex-1 min-w-0 ${inputClass}`}
+                                />
+                                {draft.hasPin && (
+                                    <button
+                                        onClick={() => setDraft({ ...draft, pin: '', removePin: !draft.removePin })}
+                                        className="btn-secondary"
+                                    >
+                                        {draft.removePin ? 'Keep PIN' : 'Remove PIN'}
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {error && <p className="text-sm text-red-400">{error}</p>}
+
+                    <div className="flex items-center gap-2">
+                        {draft.id !== null && profiles.length > 1 && isAdmin && (
+                            <button onClick={handleDelete} disabled={saving} className="btn-secondary text-red-400">
+                                <Trash2 className="w-4 h-4" />
+                                Delete
+                            </button>
+                        )}
+                        <div className="flex gap-2 ml-auto">
+                            <button onClick={closeForm} disabled={saving} className="btn-secondary">
+                                <X className="w-4 h-4" />
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleSave}
+                                disabled={saving || !draft.name.trim() || (draft.pin.length > 0 && draft.pin.length < 4)}
+                                className="btn-primary"
+                            >
+                                <Check className="w-4 h-4" />
+                                Save
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    <div className="flex flex-wrap justify-center gap-8 max-w-4xl">
+                        {profiles.map(profile => (
+                            <button
+                                key={profile.id}
+                                onClick={() => handleSelect(profile)}
+                                className="group flex flex-col items-center gap-3"
+                            >
+                                <div className="relative rounded-xl ring-offset-4 ring-offset-(--bg-primary) group-hover:ring-2 group-hover:ring-white transition-all">
+                                    <ProfileAvatar profile={profile} />
+                                    {profile.has_pin === 1 && !managing && (
+                                        <Lock className="absolute bottom-2 right-2 w-5 h-5 text-white/80" />
+                                    )}
+                                    {managing && (
+                                        <div className="absolute inset-0 rounded-xl bg-black/50 flex items-center justify-center">
+                                            <Pencil className="w-8 h-8 text-white" />
+                                        </div>
+                                    )}
+                                </div>
+                                <span className={`text-lg transition-colors ${profile.id === activeProfileId ? 'text-white' : 'text-gray-400 group-hover:text-white'}`}>
+                                    {profile.name}
+                                </span>
+                            </button>
+                        ))}
+
+                        {isAdmin && (
+                            <button onClick={handleAdd} className="group flex flex-col items-center gap-3">
+                                <div className="w-28 h-28 rounded-xl border-2 border-dashed border-gray-600 group-hover:border-white flex items-center justify-center transition-colors">
+                                    <Plus className="w-10 h-10 text-gray-500 group-hover:text-white transition-colors" />
+                                </div>
+                                <span className="text-lg text-gray-400 group-hover:text-white transition-colors">Add Profile</span>
+                            </button>
+                        )}
+                    </div>
+
+                    {error && <p className="text-sm text-red-400 mt-6">{error}</p>}
+
+                    <button onClick={() => setManaging(!managing)} className="btn-secondary mt-12">
+                        {managing ? (
+                            <>
+                                <Check className="w-4 h-4" />
+                                Done
+                            </>
+                        ) : (
+                            <>
+                                <Pencil className="w-4 h-4" />
+                                Manage Profiles
+                            </>
+                        )}
+                    </button>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,341 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Check, Search, Ban, Film, AlertTriangle, X } from 'lucide-react';
+import { reviewApi, settingsApi } from '../api/client';
+import { useReviewQueue } from '../hooks/useReviewQueue';
+import type { ReviewItem } from '../types';
+
+const THRESHOLDS = [50, 60, 70, 80, 90, 100];
+
+// Items per re-search request, the server takes at most this many at once
+const RESEARCH_BATCH = 10;
+
+function confidenceColor(confidence: number): string {
+    if (confidence >= 70) return 'text-yellow-400';
+    if (confidence >= 40) return 'text-orange-400';
+    return 'text-red-400';
+}
+
+function episodeLabel(item: ReviewItem): string {
+    if (item.season_number == null || item.episode_number == null) return '';
+    return ` · S${String(item.season_number).padStart(2, '0')}E${String(item.episode_number).padStart(2, '0')}`;
+}
+
+export default function ReviewPage() {
+    const [threshold, setThreshold] = useState<number | undefined>(undefined);
+    const { items, threshold: activeThreshold, loading, error, refetch } = useReviewQueue(threshold);
+    const [selected, setSelected] = useState<Set<number>>(new Set());
+    const [working, setWorking] = useState(false);
+    const [researched, setResearched] = useState<number | null>(null);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    // Re-search form
+    const [showResearch, setShowResearch] = useState(false);
+    const [query, setQuery] = useState('');
+    const [year, setYear] = useState('');
+    const [type, setType] = useState('unknown');
+
+    const selectedIds = items.filter(item => selected.has(item.id)).map(item => item.id);
+    const allSelected = items.length > 0 && selectedIds.length === items.length;
+
+    const showMessage = (type: 'success' | 'error', text: string) => {
+        setMessage({ type, text });
+        setTimeout(() => setMessage(null), 3000);
+    };
+
+    const toggleItem = (id: number) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const toggleAll = () => {
+        setSelected(allSelected ? new Set() : new Set(items.map(item => item.id)));
+    };
+
+    const handleThresholdChange = async (value: number) => {
+        setSelected(new Set());
+        setThreshold(value);
+        try {
+            await settingsApi.update({ match_review_threshold: value });
+        } catch (err) {
+            console.error(err);
+            showMessage('error', 'Failed to save threshold');
+        }
+    };
+
+    const runAction = async (action: () => Promise<string>) => {
+        setWorking(true);
+        try {
+            const text = await action();
+            setSelected(new Set());
+            setShowResearch(false);
+            await refetch();
+            showMessage('success', text);
+        } catch (err) {
+            console.error(err);
+            showMessage('error', 'Action failed');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleAccept = () => runAction(async () => {
+        const res = await reviewApi.accept(selectedIds);
+        return `Accepted ${res.data.updated} match${res.data.updated === 1 ? '' : 'es'}`;
+    });
+
+    const handleNoMatch = () => runAction(async () => {
+        const res = await reviewApi.markNoMatch(selectedIds);
+        return `Marked ${res.data.updated} item${res.data.updated === 1 ? '' : 's'} as personal video`;
+    });
+
+    const openResearch = () => {
+        const first = items.find(item => selected.has(item.id));
+        setQuery(first?.parsed.title || '');
+        setYear(first?.parsed.year ? String(first.parsed.year) : '');
+        setType(first && (first.media_type === 'movie' || first.media_type === 'tv') ? first.media_type : 'unknown');
+        setShowResearch(true);
+    };
+
+    const handleResearch = (e: React.FormEvent) => {
+        e.preventDefault();
+        runAction(async () => {
+            let matched = 0;
+            let failed = 0;
+            setResearched(0);
+            try {
+                for (let i = 0; i < selectedIds.length; i += RESEARCH_BATCH) {
+                    const res = await reviewApi.research(selectedIds.slice(i, i + RESEARCH_BATCH), {
+                        query: query.trim(),
+                        year: year ? parseInt(year) : undefined,
+                        type,
+                    });
+                    matched += res.data.matched;
+                    failed += res.data.failed;
+                    setResearched(Math.min(i + RESEARCH_BATCH, selectedIds.length));
+                }
+            } finally {
+                setResearched(null);
+            }
+            return `Found ${matched} match${matched === 1 ? '' : 'es'}, ${failed} without a match`;
+        });
+    };
+
+    return (
+        <div className="min-h-screen px-8 py-6 max-w-5xl mx-auto animate-fadeIn">
+            {/* Header */}
+            <div className="flex items-center gap-4 mb-2">
+                <Link to="/settings" className="text-gray-400 hover:text-white transition-colors">
+                    <ArrowLeft className="w-6 h-6" />
+                </Link>
+                <h1 className="text-2xl font-bold text-white">Review Matches</h1>
+            </div>
+            <p className="text-gray-400 mb-6">
+                Titles that could not be matched on TMDB, or whose match is less certain than the threshold.
+            </p>
+
+            {/* Message Toast */}
+            {message && (
+                <div
+                    className={`fixed top-4 right-4 px-5 py-4 rounded-xl shadow-2xl z-50 animate-fadeInUp flex items-center gap-3 ${message.type === 'success'
+                        ? 'bg-linear-to-r from-green-600 to-green-700 border border-green-500'
+                        : 'bg-linear-to-r from-red-600 to-red-700 border border-red-500'
+                        } text-white min-w-[280px]`}
+                >
+                    {message.type === 'success' ? (
+                        <Check className="w-5 h-5 shrink-0" />
+                    ) : (
+                        <AlertTriangle className="w-5 h-5 shrink-0" />
+                    )}
+                    <span className="font-medium">{message.text}</span>
+                </div>
+            )}
+
+            {/* Toolbar */}
+            <div className="bg-(--bg-secondary) rounded-lg p-4 mb-4">
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={allSelected}
+                            onChange={toggleAll}
+                            disabled={items.length === 0}
+                            className="w-4 h-4 accent-teal-500"
+                        />
+                        {selectedIds.length > 0 ? `${selectedIds.length} selected` : `${items.length} items`}
+                    </label>
+
+                    <div className="flex flex-wrap gap-2 ml-auto">
+                        <button
+                            onClick={handleAccept}
+                            disabled={working || selectedIds.length === 0}
+                            className="btn-secondary"
+                            title="Keep the current matches"
+                        >
+                            <Check className="w-4 h-4" />
+                            Accept
+                        </button>
+                        <button
+                            onClick={openResearch}
+                            disabled={working || selectedIds.length === 0}
+                            className="btn-secondary"
+                        >
+                            <Search className="w-4 h-4" />
+                            Search Again
+                        </button>
+                        <button
+                            onClick={handleNoMatch}
+                            disabled={working || selectedIds.length === 0}
+                            className="btn-secondary"
+                            title="Home videos and other files without a TMDB entry"
+                        >
+                            <Ban className="w-4 h-4" />
+                            No Match
+                        </button>
+                    </div>
+
+                    <div className="flex items-center gap-2 pl-3 border-l border-gray-700">
+                        <span className="text-sm text-gray-500">Below</span>
+                        <select
+                            value={String(activeThreshold ?? 70)}
+                            onChange={(e) => handleThresholdChange(Number(e.target.value))}
+                            className="px-3 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white focus:border-teal-500 focus:outline-none transition-colors"
+                        >
+                            {THRESHOLDS.map(value => (
+                                <option key={value} value={value}>{value}%</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                {/* Re-search Form */}
+                {showResearch && (
+                    <form onSubmit={handleResearch} className="flex flex-wrap gap-2 mt-4 pt-4 border-t border-gray-700">
+                        <input
+                            type="text"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                            placeholder="Title"
+                            autoFocus
+                            className="flex-1 min-w-[200px] px-3 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-teal-500 transition-colors"
+                        />
+                        <input
+                            type="number"
+                            value={year}
+                            onChange={(e) => setYear(e.target.value)}
+                            placeholder="Year"
+                            className="w-24 px-3 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-teal-500 transition-colors"
+                        />
+                        <select
+                            value={type}
+                            onChange={(e) => setType(e.target.value)}
+                            className="px-3 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white focus:border-teal-500 focus:outline-none transition-colors"
+                        >
+                            <option value="unknown">Any</option>
+                            <option value="movie">Movie</option>
+                            <option value="tv">TV Show</option>
+                        </select>
+                        <button type="submit" disabled={working || !query.trim()} className="btn-primary">
+                            {working ? `Searching${researched !== null ? ` ${researched}/${selectedIds.length}` : ''}...` : `Search ${selectedIds.length} item${selectedIds.length === 1 ? '' : 's'}`}
+                        </button>
+                        <button
+                            type="button"
+                            onClick={() => setShowResearch(false)}
+                            className="text-gray-400 hover:text-white transition-colors px-2"
+                        >
+                            <X className="w-5 h-5" />
+                        </button>
+                    </form>
+                )}
+            </div>
+
+            {/* Queue */}
+            {loading && items.length === 0 ? (
+                <div className="flex items-center justify-center py-20">
+                    <div className="loading-spinner" />
+                </div>
+            ) : error ? (
+                <p className="text-red-400 text-center py-12">{error}</p>
+            ) : items.length === 0 ? (
+                <div className="text-center py-20">
+                    <Check className="w-12 h-12 text-teal-400 mx-auto mb-3" />
+                    <p className="text-gray-400">Nothing to review. Every match is above the threshold.</p>
+                </div>
+            ) : (
+                <div className="bg-(--bg-secondary) rounded-lg divide-y divide-gray-700">
+                    {items.map(item => (
+                        <label
+                            key={item.id}
+                            className={`flex items-center gap-4 p-3 cursor-pointer transition-colors ${selected.has(item.id) ? 'bg-teal-500/10' : 'hover:bg-white/5'}`}
+                        >
+                            <input
+                                type="checkbox"
+                                checked={selected.has(item.id)}
+                                onChange={() => toggleItem(item.id)}
+                                className="w-4 h-4 accent-teal-500 shrink-0"
+                            />
+
+                            {/* Parsed from filename */}
+                            <div className="flex-1 min-w-0">
+                                <p className="text-white truncate">
+                                    {item.parsed.title}
+                                    {item.parsed.year && <span className="text-gray-400"> ({item.parsed.year})</span>}
+                                    <span className="text-gray-500 text-sm">{episodeLabel(item)}</span>
+                                </p>
+                                <p className="text-xs text-gray-500 truncate" title={item.file_path}>{item.file_name}</p>
+                            </div>
+
+                            {/* TMDB match */}
+                            <div className="flex-1 min-w-0 flex items-center gap-3">
+                                {item.match ? (
+                                    <>
+                                        {item.match.poster_path ? (
+                                            <img
+                                                src={item.match.poster_path}
+                                                alt=""
+                                                className="w-8 h-12 object-cover rounded shrink-0"
+                                                loading="lazy"
+                                            />
+                                        ) : (
+                                            <div className="w-8 h-12 bg-gray-800 rounded flex items-center justify-center shrink-0">
+                                                <Film className="w-4 h-4 text-gray-600" />
+                                            </div>
+                                        )}
+                                        <div className="min-w-0">
+                                            <Link
+                                                to={`/media/${item.id}`}
+                                                onClick={(e) => e.stopPropagation()}
+                                                className="text-white hover:text-teal-400 truncate block transition-colors"
+                                            >
+                                                {item.match.title || `TMDB #${item.match.tmdb_id}`}
+                                                {item.match.year && <span className="text-gray-400"> ({item.match.year})</span>}
+                                            </Link>
+                                            <p className="text-xs text-gray-500">
+                                                {item.match.tmdb_type === 'movie' ? 'Movie' : 'TV Show'} •{' '}
+                                                <span className={confidenceColor(item.match.confidence)}>
+                                                    {item.match.confidence}% match
+                                                </span>
+                                            </p>
+                                        </div>
+                                    </>
+                                ) : (
+                                    <p className="text-red-400 text-sm flex items-center gap-2">
+                                        <AlertTriangle className="w-4 h-4" />
+                                        No match found
+                                    </p>
+                                )}
+                            </div>
+                        </label>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
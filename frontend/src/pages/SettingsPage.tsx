@@ -1,8 +1,14 @@
 import { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { ArrowLeft, Plus, Trash2, RefreshCw, Folder, AlertTriangle, ChevronRight, HardDrive, X, Check } from 'lucide-react';
-import { settingsApi, mediaApi } from '../api/client';
-import type { ScanPath } from '../types';
+import { ArrowLeft, Plus, Trash2, RefreshCw, Folder, AlertTriangle, ChevronRight, HardDrive, X, Check, Images } from 'lucide-react';
+import { settingsApi, thumbnailsApi } from '../api/client';
+import { useScanJob } from '../hooks/useScanJob';
+import { useAuth } from '../hooks/useAuth';
+import { useThumbnailStatus } from '../hooks/useThumbnails';
+import ScanProgress from '../components/ScanProgress';
+import LanguageListInput from '../components/LanguageListInput';
+import AccountSettings from '../components/AccountSettings';
+import type { ScanPath, ScanJob } from '../types';
 
 interface FolderItem {
     name: string;
@@ -16,14 +22,36 @@ interface BrowseResult {
     items: FolderItem[];
 }
 
+interface ImageCacheStats {
+    files: number;
+    bytes: number;
+    pending: number;
+    caching: boolean;
+}
+
+interface ThumbnailCacheStats {
+    totalItems: number;
+    totalSizeMB: number;
+    limitMB: number;
+}
+
+// Language settings are stored as JSON arrays of codes
+function toLanguageList(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
 export default function SettingsPage() {
+    const { isAdmin } = useAuth();
     const [scanPaths, setScanPaths] = useState<ScanPath[]>([]);
     const [settings, setSettings] = useState<Record<string, unknown>>({});
     const [newPath, setNewPath] = useState('');
     const [loading, setLoading] = useState(true);
-    const [scanning, setScanning] = useState(false);
     const [saving, setSaving] = useState(false);
     const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const [imageCache, setImageCache] = useState<ImageCacheStats | null>(null);
+    const [refreshingImages, setRefreshingImages] = useState(false);
+    const [thumbnailCache, setThumbnailCache] = useState<ThumbnailCacheStats | null>(null);
+    const { status: thumbnailStatus, refetch: refetchThumbnailStatus } = useThumbnailStatus();
 
     // Folder browser state
     const [showBrowser, setShowBrowser] = useState(false);
@@ -37,12 +65,16 @@ export default function SettingsPage() {
 
     const loadData = async () => {
         try {
-            const [pathsRes, settingsRes] = await Promise.all([
+            const [pathsRes, settingsRes, imageCacheRes, thumbnailCacheRes] = await Promise.all([
                 settingsApi.getScanPaths(),
                 settingsApi.getAll(),
+                settingsApi.getImageCache(),
+                thumbnailsApi.getStats(),
             ]);
             setScanPaths(pathsRes.data.data);
             setSettings(settingsRes.data);
+            setImageCache(imageCacheRes.data);
+            setThumbnailCache(thumbnailCacheRes.data);
         } catch (err) {
             showMessage('error', 'Failed to load settings');
         } finally {
@@ -84,17 +116,27 @@ export default function SettingsPage() {
         }
     };
 
-    const handleScan = async () => {
-        setScanning(true);
-        try {
-            const result = await mediaApi.scan();
-            await loadData();
-            const total = result.data.results?.reduce((acc: number, r: any) => acc + r.newFiles, 0) || 0;
+    const handleScanFinished = (job: ScanJob) => {
+        loadData();
+        if (job.status === 'completed') {
+            const total = job.results.reduce((acc, r) => acc + r.newFiles, 0);
             showMessage('success', `Scan complete. ${total} new files found.`);
+        } else if (job.status === 'cancelled') {
+            showMessage('success', 'Scan cancelled');
+        } else {
+            showMessage('error', job.error || 'Scan failed');
+        }
+    };
+
+    const { job: scanJob, scanning, progress: scanProgress, startScan, cancelScan } = useScanJob(handleScanFinished);
+
+    const handleScan = async (force = false) => {
+        if (force && !confirm('Re-probe every file in the library? This can take a long time on large libraries.')) return;
+
+        try {
+            await startScan(force);
         } catch (err) {
             showMessage('error', 'Scan failed');
-        } finally {
-            setScanning(false);
         }
     };
 
@@ -112,7 +154,7 @@ export default function SettingsPage() {
     };
 
     const handleClearHistory = async () => {
-        if (!confirm('Clear all watch history? This cannot be undone.')) return;
+        if (!confirm('Clear the watch history of this profile? This cannot be undone.')) return;
 
         try {
             await settingsApi.clearHistory();
@@ -133,6 +175,32 @@ export default function SettingsPage() {
         }
     };
 
+    const handleRefreshImageCache = async () => {
+        setRefreshingImages(true);
+        try {
+            const res = await settingsApi.refreshImageCache();
+            const { cached, failed, ...stats } = res.data;
+            setImageCache(stats);
+            const text = `Cached ${cached} image${cached === 1 ? '' : 's'}`;
+            showMessage(failed > 0 ? 'error' : 'success', failed > 0 ? `${text}, ${failed} failed` : text);
+        } catch {
+            showMessage('error', 'Failed to refresh image cache');
+        } finally {
+            setRefreshingImages(false);
+        }
+    };
+
+    const handleGenerateThumbnails = async () => {
+        try {
+            const res = await thumbnailsApi.queueAll();
+            const { queued } = res.data;
+            showMessage('success', queued > 0 ? `Queued ${queued} file${queued === 1 ? '' : 's'} for seek previews` : 'All seek previews are up to date');
+            refetchThumbnailStatus();
+        } catch {
+            showMessage('error', 'Failed to queue seek previews');
+        }
+    };
+
     // Folder browser functions
     const openFolderBrowser = async () => {
         setShowBrowser(true);
@@ -310,98 +378,185 @@ export default function SettingsPage() {
             )}
 
             {/* Library Paths */}
-            <section className="mb-10">
-                <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
-                    <Folder className="w-5 h-5" />
-                    Library Paths
-                </h2>
+            {isAdmin && (
+                <section className="mb-10">
+                    <h2 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
+                        <Folder className="w-5 h-5" />
+                        Library Paths
+                    </h2>
+
+                    <div className="bg-(--bg-secondary) rounded-lg p-4">
+                        {/* Existing Paths */}
+                        {scanPaths.length === 0 ? (
+                            <p className="text-gray-400 mb-4">No library paths configured. Add a folder to scan for media.</p>
+                        ) : (
+                            <ul className="space-y-3 mb-4">
+                                {scanPaths.map((path) => (
+                                    <li
+                                        key={path.id}
+                                        className={`flex items-center justify-between p-3 rounded-lg transition-all ${path.exists ? 'bg-(--bg-card)' : 'bg-red-900/20 border border-red-800'
+                                            }`}
+                                    >
+                                        <div className="flex-1 min-w-0">
+                                            <p className="text-white truncate">{path.path}</p>
+                                            <p className="text-sm text-gray-500">
+                                                {path.files_found} files
+                                                {path.last_scan_at && ` • Last scan: ${new Date(path.last_scan_at).toLocaleDateString()}`}
+                                            </p>
+                                            {!path.exists && (
+                                                <p className="text-sm text-red-400 flex items-center gap-1">
+                                                    <AlertTriangle className="w-4 h-4" />
+                                                    Path not found
+                                                </p>
+                                            )}
+                                        </div>
+                                        <button
+                                            onClick={() => handleDeletePath(path.id)}
+                                            className="ml-4 p-2 text-gray-400 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-all"
+                                            title="Remove path"
+                                        >
+                                            <Trash2 className="w-5 h-5" />
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
 
-                <div className="bg-(--bg-secondary) rounded-lg p-4">
-                    {/* Existing Paths */}
-                    {scanPaths.length === 0 ? (
-                        <p className="text-gray-400 mb-4">No library paths configured. Add a folder to scan for media.</p>
-                    ) : (
-                        <ul className="space-y-3 mb-4">
-                            {scanPaths.map((path) => (
-                                <li
-                                    key={path.id}
-                                    className={`flex items-center justify-between p-3 rounded-lg transition-all ${path.exists ? 'bg-(--bg-card)' : 'bg-red-900/20 border border-red-800'
-                                        }`}
+                        {/* Add New Path */}
+                        <div className="flex gap-2">
+                            <button
+                                onClick={openFolderBrowser}
+                                className="btn-primary flex-1"
+                            >
+                                <Folder className="w-5 h-5" />
+                                Browse for Folder
+                            </button>
+                        </div>
+
+                        {/* Manual Path Entry (collapsed) */}
+                        <details className="mt-3">
+                            <summary className="text-sm text-gray-500 cursor-pointer hover:text-gray-300 transition-colors">
+                                Or enter path manually
+                            </summary>
+                            <div className="flex gap-2 mt-2">
+                                <input
+                                    type="text"
+                                    value={newPath}
+                                    onChange={(e) => setNewPath(e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && handleAddPath()}
+                                    placeholder="Enter folder path (e.g., D:\Movies)"
+                                    className="flex-1 px-4 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-teal-500 transition-colors"
+                                />
+                                <button
+                                    onClick={() => handleAddPath()}
+                                    disabled={saving || !newPath.trim()}
+                                    className="btn-secondary"
                                 >
-                                    <div className="flex-1 min-w-0">
-                                        <p className="text-white truncate">{path.path}</p>
-                                        <p className="text-sm text-gray-500">
-                                            {path.files_found} files
-                                            {path.last_scan_at && ` • Last scan: ${new Date(path.last_scan_at).toLocaleDateString()}`}
-                                        </p>
-                                        {!path.exists && (
-                                            <p className="text-sm text-red-400 flex items-center gap-1">
-                                                <AlertTriangle className="w-4 h-4" />
-                                                Path not found
-                                            </p>
-                                        )}
-                                    </div>
-                                    <button
-                                        onClick={() => handleDeletePath(path.id)}
-                                        className="ml-4 p-2 text-gray-400 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-all"
-                                        title="Remove path"
-                                    >
-                                        <Trash2 className="w-5 h-5" />
-                                    </button>
-                                </li>
-                            ))}
-                        </ul>
-                    )}
+                                    <Plus className="w-5 h-5" />
+                                    Add
+                                </button>
+                            </div>
+                        </details>
 
-                    {/* Add New Path */}
-                    <div className="flex gap-2">
-                        <button
-                            onClick={openFolderBrowser}
-                            className="btn-primary flex-1"
-                        >
-                            <Folder className="w-5 h-5" />
-                            Browse for Folder
-                        </button>
-                    </div>
+                        {/* Watch Folders */}
+                        <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-700">
+                            <div>
+                                <p className="text-white">Watch Folders for Changes</p>
+                                <p className="text-sm text-gray-500">Add, remove and rename library items automatically as files change</p>
+                            </div>
+                            <label className="relative inline-flex items-center cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={settings.watch_library !== false}
+                                    onChange={(e) => handleUpdateSetting('watch_library', e.target.checked)}
+                                    className="sr-only peer"
+                                />
+                                <div className="w-11 h-6 bg-gray-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-teal-500"></div>
+                            </label>
+                        </div>
 
-                    {/* Manual Path Entry (collapsed) */}
-                    <details className="mt-3">
-                        <summary className="text-sm text-gray-500 cursor-pointer hover:text-gray-300 transition-colors">
-                            Or enter path manually
-                        </summary>
-                        <div className="flex gap-2 mt-2">
-                            <input
-                                type="text"
-                                value={newPath}
-                                onChange={(e) => setNewPath(e.target.value)}
-                                onKeyDown={(e) => e.key === 'Enter' && handleAddPath()}
-                                placeholder="Enter folder path (e.g., D:\Movies)"
-                                className="flex-1 px-4 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-teal-500 transition-colors"
-                            />
+                        {/* Content Hashing */}
+                        <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-700">
+                            <div>
+                                <p className="text-white">Verify File Contents</p>
+                                <p className="text-sm text-gray-500">Hash part of each file to catch changes that keep the same size</p>
+                            </div>
+                            <label className="relative inline-flex items-center cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={settings.scan_hash_files === true}
+                                    onChange={(e) => handleUpdateSetting('scan_hash_files', e.target.checked)}
+                                    className="sr-only peer"
+                                />
+                                <div className="w-11 h-6 bg-gray-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-teal-500"></div>
+                            </label>
+                        </div>
+
+                        {/* Intro Detection */}
+                        <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-700">
+                            <div>
+                                <p className="text-white">Detect Intros</p>
+                                <p className="text-sm text-gray-500">Compare the audio of new episodes after a scan to find the intro of each season</p>
+                            </div>
+                            <label className="relative inline-flex items-center cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={settings.detect_intros !== false}
+                                    onChange={(e) => handleUpdateSetting('detect_intros', e.target.checked)}
+                                    className="sr-only peer"
+                                />
+                                <div className="w-11 h-6 bg-gray-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-teal-500"></div>
+                            </label>
+                        </div>
+
+                        {/* Scan Concurrency */}
+                        <div className="flex items-center justify-between mt-4 pt-4 border-t border-gray-700">
+                            <div>
+                                <p className="text-white">Parallel Scans</p>
+                                <p className="text-sm text-gray-500">Files read at the same time. Lower this for network drives</p>
+                            </div>
+                            <select
+                                value={String(settings.scan_concurrency || 4)}
+                                onChange={(e) => handleUpdateSetting('scan_concurrency', Number(e.target.value))}
+                                className="px-3 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white focus:border-teal-500 focus:outline-none transition-colors"
+                            >
+                                <option value="1">1</option>
+                                <option value="2">2</option>
+                                <option value="4">4</option>
+                                <option value="8">8</option>
+                                <option value="16">16</option>
+                            </select>
+                        </div>
+
+                        {/* Scan Button */}
+                        <div className="mt-4 pt-4 border-t border-gray-700">
+                            {scanning && scanJob && (
+                                <div className="mb-3">
+                                    <ScanProgress job={scanJob} progress={scanProgress} onCancel={cancelScan} />
+                                </div>
+                            )}
                             <button
-                                onClick={() => handleAddPath()}
-                                disabled={saving || !newPath.trim()}
-                                className="btn-secondary"
+                                onClick={() => handleScan()}
+                                disabled={scanning || scanPaths.length === 0}
+                                className="btn-secondary w-full justify-center"
                             >
-                                <Plus className="w-5 h-5" />
-                                Add
+                                <RefreshCw className={`w-5 h-5 ${scanning ? 'animate-spin' : ''}`} />
+                                {scanning ? 'Scanning Library...' : 'Scan Library Now'}
                             </button>
+                            <p className="text-sm text-gray-500 mt-2 text-center">
+                                Only new and changed files are scanned.{' '}
+                                <button
+                                    onClick={() => handleScan(true)}
+                                    disabled={scanning || scanPaths.length === 0}
+                                    className="text-teal-400 hover:text-teal-300 disabled:opacity-50"
+                                >
+                                    Force full rescan
+                                </button>
+                            </p>
                         </div>
-                    </details>
-
-                    {/* Scan Button */}
-                    <div className="mt-4 pt-4 border-t border-gray-700">
-                        <button
-                            onClick={handleScan}
-                            disabled={scanning || scanPaths.length === 0}
-                            className="btn-secondary w-full justify-center"
-                        >
-                            <RefreshCw className={`w-5 h-5 ${scanning ? 'animate-spin' : ''}`} />
-                            {scanning ? 'Scanning Library...' : 'Scan Library Now'}
-                        </button>
                     </div>
-                </div>
-            </section>
+                </section>
+            )}
 
             {/* Playback Settings */}
             <section className="mb-10">
@@ -424,27 +579,205 @@ export default function SettingsPage() {
                         </label>
                     </div>
 
+                    <div className="flex items-center justify-between gap-6">
+                        <div>
+                            <p className="text-white">Audio Languages</p>
+                            <p className="text-sm text-gray-500">Audio track to start with when a file has several, in order of preference</p>
+                        </div>
+                        <LanguageListInput
+                            value={toLanguageList(settings.audio_languages)}
+                            onChange={(languages) => handleUpdateSetting('audio_languages', languages)}
+                        />
+                    </div>
+
+                    <div className="flex items-center justify-between gap-6">
+                        <div>
+                            <p className="text-white">Subtitle Languages</p>
+                            <p className="text-sm text-gray-500">Subtitle track to show, in order of preference</p>
+                        </div>
+                        <LanguageListInput
+                            value={toLanguageList(settings.subtitle_languages)}
+                            onChange={(languages) => handleUpdateSetting('subtitle_languages', languages)}
+                        />
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <p className="text-white">Show Subtitles</p>
+                            <p className="text-sm text-gray-500">Tracks you pick in the player are remembered for the rest of a series</p>
+                        </div>
+                        <select
+                            value={String(settings.subtitle_mode || 'foreign')}
+                            onChange={(e) => handleUpdateSetting('subtitle_mode', e.target.value)}
+                            className="px-3 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white focus:border-teal-500 focus:outline-none transition-colors"
+                        >
+                            <option value="foreign">When audio isn't in my language</option>
+                            <option value="always">Always</option>
+                            <option value="forced">Forced only</option>
+                            <option value="off">Never</option>
+                        </select>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <p className="text-white">Subtitle Size</p>
+                            <p className="text-sm text-gray-500">Relative to the player's default size</p>
+                        </div>
+                        <select
+                            value={String(settings.subtitle_size || 100)}
+                            onChange={(e) => handleUpdateSetting('subtitle_size', parseInt(e.target.value))}
+                            className="px-3 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white focus:border-teal-500 focus:outline-none transition-colors"
+                        >
+                            <option value="75">Small</option>
+                            <option value="100">Normal</option>
+                            <option value="125">Large</option>
+                            <option value="150">Larger</option>
+                            <option value="200">Huge</option>
+                        </select>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <p className="text-white">Subtitle Color</p>
+                            <p className="text-sm text-gray-500">Styled ASS subtitles keep their own colors</p>
+                        </div>
+                        <select
+                            value={String(settings.subtitle_color || '#ffffff')}
+                            onChange={(e) => handleUpdateSetting('subtitle_color', e.target.value)}
+                            className="px-3 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white focus:border-teal-500 focus:outline-none transition-colors"
+                        >
+                            <option value="#ffffff">White</option>
+                            <option value="#ffff00">Yellow</option>
+                            <option value="#00ffff">Cyan</option>
+                            <option value="#00ff00">Green</option>
+                        </select>
+                    </div>
+
                     <div className="flex items-center justify-between">
                         <div>
-                            <p className="text-white">Default Subtitle Language</p>
-                            <p className="text-sm text-gray-500">Preferred subtitle track</p>
+                            <p className="text-white">Subtitle Background</p>
+                            <p className="text-sm text-gray-500">Box behind the subtitle text</p>
                         </div>
                         <select
-                            value={String(settings.default_subtitle_language || 'eng')}
-                            onChange={(e) => handleUpdateSetting('default_subtitle_language', e.target.value)}
+                            value={String(settings.subtitle_background || 'translucent')}
+                            onChange={(e) => handleUpdateSetting('subtitle_background', e.target.value)}
                             className="px-3 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white focus:border-teal-500 focus:outline-none transition-colors"
                         >
-                            <option value="eng">English</option>
-                            <option value="spa">Spanish</option>
-                            <option value="fre">French</option>
-                            <option value="ger">German</option>
-                            <option value="jpn">Japanese</option>
-                            <option value="kor">Korean</option>
+                            <option value="none">None</option>
+                            <option value="translucent">Translucent</option>
+                            <option value="solid">Solid</option>
+                        </select>
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                        <div>
+                            <p className="text-white">Subtitle Position</p>
+                            <p className="text-sm text-gray-500">Where subtitles without a position of their own are shown</p>
+                        </div>
+                        <select
+                            value={String(settings.subtitle_position || 'bottom')}
+                            onChange={(e) => handleUpdateSetting('subtitle_position', e.target.value)}
+                            className="px-3 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white focus:border-teal-500 focus:outline-none transition-colors"
+                        >
+                            <option value="bottom">Bottom</option>
+                            <option value="raised">Raised</option>
+                            <option value="top">Top</option>
                         </select>
                     </div>
                 </div>
             </section>
 
+            {/* Seek Previews */}
+            {isAdmin && (
+                <section className="mb-10">
+                    <h2 className="text-xl font-semibold text-white mb-4">Seek Previews</h2>
+
+                    <div className="bg-(--bg-secondary) rounded-lg p-4 space-y-4">
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <p className="text-white">Generate After Scans</p>
+                                <p className="text-sm text-gray-500">Make thumbnails of new files in the background, shown while scrubbing</p>
+                            </div>
+                            <label className="relative inline-flex items-center cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={settings.generate_thumbnails === true}
+                                    onChange={(e) => handleUpdateSetting('generate_thumbnails', e.target.checked)}
+                                    className="sr-only peer"
+                                />
+                                <div className="w-11 h-6 bg-gray-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-teal-500"></div>
+                            </label>
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <p className="text-white">Thumbnail Interval</p>
+                                <p className="text-sm text-gray-500">Time between thumbnails. Shorter is more precise but slower to generate</p>
+                            </div>
+                            <select
+                                value={String(settings.thumbnail_interval || 10)}
+                                onChange={(e) => handleUpdateSetting('thumbnail_interval', Number(e.target.value))}
+                                className="px-3 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white focus:border-teal-500 focus:outline-none transition-colors"
+                            >
+                                <option value="5">5 seconds</option>
+                                <option value="10">10 seconds</option>
+                                <option value="20">20 seconds</option>
+                                <option value="30">30 seconds</option>
+                            </select>
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <p className="text-white">Cache Size</p>
+                                <p className="text-sm text-gray-500">Previews of the least recently watched files are removed past this</p>
+                            </div>
+                            <select
+                                value={String(settings.thumbnail_cache_mb || 2048)}
+                                onChange={(e) => handleUpdateSetting('thumbnail_cache_mb', Number(e.target.value))}
+                                className="px-3 py-2 bg-(--bg-card) border border-gray-700 rounded-lg text-white focus:border-teal-500 focus:outline-none transition-colors"
+                            >
+                                <option value="512">512 MB</option>
+                                <option value="1024">1 GB</option>
+                                <option value="2048">2 GB</option>
+                                <option value="5120">5 GB</option>
+                                <option value="10240">10 GB</option>
+                            </select>
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <p className="text-white">Library Previews</p>
+                                <p className="text-sm text-gray-500">
+                                    {thumbnailCache
+                                        ? `${thumbnailCache.totalItems} files (${thumbnailCache.totalSizeMB} MB of ${thumbnailCache.limitMB} MB)`
+                                        : 'Thumbnails for every file that has none yet'}
+                                    {thumbnailStatus && thumbnailStatus.queued.length > 0 && ` • ${thumbnailStatus.queued.length} waiting`}
+                                </p>
+                            </div>
+                            <button onClick={handleGenerateThumbnails} className="btn-secondary">
+                                <Images className="w-4 h-4" />
+                                Generate
+                            </button>
+                        </div>
+
+                        {thumbnailStatus?.active.filter(job => job.status === 'generating').map(job => (
+                            <div key={job.mediaId} className="space-y-1">
+                                <div className="flex items-center justify-between text-sm">
+                                    <span className="text-gray-300 truncate">{job.fileName}</span>
+                                    <span className="text-gray-500 shrink-0 ml-2">{job.progress}%</span>
+                                </div>
+                                <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                                    <div
+                                        className="h-full bg-teal-500 transition-all duration-300"
+                                        style={{ width: `${job.progress}%` }}
+                                    />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            )}
+
             {/* Data Management */}
             <section className="mb-10">
                 <h2 className="text-xl font-semibold text-white mb-4">Data Management</h2>
@@ -453,25 +786,62 @@ export default function SettingsPage() {
                     <div className="flex items-center justify-between">
                         <div>
                             <p className="text-white">Clear Watch History</p>
-                            <p className="text-sm text-gray-500">Remove all playback progress and watch counts</p>
+                            <p className="text-sm text-gray-500">Remove this profile's playback progress and watch counts</p>
                         </div>
                         <button onClick={handleClearHistory} className="btn-secondary text-red-400 hover:bg-red-400/10">
                             Clear
                         </button>
                     </div>
 
-                    <div className="flex items-center justify-between">
-                        <div>
-                            <p className="text-white">Re-fetch TMDB Metadata</p>
-                            <p className="text-sm text-gray-500">Clear cached data and fetch fresh metadata</p>
+                    {isAdmin && (
+                        <div className="flex items-center justify-between">
+                            <div>
+                                <p className="text-white">Review Matches</p>
+                                <p className="text-sm text-gray-500">Check titles that failed to match or matched with low confidence</p>
+                            </div>
+                            <Link to="/review" className="btn-secondary">
+                                Review
+                            </Link>
                         </div>
-                        <button onClick={handleClearTmdbCache} className="btn-secondary text-yellow-400 hover:bg-yellow-400/10">
-                            Clear Cache
-                        </button>
-                    </div>
+                    )}
+
+                    {isAdmin && (
+                        <>
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <p className="text-white">Re-fetch TMDB Metadata</p>
+                                    <p className="text-sm text-gray-500">Clear cached data and fetch fresh metadata</p>
+                                </div>
+                                <button onClick={handleClearTmdbCache} className="btn-secondary text-yellow-400 hover:bg-yellow-400/10">
+                                    Clear Cache
+                                </button>
+                            </div>
+
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <p className="text-white">Image Cache</p>
+                                    <p className="text-sm text-gray-500">
+                                        {imageCache
+                                            ? `${imageCache.files} images (${(imageCache.bytes / 1024 / 1024).toFixed(1)} MB)${imageCache.pending > 0 ? ` • ${imageCache.pending} waiting to download` : ''}`
+                                            : 'Posters, backdrops and cast photos stored locally'}
+                                    </p>
+                                </div>
+                                <button
+                                    onClick={handleRefreshImageCache}
+                                    disabled={refreshingImages || imageCache?.caching}
+                                    className="btn-secondary"
+                                >
+                                    <RefreshCw className={`w-4 h-4 ${refreshingImages ? 'animate-spin' : ''}`} />
+                                    Refresh
+                                </button>
+                            </div>
+                        </>
+                    )}
                 </div>
             </section>
 
+            <AccountSettings onMessage={showMessage} />
+
             {/* About */}
             <section>
                 <h2 className="text-xl font-semibold text-white mb-4">About</h2>
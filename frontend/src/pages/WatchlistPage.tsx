@@ -0,0 +1,99 @@
+import { Link } from 'react-router-dom';
+import { ChevronUp, ChevronDown, Play, X, Bookmark } from 'lucide-react';
+import { imageApi } from '../api/client';
+import { useWatchlist, toggleWatchlist, reorderWatchlist } from '../hooks/useWatchlist';
+import type { Media } from '../types';
+
+export default function WatchlistPage() {
+    const { media, loading } = useWatchlist();
+
+    const move = (index: number, offset: number) => {
+        const ids = media.map(m => m.id);
+        const [id] = ids.splice(index, 1);
+        ids.splice(index + offset, 0, id);
+        reorderWatchlist(ids);
+    };
+
+    const handleRemove = (item: Media) => {
+        toggleWatchlist(item.id).catch(err => console.error('Failed to remove from watchlist:', err));
+    };
+
+    return (
+        <div className="min-h-screen px-8 py-6 max-w-5xl mx-auto animate-fadeIn">
+            <h1 className="text-2xl font-bold text-white mb-2">My List</h1>
+            <p className="text-gray-400 mb-6">
+                Titles saved to watch later, in your order.
+            </p>
+
+            {loading ? (
+                <div className="space-y-2">
+                    {Array.from({ length: 4 }).map((_, i) => (
+                        <div key={i} className="h-24 rounded-lg skeleton" />
+                    ))}
+                </div>
+            ) : media.length === 0 ? (
+                <div className="flex flex-col items-center justify-center py-20 text-gray-500">
+                    <Bookmark className="w-12 h-12 mb-4" />
+                    <p>Nothing here yet. Use the bookmark button on a title to add it.</p>
+                </div>
+            ) : (
+                <ul className="space-y-2">
+                    {media.map((item, index) => (
+                        <li key={item.id} className="flex items-center gap-4 p-3 rounded-lg bg-(--bg-secondary)">
+                            <div className="flex flex-col">
+                                <button
+                                    onClick={() => move(index, -1)}
+                                    disabled={index === 0}
+                                    className="p-1 text-gray-400 hover:text-white disabled:opacity-30 transition-colors"
+                                    title="Move up"
+                                >
+                                    <ChevronUp className="w-4 h-4" />
+                                </button>
+                                <button
+                                    onClick={() => move(index, 1)}
+                                    disabled={index === media.length - 1}
+                                    className="p-1 text-gray-400 hover:text-white disabled:opacity-30 transition-colors"
+                                    title="Move down"
+                                >
+                                    <ChevronDown className="w-4 h-4" />
+                                </button>
+                            </div>
+
+                            <Link to={`/media/${item.id}`} className="flex items-center gap-4 flex-1 min-w-0 group">
+                                {item.poster_path ? (
+                                    <img
+                                        src={imageApi.getPosterThumbUrl(item.poster_path)}
+                                        alt={item.title}
+                                        className="w-12 aspect-2/3 rounded object-cover shrink-0"
+                                        loading="lazy"
+                                    />
+                                ) : (
+                                    <div className="w-12 aspect-2/3 rounded bg-gray-800 shrink-0" />
+                                )}
+                                <div className="min-w-0">
+                                    <p className="text-white truncate group-hover:text-teal-400 transition-colors">{item.title}</p>
+                                    <p className="text-sm text-gray-500 truncate">
+                                        {item.media_type === 'tv' && item.season_number && item.episode_number
+                                            ? `S${item.season_number}E${item.episode_number}${item.episode_title ? ` · ${item.episode_title}` : ''}`
+                                            : item.year}
+                                    </p>
+                                </div>
+                            </Link>
+
+                            <Link to={`/play/${item.id}`} className="p-2 text-gray-400 hover:text-white hover:bg-white/5 rounded-lg transition-colors" title="Play">
+                                <Play className="w-5 h-5" />
+                            </Link>
+                            <button
+                                onClick={() => handleRemove(item)}
+                                className="p-2 text-gray-400 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                title="Remove from My List"
+                            >
+                                <X className="w-5 h-5" />
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
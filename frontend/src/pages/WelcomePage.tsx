@@ -1,7 +1,9 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Folder, RefreshCw, Check, ArrowRight, HardDrive, ChevronRight } from 'lucide-react';
-import { settingsApi, mediaApi } from '../api/client';
+import { settingsApi } from '../api/client';
+import { useScanJob } from '../hooks/useScanJob';
+import ScanProgress from '../components/ScanProgress';
 
 interface FolderItem {
     name: string;
@@ -26,8 +28,8 @@ export default function WelcomePage() {
     const [addingPath, setAddingPath] = useState(false);
 
     // Step 3 State
-    const [scanning, setScanning] = useState(false);
     const [scanComplete, setScanComplete] = useState(false);
+    const { job: scanJob, scanning, progress: scanProgress, startScan } = useScanJob(() => setScanComplete(true));
 
     // Initial load for browsing
     const loadDrives = async () => {
@@ -70,7 +72,7 @@ export default function WelcomePage() {
         try {
             await settingsApi.addScanPath(selectedPath);
             setStep(3);
-            startScan(); // Auto-start scan
+            startScan().catch(console.error); // Auto-start scan
         } catch (err) {
             console.error(err);
             // Ideally show error toast
@@ -79,17 +81,6 @@ export default function WelcomePage() {
         }
     };
 
-    const startScan = async () => {
-        setScanning(true);
-        try {
-            await mediaApi.scan();
-            setScanComplete(true);
-        } catch (err) {
-            console.error(err);
-        } finally {
-            setScanning(false);
-        }
-    };
 
     const handleFinish = () => {
         navigate('/');
@@ -219,6 +210,12 @@ export default function WelcomePage() {
                         </p>
                     </div>
 
+                    {scanning && scanJob && (
+                        <div className="text-left">
+                            <ScanProgress job={scanJob} progress={scanProgress} />
+                        </div>
+                    )}
+
                     {scanComplete && (
                         <button
                             onClick={handleFinish}
@@ -15,6 +15,9 @@ export interface Media {
     episode_title?: string;
     tmdb_id?: number;
     tmdb_type?: string;
+    tmdb_title?: string;
+    show_id?: number | null;
+    episode_id?: number | null;
     imdb_id?: string;
     overview?: string;
     tagline?: string;
@@ -27,6 +30,7 @@ export interface Media {
     director?: string;
     rating?: number;
     vote_count?: number;
+    certification?: string | null; // e.g. PG-13 or TV-MA
     duration_seconds?: number;
     video_codec?: string;
     audio_codec?: string;
@@ -47,7 +51,30 @@ export interface Media {
     tmdb_fetched_at?: string;
     subtitle_tracks?: SubtitleTrack[];
     audio_tracks?: AudioTrack[];
+    chapters?: Chapter[];
     playback_state?: PlaybackState;
+    on_watchlist?: boolean; // Details only, for the active profile
+    collections?: Collection[]; // Details only, its franchise first
+}
+
+// Manual collection, or a TMDB franchise when tmdb_collection_id is set
+export interface Collection {
+    id: number;
+    name: string;
+    overview: string | null;
+    poster_path: string | null;
+    backdrop_path: string | null;
+    tmdb_collection_id: number | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface CollectionSummary extends Collection {
+    item_count: number;
+}
+
+export interface CollectionDetails extends Collection {
+    items: Media[];
 }
 
 export interface SubtitleTrack {
@@ -65,6 +92,8 @@ export interface SubtitleTrack {
     is_default: number;
     is_forced: number;
     is_sdh: number;
+    image_based?: boolean; // PGS/VobSub, only shown burned into the video
+    offset_ms?: number; // Subtitle delay, already applied to the served file
 }
 
 export interface AudioTrack {
@@ -82,6 +111,110 @@ export interface AudioTrack {
     is_default: number;
 }
 
+export interface Chapter {
+    id: number;
+    media_id: number;
+    chapter_index: number;
+    start_seconds: number;
+    end_seconds: number;
+    title: string | null;
+}
+
+export type MarkerType = 'intro' | 'recap' | 'credits';
+
+export interface MediaMarker {
+    id: number;
+    media_id: number;
+    type: MarkerType;
+    start_seconds: number;
+    end_seconds: number;
+    source: 'manual' | 'detected';
+}
+
+export type AccountRole = 'admin' | 'viewer';
+
+export interface Account {
+    id: number;
+    username: string;
+    role: AccountRole;
+    created_at: string;
+    last_login_at: string | null;
+}
+
+export interface Profile {
+    id: number;
+    name: string;
+    avatar_color: string;
+    max_certification: string | null; // Parental controls, null when unrestricted
+    allow_unrated: number; // 0 or 1
+    has_pin: number; // 0 or 1
+    created_at: string;
+}
+
+// Parental control fields of a profile, only admins may change them
+export interface ProfileRestrictions {
+    maxCertification?: string | null;
+    allowUnrated?: boolean;
+    pin?: string | null; // null removes the PIN
+}
+
+export type StreamMode = 'direct' | 'converted' | 'transcoded';
+
+// Sent with every playback session request, track ids are null when the default is used
+export interface SessionUpdate {
+    position?: number;
+    state?: 'playing' | 'paused';
+    streamMode?: StreamMode;
+    audioTrackId?: number | null;
+    subtitleTrackId?: number | null;
+}
+
+export interface PlaybackSession {
+    id: string;
+    userId: number;
+    profileName?: string | null;
+    mediaId: number;
+    state: 'playing' | 'paused';
+    positionSeconds: number;
+    streamMode: StreamMode;
+    audioTrackId: number | null;
+    subtitleTrackId: number | null;
+    client: {
+        name: string | null;
+        device: string | null;
+        userAgent: string | null;
+        address: string | null;
+    };
+    startedAt: string;
+    lastHeartbeat: string;
+}
+
+// Region of a sprite sheet shown as the seek preview for start..end
+export interface ThumbnailCue {
+    start: number;
+    end: number;
+    url: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ThumbnailJob {
+    mediaId: number;
+    fileName: string;
+    status: 'queued' | 'generating' | 'completed' | 'failed';
+    progress: number;
+    error?: string;
+}
+
+export interface ThumbnailStatus {
+    active: ThumbnailJob[];
+    queued: number[];
+    completed: number;
+    totalInQueue: number;
+}
+
 export interface PlaybackState {
     media_id: number;
     position_seconds: number;
@@ -102,6 +235,120 @@ export interface ScanPath {
     exists: boolean;
 }
 
+export interface ScanResult {
+    totalFiles: number;
+    newFiles: number;
+    updatedFiles: number;
+    unchangedFiles: number;
+    errors: number;
+    duration: number;
+}
+
+export interface ScanJob {
+    id: string;
+    status: 'running' | 'completed' | 'cancelled' | 'failed';
+    phase: 'discover' | 'probe' | 'cleanup' | 'enrich' | 'done';
+    force: boolean;
+    scanPath: string | null;
+    current: number;
+    total: number;
+    currentItem: string | null;
+    results: ScanResult[];
+    removed: number;
+    enriched: number;
+    error?: string;
+    startedAt: string;
+    finishedAt?: string;
+}
+
+export interface MatchCandidate {
+    tmdb_id: number;
+    tmdb_type: 'movie' | 'tv';
+    title: string;
+    original_title?: string;
+    year: number | null;
+    overview?: string;
+    poster_path?: string;
+    confidence: number;
+}
+
+export interface ReviewItem {
+    id: number;
+    file_name: string;
+    file_path: string;
+    media_type: string;
+    season_number: number | null;
+    episode_number: number | null;
+    match_method: 'auto' | 'failed';
+    parsed: {
+        title: string;
+        year: number | null;
+    };
+    match: {
+        tmdb_id: number;
+        tmdb_type: 'movie' | 'tv';
+        title: string | null;
+        year: number | null;
+        poster_path: string | null;
+        confidence: number;
+    } | null;
+}
+
+export interface Show {
+    id: number;
+    tmdb_id: number;
+    title: string;
+    original_title?: string;
+    overview?: string;
+    tagline?: string;
+    status?: string;
+    first_air_date?: string;
+    last_air_date?: string;
+    poster_path?: string;
+    backdrop_path?: string;
+    genres?: string;
+    cast_members?: string;
+    creator?: string;
+    rating?: number;
+    vote_count?: number;
+    number_of_seasons?: number;
+    number_of_episodes?: number;
+    seasons: Season[];
+}
+
+export interface Season {
+    id: number | null;
+    show_id: number;
+    season_number: number;
+    name?: string;
+    overview?: string;
+    air_date?: string;
+    poster_path?: string;
+    episode_count?: number;
+    available_count: number;
+    episodes?: Episode[];
+}
+
+export interface Episode {
+    id: number | null;
+    season_number: number;
+    episode_number: number | null;
+    title?: string;
+    overview?: string;
+    air_date?: string;
+    still_path?: string;
+    runtime?: number;
+    rating?: number;
+    vote_count?: number;
+    guest_stars?: string;
+    media_id: number | null;
+    duration_seconds?: number;
+    resolution?: string;
+    progress_seconds?: number;
+    state_total?: number;
+    completed?: number;
+}
+
 export interface CastMember {
     name: string;
     character: string;